@@ -14,12 +14,22 @@ Info, HelpCircle, ChevronRight, Rocket, Gauge, MessageSquare, Star, ArrowRightLe
 Sun, Moon, Loader2, Timer, Fuel, Check, BarChart3, ChevronDown, MousePointerClick,
 Zap as ZapIcon, FileText, Twitter, Github, LockKeyhole, BadgeCheck, Search, BookOpen, ArrowRightCircle,
 Volume2, VolumeX, Menu, ArrowUpDown, Clipboard, Wallet2, ArrowDown, Sliders, Bell, ShieldAlert,
-Wrench, Fingerprint, ShieldCheck, Clock, Scale, Landmark
+Wrench, Fingerprint, ShieldCheck, Clock, Scale, Landmark, Gift, Filter, Ban
 } from 'lucide-react';
 import { web3Service, USDC_POLYGON, USDC_BRIDGED_POLYGON, USDC_ABI } from './src/services/web3.service';
 import { lifiService, BridgeTransactionRecord } from './src/services/lifi-bridge.service';
-import { TradeHistoryEntry, ActivePosition } from './src/domain/trade.types';
-import { TraderProfile, CashoutRecord, BuilderVolumeData } from './src/domain/alpha.types';
+import { TradeHistoryEntry, ActivePosition, ExitRules, TakeProfitRung } from './src/domain/trade.types';
+import type { SizingStrategyConfig, SizingStrategyType } from './src/config/copy-strategy';
+import type { RiskLimits, RiskStatus } from './src/services/risk-manager.service';
+import type { AggregationConfig } from './src/services/trade-aggregator.service';
+import type { WithdrawalPolicyView } from './src/services/withdrawal-policy.service';
+import type { WithdrawalRecord } from './src/domain/wallet.types';
+import type { OrderRecord } from './src/domain/order.types';
+import type { CostBasisMethod } from './src/domain/trade.types';
+import type { MarketMakingPnlSummary, MarketMakingProfile, MarketMakingRules, RewardsSummary } from './src/domain/market.types';
+import { BotStreamEvent, BotStreamLogLine } from './src/domain/stream.types';
+import { authSession } from './src/services/auth-session.service';
+import { TraderProfile, TraderScoreSnapshot, CopyQualitySummary, CashoutRecord, BuilderVolumeData } from './src/domain/alpha.types';
 import { UserStats } from './src/domain/user.types';
 import { ArbitrageOpportunity } from './src/adapters/interfaces';
 import { Contract, BrowserProvider, JsonRpcProvider, formatUnits } from 'ethers';
@@ -33,6 +43,14 @@ const formatCompactNumber = (num: number): string => {
   return (num / 1000000000).toFixed(1) + 'B';
 };
 
+// Colour bucket for an outcome label; multi-outcome events use candidate names
+const outcomeTone = (outcome?: string): 'yes' | 'no' | 'other' => {
+  const label = (outcome || '').trim().toUpperCase();
+  if (label === 'YES') return 'yes';
+  if (label === 'NO') return 'no';
+  return 'other';
+};
+
 // Constants & Assets
 const CHAIN_ICONS: Record<number, string> = {
     1: "https://cryptologos.cc/logos/ethereum-eth-logo.svg?v=026",
@@ -52,6 +70,59 @@ const CHAIN_NAMES: Record<number, string> = {
     1151111081099710: "Solana"
 };
 
+// Market-making profile editor; `scale` converts the displayed unit to the stored one
+type MmToggleKey = 'preferRewardMarkets' | 'preferNewMarkets' | 'enableKillSwitch' | 'enableToxicityGuard';
+type MmNumericKey = Exclude<keyof MarketMakingProfile, MmToggleKey | 'quotingModel'>;
+const MM_PROFILE_SECTIONS: { title: string; fields: { key: MmNumericKey; label: string; step: number; scale?: number }[] }[] = [
+    { title: 'Quoting', fields: [
+        { key: 'quoteSize', label: 'Quote Size ($/side)', step: 1 },
+        { key: 'spreadOffset', label: 'Spread Offset (price)', step: 0.001 },
+        { key: 'maxPositionUsd', label: 'Max Inventory ($/token)', step: 10 },
+        { key: 'maxOpenOrdersPerToken', label: 'Max Orders / Token', step: 1 },
+        { key: 'rebalanceThreshold', label: 'Rebalance Skew (0-1)', step: 0.05 }
+    ]},
+    { title: 'Market Selection', fields: [
+        { key: 'minSpreadCents', label: 'Min Spread (¢)', step: 0.5 },
+        { key: 'maxSpreadCents', label: 'Max Spread (¢)', step: 0.5 },
+        { key: 'minVolume', label: 'Min Volume ($)', step: 100 },
+        { key: 'minLiquidity', label: 'Min Liquidity ($)', step: 100 },
+        { key: 'newMarketAgeMinutes', label: 'New Market Age (min)', step: 5 },
+        { key: 'refreshIntervalMs', label: 'Refresh Interval (min)', step: 1, scale: 60000 }
+    ]},
+    { title: 'Quoting Model (Avellaneda-Stoikov)', fields: [
+        { key: 'riskAversion', label: 'Risk Aversion (γ)', step: 0.01 },
+        { key: 'liquidityDensity', label: 'Liquidity Density (κ)', step: 10 },
+        { key: 'maxHorizonHours', label: 'Max Horizon (h)', step: 1 }
+    ]},
+    { title: 'Risk', fields: [
+        { key: 'priceMoveThresholdPct', label: 'Flash Move Kill (%)', step: 0.5 },
+        { key: 'autoMergeThreshold', label: 'Auto-Merge Above (shares)', step: 10 }
+    ]},
+    { title: 'Toxic Flow Guard', fields: [
+        { key: 'flowImbalanceThreshold', label: 'Flow Imbalance (0-1)', step: 0.05 },
+        { key: 'markoutThresholdCents', label: 'Adverse Markout (¢)', step: 0.25 },
+        { key: 'toxicSpreadMultiplier', label: 'Widen Spread (x)', step: 0.5 },
+        { key: 'toxicityCooldownMinutes', label: 'Cooldown (min)', step: 1 }
+    ]}
+];
+// Market rules editor; keyword lists are one per line so regexes may contain commas
+const MM_RULE_LISTS: { key: 'allowCategories' | 'denyCategories' | 'includeKeywords' | 'excludeKeywords'; label: string; placeholder: string; multiline?: boolean }[] = [
+    { key: 'allowCategories', label: 'Only Categories', placeholder: 'crypto, sports' },
+    { key: 'denyCategories', label: 'Never Categories', placeholder: 'politics' },
+    { key: 'includeKeywords', label: 'Question Must Match (one per line)', placeholder: 'bitcoin\n/\\bETH\\b/', multiline: true },
+    { key: 'excludeKeywords', label: 'Question Must Not Match (one per line)', placeholder: '/up or down/', multiline: true }
+];
+const MM_QUOTING_MODELS: { key: MarketMakingProfile['quotingModel']; label: string }[] = [
+    { key: 'fixed_offset', label: 'Fixed Offset' },
+    { key: 'avellaneda_stoikov', label: 'Avellaneda-Stoikov' }
+];
+const MM_PROFILE_TOGGLES: { key: MmToggleKey; label: string }[] = [
+    { key: 'preferRewardMarkets', label: 'Prefer Reward Markets' },
+    { key: 'preferNewMarkets', label: 'Prefer New Markets' },
+    { key: 'enableKillSwitch', label: 'Kill Switch' },
+    { key: 'enableToxicityGuard', label: 'Toxic Flow Guard' }
+];
+
 // --- Performance Chart Component ---
 const PerformanceChart = ({ userId, selectedRange }: { 
     userId: string;
@@ -217,6 +288,7 @@ interface EnhancedMarketCardProps {
     isBookmarked?: boolean;
     acceptingOrders?: boolean;
     orderMinSize?: number;
+    rewardYield?: number;
   };
   onExecute: (opp: any) => void;
   onBookmark: (marketId: string, isBookmarked: boolean) => void;
@@ -300,6 +372,12 @@ const EnhancedMarketCard: React.FC<EnhancedMarketCardProps> = ({
                         {opp.status?.toUpperCase() || 'UNKNOWN'}
                     </span>
                     
+                    {(opp.rewardYield || 0) > 0 && (
+                        <span className="px-2 py-1 rounded-full text-xs font-semibold bg-emerald-100 text-emerald-800 dark:bg-emerald-900/80 dark:text-emerald-200" title="Expected daily liquidity reward per $ quoted">
+                            {((opp.rewardYield || 0) * 100).toFixed(2)}%/d
+                        </span>
+                    )}
+
                     {opp.category && (
                         <span className={`px-2 py-1 rounded-full text-xs font-semibold ${getCategoryColor(opp.category)}`}>
                             {opp.category.charAt(0).toUpperCase() + opp.category.slice(1)}
@@ -673,6 +751,11 @@ userPhoneNumber: string;
 enableAutoCashout: boolean;
 maxRetentionAmount: number;
 maxTradeAmount: number; 
+sizingStrategy: SizingStrategyConfig;
+exitRules: ExitRules;
+riskLimits: RiskLimits;
+aggregation: AggregationConfig;
+costBasisMethod: CostBasisMethod;
 coldWalletAddress: string;
 enableSounds: boolean; 
 enableAutoArb: boolean;
@@ -995,18 +1078,22 @@ const WithdrawalModal = ({
     signerBalances, 
     onWithdraw, 
     isWithdrawing,
-    successTx 
+    successTx,
+    destinations
 }: { 
     isOpen: boolean; 
     onClose: () => void; 
     balances: WalletBalances; 
     signerBalances: WalletBalances;
-    onWithdraw: (tokenType: 'USDC' | 'USDC.e' | 'POL', isRescue?: boolean, targetSafe?: string) => void;
+    onWithdraw: (tokenType: 'USDC' | 'USDC.e' | 'POL', isRescue?: boolean, targetSafe?: string, options?: { amount?: string; toAddress?: string }) => void;
     isWithdrawing: boolean;
     successTx?: string | null;
+    destinations: { address: string; label: string }[]; // Main wallet + active allowlist entries
 }) => {
     const [isRescueMode, setIsRescueMode] = useState(false);
     const [customSafeAddress, setCustomSafeAddress] = useState('');
+    const [destination, setDestination] = useState('');
+    const [amounts, setAmounts] = useState<{ usdc: string; pol: string }>({ usdc: '', pol: '' });
 
     if (!isOpen) return null;
 
@@ -1095,6 +1182,20 @@ const WithdrawalModal = ({
 
                         {!isRescueMode && (
                             <div className="space-y-3">
+                                {destinations.length > 1 && (
+                                    <div>
+                                        <label className="text-[10px] font-bold text-gray-500 uppercase mb-1 block">Destination</label>
+                                        <select
+                                            value={destination}
+                                            onChange={(e) => setDestination(e.target.value)}
+                                            className="w-full bg-gray-50 dark:bg-black/20 border border-gray-200 dark:border-gray-700 rounded-lg p-2 text-xs font-mono text-gray-900 dark:text-white"
+                                        >
+                                            {destinations.map(d => (
+                                                <option key={d.address} value={d.address === destinations[0].address ? '' : d.address}>{d.label} ({d.address.slice(0, 6)}...{d.address.slice(-4)})</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                )}
                                 <div className="p-4 bg-green-50 dark:bg-green-900/10 rounded-xl border border-green-200 dark:border-green-900/30 flex justify-between items-center">
                                     <div>
                                         <div className="font-bold text-gray-900 dark:text-white flex items-center gap-2">
@@ -1104,12 +1205,19 @@ const WithdrawalModal = ({
                                     </div>
                                     <div className="text-right">
                                         <div className="font-mono font-bold text-gray-900 dark:text-white">${balances.usdcBridged || '0.00'}</div>
+                                        <input
+                                            type="number" min="0"
+                                            placeholder="All"
+                                            value={amounts.usdc}
+                                            onChange={(e) => setAmounts({ ...amounts, usdc: e.target.value })}
+                                            className="w-20 mt-1 bg-white dark:bg-black/20 border border-gray-200 dark:border-gray-700 rounded px-2 py-1 text-[10px] font-mono text-right text-gray-900 dark:text-white"
+                                        />
                                         <button 
-                                            onClick={() => onWithdraw('USDC.e')}
+                                            onClick={() => onWithdraw('USDC.e', false, undefined, { amount: amounts.usdc || undefined, toAddress: destination || undefined })}
                                             disabled={isWithdrawing || parseFloat(balances.usdcBridged || '0') <= 0}
-                                            className="text-[10px] text-green-600 hover:underline disabled:opacity-50 disabled:no-underline font-bold mt-1"
+                                            className="block ml-auto text-[10px] text-green-600 hover:underline disabled:opacity-50 disabled:no-underline font-bold mt-1"
                                         >
-                                            WITHDRAW ALL
+                                            {amounts.usdc ? 'WITHDRAW' : 'WITHDRAW ALL'}
                                         </button>
                                     </div>
                                 </div>
@@ -1142,8 +1250,15 @@ const WithdrawalModal = ({
                                     </div>
                                     <div className="text-right">
                                         <div className="font-mono font-bold text-gray-900 dark:text-white">{balances.native}</div>
+                                        <input
+                                            type="number" min="0"
+                                            placeholder="All"
+                                            value={amounts.pol}
+                                            onChange={(e) => setAmounts({ ...amounts, pol: e.target.value })}
+                                            className="w-20 mt-1 bg-white dark:bg-black/20 border border-gray-200 dark:border-gray-700 rounded px-2 py-1 text-[10px] font-mono text-right text-gray-900 dark:text-white"
+                                        />
                                         <button 
-                                            onClick={() => onWithdraw('POL')}
+                                            onClick={() => onWithdraw('POL', false, undefined, { amount: amounts.pol || undefined, toAddress: destination || undefined })}
                                             disabled={isWithdrawing || parseFloat(balances.native) <= 0}
                                             className="text-[10px] text-blue-600 hover:underline disabled:opacity-50 disabled:no-underline font-bold mt-1"
                                         >
@@ -1178,7 +1293,7 @@ const OrderManagementModal = ({
     isOpen: boolean; 
     onClose: () => void; 
     position: ActivePosition | null;
-    orders: any[];
+    orders: OrderRecord[];
  
     onCancelOrder: (orderId: string) => void;
     onRedeemWinnings: (position: ActivePosition) => void;
@@ -1224,7 +1339,9 @@ const OrderManagementModal = ({
                             const winOut = winningToken.outcome.toUpperCase();
                             const userOut = position.outcome.toUpperCase();
                             winningOutcome = winningToken.outcome;
-                            userWon = (winOut === userOut || winOut.includes(userOut));
+                            userWon = winningToken.token_id && position.tokenId
+                                ? String(winningToken.token_id) === String(position.tokenId)
+                                : winOut === userOut;
                         } else {
                             const allLosers = market.tokens.every((t: any) => t.winner === false);
                             if (allLosers) {
@@ -1275,7 +1392,7 @@ const OrderManagementModal = ({
                                 {position.question || `Market: ${position.marketId}`}
                             </p>
                             <div className="flex items-center gap-2 mt-2">
-                                <span className={`px-2 py-1 text-xs font-bold rounded ${position.outcome === 'YES' ? 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400' : 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400'}`}>
+                                <span className={`px-2 py-1 text-xs font-bold rounded ${outcomeTone(position.outcome) === 'yes' ? 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400' : outcomeTone(position.outcome) === 'no' ? 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400' : 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400'}`}>
                                     {position.outcome}
                                 </span>
                                 <span className="text-xs text-gray-500">
@@ -1303,31 +1420,44 @@ const OrderManagementModal = ({
                         {orders.length > 0 ? (
                             <div className="space-y-3">
                                 {orders.map((order) => (
-                                    <div key={order.orderID} className="bg-gray-50 dark:bg-white/5 rounded-lg p-4 border border-gray-200 dark:border-white/10">
+                                    <div key={order.clobOrderId} className="bg-gray-50 dark:bg-white/5 rounded-lg p-4 border border-gray-200 dark:border-white/10">
                                         <div className="flex justify-between items-start">
                                             <div className="flex-1">
                                                 <div className="flex items-center gap-2 mb-2">
                                                     <span className={`px-2 py-1 text-xs font-bold rounded ${order.side === 'BUY' ? 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400' : 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400'}`}>
                                                         {order.side}
                                                     </span>
-                                                    <span className="text-xs text-gray-500">
-                                                        ID: {order.orderID.slice(0, 10)}...
+                                                    <span className={`px-2 py-1 text-[10px] font-bold rounded ${order.status === 'PARTIALLY_FILLED' ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400' : 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400'}`}>
+                                                        {order.status.replace('_', ' ')}
+                                                    </span>
+                                                    <span className="text-[10px] font-bold text-gray-400 uppercase">{order.source.replace('_', ' ')}</span>
+                                                    <span className="text-xs text-gray-500" title={order.clobOrderId}>
+                                                        ID: {order.clobOrderId.slice(0, 10)}...
                                                     </span>
                                                 </div>
-                                                <div className="grid grid-cols-2 gap-4 text-sm">
+                                                <div className="grid grid-cols-3 gap-4 text-sm">
                                                     <div>
                                                         <span className="text-gray-500">Price:</span>
-                                                        <span className="ml-2 font-mono font-bold">${order.price.toFixed(2)}</span>
+                                                        <span className="ml-2 font-mono font-bold">${order.requestedPrice.toFixed(2)}</span>
+                                                    </div>
+                                                    <div>
+                                                        <span className="text-gray-500">Filled:</span>
+                                                        <span className="ml-2 font-mono font-bold">{order.filledSize.toFixed(2)} / {order.requestedSize.toFixed(2)}</span>
                                                     </div>
                                                     <div>
-                                                        <span className="text-gray-500">Size:</span>
-                                                        <span className="ml-2 font-mono font-bold">{order.size}</span>
+                                                        <span className="text-gray-500">Avg:</span>
+                                                        <span className="ml-2 font-mono font-bold">{order.filledSize > 0 ? `$${order.avgFillPrice.toFixed(3)}` : '-'}</span>
                                                     </div>
                                                 </div>
+                                                {order.fills.length > 0 && (
+                                                    <div className="mt-2 text-[10px] text-gray-500 font-mono">
+                                                        {order.fills.length} fill{order.fills.length === 1 ? '' : 's'} · last {new Date(order.fills[order.fills.length - 1].timestamp).toLocaleTimeString()}
+                                                    </div>
+                                                )}
                                             </div>
                                             <div className="ml-4">
                                                 <button 
-                                                    onClick={() => onCancelOrder(order.orderID)}
+                                                    onClick={() => onCancelOrder(order.clobOrderId)}
                                                     className="px-3 py-2 bg-red-50 dark:bg-red-900/10 hover:bg-red-100 dark:hover:bg-red-900/20 text-red-600 dark:text-red-400 text-sm font-bold rounded-lg border border-red-200 dark:border-red-900/30 transition-colors"
                                                 >
                                                     Cancel
@@ -1439,17 +1569,23 @@ const TraderDetailsModal = ({ trader, onClose }: { trader: TraderProfile, onClos
     const [trades, setTrades] = useState<PolyTrade[]>([]);
     const [loading, setLoading] = useState(true);
     const [earnings, setEarnings] = useState<any>(null);
+    const [scoreHistory, setScoreHistory] = useState<TraderScoreSnapshot[]>([]);
+    const [copyQuality, setCopyQuality] = useState<CopyQualitySummary | null>(null);
     const [userAddress, setUserAddress] = useState<string>('');
 
     useEffect(() => {
         const fetchData = async () => {
             try {
-                const [tradesRes, earningsRes] = await Promise.all([
+                const [tradesRes, earningsRes, scoresRes, qualityRes] = await Promise.all([
                     axios.get(`/api/proxy/trades/${trader.address}`),
-                    axios.get(`/api/registry/${trader.address}/earnings`)
+                    axios.get(`/api/registry/${trader.address}/earnings`),
+                    axios.get(`/api/registry/${trader.address}/scores?days=30`).catch(() => ({ data: { history: [] } })),
+                    axios.get(`/api/registry/${trader.address}/copy-quality?days=30`).catch(() => ({ data: null }))
                 ]);
                 setTrades(tradesRes.data);
                 setEarnings(earningsRes.data);
+                setScoreHistory(scoresRes.data.history || []);
+                setCopyQuality(qualityRes.data);
             } catch (e) {
                 console.error("Failed to load trader details", e);
             } finally {
@@ -1515,7 +1651,111 @@ const TraderDetailsModal = ({ trader, onClose }: { trader: TraderProfile, onClos
                         <div className="text-lg sm:text-2xl font-bold text-gray-900 dark:text-white">{trader.copyCount}</div>
                     </div>
                 </div>
+
+                {/* Scores - filled in by the registry scoring run */}
+                {trader.scores && (
+                    <div className="border-b border-gray-200 dark:border-gray-800 bg-white dark:bg-transparent px-4 sm:px-6 py-3">
+                        <div className="grid grid-cols-3 sm:grid-cols-6 gap-3 text-center">
+                            <div>
+                                <div className={`text-sm sm:text-base font-bold font-mono ${trader.scores.roiPct >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600'}`}>{trader.scores.roiPct}%</div>
+                                <div className="text-[9px] text-gray-500 uppercase">ROI</div>
+                            </div>
+                            <div>
+                                <div className="text-sm sm:text-base font-bold font-mono text-gray-900 dark:text-white">{trader.scores.consistency.toFixed(2)}</div>
+                                <div className="text-[9px] text-gray-500 uppercase">Consistency</div>
+                            </div>
+                            <div>
+                                <div className="text-sm sm:text-base font-bold font-mono text-gray-900 dark:text-white">{trader.scores.avgHoldHours.toFixed(1)}h</div>
+                                <div className="text-[9px] text-gray-500 uppercase">Avg Hold</div>
+                            </div>
+                            <div>
+                                <div className="text-sm sm:text-base font-bold text-gray-900 dark:text-white truncate" title={trader.scores.topCategory}>{trader.scores.topCategory || '-'}</div>
+                                <div className="text-[9px] text-gray-500 uppercase">{trader.scores.topCategory ? `${Math.round(trader.scores.categoryShare * 100)}% of volume` : 'Category'}</div>
+                            </div>
+                            <div>
+                                <div className="text-sm sm:text-base font-bold font-mono text-red-600 dark:text-red-400">-${trader.scores.maxDrawdown.toLocaleString()}</div>
+                                <div className="text-[9px] text-gray-500 uppercase">Max Drawdown</div>
+                            </div>
+                            <div>
+                                <div className="text-sm sm:text-base font-bold font-mono text-blue-600 dark:text-blue-400">{trader.scores.copyability}</div>
+                                <div className="text-[9px] text-gray-500 uppercase">Copyability</div>
+                            </div>
+                        </div>
+                        <div className="text-[10px] text-gray-500 mt-2 text-center">
+                            Enters around {trader.scores.avgEntryPrice.toFixed(2)} ({trader.scores.entryBand.replace('_', ' ')}) &middot; Realized ${trader.scores.realizedPnl.toLocaleString()} / Unrealized ${trader.scores.unrealizedPnl.toLocaleString()}
+                        </div>
+                        {scoreHistory.length > 1 && (
+                            <div className="h-24 mt-2">
+                                <ResponsiveContainer width="100%" height="100%">
+                                    <LineChart data={scoreHistory.map(s => ({ ...s, date: new Date(s.at).toLocaleDateString() }))} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+                                        <CartesianGrid strokeDasharray="3 3" stroke="#374151" opacity={0.1} />
+                                        <XAxis dataKey="date" tick={{ fontSize: 9, fill: '#6b7280' }} axisLine={{ stroke: '#374151', opacity: 0.2 }} />
+                                        <YAxis yAxisId="roi" tick={{ fontSize: 9, fill: '#6b7280' }} axisLine={{ stroke: '#374151', opacity: 0.2 }} tickFormatter={(value) => `${value}%`} />
+                                        <YAxis yAxisId="copy" orientation="right" domain={[0, 100]} hide />
+                                        <RechartsTooltip
+                                            contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151', borderRadius: '8px', fontSize: '11px' }}
+                                            labelStyle={{ color: '#f3f4f6' }}
+                                        />
+                                        <Line yAxisId="roi" type="monotone" dataKey="roiPct" name="ROI %" stroke="#22c55e" dot={false} strokeWidth={2} />
+                                        <Line yAxisId="copy" type="monotone" dataKey="copyability" name="Copyability" stroke="#3b82f6" dot={false} strokeWidth={2} />
+                                    </LineChart>
+                                </ResponsiveContainer>
+                            </div>
+                        )}
+                    </div>
+                )}
                 
+                {/* Copy Quality - how our copies of this wallet actually filled */}
+                {copyQuality && copyQuality.attempts > 0 && (
+                    <div className="border-b border-gray-200 dark:border-gray-800 bg-white dark:bg-transparent px-4 sm:px-6 py-3">
+                        <div className="flex items-center justify-between mb-2">
+                            <h3 className="font-bold text-gray-700 dark:text-gray-300 text-sm flex items-center gap-2"><Timer size={14}/> Copy Quality</h3>
+                            <span className="text-[10px] text-gray-500">{copyQuality.attempts} copy attempts &middot; last {copyQuality.days}d</span>
+                        </div>
+                        <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 text-center">
+                            <div>
+                                <div className={`text-sm sm:text-base font-bold font-mono ${copyQuality.slippageCents.median > 1 ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>
+                                    {copyQuality.slippageCents.samples > 0 ? `${copyQuality.slippageCents.median.toFixed(2)}¢ / ${copyQuality.slippageCents.p95.toFixed(2)}¢` : '-'}
+                                </div>
+                                <div className="text-[9px] text-gray-500 uppercase">Slippage (Median / P95)</div>
+                            </div>
+                            <div>
+                                <div className="text-sm sm:text-base font-bold font-mono text-gray-900 dark:text-white">
+                                    {copyQuality.detectionLatencyMs.samples > 0 ? `${(copyQuality.detectionLatencyMs.median / 1000).toFixed(1)}s` : '-'}
+                                </div>
+                                <div className="text-[9px] text-gray-500 uppercase">Detection Latency</div>
+                            </div>
+                            <div>
+                                <div className="text-sm sm:text-base font-bold font-mono text-gray-900 dark:text-white">
+                                    {copyQuality.aggregationDelayMs.samples > 0 ? `${(copyQuality.aggregationDelayMs.median / 1000).toFixed(1)}s` : '-'}
+                                </div>
+                                <div className="text-[9px] text-gray-500 uppercase">Aggregation Delay</div>
+                            </div>
+                            <div>
+                                <div className="text-sm sm:text-base font-bold font-mono text-gray-900 dark:text-white">
+                                    {copyQuality.executionLatencyMs.samples > 0 ? `${(copyQuality.executionLatencyMs.median / 1000).toFixed(1)}s` : '-'}
+                                </div>
+                                <div className="text-[9px] text-gray-500 uppercase">Execution Latency</div>
+                            </div>
+                            <div>
+                                <div className={`text-sm sm:text-base font-bold font-mono ${copyQuality.skipRate > 0.5 ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>
+                                    {(copyQuality.skipRate * 100).toFixed(0)}%
+                                </div>
+                                <div className="text-[9px] text-gray-500 uppercase">Skip Rate</div>
+                            </div>
+                        </div>
+                        {copyQuality.skipReasons.length > 0 && (
+                            <div className="flex flex-wrap gap-1.5 mt-2 justify-center">
+                                {copyQuality.skipReasons.slice(0, 5).map(r => (
+                                    <span key={r.reason} className="text-[10px] font-mono px-2 py-0.5 rounded bg-gray-100 dark:bg-white/5 border border-gray-200 dark:border-white/10 text-gray-600 dark:text-gray-400">
+                                        {r.reason} {(r.rate * 100).toFixed(0)}%
+                                    </span>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
+
                 {/* Earnings Section - Only show if user listed this wallet */}
                 {earnings && trader.listedBy?.toLowerCase() === userAddress.toLowerCase() && (
                     <div className="border-b border-gray-200 dark:border-gray-800 bg-green-50 dark:bg-green-900/10">
@@ -2077,7 +2317,10 @@ const [tradeHistory, setTradeHistory] = useState<TradeHistoryEntry[]>([]);
 const [activePositions, setActivePositions] = useState<ActivePosition[]>([]); 
 const [moneyMarketOpps, setMoneyMarketOpps] = useState<ArbitrageOpportunity[]>([]);
 const [stats, setStats] = useState<UserStats | null>(null);
+const [riskStatus, setRiskStatus] = useState<RiskStatus | null>(null);
+const [streamConnected, setStreamConnected] = useState(false);
 const [registry, setRegistry] = useState<TraderProfile[]>([]);
+const [registrySort, setRegistrySort] = useState<string>('');
 const [systemStats, setSystemStats] = useState<GlobalStatsResponse | null>(null);
 const [bridgeHistory, setBridgeHistory] = useState<BridgeTransactionRecord[]>([]);
 const [theme, setTheme] = useState<'light' | 'dark'>('light');
@@ -2094,6 +2337,21 @@ const [isDepositModalOpen, setIsDepositModalOpen] = useState(false);
 const [isWithdrawing, setIsWithdrawing] = useState(false);
 const [isWithdrawModalOpen, setIsWithdrawModalOpen] = useState(false);
 const [withdrawalTxHash, setWithdrawalTxHash] = useState<string | null>(null); 
+const [withdrawalPolicy, setWithdrawalPolicy] = useState<WithdrawalPolicyView | null>(null);
+const [withdrawals, setWithdrawals] = useState<WithdrawalRecord[]>([]);
+const [allowlistInput, setAllowlistInput] = useState({ address: '', label: '' });
+const [limitInputs, setLimitInputs] = useState({ dailyUsdc: '', dailyPol: '' });
+const [isSavingWithdrawalPolicy, setIsSavingWithdrawalPolicy] = useState(false);
+const [mmProfile, setMmProfile] = useState<MarketMakingProfile | null>(null);
+const [mmProfileInputs, setMmProfileInputs] = useState<Record<string, string>>({});
+const [mmProfileErrors, setMmProfileErrors] = useState<string[]>([]);
+const [isSavingMmProfile, setIsSavingMmProfile] = useState(false);
+const [mmRewards, setMmRewards] = useState<RewardsSummary | null>(null);
+const [mmPnl, setMmPnl] = useState<MarketMakingPnlSummary | null>(null);
+const [mmRules, setMmRules] = useState<MarketMakingRules | null>(null);
+const [mmRulesInputs, setMmRulesInputs] = useState<Record<string, string>>({});
+const [mmRulesErrors, setMmRulesErrors] = useState<string[]>([]);
+const [isSavingMmRules, setIsSavingMmRules] = useState(false);
 
 const [isActivating, setIsActivating] = useState(false);
 const [targetInput, setTargetInput] = useState('');
@@ -2105,7 +2363,7 @@ const [selectedTrader, setSelectedTrader] = useState<TraderProfile | null>(null)
 // --- ORDER MANAGEMENT STATE ---
 const [isOrderModalOpen, setIsOrderModalOpen] = useState(false);
 const [selectedPosition, setSelectedPosition] = useState<ActivePosition | null>(null);
-const [openOrders, setOpenOrders] = useState<any[]>([]);
+const [openOrders, setOpenOrders] = useState<OrderRecord[]>([]);
 const [exitingPositionId, setExitingPositionId] = useState<string | null>(null); // Track manual exit loading state
 const [isSyncingPositions, setIsSyncingPositions] = useState(false); //  Sync positions state
 
@@ -2134,6 +2392,8 @@ const [isAddingRecovery, setIsAddingRecovery] = useState(false);
 // --- REFS for Audio Logic ---
 const lastTradeIdRef = useRef<string | null>(null); 
 const lastLogTimestampRef = useRef<number>(0); // Track last log timestamp for failed trades
+const streamCursorRef = useRef<number | null>(null); // Last SSE event id, for resume after reconnect
+const fetchBotStatusRef = useRef<() => void>(() => {});
 
 const [config, setConfig] = useState<AppConfig>({
     targets: [],
@@ -2149,6 +2409,11 @@ const [config, setConfig] = useState<AppConfig>({
     enableAutoCashout: false,
     maxRetentionAmount: 0,
     maxTradeAmount: 100, 
+    sizingStrategy: { type: 'proportional' },
+    exitRules: {},
+    riskLimits: {},
+    aggregation: {},
+    costBasisMethod: 'FIFO',
     coldWalletAddress: '',
     enableSounds: true 
 });
@@ -2166,7 +2431,8 @@ const updateConfig = (updates: Partial<AppConfig>) => {
             const { 
                 targets, multiplier, riskProfile, minLiquidityFilter, 
                 autoTp, maxTradeAmount, enableAutoCashout, maxRetentionAmount,
-                coldWalletAddress, enableNotifications, userPhoneNumber, enableAutoArb
+                coldWalletAddress, enableNotifications, userPhoneNumber, enableAutoArb,
+                sizingStrategy, exitRules, riskLimits, aggregation, costBasisMethod
             } = newConfig;
             
             // Fire and forget the server update
@@ -2178,6 +2444,11 @@ const updateConfig = (updates: Partial<AppConfig>) => {
                 minLiquidityFilter,
                 autoTp,
                 maxTradeAmount,
+                sizingStrategy,
+                exitRules,
+                riskLimits,
+                aggregation,
+                costBasisMethod,
                 enableAutoArb,
                 autoCashout: {
                     enabled: enableAutoCashout,
@@ -2338,6 +2609,8 @@ const fetchBotStatus = useCallback(async () => {
             console.log('📊 Setting stats');
             setStats(res.data.stats);
         }
+
+        setRiskStatus(res.data.risk || null);
         
         if (res.data.mmOpportunities) {
             console.log(`💰 Setting ${res.data.mmOpportunities.length} market opportunities`);
@@ -2401,6 +2674,11 @@ const fetchBotStatus = useCallback(async () => {
                 riskProfile: serverConfig.riskProfile,
                 autoTp: serverConfig.autoTp,
                 maxTradeAmount: serverConfig.maxTradeAmount || prev.maxTradeAmount, // ADDED
+                sizingStrategy: serverConfig.sizingStrategy || prev.sizingStrategy,
+                exitRules: serverConfig.exitRules || prev.exitRules,
+                riskLimits: serverConfig.riskLimits || prev.riskLimits,
+                aggregation: serverConfig.aggregation || prev.aggregation,
+                costBasisMethod: serverConfig.costBasisMethod || prev.costBasisMethod,
                 enableNotifications: serverConfig.enableNotifications,
                 userPhoneNumber: serverConfig.userPhoneNumber,
                 enableAutoCashout: serverConfig.autoCashout?.enabled,
@@ -2428,11 +2706,114 @@ const fetchBotStatus = useCallback(async () => {
     }
 }, [isConnected, userAddress, needsActivation, activeTab, tradeHistory.length, config.enableSounds]);
 
+useEffect(() => {
+    fetchBotStatusRef.current = fetchBotStatus;
+}, [fetchBotStatus]);
+
+const fetchWithdrawalPolicy = useCallback(async () => {
+    if (!userAddress) return;
+    try {
+        const [policyRes, historyRes] = await Promise.all([
+            axios.get('/api/wallet/withdrawal-policy', { params: { userId: userAddress } }),
+            axios.get('/api/wallet/withdrawals', { params: { userId: userAddress } })
+        ]);
+        const policy: WithdrawalPolicyView = policyRes.data;
+        setWithdrawalPolicy(policy);
+        setWithdrawals(historyRes.data || []);
+        setLimitInputs({
+            dailyUsdc: policy.limits.dailyUsdc !== undefined ? String(policy.limits.dailyUsdc) : '',
+            dailyPol: policy.limits.dailyPol !== undefined ? String(policy.limits.dailyPol) : ''
+        });
+    } catch (e) {
+        console.error('Failed to load withdrawal policy', e);
+    }
+}, [userAddress]);
+
+useEffect(() => {
+    if (isConnected && !needsActivation && (activeTab === 'vault' || isWithdrawModalOpen)) fetchWithdrawalPolicy();
+}, [isConnected, needsActivation, activeTab, isWithdrawModalOpen, fetchWithdrawalPolicy]);
+
+const loadMmProfileInputs = (profile: MarketMakingProfile) => {
+    const inputs: Record<string, string> = {};
+    MM_PROFILE_SECTIONS.forEach(section => section.fields.forEach(f => {
+        inputs[f.key] = String(profile[f.key] / (f.scale || 1));
+    }));
+    setMmProfileInputs(inputs);
+};
+
+const fetchMmProfile = useCallback(async () => {
+    if (!userAddress) return;
+    try {
+        const res = await axios.get('/api/bot/mm/config', { params: { userId: userAddress } });
+        setMmProfile(res.data.config);
+        loadMmProfileInputs(res.data.config);
+        setMmProfileErrors([]);
+    } catch (e) {
+        console.error('Failed to load market-making config', e);
+    }
+}, [userAddress]);
+
+const loadMmRulesInputs = (rules: MarketMakingRules) => {
+    setMmRulesInputs({
+        allowCategories: rules.allowCategories.join(', '),
+        denyCategories: rules.denyCategories.join(', '),
+        includeKeywords: rules.includeKeywords.join('\n'),
+        excludeKeywords: rules.excludeKeywords.join('\n'),
+        minDaysToEnd: String(rules.minDaysToEnd),
+        maxActiveMarkets: String(rules.maxActiveMarkets)
+    });
+};
+
+const fetchMmRules = useCallback(async () => {
+    if (!userAddress) return;
+    try {
+        const res = await axios.get('/api/bot/mm/rules', { params: { userId: userAddress } });
+        setMmRules(res.data.rules);
+        loadMmRulesInputs(res.data.rules);
+        setMmRulesErrors([]);
+    } catch (e) {
+        console.error('Failed to load market rules', e);
+    }
+}, [userAddress]);
+
+const fetchMmRewards = useCallback(async () => {
+    if (!userAddress) return;
+    try {
+        const res = await axios.get('/api/bot/mm/rewards', { params: { userId: userAddress, days: 7 } });
+        setMmRewards(res.data);
+    } catch (e) {
+        console.error('Failed to load liquidity rewards', e);
+    }
+}, [userAddress]);
+
+const fetchMmPnl = useCallback(async () => {
+    if (!userAddress) return;
+    try {
+        const res = await axios.get('/api/bot/mm/pnl', { params: { userId: userAddress, days: 7 } });
+        setMmPnl(res.data);
+    } catch (e) {
+        console.error('Failed to load market-making PnL', e);
+    }
+}, [userAddress]);
+
+useEffect(() => {
+    if (!isConnected || needsActivation || activeTab !== 'money-market') return;
+    fetchMmProfile();
+    fetchMmRules();
+    fetchMmRewards();
+    fetchMmPnl();
+    const interval = setInterval(() => {
+        fetchMmRewards(); // Quotes are scored once a minute
+        fetchMmPnl();
+    }, 60000);
+    return () => clearInterval(interval);
+}, [isConnected, needsActivation, activeTab, fetchMmProfile, fetchMmRules, fetchMmRewards, fetchMmPnl]);
+
 useEffect(() => {
     if (!isConnected || !userAddress || needsActivation) return;
     
-    // Poll Server State
-    const interval = setInterval(fetchBotStatus, 15000);
+    // Poll Server State (only while the live stream is down)
+    const interval = streamConnected ? undefined : setInterval(fetchBotStatus, 15000);
     
     // Poll Balances (Every 10s)
     const balanceInterval = setInterval(fetchBalances, 10000);
@@ -2440,14 +2821,74 @@ useEffect(() => {
     fetchBotStatus(); // Initial
 
     return () => {
-        clearInterval(interval);
+        if (interval) clearInterval(interval);
         clearInterval(balanceInterval);
     };
-}, [isConnected, userAddress, needsActivation, activeTab, fetchBotStatus]);
+}, [isConnected, userAddress, needsActivation, activeTab, fetchBotStatus, streamConnected]);
+
+// Live push channel. Falls back to polling above whenever the stream is down.
+useEffect(() => {
+    if (!isConnected || !userAddress || needsActivation || typeof EventSource === 'undefined') return;
+
+    let source: EventSource | null = null;
+    let cancelled = false;
+
+    const handle = (raw: MessageEvent) => {
+        const event: BotStreamEvent = JSON.parse(raw.data);
+        streamCursorRef.current = event.id;
+        switch (event.type) {
+            case 'resync':
+                fetchBotStatusRef.current();
+                break;
+            case 'trade': {
+                const trade = event.data as TradeHistoryEntry;
+                setTradeHistory(prev => [trade, ...prev.filter(t => t.id !== trade.id)].slice(0, 50));
+                if (config.enableSounds && trade.status !== 'SKIPPED') playSound('trade');
+                lastTradeIdRef.current = trade.id;
+                break;
+            }
+            case 'positions':
+                setActivePositions(event.data as ActivePosition[]);
+                break;
+            case 'stats':
+                setStats(event.data as UserStats);
+                break;
+            case 'arb':
+                setMoneyMarketOpps(event.data as ArbitrageOpportunity[]);
+                break;
+            case 'log':
+                setLogs(prev => [event.data as BotStreamLogLine, ...prev].slice(0, 100));
+                break;
+            case 'cashout':
+                toast.success(`Auto-cashout: $${Number(event.data?.amount || 0).toFixed(2)}`);
+                if (config.enableSounds) playSound('cashout');
+                break;
+        }
+    };
+
+    (async () => {
+        // EventSource cannot send headers, so the SIWE session token rides in the query string
+        const token = authSession.getToken();
+        if (!token || cancelled) return;
+
+        const cursor = streamCursorRef.current !== null ? `&cursor=${streamCursorRef.current}` : '';
+        source = new EventSource(`/api/stream?token=${token}${cursor}`);
+        source.onopen = () => setStreamConnected(true);
+        // Polling takes over while the stream is reconnecting (or refused after the session expired)
+        source.onerror = () => setStreamConnected(false);
+        ['resync', 'trade', 'positions', 'stats', 'arb', 'log', 'cashout', 'fee'].forEach(type => source!.addEventListener(type, handle as EventListener));
+    })();
+
+    return () => {
+        cancelled = true;
+        source?.close();
+        setStreamConnected(false);
+    };
+}, [isConnected, userAddress, needsActivation, config.enableSounds]);
 
 useEffect(() => {
     if(isConnected && !needsActivation) fetchRegistry();
-}, [isConnected, needsActivation]);
+}, [isConnected, needsActivation, registrySort]);
 
 // --- HELPER: Fetch Balances ---
 const fetchBalances = async () => {
@@ -2544,7 +2985,7 @@ const fetchBalances = async () => {
 
 const fetchRegistry = async () => {
     try {
-        const res = await axios.get('/api/registry');
+        const res = await axios.get('/api/registry', { params: registrySort ? { sort: registrySort } : {} });
         setRegistry(res.data);
     } catch (e) {}
 };
@@ -2567,6 +3008,9 @@ const handleConnect = async () => {
         
         lifiService.setUserId(addr);
 
+        // Sign-In with Ethereum: every user route requires a session bound to this wallet
+        await authSession.ensureSession(addr);
+
         // Check Status on Server
         const res = await axios.post('/api/wallet/status', { userId: addr });
         
@@ -2591,10 +3035,10 @@ const handleConnect = async () => {
 const handleInitializeWallet = async () => {
     setIsActivating(true);
     try {
-        // Call server to create EOA wallet
-        const res = await axios.post('/api/wallet/activate', { 
-            userId: userAddress
-        });
+        // Call server to create EOA wallet (key-creating routes need a fresh signature)
+        const payload = { userId: userAddress };
+        const authorization = await authSession.signAction(userAddress, 'wallet.activate', payload);
+        const res = await axios.post('/api/wallet/activate', { ...payload, authorization });
 
         // Use safeAddress if returned, otherwise fallback to EOA address
         setProxyAddress(res.data.safeAddress || res.data.address);
@@ -2624,7 +3068,9 @@ const handleAddRecoveryOwner = async () => {
 
     setIsAddingRecovery(true);
     try {
-        const res = await axios.post('/api/wallet/add-recovery', { userId: userAddress });
+        const payload = { userId: userAddress };
+        const authorization = await authSession.signAction(userAddress, 'wallet.add-recovery', payload);
+        const res = await axios.post('/api/wallet/add-recovery', { ...payload, authorization });
         if (res.data.success) {
             setRecoveryOwnerAdded(true);
             if (config.enableSounds) playSound('success');
@@ -2809,22 +3255,29 @@ const openWithdrawModal = async () => {
     fetchBalances();
 };
 
-const handleWithdraw = async (tokenType: 'USDC' | 'USDC.e' | 'POL', isRescue: boolean = false, targetSafe?: string) => {
-    if(!confirm(`Are you sure you want to withdraw ${targetSafe ? 'RESCUE' : (isRescue ? 'RESCUE' : 'ALL')} ${tokenType}?`)) return;
+const handleWithdraw = async (tokenType: 'USDC' | 'USDC.e' | 'POL', isRescue: boolean = false, targetSafe?: string, options?: { amount?: string; toAddress?: string }) => {
+    const toAddress = options?.toAddress || userAddress; // Defaults to owner; other destinations must be allowlisted
+    const amountLabel = targetSafe || isRescue ? 'RESCUE' : (options?.amount ? options.amount : 'ALL');
+    if(!confirm(`Are you sure you want to withdraw ${amountLabel} ${tokenType}?\n\nDestination: ${toAddress}`)) return;
     setIsWithdrawing(true);
 
     try {
-        const res = await axios.post('/api/wallet/withdraw', {
+        const payload = {
             userId: userAddress,
             tokenType: tokenType,
-            toAddress: userAddress, // Send back to owner
+            toAddress,
+            amount: options?.amount || undefined, // Omitted = full balance
             forceEoa: isRescue, // Force EOA withdrawal if rescue mode
             targetSafeAddress: targetSafe // Optional: Target specific Safe
-        });
+        };
+        // Withdrawals need a fresh signature over these exact parameters
+        const authorization = await authSession.signAction(userAddress, 'wallet.withdraw', payload);
+        const res = await axios.post('/api/wallet/withdraw', { ...payload, authorization });
         
         if (res.data.success) {
             if (config.enableSounds) playSound('cashout');
             setWithdrawalTxHash(res.data.txHash);
+            fetchWithdrawalPolicy();
         } else {
                 throw new Error(res.data.error || 'Unknown error');
         }
@@ -2836,6 +3289,111 @@ const handleWithdraw = async (tokenType: 'USDC' | 'USDC.e' | 'POL', isRescue: bo
     setIsWithdrawing(false);
 };
 
+// --- MARKET MAKING PROFILE ---
+const handleSaveMmProfile = async (toggles?: Partial<MarketMakingProfile>) => {
+    if (!mmProfile) return;
+    const payload: Record<string, any> = { userId: userAddress, ...toggles };
+    MM_PROFILE_SECTIONS.forEach(section => section.fields.forEach(f => {
+        const raw = mmProfileInputs[f.key];
+        payload[f.key] = raw === '' || raw === undefined ? raw : Number(raw) * (f.scale || 1);
+    }));
+    setIsSavingMmProfile(true);
+    try {
+        const res = await axios.put('/api/bot/mm/config', payload);
+        setMmProfile(res.data.config);
+        loadMmProfileInputs(res.data.config);
+        setMmProfileErrors([]);
+        toast.success(res.data.applied ? 'Market-making config applied to the running engine' : 'Market-making config saved');
+    } catch (e: any) {
+        setMmProfileErrors(e.response?.data?.errors || []);
+        toast.error(e.response?.data?.error || e.message);
+    } finally {
+        setIsSavingMmProfile(false);
+    }
+};
+
+// --- MARKET RULES ---
+const handleSaveMmRules = async () => {
+    setIsSavingMmRules(true);
+    try {
+        const payload: Record<string, any> = { userId: userAddress, minDaysToEnd: mmRulesInputs.minDaysToEnd, maxActiveMarkets: mmRulesInputs.maxActiveMarkets };
+        MM_RULE_LISTS.forEach(l => {
+            const raw = mmRulesInputs[l.key] || '';
+            payload[l.key] = l.multiline ? raw.split('\n') : raw.split(',');
+        });
+        const res = await axios.put('/api/bot/mm/rules', payload);
+        setMmRules(res.data.rules);
+        loadMmRulesInputs(res.data.rules);
+        setMmRulesErrors([]);
+        toast.success(res.data.applied ? 'Market rules applied to the running engine' : 'Market rules saved');
+    } catch (e: any) {
+        setMmRulesErrors(e.response?.data?.errors || []);
+        toast.error(e.response?.data?.error || e.message);
+    } finally {
+        setIsSavingMmRules(false);
+    }
+};
+
+const handleBlacklistMarket = async (conditionId: string, question: string | undefined, action: 'add' | 'remove') => {
+    try {
+        const res = await axios.post('/api/bot/mm/blacklist', { userId: userAddress, conditionId, question, action });
+        setMmRules(res.data.rules);
+        toast.success(action === 'add' ? 'Market blacklisted' : 'Market removed from blacklist');
+    } catch (e: any) {
+        toast.error(e.response?.data?.error || e.message);
+    }
+};
+
+// --- WITHDRAWAL POLICY HANDLERS (each change needs a fresh wallet signature) ---
+const handleAddAllowlist = async () => {
+    if (!allowlistInput.address) return;
+    setIsSavingWithdrawalPolicy(true);
+    try {
+        const payload = { userId: userAddress, address: allowlistInput.address.trim(), label: allowlistInput.label.trim() || undefined };
+        const authorization = await authSession.signAction(userAddress, 'withdrawal.allowlist.add', payload);
+        const res = await axios.post('/api/wallet/withdrawal-policy/allowlist', { ...payload, authorization });
+        toast.success(`Destination added. Usable from ${new Date(res.data.entry.activeAt).toLocaleString()}`);
+        setAllowlistInput({ address: '', label: '' });
+        fetchWithdrawalPolicy();
+    } catch (e: any) {
+        toast.error(e.response?.data?.error || e.message);
+    } finally {
+        setIsSavingWithdrawalPolicy(false);
+    }
+};
+
+const handleRemoveAllowlist = async (address: string) => {
+    if (!confirm(`Remove ${address} from your withdrawal allowlist?`)) return;
+    try {
+        const payload = { userId: userAddress, address };
+        const authorization = await authSession.signAction(userAddress, 'withdrawal.allowlist.remove', payload);
+        await axios.post('/api/wallet/withdrawal-policy/allowlist/remove', { ...payload, authorization });
+        toast.success('Destination removed');
+        fetchWithdrawalPolicy();
+    } catch (e: any) {
+        toast.error(e.response?.data?.error || e.message);
+    }
+};
+
+const handleSaveWithdrawalLimits = async () => {
+    setIsSavingWithdrawalPolicy(true);
+    try {
+        const payload = {
+            userId: userAddress,
+            dailyUsdc: limitInputs.dailyUsdc ? Number(limitInputs.dailyUsdc) : null,
+            dailyPol: limitInputs.dailyPol ? Number(limitInputs.dailyPol) : null
+        };
+        const authorization = await authSession.signAction(userAddress, 'withdrawal.limits', payload);
+        const res = await axios.post('/api/wallet/withdrawal-policy/limits', { ...payload, authorization });
+        toast.success(res.data.policy?.pendingLimits ? 'Higher limits staged (active after 24h)' : 'Withdrawal limits updated');
+        fetchWithdrawalPolicy();
+    } catch (e: any) {
+        toast.error(e.response?.data?.error || e.message);
+    } finally {
+        setIsSavingWithdrawalPolicy(false);
+    }
+};
+
 const handleExecuteMM = async (opp: ArbitrageOpportunity) => {
     // This is a MANUAL override command sent to the server engine (Market Making)
     if (!confirm(`Manually Provide Liquidity?\n\nMarket: ${opp.question}\nSpread: ${(opp.spread * 100).toFixed(1)}¢`)) return;
@@ -2847,21 +3405,23 @@ const handleExecuteMM = async (opp: ArbitrageOpportunity) => {
 };
 
 // --- MANUAL EXIT HANDLER ---
-const handleManualExit = async (position: ActivePosition) => {
-    if(!confirm(`Are you sure you want to SELL/EXIT this position?\n\nMarket: ${position.marketId}\nOutcome: ${position.outcome}\n\nThis will trigger an immediate Market Sell order for your full position size.`)) return;
+const handleManualExit = async (position: ActivePosition, percent = 100) => {
+    const sizeText = percent < 100 ? `${percent}% of your position (min order size applies)` : 'your full position size';
+    if(!confirm(`Are you sure you want to SELL/EXIT this position?\n\nMarket: ${position.marketId}\nOutcome: ${position.outcome}\n\nThis will trigger an immediate Market Sell order for ${sizeText}.`)) return;
     
     setExitingPositionId(position.marketId + position.outcome);
     try {
         const res = await axios.post('/api/trade/exit', {
             userId: userAddress,
             marketId: position.marketId,
-            outcome: position.outcome
+            outcome: position.outcome,
+            ...(percent < 100 ? { percent } : {})
         });
 
         if (res.data.success) {
             alert("✅ Sell Order Submitted!");
-            // Optimistic UI update: Remove position immediately
-            setActivePositions(prev => prev.filter(p => !(p.marketId === position.marketId && p.outcome === position.outcome)));
+            // Optimistic UI update: Remove position immediately; partial exits arrive with the positions update
+            if (percent >= 100) setActivePositions(prev => prev.filter(p => !(p.marketId === position.marketId && p.outcome === position.outcome)));
         } else {
             alert("Exit Failed: " + res.data.error);
         }
@@ -2891,6 +3451,11 @@ const handleStart = async () => {
         riskProfile: config.riskProfile,
         autoTp: config.autoTp,
         maxTradeAmount: config.maxTradeAmount, // ADDED
+        sizingStrategy: config.sizingStrategy,
+        exitRules: config.exitRules,
+        riskLimits: config.riskLimits,
+        aggregation: config.aggregation,
+        costBasisMethod: config.costBasisMethod,
         notifications: {
             enabled: config.enableNotifications,
             phoneNumber: config.userPhoneNumber
@@ -2949,7 +3514,7 @@ const handleOpenOrderModal = async (position: ActivePosition) => {
     // Fetch open orders for this position
     try {
         const res = await axios.get(`/api/orders/open?userId=${userAddress}`);
-        const positionOrders = res.data.orders?.filter((order: any) => 
+        const positionOrders = res.data.orders?.filter((order: OrderRecord) => 
             order.tokenId === position.tokenId
         ) || [];
         setOpenOrders(positionOrders);
@@ -2994,7 +3559,8 @@ const handleRedeemWinnings = async (position: ActivePosition) => {
         const res = await axios.post('/api/redeem', {
             userId: userAddress,
             marketId: position.marketId,
-            outcome: position.outcome
+            outcome: position.outcome,
+            tokenId: position.tokenId
         });
         
         if (res.data.success) {
@@ -3560,7 +4126,7 @@ return (
                                                         <div className="grid grid-cols-2 gap-2 bg-gray-50 dark:bg-black/20 p-2 rounded-lg mb-3">
                                                             <div>
                                                                 <div className="text-[10px] text-gray-500 uppercase font-bold">Outcome</div>
-                                                                <div className={`font-bold ${pos.outcome === 'YES' ? 'text-green-600' : 'text-red-600'}`}>{pos.outcome}</div>
+                                                                <div className={`font-bold ${outcomeTone(pos.outcome) === 'yes' ? 'text-green-600' : outcomeTone(pos.outcome) === 'no' ? 'text-red-600' : 'text-blue-600'} truncate`} title={pos.outcome}>{pos.outcome}</div>
                                                             </div>
                                                             <div className="text-right">
                                                                 <div className="text-[10px] text-gray-500 uppercase font-bold">Value</div>
@@ -3606,6 +4172,14 @@ return (
                                                                             <Activity size={10}/>
                                                                             ORDERS
                                                                         </button>
+                                                                        <button 
+                                                                            onClick={() => handleManualExit(pos, 50)}
+                                                                            disabled={exitingPositionId === (safeMarketId + pos.outcome)}
+                                                                            className="px-2 py-1.5 bg-red-50 dark:bg-red-900/10 hover:bg-red-100 dark:hover:bg-red-900/20 text-red-600 dark:text-red-400 text-[10px] font-bold rounded border border-red-200 dark:border-red-900/30 transition-colors"
+                                                                            title="Sell half of this position"
+                                                                        >
+                                                                            50%
+                                                                        </button>
                                                                         <button 
                                                                             onClick={() => handleManualExit(pos)}
                                                                             disabled={exitingPositionId === (safeMarketId + pos.outcome)}
@@ -3644,7 +4218,7 @@ return (
                                                                 {trade.side}
                                                             </span>
                                                             <div className="flex flex-col min-w-0">
-                                                                <span className="font-bold text-gray-900 dark:text-white truncate max-w-[100px]">{trade.outcome}</span>
+                                                                <span className="font-bold text-gray-900 dark:text-white truncate max-w-[100px]" title={trade.outcome}>{trade.outcome}</span>
                                                                 <span className="text-[10px] text-gray-500" title={tradeId}>
                                                                     {tradeId.length > 10 ? tradeId.slice(0, 10) + '...' : tradeId}
                                                                 </span>
@@ -3730,6 +4304,357 @@ return (
                     </div>
                 </div>
 
+                {/* Market-making profile */}
+                {mmProfile && (
+                    <div className="glass-panel p-6 rounded-3xl border border-white/10 space-y-6">
+                        <div className="flex items-center justify-between">
+                            <div className="flex items-center gap-3">
+                                <div className="p-2 bg-emerald-500/10 rounded-xl text-emerald-500"><Settings size={18}/></div>
+                                <div>
+                                    <h3 className="text-lg font-bold text-gray-900 dark:text-white">Market Making Profile</h3>
+                                    <p className="text-xs text-slate-500">Applied live to a running engine; no restart needed</p>
+                                </div>
+                            </div>
+                            <button
+                                onClick={() => loadMmProfileInputs(mmProfile)}
+                                className="text-xs text-slate-500 hover:text-emerald-500 transition-colors"
+                            >
+                                Reset
+                            </button>
+                        </div>
+
+                        <div className="space-y-2">
+                            <div className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Quoting Model</div>
+                            <div className="flex flex-wrap gap-3">
+                                {MM_QUOTING_MODELS.map(m => (
+                                    <button
+                                        key={m.key}
+                                        disabled={isSavingMmProfile || mmProfile.quotingModel === m.key}
+                                        onClick={() => handleSaveMmProfile({ quotingModel: m.key })}
+                                        className={`px-3 py-1.5 text-xs font-bold rounded-lg border transition-all ${mmProfile.quotingModel === m.key ? 'bg-emerald-500/10 border-emerald-500/40 text-emerald-500' : 'border-white/10 text-slate-500'}`}
+                                    >
+                                        {m.label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        {MM_PROFILE_SECTIONS.map(section => (
+                            <div key={section.title} className="space-y-3">
+                                <div className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{section.title}</div>
+                                <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                                    {section.fields.map(f => (
+                                        <label key={f.key} className="space-y-1">
+                                            <span className="text-[10px] text-gray-500 dark:text-slate-400 uppercase">{f.label}</span>
+                                            <input
+                                                type="number"
+                                                step={f.step}
+                                                value={mmProfileInputs[f.key] ?? ''}
+                                                onChange={e => setMmProfileInputs(prev => ({ ...prev, [f.key]: e.target.value }))}
+                                                className="w-full bg-white dark:bg-black/40 border border-gray-200 dark:border-white/10 rounded-lg px-3 py-2 text-sm font-mono text-gray-900 dark:text-white outline-none focus:border-emerald-500"
+                                            />
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+
+                        <div className="flex flex-wrap gap-3">
+                            {MM_PROFILE_TOGGLES.map(t => (
+                                <button
+                                    key={t.key}
+                                    disabled={isSavingMmProfile}
+                                    onClick={() => handleSaveMmProfile({ [t.key]: !mmProfile[t.key] })}
+                                    className={`px-3 py-1.5 text-xs font-bold rounded-lg border transition-all ${mmProfile[t.key] ? 'bg-emerald-500/10 border-emerald-500/40 text-emerald-500' : 'border-white/10 text-slate-500'}`}
+                                >
+                                    {t.label}: {mmProfile[t.key] ? 'ON' : 'OFF'}
+                                </button>
+                            ))}
+                        </div>
+
+                        {mmProfileErrors.length > 0 && (
+                            <ul className="text-xs text-red-500 space-y-1 list-disc pl-5">
+                                {mmProfileErrors.map(err => <li key={err}>{err}</li>)}
+                            </ul>
+                        )}
+
+                        <button
+                            onClick={() => handleSaveMmProfile()}
+                            disabled={isSavingMmProfile}
+                            className="w-full py-3 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 text-white font-bold rounded-xl transition-all"
+                        >
+                            {isSavingMmProfile ? 'Saving...' : 'Save Profile'}
+                        </button>
+                    </div>
+                )}
+
+                {/* Market rules: which markets the scanner may quote */}
+                {mmRules && (
+                    <div className="glass-panel p-6 rounded-3xl border border-white/10 space-y-5">
+                        <div className="flex items-center justify-between">
+                            <div className="flex items-center gap-3">
+                                <div className="p-2 bg-emerald-500/10 rounded-xl text-emerald-500"><Filter size={18}/></div>
+                                <div>
+                                    <h3 className="text-lg font-bold text-gray-900 dark:text-white">Market Rules</h3>
+                                    <p className="text-xs text-slate-500">Excluded markets are dropped and their quotes cancelled</p>
+                                </div>
+                            </div>
+                            <button
+                                onClick={() => loadMmRulesInputs(mmRules)}
+                                className="text-xs text-slate-500 hover:text-emerald-500 transition-colors"
+                            >
+                                Reset
+                            </button>
+                        </div>
+
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                            {MM_RULE_LISTS.map(l => (
+                                <label key={l.key} className="space-y-1">
+                                    <span className="text-[10px] text-gray-500 dark:text-slate-400 uppercase">{l.label}</span>
+                                    {l.multiline ? (
+                                        <textarea
+                                            rows={3}
+                                            placeholder={l.placeholder}
+                                            value={mmRulesInputs[l.key] ?? ''}
+                                            onChange={e => setMmRulesInputs(prev => ({ ...prev, [l.key]: e.target.value }))}
+                                            className="w-full bg-white dark:bg-black/40 border border-gray-200 dark:border-white/10 rounded-lg px-3 py-2 text-sm font-mono text-gray-900 dark:text-white outline-none focus:border-emerald-500"
+                                        />
+                                    ) : (
+                                        <input
+                                            type="text"
+                                            placeholder={l.placeholder}
+                                            value={mmRulesInputs[l.key] ?? ''}
+                                            onChange={e => setMmRulesInputs(prev => ({ ...prev, [l.key]: e.target.value }))}
+                                            className="w-full bg-white dark:bg-black/40 border border-gray-200 dark:border-white/10 rounded-lg px-3 py-2 text-sm font-mono text-gray-900 dark:text-white outline-none focus:border-emerald-500"
+                                        />
+                                    )}
+                                </label>
+                            ))}
+                            {([
+                                ['minDaysToEnd', 'Min Days To End', '0.5'],
+                                ['maxActiveMarkets', 'Max Active Markets (0 = no limit)', '1']
+                            ] as [string, string, string][]).map(([key, label, step]) => (
+                                <label key={key} className="space-y-1">
+                                    <span className="text-[10px] text-gray-500 dark:text-slate-400 uppercase">{label}</span>
+                                    <input
+                                        type="number"
+                                        step={step}
+                                        value={mmRulesInputs[key] ?? ''}
+                                        onChange={e => setMmRulesInputs(prev => ({ ...prev, [key]: e.target.value }))}
+                                        className="w-full bg-white dark:bg-black/40 border border-gray-200 dark:border-white/10 rounded-lg px-3 py-2 text-sm font-mono text-gray-900 dark:text-white outline-none focus:border-emerald-500"
+                                    />
+                                </label>
+                            ))}
+                        </div>
+
+                        {mmRulesErrors.length > 0 && (
+                            <ul className="text-xs text-red-500 space-y-1 list-disc pl-5">
+                                {mmRulesErrors.map(err => <li key={err}>{err}</li>)}
+                            </ul>
+                        )}
+
+                        <button
+                            onClick={handleSaveMmRules}
+                            disabled={isSavingMmRules}
+                            className="w-full py-3 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 text-white font-bold rounded-xl transition-all"
+                        >
+                            {isSavingMmRules ? 'Saving...' : 'Save Rules'}
+                        </button>
+
+                        <div className="space-y-2">
+                            <div className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Blacklist ({mmRules.blacklist.length})</div>
+                            {mmRules.blacklist.length > 0 ? mmRules.blacklist.map(entry => (
+                                <div key={entry.conditionId} className="flex items-center justify-between p-3 rounded-xl bg-white/5 border border-white/10">
+                                    <div className="min-w-0">
+                                        <div className="text-xs text-gray-900 dark:text-white truncate" title={entry.conditionId}>{entry.question || entry.conditionId}</div>
+                                        <div className="text-[10px] text-slate-500">
+                                            {new Date(entry.addedAt).toLocaleDateString()}{entry.reason ? ` · ${entry.reason}` : ''}
+                                        </div>
+                                    </div>
+                                    <button
+                                        onClick={() => handleBlacklistMarket(entry.conditionId, entry.question, 'remove')}
+                                        className="p-2 hover:bg-red-500/10 rounded-lg text-slate-500 hover:text-red-500 transition-colors"
+                                    >
+                                        <Trash2 size={14}/>
+                                    </button>
+                                </div>
+                            )) : (
+                                <p className="text-xs text-slate-500">No blacklisted markets. Blacklist a market from the PnL table below.</p>
+                            )}
+                        </div>
+                    </div>
+                )}
+
+                {/* Liquidity rewards: estimated from our quote scoring vs. paid by the exchange */}
+                {mmRewards && (() => {
+                    const liveDaily = mmRewards.live.reduce((sum, q) => sum + q.expectedDailyUsd, 0);
+                    const liveQuoted = mmRewards.live.reduce((sum, q) => sum + q.quotedUsd, 0);
+                    return (
+                        <div className="glass-panel p-6 rounded-3xl border border-white/10 space-y-5">
+                            <div className="flex items-center justify-between">
+                                <div className="flex items-center gap-3">
+                                    <div className="p-2 bg-emerald-500/10 rounded-xl text-emerald-500"><Gift size={18}/></div>
+                                    <div>
+                                        <h3 className="text-lg font-bold text-gray-900 dark:text-white">Liquidity Rewards</h3>
+                                        <p className="text-xs text-slate-500">Last {mmRewards.days} days · estimated vs. received</p>
+                                    </div>
+                                </div>
+                                <button onClick={fetchMmRewards} className="p-2 hover:bg-white/5 rounded-xl border border-white/10">
+                                    <RefreshCw size={14} className="text-slate-500"/>
+                                </button>
+                            </div>
+
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                                <div className="p-3 rounded-xl bg-white/5 border border-white/10">
+                                    <div className="text-[10px] text-slate-500 uppercase">Estimated</div>
+                                    <div className="text-lg font-mono font-bold text-gray-900 dark:text-white">${mmRewards.totals.estimatedUsd.toFixed(2)}</div>
+                                </div>
+                                <div className="p-3 rounded-xl bg-white/5 border border-white/10">
+                                    <div className="text-[10px] text-slate-500 uppercase">Received</div>
+                                    <div className="text-lg font-mono font-bold text-emerald-500">${mmRewards.totals.receivedUsd.toFixed(2)}</div>
+                                </div>
+                                <div className="p-3 rounded-xl bg-white/5 border border-white/10">
+                                    <div className="text-[10px] text-slate-500 uppercase">Live Est. / Day</div>
+                                    <div className="text-lg font-mono font-bold text-gray-900 dark:text-white">${liveDaily.toFixed(2)}</div>
+                                </div>
+                                <div className="p-3 rounded-xl bg-white/5 border border-white/10">
+                                    <div className="text-[10px] text-slate-500 uppercase">Reward Yield / Day</div>
+                                    <div className="text-lg font-mono font-bold text-gray-900 dark:text-white">
+                                        {liveQuoted > 0 ? `${(liveDaily / liveQuoted * 100).toFixed(2)}%` : '--'}
+                                    </div>
+                                </div>
+                            </div>
+
+                            {mmRewards.live.length > 0 && (
+                                <div className="space-y-2">
+                                    <div className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Resting Quotes</div>
+                                    {mmRewards.live.map(q => (
+                                        <div key={q.tokenId} className="flex items-center justify-between text-xs p-2 rounded-lg bg-white/5">
+                                            <span className="truncate max-w-[55%] text-gray-700 dark:text-slate-300">{q.question || q.conditionId.slice(0, 10)}</span>
+                                            <div className="flex items-center gap-2">
+                                                <span className={`px-2 py-0.5 rounded font-bold ${q.qualifies ? 'bg-emerald-500/10 text-emerald-500' : 'bg-red-500/10 text-red-500'}`} title={q.reason}>
+                                                    {q.qualifies ? (q.twoSided ? 'SCORING 2-SIDED' : 'SCORING 1-SIDED') : (q.reason || 'NOT SCORING').replace(/_/g, ' ').toUpperCase()}
+                                                </span>
+                                                <span className="font-mono text-gray-900 dark:text-white">${q.expectedDailyUsd.toFixed(2)}/d</span>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+
+                            {mmRewards.byMarket.length > 0 ? (
+                                <div className="overflow-x-auto">
+                                    <table className="w-full text-xs">
+                                        <thead>
+                                            <tr className="text-slate-500 uppercase text-[10px]">
+                                                <th className="text-left py-2">Market</th>
+                                                <th className="text-right">Qualifying</th>
+                                                <th className="text-right">Estimated</th>
+                                                <th className="text-right">Received</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {mmRewards.byMarket.map(m => (
+                                                <tr key={m.conditionId} className="border-t border-white/5">
+                                                    <td className="py-2 truncate max-w-[200px] text-gray-700 dark:text-slate-300">{m.question || m.conditionId.slice(0, 10)}</td>
+                                                    <td className="text-right font-mono text-slate-500">{m.samples > 0 ? `${Math.round(m.qualifyingSamples / m.samples * 100)}%` : '--'}</td>
+                                                    <td className="text-right font-mono text-gray-900 dark:text-white">${m.estimatedUsd.toFixed(2)}</td>
+                                                    <td className="text-right font-mono text-emerald-500">{m.receivedUsd ? `$${m.receivedUsd.toFixed(2)}` : '--'}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            ) : (
+                                <p className="text-xs text-slate-500 text-center">No reward activity yet. Quotes inside a market's max spread start accruing within a minute.</p>
+                            )}
+                        </div>
+                    );
+                })()}
+
+                {/* Market-making PnL per market: spread, merges, redemptions, rewards and inventory marks */}
+                {mmPnl && (
+                    <div className="glass-panel p-6 rounded-3xl border border-white/10 space-y-5">
+                        <div className="flex items-center justify-between">
+                            <div className="flex items-center gap-3">
+                                <div className="p-2 bg-blue-500/10 rounded-xl text-blue-500"><Scale size={18}/></div>
+                                <div>
+                                    <h3 className="text-lg font-bold text-gray-900 dark:text-white">Market-Making PnL</h3>
+                                    <p className="text-xs text-slate-500">Last {mmPnl.days} days · worst markets first</p>
+                                </div>
+                            </div>
+                            <button onClick={fetchMmPnl} className="p-2 hover:bg-white/5 rounded-xl border border-white/10">
+                                <RefreshCw size={14} className="text-slate-500"/>
+                            </button>
+                        </div>
+
+                        <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+                            {([
+                                ['Spread', mmPnl.totals.spreadUsd],
+                                ['Merges', mmPnl.totals.mergeUsd],
+                                ['Redemptions', mmPnl.totals.redemptionUsd],
+                                ['Rewards', mmPnl.totals.rewardsUsd],
+                                ['Inventory MTM', mmPnl.totals.unrealizedUsd],
+                                ['Net', mmPnl.totals.netUsd]
+                            ] as [string, number][]).map(([label, value]) => (
+                                <div key={label} className="p-3 rounded-xl bg-white/5 border border-white/10">
+                                    <div className="text-[10px] text-slate-500 uppercase">{label}</div>
+                                    <div className={`text-lg font-mono font-bold ${value >= 0 ? 'text-emerald-500' : 'text-red-500'}`}>
+                                        {value >= 0 ? '+' : '-'}${Math.abs(value).toFixed(2)}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+
+                        {mmPnl.byMarket.length > 0 ? (
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-xs">
+                                    <thead>
+                                        <tr className="text-slate-500 uppercase text-[10px]">
+                                            <th className="text-left py-2">Market</th>
+                                            <th className="text-right">Spread</th>
+                                            <th className="text-right">Merge</th>
+                                            <th className="text-right">Redeem</th>
+                                            <th className="text-right">Rewards</th>
+                                            <th className="text-right">MTM</th>
+                                            <th className="text-right">Net</th>
+                                            <th className="text-right">Losing Days</th>
+                                            <th></th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {mmPnl.byMarket.map(m => (
+                                            <tr key={m.conditionId} className="border-t border-white/5">
+                                                <td className="py-2 truncate max-w-[200px] text-gray-700 dark:text-slate-300" title={m.conditionId}>{m.question || m.conditionId.slice(0, 10)}</td>
+                                                <td className="text-right font-mono text-gray-900 dark:text-white">${m.spreadUsd.toFixed(2)}</td>
+                                                <td className="text-right font-mono text-gray-900 dark:text-white">${m.mergeUsd.toFixed(2)}</td>
+                                                <td className="text-right font-mono text-gray-900 dark:text-white">${m.redemptionUsd.toFixed(2)}</td>
+                                                <td className="text-right font-mono text-emerald-500">${m.rewardsUsd.toFixed(2)}</td>
+                                                <td className="text-right font-mono text-slate-500">${m.unrealizedUsd.toFixed(2)}</td>
+                                                <td className={`text-right font-mono font-bold ${m.netUsd >= 0 ? 'text-emerald-500' : 'text-red-500'}`}>${m.netUsd.toFixed(2)}</td>
+                                                <td className={`text-right font-mono ${m.losingDays > m.days / 2 ? 'text-red-500' : 'text-slate-500'}`}>{m.losingDays}/{m.days}</td>
+                                                <td className="text-right">
+                                                    {!mmRules?.blacklist.some(b => b.conditionId === m.conditionId) && (
+                                                        <button
+                                                            title="Blacklist market"
+                                                            onClick={() => handleBlacklistMarket(m.conditionId, m.question, 'add')}
+                                                            className="p-1 text-slate-500 hover:text-red-500 transition-colors"
+                                                        >
+                                                            <Ban size={12}/>
+                                                        </button>
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        ) : (
+                            <p className="text-xs text-slate-500 text-center">No market-making fills yet.</p>
+                        )}
+                    </div>
+                )}
+
                 <MoneyMarketFeed 
     opportunities={moneyMarketOpps} 
     onExecute={handleExecuteMM} 
@@ -4399,6 +5324,149 @@ return (
                     </div>
                 </div>
 
+                {/* Withdrawal Policy Section */}
+                <div className="mb-8 glass-panel p-6 md:p-8 rounded-3xl border border-gray-200 dark:border-slate-700 bg-white/50 dark:bg-slate-900/50">
+                    <div className="flex items-center gap-3 mb-6">
+                        <div className="p-2.5 bg-gray-900 dark:bg-white/10 rounded-xl">
+                            <Lock className="text-white" size={20}/>
+                        </div>
+                        <div>
+                            <h3 className="text-l font-black text-gray-900 dark:text-white tracking-tight uppercase">Withdrawal Policy</h3>
+                            <p className="text-[10px] text-gray-500">New destinations and higher limits take effect after a 24h cooling period. Your main wallet is always allowed.</p>
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                        {/* Allowlist */}
+                        <div className="space-y-3">
+                            <h4 className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">Destination Allowlist</h4>
+                            <div className="space-y-2">
+                                {(withdrawalPolicy?.allowlist || []).length === 0 && (
+                                    <p className="text-xs text-gray-400 italic">No extra destinations. Withdrawals go to your main wallet only.</p>
+                                )}
+                                {(withdrawalPolicy?.allowlist || []).map(entry => (
+                                    <div key={entry.address} className="flex items-center justify-between p-2.5 bg-gray-50 dark:bg-black/20 rounded-lg border border-gray-200 dark:border-white/5">
+                                        <div className="min-w-0">
+                                            <div className="text-xs font-bold text-gray-900 dark:text-white truncate">{entry.label || 'Unlabelled'}</div>
+                                            <div className="text-[10px] font-mono text-gray-500 truncate" title={entry.address}>{entry.address}</div>
+                                        </div>
+                                        <div className="flex items-center gap-2 shrink-0">
+                                            {entry.activeAt <= Date.now() ? (
+                                                <span className="text-[9px] font-bold px-2 py-0.5 rounded bg-green-100 dark:bg-green-900/30 text-green-600">ACTIVE</span>
+                                            ) : (
+                                                <span className="text-[9px] font-bold px-2 py-0.5 rounded bg-yellow-100 dark:bg-yellow-900/30 text-yellow-600 flex items-center gap-1">
+                                                    <Clock size={10}/> Cooling until {new Date(entry.activeAt).toLocaleString()}
+                                                </span>
+                                            )}
+                                            <button onClick={() => handleRemoveAllowlist(entry.address)} className="p-1 text-gray-400 hover:text-red-500" title="Remove">
+                                                <Trash2 size={14}/>
+                                            </button>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                            <div className="flex flex-col sm:flex-row gap-2">
+                                <input
+                                    type="text"
+                                    placeholder="0x... destination"
+                                    value={allowlistInput.address}
+                                    onChange={(e) => setAllowlistInput({ ...allowlistInput, address: e.target.value })}
+                                    className="flex-1 bg-white dark:bg-black/20 border border-gray-200 dark:border-gray-700 rounded-lg px-3 py-2 text-xs font-mono text-gray-900 dark:text-white"
+                                />
+                                <input
+                                    type="text"
+                                    placeholder="Label"
+                                    value={allowlistInput.label}
+                                    onChange={(e) => setAllowlistInput({ ...allowlistInput, label: e.target.value })}
+                                    className="sm:w-28 bg-white dark:bg-black/20 border border-gray-200 dark:border-gray-700 rounded-lg px-3 py-2 text-xs text-gray-900 dark:text-white"
+                                />
+                                <button
+                                    onClick={handleAddAllowlist}
+                                    disabled={isSavingWithdrawalPolicy || !allowlistInput.address}
+                                    className="px-3 py-2 bg-gray-900 dark:bg-white text-white dark:text-black rounded-lg text-xs font-bold disabled:opacity-50 flex items-center justify-center gap-1"
+                                >
+                                    <PlusCircle size={12}/> ADD
+                                </button>
+                            </div>
+                        </div>
+
+                        {/* Daily Limits */}
+                        <div className="space-y-3">
+                            <h4 className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">Daily Limits (rolling 24h)</h4>
+                            <div className="grid grid-cols-2 gap-3">
+                                <div>
+                                    <label className="text-[10px] font-bold text-gray-500 uppercase mb-1 block">USDC</label>
+                                    <input
+                                        type="number" min="0"
+                                        placeholder="No limit"
+                                        value={limitInputs.dailyUsdc}
+                                        onChange={(e) => setLimitInputs({ ...limitInputs, dailyUsdc: e.target.value })}
+                                        className="w-full bg-white dark:bg-black/20 border border-gray-200 dark:border-gray-700 rounded-lg px-3 py-2 text-xs font-mono text-gray-900 dark:text-white"
+                                    />
+                                    <div className="text-[9px] text-gray-400 mt-1">Used: ${(withdrawalPolicy?.usedToday.usdc || 0).toFixed(2)}</div>
+                                </div>
+                                <div>
+                                    <label className="text-[10px] font-bold text-gray-500 uppercase mb-1 block">POL</label>
+                                    <input
+                                        type="number" min="0"
+                                        placeholder="No limit"
+                                        value={limitInputs.dailyPol}
+                                        onChange={(e) => setLimitInputs({ ...limitInputs, dailyPol: e.target.value })}
+                                        className="w-full bg-white dark:bg-black/20 border border-gray-200 dark:border-gray-700 rounded-lg px-3 py-2 text-xs font-mono text-gray-900 dark:text-white"
+                                    />
+                                    <div className="text-[9px] text-gray-400 mt-1">Used: {(withdrawalPolicy?.usedToday.pol || 0).toFixed(4)} POL</div>
+                                </div>
+                            </div>
+                            {withdrawalPolicy?.pendingLimits && (
+                                <div className="p-2.5 rounded-lg bg-yellow-50 dark:bg-yellow-900/10 border border-yellow-200 dark:border-yellow-500/20 text-[10px] text-yellow-700 dark:text-yellow-400 flex items-center gap-2">
+                                    <Clock size={12}/>
+                                    Staged: USDC {withdrawalPolicy.pendingLimits.dailyUsdc ?? 'no limit'} / POL {withdrawalPolicy.pendingLimits.dailyPol ?? 'no limit'} from {new Date(withdrawalPolicy.pendingLimits.activeAt).toLocaleString()}
+                                </div>
+                            )}
+                            <button
+                                onClick={handleSaveWithdrawalLimits}
+                                disabled={isSavingWithdrawalPolicy}
+                                className="w-full py-2 bg-gray-900 dark:bg-white text-white dark:text-black rounded-lg text-xs font-bold disabled:opacity-50 flex items-center justify-center gap-2"
+                            >
+                                {isSavingWithdrawalPolicy ? <Loader2 size={12} className="animate-spin"/> : <Save size={12}/>} SAVE LIMITS
+                            </button>
+                        </div>
+                    </div>
+
+                    {/* Withdrawal History */}
+                    <div className="mt-6 pt-6 border-t border-gray-200 dark:border-slate-700">
+                        <h4 className="text-[10px] font-bold text-gray-500 uppercase tracking-widest mb-3">Withdrawal History</h4>
+                        {withdrawals.length === 0 ? (
+                            <p className="text-xs text-gray-400 italic">No withdrawals yet.</p>
+                        ) : (
+                            <div className="space-y-1.5 max-h-64 overflow-y-auto">
+                                {withdrawals.map(w => (
+                                    <div key={w.id} className="flex items-center justify-between gap-3 p-2 text-xs bg-gray-50 dark:bg-black/20 rounded-lg">
+                                        <span className="text-gray-500 font-mono text-[10px] shrink-0">{new Date(w.createdAt).toLocaleString()}</span>
+                                        <span className="font-mono font-bold text-gray-900 dark:text-white">{w.amount.toFixed(w.tokenType === 'POL' ? 4 : 2)} {w.tokenType}</span>
+                                        <span className="font-mono text-[10px] text-gray-500 truncate" title={w.toAddress}>→ {w.toAddress.slice(0, 6)}...{w.toAddress.slice(-4)}</span>
+                                        <span
+                                            title={w.error}
+                                            className={`text-[9px] font-bold px-2 py-0.5 rounded shrink-0 ${
+                                                w.status === 'CONFIRMED' ? 'bg-green-100 dark:bg-green-900/30 text-green-600'
+                                                : w.status === 'FAILED' ? 'bg-red-100 dark:bg-red-900/30 text-red-600'
+                                                : 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-600'
+                                            }`}
+                                        >
+                                            {w.status}
+                                        </span>
+                                        {w.txHash ? (
+                                            <a href={`https://polygonscan.com/tx/${w.txHash}`} target="_blank" rel="noreferrer" className="text-blue-500 hover:text-blue-400 shrink-0">
+                                                <ExternalLink size={12}/>
+                                            </a>
+                                        ) : <span className="w-3 shrink-0"/>}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+
                 {/* Money Market Protocols Section */}
                 <div className="glass-panel p-6 md:p-8 rounded-3xl space-y-6 border border-blue-200 dark:border-blue-500/30 bg-white/50 dark:bg-slate-900/50 backdrop-blur-sm mb-8 transition-colors duration-300">
                     <div className="flex items-center gap-4 border-b border-gray-200 dark:border-slate-700 pb-4">
@@ -4602,6 +5670,48 @@ return (
                                     </p>
                                 </div>
 
+                                <div className="pt-4 border-t border-gray-100 dark:border-white/5">
+                                    <label className="text-xs text-gray-500 font-bold uppercase mb-2 block flex items-center gap-1">
+                                        Sizing Strategy <Tooltip text="How the stake for each copied BUY is chosen. Exits always mirror the whale proportionally. Caps and minimum order size still apply."/>
+                                    </label>
+                                    <div className="grid grid-cols-2 gap-3">
+                                        <select
+                                            className="w-full bg-gray-50 dark:bg-black/40 border border-gray-200 dark:border-terminal-border rounded-lg px-3 py-2 text-sm font-bold text-gray-900 dark:text-white outline-none focus:border-blue-500"
+                                            value={config.sizingStrategy?.type || 'proportional'}
+                                            onChange={e => updateConfig({ sizingStrategy: { ...config.sizingStrategy, type: e.target.value as SizingStrategyType } })}
+                                        >
+                                            <option value="proportional">Proportional (Multiplier)</option>
+                                            <option value="fixed_usd">Fixed USD</option>
+                                            <option value="fixed_shares">Fixed Shares</option>
+                                            <option value="percent_equity">% of Equity</option>
+                                            <option value="kelly">Kelly (Win Rate)</option>
+                                            <option value="conviction">Conviction Weighted</option>
+                                        </select>
+                                        {config.sizingStrategy?.type && config.sizingStrategy.type !== 'proportional' && (() => {
+                                            const fieldByType: Record<string, { key: keyof SizingStrategyConfig; label: string; fallback: number; step: number }> = {
+                                                fixed_usd: { key: 'fixedUsd', label: '$ / trade', fallback: 10, step: 1 },
+                                                fixed_shares: { key: 'fixedShares', label: 'shares', fallback: 10, step: 1 },
+                                                percent_equity: { key: 'equityPct', label: '% equity', fallback: 2, step: 0.5 },
+                                                kelly: { key: 'kellyFraction', label: 'x Kelly', fallback: 0.25, step: 0.05 },
+                                                conviction: { key: 'convictionBaseUsd', label: '$ base', fallback: 10, step: 1 }
+                                            };
+                                            const field = fieldByType[config.sizingStrategy.type];
+                                            return (
+                                                <div className="relative">
+                                                    <input
+                                                        type="number"
+                                                        step={field.step}
+                                                        className="w-full bg-gray-50 dark:bg-black/40 border border-gray-200 dark:border-terminal-border rounded-lg pl-3 pr-20 py-2 text-sm font-bold text-gray-900 dark:text-white outline-none focus:border-blue-500"
+                                                        value={(config.sizingStrategy[field.key] as number | undefined) ?? field.fallback}
+                                                        onChange={e => updateConfig({ sizingStrategy: { ...config.sizingStrategy, [field.key]: Number(e.target.value) } })}
+                                                    />
+                                                    <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 text-xs">{field.label}</span>
+                                                </div>
+                                            );
+                                        })()}
+                                    </div>
+                                </div>
+
                                 <div className="grid grid-cols-2 gap-6 pt-4 border-t border-gray-100 dark:border-white/5">
                                     <div>
                                         <label className="text-xs text-gray-500 font-bold uppercase mb-2 block flex items-center gap-1">
@@ -4633,7 +5743,201 @@ return (
                                         </div>
                                     </div>
                                 </div>
+
+                                <div className="pt-4 border-t border-gray-100 dark:border-white/5">
+                                    <label className="text-xs text-gray-500 font-bold uppercase mb-2 block flex items-center gap-1">
+                                        Exit Rules <Tooltip text="Automatic exits checked every 30s for every open position. Leave blank (or 0) to disable a rule."/>
+                                    </label>
+                                    <div className="grid grid-cols-2 gap-3">
+                                        {([
+                                            { key: 'stopLossPct', label: 'Stop-Loss %' },
+                                            { key: 'trailingStopPct', label: 'Trailing Stop %' },
+                                            { key: 'maxHoldHours', label: 'Max Hold (h)' },
+                                            { key: 'closeBeforeEndHours', label: 'Close Before End (h)' }
+                                        ] as { key: Exclude<keyof ExitRules, 'takeProfitLadder'>; label: string }[]).map(rule => (
+                                            <div key={rule.key}>
+                                                <span className="text-[10px] text-gray-400 font-bold uppercase block mb-1">{rule.label}</span>
+                                                <input
+                                                    type="number" min="0"
+                                                    placeholder="off"
+                                                    className="w-full bg-gray-50 dark:bg-black/40 border border-gray-200 dark:border-terminal-border rounded-lg px-3 py-2 text-sm font-bold text-red-600 dark:text-red-400 outline-none focus:border-red-500"
+                                                    value={config.exitRules?.[rule.key] ?? ''}
+                                                    onChange={e => updateConfig({ exitRules: { ...config.exitRules, [rule.key]: e.target.value === '' ? undefined : Number(e.target.value) } })}
+                                                />
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+
+                                <div className="pt-4 border-t border-gray-100 dark:border-white/5">
+                                    <div className="flex items-center justify-between mb-2">
+                                        <label className="text-xs text-gray-500 font-bold uppercase flex items-center gap-1">
+                                            Take-Profit Ladder <Tooltip text="Scales out as a position gains: each rung sells its % of the shares held when the first rung fired. The last rung sells whatever is left. Sizes are raised to the market minimum, and a sell that would leave dust closes the position."/>
+                                        </label>
+                                        <button
+                                            onClick={() => {
+                                                const ladder = config.exitRules?.takeProfitLadder || [];
+                                                const last = ladder[ladder.length - 1];
+                                                updateConfig({ exitRules: { ...config.exitRules, takeProfitLadder: [...ladder, { gainPct: last ? last.gainPct * 2 : 20, sellPct: 33 }] } });
+                                            }}
+                                            className="text-[10px] font-bold text-green-600 dark:text-green-400 flex items-center gap-1 hover:underline"
+                                        >
+                                            <PlusCircle size={10}/> Add Rung
+                                        </button>
+                                    </div>
+                                    {(config.exitRules?.takeProfitLadder || []).length === 0 ? (
+                                        <p className="text-[10px] text-gray-400 italic">No ladder. Positions are held until another rule or the trader exits.</p>
+                                    ) : (
+                                        <div className="space-y-2">
+                                            {(config.exitRules?.takeProfitLadder || []).map((rung, i, ladder) => {
+                                                const setRung = (updates: Partial<TakeProfitRung>) => updateConfig({
+                                                    exitRules: { ...config.exitRules, takeProfitLadder: ladder.map((r, j) => j === i ? { ...r, ...updates } : r) }
+                                                });
+                                                return (
+                                                    <div key={i} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-end">
+                                                        <div>
+                                                            <span className="text-[10px] text-gray-400 font-bold uppercase block mb-1">At Gain %</span>
+                                                            <input
+                                                                type="number" min="1"
+                                                                className="w-full bg-gray-50 dark:bg-black/40 border border-gray-200 dark:border-terminal-border rounded-lg px-3 py-2 text-sm font-bold text-green-600 dark:text-green-400 outline-none focus:border-green-500"
+                                                                value={rung.gainPct}
+                                                                onChange={e => setRung({ gainPct: Number(e.target.value) })}
+                                                            />
+                                                        </div>
+                                                        <div>
+                                                            <span className="text-[10px] text-gray-400 font-bold uppercase block mb-1">{i === ladder.length - 1 ? 'Sell (rest)' : 'Sell %'}</span>
+                                                            <input
+                                                                type="number" min="1" max="100"
+                                                                disabled={i === ladder.length - 1}
+                                                                className="w-full bg-gray-50 dark:bg-black/40 border border-gray-200 dark:border-terminal-border rounded-lg px-3 py-2 text-sm font-bold text-gray-900 dark:text-white outline-none focus:border-green-500 disabled:opacity-50"
+                                                                value={i === ladder.length - 1 ? 100 : rung.sellPct}
+                                                                onChange={e => setRung({ sellPct: Number(e.target.value) })}
+                                                            />
+                                                        </div>
+                                                        <button
+                                                            onClick={() => updateConfig({ exitRules: { ...config.exitRules, takeProfitLadder: ladder.filter((_, j) => j !== i) } })}
+                                                            className="p-2 text-gray-400 hover:text-red-500 transition-colors"
+                                                            title="Remove rung"
+                                                        >
+                                                            <Trash2 size={14}/>
+                                                        </button>
+                                                    </div>
+                                                );
+                                            })}
+                                        </div>
+                                    )}
+                                </div>
+
+                                <div className="pt-4 border-t border-gray-100 dark:border-white/5">
+                                    <div className="flex items-center justify-between mb-2">
+                                        <label className="text-xs text-gray-500 font-bold uppercase flex items-center gap-1">
+                                            Fill Aggregation <Tooltip text="Buffers a trader's fills on the same outcome and side for the window, then copies them once at the volume-weighted price. Flushes early if price moves past the threshold."/>
+                                        </label>
+                                        <input
+                                            type="checkbox"
+                                            className="toggle-checkbox accent-blue-600 w-4 h-4"
+                                            checked={!!config.aggregation?.enabled}
+                                            onChange={e => updateConfig({ aggregation: { ...config.aggregation, enabled: e.target.checked } })}
+                                        />
+                                    </div>
+                                    <div className={`grid grid-cols-2 gap-3 transition-opacity ${config.aggregation?.enabled ? 'opacity-100' : 'opacity-50 pointer-events-none'}`}>
+                                        <div>
+                                            <span className="text-[10px] text-gray-400 font-bold uppercase block mb-1">Window (s)</span>
+                                            <input
+                                                type="number" min="1"
+                                                placeholder="300"
+                                                className="w-full bg-gray-50 dark:bg-black/40 border border-gray-200 dark:border-terminal-border rounded-lg px-3 py-2 text-sm font-bold text-gray-900 dark:text-white outline-none focus:border-blue-500"
+                                                value={config.aggregation?.windowSeconds ?? ''}
+                                                onChange={e => updateConfig({ aggregation: { ...config.aggregation, windowSeconds: e.target.value === '' ? undefined : Number(e.target.value) } })}
+                                            />
+                                        </div>
+                                        <div>
+                                            <span className="text-[10px] text-gray-400 font-bold uppercase block mb-1">Early Flush Move %</span>
+                                            <input
+                                                type="number" min="0" step="0.5"
+                                                placeholder="2"
+                                                className="w-full bg-gray-50 dark:bg-black/40 border border-gray-200 dark:border-terminal-border rounded-lg px-3 py-2 text-sm font-bold text-gray-900 dark:text-white outline-none focus:border-blue-500"
+                                                value={config.aggregation?.priceMovePct ?? ''}
+                                                onChange={e => updateConfig({ aggregation: { ...config.aggregation, priceMovePct: e.target.value === '' ? undefined : Number(e.target.value) } })}
+                                            />
+                                        </div>
+                                    </div>
+                                </div>
+
+                                <div className="pt-4 border-t border-gray-100 dark:border-white/5">
+                                    <label className="text-xs text-gray-500 font-bold uppercase mb-2 block flex items-center gap-1">
+                                        Cost Basis <Tooltip text="Which buy lots a sell consumes when realizing PnL. FIFO closes the oldest lots first; Average Cost keeps one blended entry price. Changes apply to future sells only."/>
+                                    </label>
+                                    <select
+                                        className="w-full bg-gray-50 dark:bg-black/40 border border-gray-200 dark:border-terminal-border rounded-lg px-3 py-2 text-sm font-bold text-gray-900 dark:text-white outline-none focus:border-blue-500"
+                                        value={config.costBasisMethod || 'FIFO'}
+                                        onChange={e => updateConfig({ costBasisMethod: e.target.value as CostBasisMethod })}
+                                    >
+                                        <option value="FIFO">FIFO (Oldest Lots First)</option>
+                                        <option value="AVERAGE">Average Cost</option>
+                                    </select>
+                                </div>
+                            </div>
+                        </div>
+
+                        {/* Portfolio Risk Limits */}
+                        <div className="bg-white dark:bg-terminal-card border border-gray-200 dark:border-terminal-border rounded-xl p-6 shadow-sm dark:shadow-none">
+                            <h4 className="text-xs font-bold text-gray-900 dark:text-white uppercase tracking-wider mb-6 flex items-center gap-2">
+                                <ShieldAlert size={14} className="text-red-500"/> Portfolio Risk Limits
+                                <Tooltip text="Signals that would breach an exposure limit are skipped. Hitting the daily loss or drawdown limit pauses copy trading (not market making) until 00:00 UTC or a manual reset."/>
+                            </h4>
+
+                            {riskStatus?.paused && (
+                                <div className="mb-4 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-900/40 flex items-center justify-between gap-3">
+                                    <div className="text-xs text-red-700 dark:text-red-400">
+                                        <span className="font-bold block">Copy trading paused</span>
+                                        {riskStatus.pausedReason}
+                                        {riskStatus.resumeAt && <span className="block text-[10px] opacity-75">Auto-resume {new Date(riskStatus.resumeAt).toLocaleString()}</span>}
+                                    </div>
+                                    <button
+                                        onClick={async () => {
+                                            try {
+                                                const res = await axios.post('/api/bot/risk/reset', { userId: userAddress });
+                                                setRiskStatus(res.data.status);
+                                                toast.success('Circuit breaker reset');
+                                            } catch (e: any) {
+                                                toast.error(e.response?.data?.error || 'Reset failed');
+                                            }
+                                        }}
+                                        className="px-3 py-1.5 text-xs font-bold rounded-lg bg-red-600 hover:bg-red-700 text-white"
+                                    >
+                                        Reset
+                                    </button>
+                                </div>
+                            )}
+
+                            <div className="grid grid-cols-2 gap-3">
+                                {([
+                                    { key: 'maxTotalExposureUsd', label: 'Max Total Exposure ($)' },
+                                    { key: 'maxMarketExposureUsd', label: 'Max Per Market ($)' },
+                                    { key: 'maxEventExposureUsd', label: 'Max Per Event ($)' },
+                                    { key: 'maxOpenPositions', label: 'Max Open Positions' },
+                                    { key: 'maxDailyLossUsd', label: 'Max Daily Loss ($)' },
+                                    { key: 'maxDrawdownPct', label: 'Max Drawdown (%)' }
+                                ] as { key: keyof RiskLimits; label: string }[]).map(limit => (
+                                    <div key={limit.key}>
+                                        <span className="text-[10px] text-gray-400 font-bold uppercase block mb-1">{limit.label}</span>
+                                        <input
+                                            type="number" min="0"
+                                            placeholder="off"
+                                            className="w-full bg-gray-50 dark:bg-black/40 border border-gray-200 dark:border-terminal-border rounded-lg px-3 py-2 text-sm font-bold text-gray-900 dark:text-white outline-none focus:border-red-500"
+                                            value={config.riskLimits?.[limit.key] ?? ''}
+                                            onChange={e => updateConfig({ riskLimits: { ...config.riskLimits, [limit.key]: e.target.value === '' ? undefined : Number(e.target.value) } })}
+                                        />
+                                    </div>
+                                ))}
                             </div>
+
+                            {riskStatus && (
+                                <p className="text-[10px] text-gray-400 mt-3 font-mono">
+                                    Exposure ${riskStatus.exposureUsd.toFixed(2)} · {riskStatus.openPositions} open · Today {riskStatus.dailyRealizedPnl >= 0 ? '+' : ''}${riskStatus.dailyRealizedPnl.toFixed(2)} · DD {riskStatus.drawdownPct.toFixed(1)}%
+                                </p>
+                            )}
                         </div>
 
                         {/* Profit Security (Cashout) */}
@@ -4735,7 +6039,21 @@ return (
                 <div className="glass-panel border border-gray-200 dark:border-terminal-border rounded-xl overflow-hidden flex-1">
                     <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-800 flex justify-between items-center bg-gray-50 dark:bg-white/5">
                         <h3 className="font-bold text-gray-900 dark:text-white text-sm flex items-center gap-2"><Server size={14}/> Top Traders</h3>
-                        <button onClick={fetchRegistry} className="text-xs text-blue-600 dark:text-terminal-accent flex items-center gap-1 hover:underline"><RefreshCw size={12}/> Refresh</button>
+                        <div className="flex items-center gap-3">
+                            <select
+                                value={registrySort}
+                                onChange={(e) => setRegistrySort(e.target.value)}
+                                className="bg-white dark:bg-black border border-gray-200 dark:border-gray-800 rounded px-2 py-1 text-xs text-gray-700 dark:text-gray-300 outline-none"
+                            >
+                                <option value="">Most Copied</option>
+                                <option value="copyability">Copyability</option>
+                                <option value="roi">ROI</option>
+                                <option value="consistency">Consistency</option>
+                                <option value="pnl">Total PnL</option>
+                                <option value="winRate">Win Rate</option>
+                            </select>
+                            <button onClick={fetchRegistry} className="text-xs text-blue-600 dark:text-terminal-accent flex items-center gap-1 hover:underline"><RefreshCw size={12}/> Refresh</button>
+                        </div>
                     </div>
                     <div className="overflow-x-auto">
                         <table className="w-full text-left text-sm">
@@ -4744,6 +6062,8 @@ return (
                                     <th className="p-4 pl-6">Identity</th>
                                     <th className="p-4 text-center">Win Rate</th>
                                     <th className="p-4 text-center">Total PnL</th>
+                                    <th className="p-4 text-center">ROI</th>
+                                    <th className="p-4 text-center">Copyability</th>
                                     <th className="p-4 text-center">Copies</th>
                                     <th className="p-4 text-right pr-6">Action</th>
                                 </tr>
@@ -4776,6 +6096,8 @@ return (
                                         </td>
                                         <td className="p-4 text-center text-green-600 dark:text-green-400 font-bold">{trader.winRate}%</td>
                                         <td className="p-4 text-center text-blue-600 dark:text-blue-400 font-bold">${trader.totalPnl.toLocaleString()}</td>
+                                        <td className={`p-4 text-center font-bold ${(trader.scores?.roiPct || 0) >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600'}`}>{trader.scores ? `${trader.scores.roiPct}%` : '-'}</td>
+                                        <td className="p-4 text-center text-gray-700 dark:text-gray-300">{trader.scores ? trader.scores.copyability : '-'}</td>
                                         <td className="p-4 text-center text-gray-500">{trader.copyCount || 0}</td>
                                         <td className="p-4 text-right pr-6" onClick={(e) => e.stopPropagation()}>
                                             {config.targets.includes(trader.address) ? (
@@ -4858,6 +6180,8 @@ return (
                                         <td className="p-4 text-gray-500 max-w-[300px] truncate" title={tx.aiReasoning}>
                                             {tx.riskScore ? <span className={`mr-2 font-bold ${tx.riskScore > 7 ? 'text-red-500' : 'text-purple-500'}`}>[{tx.riskScore}/10]</span> : ''}
                                             {tx.aiReasoning || '-'}
+                                            {tx.sizingReason && <span className="block text-[10px] text-gray-400">Sizing: {tx.sizingReason}</span>}
+                                            {tx.exitReason && tx.exitReason !== tx.aiReasoning && <span className="block text-[10px] text-orange-500">Exit: {tx.exitReason}</span>}
                                         </td>
                                         <td className="p-4 text-center">
                                             {tx.txHash ? (
@@ -5127,6 +6451,12 @@ return (
         onWithdraw={handleWithdraw}
         isWithdrawing={isWithdrawing}
         successTx={withdrawalTxHash}
+        destinations={[
+            { address: userAddress, label: 'Main Wallet' },
+            ...(withdrawalPolicy?.allowlist || [])
+                .filter(e => e.activeAt <= Date.now())
+                .map(e => ({ address: e.address, label: e.label || 'Allowlisted' }))
+        ]}
     />
 
     {/* Help Guide Modal */}
@@ -31,9 +31,26 @@ export interface OrderResult {
     sharesFilled: number;
     priceFilled: number;
     usdFilled?: number;
+    limitPrice?: number;      // Tick-rounded price actually submitted
+    orderedShares?: number;   // Size actually submitted
+    orderType?: 'GTC' | 'FOK' | 'FAK';
     error?: string;
 }
 
+/**
+ * Exchange-side state of a single order, used to reconcile the local order store
+ */
+export interface OrderSnapshot {
+    orderId: string;
+    status: 'LIVE' | 'MATCHED' | 'CANCELLED';
+    originalSize: number;
+    sizeMatched: number;
+    price: number;
+    avgFillPrice?: number;   // When the exchange reports it; otherwise fills are assumed at `price`
+    expiration?: number;     // ms epoch; unset for GTC
+    tradeIds?: string[];
+}
+
 /**
  * Qualitative measure of liquidity
  */
@@ -73,8 +90,10 @@ export interface ArbitrageOpportunity {
     volume: number;
     liquidity: number;
     isNew: boolean;
-    rewardsMaxSpread?: number;
-    rewardsMinSize?: number;
+    rewardsMaxSpread?: number;   // Cents from the midpoint
+    rewardsMinSize?: number;     // Shares
+    rewardsDailyRate?: number;   // USD paid to makers in this market per day
+    rewardYield?: number;        // Expected daily reward per USD of quoted inventory
     timestamp: number;
     roi: number;
     combinedCost: number;
@@ -102,6 +121,8 @@ export interface IExchangeAdapter {
     cancelOrder(orderId: string): Promise<boolean>;
     cancelAllOrders(): Promise<boolean>;
     getOpenOrders(): Promise<any[]>;
+    getOrder?(orderId: string): Promise<OrderSnapshot | null>;
+    getRewardEarnings?(date: string): Promise<{ conditionId: string; earnings: number }[]>; // Maker rewards paid for a UTC day (YYYY-MM-DD)
     mergePositions(conditionId: string, amount: number): Promise<string>;
     cashout(amount: number, destination: string): Promise<string>;
     getFunderAddress(): string;
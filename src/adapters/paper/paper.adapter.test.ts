@@ -0,0 +1,126 @@
+import { describe, expect, it, vi } from 'vitest';
+import { OrderBook } from '../../domain/market.types.js';
+import { Logger } from '../../utils/logger.util.js';
+import { PaperExchangeAdapter } from './paper.adapter.js';
+
+const store = vi.hoisted(() => ({ account: null as any }));
+
+vi.mock('../../database/index.js', () => ({
+  PaperAccount: {
+    findOne: () => ({ lean: async () => store.account }),
+    findOneAndUpdate: async (_filter: unknown, update: { $set: object }) => {
+      store.account = structuredClone({ ...store.account, ...update.$set });
+    }
+  }
+}));
+
+const logger: Logger = { info: () => {}, warn: () => {}, error: () => {}, debug: () => {}, success: () => {} };
+
+const BOOK: OrderBook = {
+  bids: [{ price: 0.48, size: 100 }, { price: 0.47, size: 100 }],
+  asks: [{ price: 0.5, size: 10 }, { price: 0.52, size: 20 }, { price: 0.6, size: 100 }]
+};
+
+const order = { marketId: 'cond', tokenId: 'yes', outcome: 'YES' };
+
+const paperAccount = (startingBalance = 100) => {
+  const adapter = new PaperExchangeAdapter({ userId: '0xuser', startingBalance }, logger);
+  adapter.recordOrderBook('yes', BOOK);
+  return adapter;
+};
+
+describe('PaperExchangeAdapter', () => {
+  it('takes the best ask and keeps what a FAK order could fill', async () => {
+    const adapter = paperAccount();
+    const result = await adapter.createOrder({ ...order, side: 'BUY', sizeUsd: 0, sizeShares: 25, orderType: 'FAK' });
+
+    expect(result).toMatchObject({ success: true, sharesFilled: 10, priceFilled: 0.5 });
+    expect(await adapter.fetchBalance('0xuser')).toBeCloseTo(95, 9);
+  });
+
+  it('kills a FOK order the book cannot fill in full', async () => {
+    const adapter = paperAccount();
+    const result = await adapter.createOrder({ ...order, side: 'BUY', sizeUsd: 0, sizeShares: 25 });
+
+    expect(result).toMatchObject({ success: false, sharesFilled: 0 });
+    expect(await adapter.fetchBalance('0xuser')).toBe(100);
+  });
+
+  it('consumes the liquidity it took from a replayed book', async () => {
+    const adapter = paperAccount();
+    await adapter.createOrder({ ...order, side: 'BUY', sizeUsd: 0, sizeShares: 10 });
+
+    expect((await adapter.getOrderBook('yes')).asks[0]).toEqual({ price: 0.52, size: 20 });
+  });
+
+  it('rests the unfilled part of a GTC order and fills it once the book crosses', async () => {
+    const adapter = paperAccount();
+    const result = await adapter.createOrder({ ...order, side: 'BUY', sizeUsd: 0, sizeShares: 20, priceLimit: 0.45, orderType: 'GTC' });
+
+    expect(result).toMatchObject({ success: true, sharesFilled: 0 });
+    expect(await adapter.getOpenOrders()).toHaveLength(1);
+    expect(await adapter.fetchBalance('0xuser')).toBeCloseTo(91, 9);
+
+    adapter.recordOrderBook('yes', { bids: [{ price: 0.44, size: 50 }], asks: [{ price: 0.45, size: 50 }] });
+
+    expect(await adapter.getOpenOrders()).toHaveLength(0);
+    expect(await adapter.fetchBalance('0xuser')).toBeCloseTo(91, 9);
+    expect((await adapter.getPositions('0xuser'))[0]).toMatchObject({ balance: 20, investedValue: 9 });
+  });
+
+  it('refuses to sell shares it does not hold', async () => {
+    const adapter = paperAccount();
+    const result = await adapter.createOrder({ ...order, side: 'SELL', sizeUsd: 0, sizeShares: 10 });
+    expect(result).toMatchObject({ success: false, error: 'not enough balance / allowance' });
+  });
+
+  it('realizes PnL on sells against the average cost', async () => {
+    const adapter = paperAccount();
+    await adapter.createOrder({ ...order, side: 'BUY', sizeUsd: 0, sizeShares: 10 });
+    await adapter.createOrder({ ...order, side: 'BUY', sizeUsd: 0, sizeShares: 20 });
+    const sell = await adapter.createOrder({ ...order, side: 'SELL', sizeUsd: 0, sizeShares: 15 });
+
+    expect(sell).toMatchObject({ success: true, sharesFilled: 15 });
+    expect(sell.priceFilled).toBeCloseTo(0.48, 9);
+    const averageCost = (10 * 0.5 + 20 * 0.52) / 30;
+    expect(adapter.getLedgerSummary().realizedPnl).toBeCloseTo(15 * (0.48 - averageCost), 9);
+    expect((await adapter.getPositions('0xuser'))[0].balance).toBe(15);
+  });
+
+  it('pays out the winning side on redemption', async () => {
+    const adapter = paperAccount();
+    await adapter.createOrder({ ...order, side: 'BUY', sizeUsd: 0, sizeShares: 10 });
+    expect(await adapter.redeemPosition('cond', 'yes')).toMatchObject({ success: false, error: 'market_not_resolved' });
+
+    adapter.resolveMarket('cond', 'yes');
+    const redeemed = await adapter.redeemPosition('cond', 'yes');
+
+    expect(redeemed).toMatchObject({ success: true, amountUsd: 10 });
+    expect(adapter.getLedgerSummary()).toMatchObject({ balance: 100 + 5, realizedPnl: 5 });
+    expect(await adapter.getPositions('0xuser')).toEqual([]);
+  });
+
+  it('restores realized PnL that no kept fill carries and caps stored fills', async () => {
+    store.account = null;
+    const persisted = () => {
+      const adapter = new PaperExchangeAdapter({ userId: '0xuser', startingBalance: 10000, persist: true }, logger);
+      adapter.recordOrderBook('yes', BOOK);
+      adapter.recordOrderBook('no', { bids: [], asks: [{ price: 0.4, size: 100000 }] });
+      return adapter;
+    };
+    const adapter = persisted();
+    await adapter.initialize();
+    await adapter.createOrder({ ...order, side: 'BUY', sizeUsd: 0, sizeShares: 10 });
+    await adapter.createOrder({ ...order, tokenId: 'no', outcome: 'NO', side: 'BUY', sizeUsd: 0, sizeShares: 10 });
+    await adapter.mergePositions('cond', 10);
+    for (let i = 0; i < 510; i++) {
+      await adapter.createOrder({ ...order, tokenId: 'no', outcome: 'NO', side: 'BUY', sizeUsd: 0, sizeShares: 5 });
+    }
+
+    const restored = persisted();
+    await restored.initialize();
+    expect(restored.getLedgerSummary().realizedPnl).toBeCloseTo(10 - (10 * 0.5 + 10 * 0.4), 9);
+    expect(restored.getLedgerSummary().fills).toBe(500);
+    expect(adapter.getLedgerSummary().fills).toBe(500);
+  });
+});
@@ -0,0 +1,779 @@
+import {
+    IExchangeAdapter,
+    OrderParams,
+    OrderResult,
+    OrderSnapshot,
+    LiquidityHealth,
+    LiquidityMetrics,
+    OrderSide
+} from '../interfaces.js';
+import { OrderBook, PositionData } from '../../domain/market.types.js';
+import { TradeSignal, TradeHistoryEntry } from '../../domain/trade.types.js';
+import { PaperAccount } from '../../database/index.js';
+import { Logger } from '../../utils/logger.util.js';
+import { resolveOutcomeLabel } from '../../utils/outcome.util.js';
+import axios from 'axios';
+import crypto from 'crypto';
+
+const HOST_URL = 'https://clob.polymarket.com';
+
+/**
+ * Minimal CLOB-shaped market metadata used by the executor/engine duck-typed checks.
+ */
+export interface PaperMarketMeta {
+    condition_id: string;
+    question?: string;
+    market_slug?: string;
+    end_date_iso?: string;
+    active: boolean;
+    closed: boolean;
+    accepting_orders: boolean;
+    archived: boolean;
+    neg_risk: boolean;
+    minimum_tick_size: number;
+    minimum_order_size: number;
+    tokens?: { token_id: string; outcome: string; price?: number; winner?: boolean }[];
+}
+
+export interface PaperExchangeAdapterConfig {
+    userId: string;
+    startingBalance: number;
+    // Address reported as funder (defaults to userId). Paper mode never touches it on-chain.
+    address?: string;
+    // Live sessions pass fetchPublicOrderBook; backtests leave it unset and call recordOrderBook().
+    bookProvider?: (tokenId: string) => Promise<OrderBook>;
+    marketProvider?: (conditionId: string) => Promise<PaperMarketMeta | null>;
+    // Persist the ledger to the PaperAccount collection (disabled for offline replays)
+    persist?: boolean;
+    // Clock override so replays stamp fills with historical time
+    now?: () => number;
+}
+
+interface PaperPosition {
+    marketId: string;
+    conditionId: string;
+    tokenId: string;
+    outcome: string;
+    shares: number;
+    costBasis: number;
+    openedAt: number;
+}
+
+// Fills kept by persisted sessions; offline replays keep every fill for their report
+const MAX_PERSISTED_FILLS = 500;
+
+interface PaperOrder {
+    id: string;
+    marketId: string;
+    tokenId: string;
+    outcome: string;
+    side: OrderSide;
+    price: number;
+    originalSize: number;
+    sizeMatched: number;
+    reservedUsd: number;
+    createdAt: number;
+}
+
+interface PaperFill {
+    id: string;
+    orderId: string;
+    marketId: string;
+    tokenId: string;
+    outcome: string;
+    side: OrderSide;
+    shares: number;
+    price: number;
+    realizedPnl?: number;
+    timestamp: number;
+}
+
+/**
+ * Public (unauthenticated) CLOB orderbook fetch used by live paper sessions.
+ */
+export async function fetchPublicOrderBook(tokenId: string): Promise<OrderBook> {
+    const res = await axios.get(`${HOST_URL}/book?token_id=${tokenId}`, { timeout: 5000 });
+    const book = res.data || {};
+    return {
+        bids: (book.bids || [])
+            .map((b: any) => ({ price: parseFloat(b.price), size: parseFloat(b.size) }))
+            .sort((a: any, b: any) => b.price - a.price),
+        asks: (book.asks || [])
+            .map((a: any) => ({ price: parseFloat(a.price), size: parseFloat(a.size) }))
+            .sort((a: any, b: any) => a.price - b.price),
+        min_order_size: Number(book.min_order_size) || 5,
+        tick_size: Number(book.tick_size) || 0.01,
+        neg_risk: book.neg_risk
+    };
+}
+
+/**
+ * Public (unauthenticated) CLOB market metadata fetch used by live paper sessions.
+ */
+export async function fetchPublicMarket(conditionId: string): Promise<PaperMarketMeta | null> {
+    try {
+        const res = await axios.get(`${HOST_URL}/markets/${conditionId}`, { timeout: 5000 });
+        return res.data || null;
+    } catch (e) {
+        return null;
+    }
+}
+
+/**
+ * Simulated exchange. Fills orders against live or replayed orderbooks and keeps
+ * an in-memory (optionally Mongo-backed) ledger of balance, positions and resting orders.
+ */
+export class PaperExchangeAdapter implements IExchangeAdapter {
+    readonly exchangeName = 'Paper';
+
+    private balance: number;
+    private realizedPnl = 0;
+    private positions: Map<string, PaperPosition> = new Map();
+    private openOrders: Map<string, PaperOrder> = new Map();
+    private fills: PaperFill[] = [];
+
+    private books: Map<string, OrderBook> = new Map();
+    private lastPrices: Map<string, number> = new Map();
+    private markets: Map<string, PaperMarketMeta> = new Map();
+    private resolutions: Map<string, string> = new Map(); // conditionId -> winning tokenId
+
+    constructor(
+        private config: PaperExchangeAdapterConfig,
+        private logger: Logger
+    ) {
+        this.balance = config.startingBalance;
+    }
+
+    async initialize(): Promise<void> {
+        this.logger.info(`[${this.exchangeName}] Initializing simulated ledger for ${this.config.userId}...`);
+        if (!this.config.persist) return;
+
+        try {
+            const account = await PaperAccount.findOne({ userId: this.config.userId }).lean();
+            if (account) {
+                this.balance = account.balance;
+                this.positions = new Map((account.positions || []).map((p: PaperPosition) => [p.tokenId, p]));
+                this.openOrders = new Map((account.openOrders || []).map((o: PaperOrder) => [o.id, o]));
+                this.fills = account.fills || [];
+                // Ledgers saved before realizedPnl was stored fall back to their kept fills
+                this.realizedPnl = account.realizedPnl ?? this.fills.reduce((sum, f) => sum + (f.realizedPnl || 0), 0);
+                this.logger.info(`📄 Paper ledger restored: $${this.balance.toFixed(2)} cash, ${this.positions.size} positions`);
+            } else {
+                await this.persistState();
+            }
+        } catch (e: any) {
+            this.logger.warn(`Paper ledger load failed, starting fresh: ${e.message}`);
+        }
+    }
+
+    async validatePermissions(): Promise<boolean> {
+        return true;
+    }
+
+    async authenticate(): Promise<void> {
+        this.logger.success(`📄 Paper trading active. Starting balance: $${this.config.startingBalance.toFixed(2)}`);
+    }
+
+    async fetchBalance(address: string): Promise<number> {
+        return this.balance;
+    }
+
+    async getPortfolioValue(address: string): Promise<number> {
+        let value = 0;
+        for (const pos of this.positions.values()) {
+            value += pos.shares * (this.lastPrices.get(pos.tokenId) ?? (pos.shares > 0 ? pos.costBasis / pos.shares : 0));
+        }
+        return value;
+    }
+
+    async getMarketPrice(marketId: string, tokenId: string, side: 'BUY' | 'SELL' = 'BUY'): Promise<number> {
+        try {
+            const book = await this.getOrderBook(tokenId);
+            if (side === 'BUY' && book.asks.length) return book.asks[0].price;
+            if (side === 'SELL' && book.bids.length) return book.bids[0].price;
+        } catch (e) { /* fall back to last traded price */ }
+        return this.lastPrices.get(tokenId) || 0;
+    }
+
+    async getOrderBook(tokenId: string): Promise<OrderBook> {
+        if (this.config.bookProvider) {
+            const book = await this.config.bookProvider(tokenId);
+            this.recordOrderBook(tokenId, book);
+            return book;
+        }
+        const book = this.books.get(tokenId);
+        if (!book) throw new Error(`No orderbook exists for the requested token id ${tokenId}`);
+        return book;
+    }
+
+    async getLiquidityMetrics(tokenId: string, side: 'BUY' | 'SELL'): Promise<LiquidityMetrics> {
+        const book = await this.getOrderBook(tokenId);
+
+        const bestBid = book.bids.length > 0 ? book.bids[0].price : 0;
+        const bestAsk = book.asks.length > 0 ? book.asks[0].price : 1;
+        const spreadAbs = bestAsk - bestBid;
+        const midpoint = (bestBid + bestAsk) / 2;
+        const spreadPercent = midpoint > 0 ? (spreadAbs / midpoint) * 100 : 100;
+
+        const levels = side === 'SELL' ? book.bids : book.asks;
+        const depthUsd = levels.slice(0, 3).reduce((sum, l) => sum + (l.size * l.price), 0);
+
+        let health = LiquidityHealth.CRITICAL;
+        if (spreadAbs <= 0.02 && depthUsd >= 500) {
+            health = LiquidityHealth.HIGH;
+        } else if (spreadAbs <= 0.05 && depthUsd >= 100) {
+            health = LiquidityHealth.MEDIUM;
+        } else if (depthUsd >= 20) {
+            health = LiquidityHealth.LOW;
+        }
+
+        return {
+            health,
+            spread: spreadAbs,
+            spreadPercent,
+            availableDepthUsd: depthUsd,
+            bestPrice: side === 'SELL' ? bestBid : bestAsk
+        };
+    }
+
+    async getPositions(address: string): Promise<PositionData[]> {
+        const result: PositionData[] = [];
+        for (const pos of this.positions.values()) {
+            if (pos.shares <= 0) continue;
+            const entryPrice = pos.costBasis / pos.shares;
+            const currentPrice = this.lastPrices.get(pos.tokenId) ?? entryPrice;
+            const valueUsd = pos.shares * currentPrice;
+            const meta = this.markets.get(pos.conditionId);
+            result.push({
+                marketId: pos.marketId,
+                tokenId: pos.tokenId,
+                conditionId: pos.conditionId,
+                outcome: pos.outcome,
+                balance: pos.shares,
+                valueUsd,
+                investedValue: pos.costBasis,
+                entryPrice,
+                currentPrice,
+                unrealizedPnL: valueUsd - pos.costBasis,
+                unrealizedPnLPercent: pos.costBasis > 0 ? ((valueUsd - pos.costBasis) / pos.costBasis) * 100 : 0,
+                question: meta?.question,
+                endDate: meta?.end_date_iso,
+                marketSlug: meta?.market_slug
+            });
+        }
+        return result;
+    }
+
+    async fetchPublicTrades(address: string, limit: number = 20): Promise<TradeSignal[]> {
+        try {
+            const url = `https://data-api.polymarket.com/activity?user=${address}&limit=${limit}`;
+            const res = await axios.get(url);
+            if (!res.data || !Array.isArray(res.data)) return [];
+
+            return res.data
+                .filter(act => act.type === 'TRADE' || act.type === 'ORDER_FILLED')
+                .map(act => ({
+                    trader: address,
+                    marketId: act.conditionId,
+                    tokenId: act.asset,
+                    outcome: resolveOutcomeLabel(act.outcome, act.outcomeIndex),
+                    outcomeIndex: act.outcomeIndex,
+                    side: act.side.toUpperCase() as 'BUY' | 'SELL',
+                    sizeUsd: act.usdcSize || (act.size * act.price),
+                    price: act.price,
+                    timestamp: (act.timestamp > 1e11 ? act.timestamp : act.timestamp * 1000)
+                }));
+        } catch (e) {
+            return [];
+        }
+    }
+
+    async getTradeHistory(address: string, limit: number = 50): Promise<TradeHistoryEntry[]> {
+        return this.fills.slice(-limit).reverse().map(f => ({
+            id: f.id,
+            timestamp: new Date(f.timestamp).toISOString(),
+            marketId: f.marketId,
+            outcome: f.outcome,
+            side: f.side,
+            size: f.shares * f.price,
+            executedSize: f.shares * f.price,
+            price: f.price,
+            pnl: f.realizedPnl,
+            status: 'FILLED',
+            clobOrderId: f.orderId,
+            assetId: f.tokenId
+        }));
+    }
+
+    async createOrder(params: OrderParams): Promise<OrderResult> {
+        try {
+            const market = await this.getMarketMeta(params.marketId);
+            const tickSize = Number(market.minimum_tick_size) || 0.01;
+            const minOrderSize = Number(market.minimum_order_size) || 5;
+            const book = await this.getOrderBook(params.tokenId);
+
+            let rawPrice: number;
+            if (params.side === 'SELL') {
+                if (!book.bids.length && params.orderType !== 'GTC') return { success: false, error: "skipped_no_bids", sharesFilled: 0, priceFilled: 0 };
+                rawPrice = book.bids.length ? book.bids[0].price : (params.priceLimit ?? 0.999);
+                if (params.priceLimit !== undefined && params.priceLimit > rawPrice) rawPrice = params.priceLimit;
+            } else {
+                if (!book.asks.length && params.orderType !== 'GTC') return { success: false, error: "skipped_no_liquidity", sharesFilled: 0, priceFilled: 0 };
+                rawPrice = book.asks.length ? book.asks[0].price : (params.priceLimit ?? 0.001);
+                if (params.priceLimit !== undefined && params.priceLimit < rawPrice) rawPrice = params.priceLimit;
+            }
+
+            const inverseTick = Math.round(1 / tickSize);
+            const roundedPrice = params.side === 'BUY'
+                ? Math.ceil(rawPrice * inverseTick) / inverseTick
+                : Math.floor(rawPrice * inverseTick) / inverseTick;
+            const finalPrice = Math.max(0.001, Math.min(0.999, roundedPrice));
+
+            let shares = params.sizeShares || (
+                params.side === 'BUY'
+                    ? Math.ceil(params.sizeUsd / finalPrice)
+                    : Math.floor(params.sizeUsd / finalPrice)
+            );
+            if (params.side === 'BUY' && (shares * finalPrice) < 1.00) {
+                shares = Math.ceil(1.00 / finalPrice);
+            }
+            shares = Math.floor(shares);
+
+            if (shares < minOrderSize) {
+                return { success: false, error: "BELOW_MIN_SIZE", sharesFilled: 0, priceFilled: 0 };
+            }
+
+            // Same order type defaults as the live adapter: FOK buys, FAK sells
+            const orderType = params.orderType || (params.side === 'SELL' ? 'FAK' : 'FOK');
+
+            if (params.side === 'BUY' && shares * finalPrice > this.balance + 1e-9) {
+                return { success: false, error: "not enough balance / allowance", sharesFilled: 0, priceFilled: 0 };
+            }
+            if (params.side === 'SELL') {
+                const held = (this.positions.get(params.tokenId)?.shares || 0) - this.reservedShares(params.tokenId);
+                if (shares > held + 1e-9) {
+                    return { success: false, error: "not enough balance / allowance", sharesFilled: 0, priceFilled: 0 };
+                }
+            }
+
+            const matches = this.walkBook(book, params.side, finalPrice, shares);
+            const matchedShares = matches.reduce((sum, m) => sum + m.size, 0);
+
+            if (orderType === 'FOK' && matchedShares + 1e-9 < shares) {
+                return { success: false, error: "order couldn't be fully filled. FOK orders are fully filled or killed.", sharesFilled: 0, priceFilled: 0 };
+            }
+
+            const orderId = `paper-${crypto.randomBytes(8).toString('hex')}`;
+            let usdMoved = 0;
+            for (const m of matches) {
+                this.applyFill(orderId, params.marketId, params.tokenId, params.outcome, params.side, m.size, m.price);
+                usdMoved += m.size * m.price;
+            }
+            if (!this.config.bookProvider) this.consumeLiquidity(params.tokenId, params.side, matches);
+
+            const remaining = shares - matchedShares;
+            if (orderType === 'GTC' && remaining > 0) {
+                const reservedUsd = params.side === 'BUY' ? remaining * finalPrice : 0;
+                this.balance -= reservedUsd;
+                this.openOrders.set(orderId, {
+                    id: orderId,
+                    marketId: params.marketId,
+                    tokenId: params.tokenId,
+                    outcome: params.outcome,
+                    side: params.side,
+                    price: finalPrice,
+                    originalSize: shares,
+                    sizeMatched: matchedShares,
+                    reservedUsd,
+                    createdAt: this.now()
+                });
+                this.logger.info(`🚀 [PAPER MAKER] Resting GTC ${params.side} ${remaining} @ ${finalPrice} for ${params.tokenId}`);
+            }
+
+            await this.persistState();
+
+            return {
+                success: true,
+                orderId,
+                txHash: this.pseudoTxHash(),
+                sharesFilled: matchedShares,
+                priceFilled: matchedShares > 0 ? usdMoved / matchedShares : finalPrice,
+                usdFilled: usdMoved,
+                limitPrice: finalPrice,
+                orderedShares: shares,
+                orderType
+            };
+        } catch (error: any) {
+            return { success: false, error: error.message, sharesFilled: 0, priceFilled: 0 };
+        }
+    }
+
+    async cancelOrder(orderId: string): Promise<boolean> {
+        const order = this.openOrders.get(orderId);
+        if (!order) return false;
+        this.balance += order.reservedUsd;
+        this.openOrders.delete(orderId);
+        await this.persistState();
+        return true;
+    }
+
+    async cancelAllOrders(): Promise<boolean> {
+        for (const order of this.openOrders.values()) {
+            this.balance += order.reservedUsd;
+        }
+        this.openOrders.clear();
+        await this.persistState();
+        return true;
+    }
+
+    async getOpenOrders(): Promise<any[]> {
+        return Array.from(this.openOrders.values()).map(o => ({
+            id: o.id,
+            status: 'LIVE',
+            market: o.marketId,
+            asset_id: o.tokenId,
+            outcome: o.outcome,
+            side: o.side,
+            price: o.price.toString(),
+            original_size: o.originalSize.toString(),
+            size_matched: o.sizeMatched.toString(),
+            order_type: 'GTC',
+            created_at: Math.floor(o.createdAt / 1000)
+        }));
+    }
+
+    async getOrder(orderId: string): Promise<OrderSnapshot | null> {
+        const fills = this.fills.filter(f => f.orderId === orderId);
+        const matched = fills.reduce((sum, f) => sum + f.shares, 0);
+        const avgFillPrice = matched > 0 ? fills.reduce((sum, f) => sum + f.shares * f.price, 0) / matched : undefined;
+        const open = this.openOrders.get(orderId);
+        if (open) {
+            return { orderId, status: 'LIVE', originalSize: open.originalSize, sizeMatched: open.sizeMatched, price: open.price, avgFillPrice };
+        }
+        if (fills.length === 0) return { orderId, status: 'CANCELLED', originalSize: 0, sizeMatched: 0, price: 0 };
+        // Resting orders leave the book when fully matched or cancelled; the store compares against requested size
+        return { orderId, status: 'MATCHED', originalSize: matched, sizeMatched: matched, price: fills[fills.length - 1].price, avgFillPrice };
+    }
+
+    async mergePositions(conditionId: string, amount: number): Promise<string> {
+        const legs = Array.from(this.positions.values()).filter(p => p.conditionId === conditionId && p.shares > 0);
+        if (legs.length < 2) throw new Error("Merge requires both outcome positions");
+
+        const mergeable = Math.min(amount, ...legs.map(l => l.shares));
+        if (mergeable <= 0) throw new Error("Nothing to merge");
+
+        let costReleased = 0;
+        for (const leg of legs.slice(0, 2)) {
+            const cost = leg.costBasis * (mergeable / leg.shares);
+            leg.shares -= mergeable;
+            leg.costBasis -= cost;
+            costReleased += cost;
+            if (leg.shares <= 1e-9) this.positions.delete(leg.tokenId);
+        }
+        this.balance += mergeable;
+        this.realizedPnl += mergeable - costReleased;
+
+        await this.persistState();
+        return this.pseudoTxHash();
+    }
+
+    async cashout(amount: number, destination: string): Promise<string> {
+        if (amount > this.balance + 1e-9) throw new Error("Insufficient paper balance");
+        this.balance -= amount;
+        this.logger.info(`📄 Paper cashout of $${amount.toFixed(2)} to ${destination}`);
+        await this.persistState();
+        return this.pseudoTxHash();
+    }
+
+    getFunderAddress(): string {
+        return this.config.address || this.config.userId;
+    }
+
+    async redeemPosition(conditionId: string, tokenId: string): Promise<{ success: boolean; amountUsd?: number; txHash?: string; error?: string }> {
+        let winner = this.resolutions.get(conditionId);
+        if (!winner && this.config.marketProvider) {
+            const market = await this.config.marketProvider(conditionId);
+            const winningToken = market?.tokens?.find(t => t.winner === true);
+            if (winningToken) winner = winningToken.token_id;
+        }
+        if (!winner) return { success: false, error: 'market_not_resolved' };
+
+        let payout = 0;
+        for (const pos of Array.from(this.positions.values())) {
+            if (pos.conditionId !== conditionId) continue;
+            const value = pos.tokenId === winner ? pos.shares : 0;
+            payout += value;
+            this.realizedPnl += value - pos.costBasis;
+            this.recordFill({
+                id: crypto.randomUUID(),
+                orderId: 'redeem',
+                marketId: pos.marketId,
+                tokenId: pos.tokenId,
+                outcome: pos.outcome,
+                side: 'SELL',
+                shares: pos.shares,
+                price: pos.tokenId === winner ? 1 : 0,
+                realizedPnl: value - pos.costBasis,
+                timestamp: this.now()
+            });
+            this.positions.delete(pos.tokenId);
+        }
+        this.balance += payout;
+
+        await this.persistState();
+        return { success: true, amountUsd: payout, txHash: this.pseudoTxHash() };
+    }
+
+    /**
+     * Minimal stand-in for the CLOB client so duck-typed callers
+     * (market validation, quote cancellation) work unchanged in paper mode.
+     */
+    getRawClient(): any {
+        return {
+            getMarket: (conditionId: string) => this.getMarketMeta(conditionId),
+            cancelOrder: ({ orderID }: { orderID: string }) => this.cancelOrder(orderID),
+            cancelOrders: async (orderIds: string[]) => {
+                for (const id of orderIds) await this.cancelOrder(id);
+            },
+            cancelAll: () => this.cancelAllOrders()
+        };
+    }
+
+    // --- Simulation Controls (used by live feeds and the backtester) ---
+
+    recordOrderBook(tokenId: string, book: OrderBook): void {
+        this.books.set(tokenId, {
+            ...book,
+            bids: book.bids.map(b => ({ ...b })),
+            asks: book.asks.map(a => ({ ...a }))
+        });
+        const bestBid = book.bids[0]?.price;
+        const bestAsk = book.asks[0]?.price;
+        if (bestBid !== undefined && bestAsk !== undefined) {
+            this.lastPrices.set(tokenId, (bestBid + bestAsk) / 2);
+        }
+        this.matchRestingOrders(tokenId, bestBid, bestAsk);
+    }
+
+    /**
+     * Feed a live best bid/ask (e.g. from the market websocket) without replacing the stored
+     * book. Resting orders the quote crosses fill at their limit.
+     */
+    recordTopOfBook(tokenId: string, bestBid: number, bestAsk: number): void {
+        if (bestBid > 0 && bestAsk > 0) this.lastPrices.set(tokenId, (bestBid + bestAsk) / 2);
+        this.matchRestingOrders(tokenId, bestBid > 0 ? bestBid : undefined, bestAsk > 0 ? bestAsk : undefined);
+    }
+
+    /**
+     * Feed a traded price (e.g. a historical print). Resting orders crossed by it fill at their limit.
+     */
+    replayPrice(tokenId: string, price: number): void {
+        this.lastPrices.set(tokenId, price);
+        this.matchRestingOrders(tokenId, price, price);
+    }
+
+    registerMarket(meta: Partial<PaperMarketMeta> & { condition_id: string }): void {
+        const existing = this.markets.get(meta.condition_id);
+        this.markets.set(meta.condition_id, { ...this.defaultMarketMeta(meta.condition_id), ...existing, ...meta });
+    }
+
+    resolveMarket(conditionId: string, winningTokenId: string): void {
+        this.resolutions.set(conditionId, winningTokenId);
+        const meta = this.markets.get(conditionId) || this.defaultMarketMeta(conditionId);
+        this.markets.set(conditionId, {
+            ...meta,
+            closed: true,
+            active: false,
+            accepting_orders: false,
+            tokens: (meta.tokens || []).map(t => ({ ...t, winner: t.token_id === winningTokenId }))
+        });
+        for (const pos of this.positions.values()) {
+            if (pos.conditionId === conditionId) {
+                this.lastPrices.set(pos.tokenId, pos.tokenId === winningTokenId ? 1 : 0);
+            }
+        }
+    }
+
+    getLedgerSummary(): { balance: number; equity: number; realizedPnl: number; openOrders: number; fills: number } {
+        let positionValue = 0;
+        for (const pos of this.positions.values()) {
+            positionValue += pos.shares * (this.lastPrices.get(pos.tokenId) ?? (pos.shares > 0 ? pos.costBasis / pos.shares : 0));
+        }
+        let reserved = 0;
+        for (const order of this.openOrders.values()) reserved += order.reservedUsd;
+
+        return {
+            balance: this.balance,
+            equity: this.balance + reserved + positionValue,
+            realizedPnl: this.realizedPnl,
+            openOrders: this.openOrders.size,
+            fills: this.fills.length
+        };
+    }
+
+    getFills(): PaperFill[] {
+        return [...this.fills];
+    }
+
+    // --- Internals ---
+
+    private now(): number {
+        return this.config.now ? this.config.now() : Date.now();
+    }
+
+    private async getMarketMeta(conditionId: string): Promise<PaperMarketMeta> {
+        const known = this.markets.get(conditionId);
+        if (known) return known;
+        if (this.config.marketProvider) {
+            const live = await this.config.marketProvider(conditionId);
+            if (live) {
+                this.markets.set(conditionId, live);
+                return live;
+            }
+        }
+        return this.defaultMarketMeta(conditionId);
+    }
+
+    private defaultMarketMeta(conditionId: string): PaperMarketMeta {
+        return {
+            condition_id: conditionId,
+            active: true,
+            closed: false,
+            accepting_orders: true,
+            archived: false,
+            neg_risk: false,
+            minimum_tick_size: 0.01,
+            minimum_order_size: 5
+        };
+    }
+
+    private walkBook(book: OrderBook, side: OrderSide, limit: number, shares: number): { price: number; size: number }[] {
+        const levels = side === 'BUY' ? book.asks : book.bids;
+        const matches: { price: number; size: number }[] = [];
+        let remaining = shares;
+
+        for (const level of levels) {
+            if (remaining <= 0) break;
+            const crosses = side === 'BUY' ? level.price <= limit + 1e-9 : level.price >= limit - 1e-9;
+            if (!crosses) break;
+            const size = Math.min(level.size, remaining);
+            if (size <= 0) continue;
+            matches.push({ price: level.price, size });
+            remaining -= size;
+        }
+        return matches;
+    }
+
+    private consumeLiquidity(tokenId: string, side: OrderSide, matches: { price: number; size: number }[]): void {
+        const book = this.books.get(tokenId);
+        if (!book) return;
+        const levels = side === 'BUY' ? book.asks : book.bids;
+        for (const m of matches) {
+            const level = levels.find(l => Math.abs(l.price - m.price) < 1e-9);
+            if (level) level.size -= m.size;
+        }
+        if (side === 'BUY') book.asks = levels.filter(l => l.size > 1e-9);
+        else book.bids = levels.filter(l => l.size > 1e-9);
+    }
+
+    private matchRestingOrders(tokenId: string, bestBid?: number, bestAsk?: number): void {
+        let touched = false;
+        for (const order of Array.from(this.openOrders.values())) {
+            if (order.tokenId !== tokenId) continue;
+            const crossed = order.side === 'BUY'
+                ? bestAsk !== undefined && bestAsk <= order.price
+                : bestBid !== undefined && bestBid >= order.price;
+            if (!crossed) continue;
+
+            const remaining = order.originalSize - order.sizeMatched;
+            if (order.side === 'BUY') this.balance += order.reservedUsd;
+            this.applyFill(order.id, order.marketId, order.tokenId, order.outcome, order.side, remaining, order.price);
+            this.openOrders.delete(order.id);
+            touched = true;
+            this.logger.info(`✅ [PAPER] GTC ${order.side} ${remaining} @ ${order.price} filled on ${tokenId}`);
+        }
+        if (touched) {
+            this.persistState().catch(() => {});
+        }
+    }
+
+    private reservedShares(tokenId: string): number {
+        let reserved = 0;
+        for (const order of this.openOrders.values()) {
+            if (order.tokenId === tokenId && order.side === 'SELL') reserved += order.originalSize - order.sizeMatched;
+        }
+        return reserved;
+    }
+
+    private applyFill(orderId: string, marketId: string, tokenId: string, outcome: string, side: OrderSide, shares: number, price: number): void {
+        const usd = shares * price;
+        let realized: number | undefined;
+        let pos = this.positions.get(tokenId);
+
+        if (side === 'BUY') {
+            this.balance -= usd;
+            if (!pos) {
+                pos = { marketId, conditionId: marketId, tokenId, outcome, shares: 0, costBasis: 0, openedAt: this.now() };
+                this.positions.set(tokenId, pos);
+            }
+            pos.shares += shares;
+            pos.costBasis += usd;
+        } else if (pos) {
+            const cost = pos.costBasis * (shares / pos.shares);
+            realized = usd - cost;
+            this.realizedPnl += realized;
+            this.balance += usd;
+            pos.shares -= shares;
+            pos.costBasis -= cost;
+            if (pos.shares <= 1e-9) this.positions.delete(tokenId);
+        }
+
+        this.lastPrices.set(tokenId, price);
+        this.recordFill({
+            id: crypto.randomUUID(),
+            orderId,
+            marketId,
+            tokenId,
+            outcome,
+            side,
+            shares,
+            price,
+            realizedPnl: realized,
+            timestamp: this.now()
+        });
+    }
+
+    private recordFill(fill: PaperFill): void {
+        this.fills.push(fill);
+        if (this.config.persist && this.fills.length > MAX_PERSISTED_FILLS) {
+            this.fills.splice(0, this.fills.length - MAX_PERSISTED_FILLS);
+        }
+    }
+
+    private pseudoTxHash(): string {
+        return `0x${crypto.randomBytes(32).toString('hex')}`;
+    }
+
+    private async persistState(): Promise<void> {
+        if (!this.config.persist) return;
+        try {
+            await PaperAccount.findOneAndUpdate(
+                { userId: this.config.userId },
+                {
+                    $set: {
+                        balance: this.balance,
+                        startingBalance: this.config.startingBalance,
+                        positions: Array.from(this.positions.values()),
+                        openOrders: Array.from(this.openOrders.values()),
+                        fills: this.fills,
+                        realizedPnl: this.realizedPnl,
+                        updatedAt: new Date()
+                    }
+                },
+                { upsert: true }
+            );
+        } catch (e: any) {
+            this.logger.warn(`Paper ledger save failed: ${e.message}`);
+        }
+    }
+}
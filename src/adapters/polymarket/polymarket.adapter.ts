@@ -2,6 +2,7 @@ import {
     IExchangeAdapter, 
     OrderParams,
     OrderResult,
+    OrderSnapshot,
     LiquidityHealth,
     LiquidityMetrics,
     OrderSide
@@ -13,15 +14,18 @@ import { Wallet as WalletV6, JsonRpcProvider, Contract, formatUnits, Interface,
 import { Wallet as WalletV5, providers as providersV5 } from 'ethers-v5'; // V5 for SDK
 import { EvmWalletService } from '../../services/evm-wallet.service.js';
 import { SafeManagerService } from '../../services/safe-manager.service.js';
+import { getGammaClient } from '../../services/gamma-client.service.js';
 import { TradingWalletConfig, L2ApiCredentials } from '../../domain/wallet.types.js';
 import { User, Trade, MoneyMarketOpportunity } from '../../database/index.js';
 import { BuilderConfig } from '@polymarket/builder-signing-sdk';
 import { Logger } from '../../utils/logger.util.js';
+import { resolveOutcomeLabel } from '../../utils/outcome.util.js';
 import { TOKENS } from '../../config/env.js';
 import axios from 'axios';
 
 const HOST_URL = 'https://clob.polymarket.com';
 const CTF_ADDRESS = "0x4d97dcd97ec945f40cf65f87097ace5ea0476045";
+const NEG_RISK_ADAPTER_ADDRESS = "0xd91E80cF2E7be2e162c6513ceD06f1dD0dA35296";
 
 enum SignatureType {
     EOA = 0,
@@ -287,14 +291,8 @@ export class PolymarketAdapter implements IExchangeAdapter {
         }
         if (marketSlug) {
             try {
-                const gammaUrl = `https://gamma-api.polymarket.com/markets/slug/${marketSlug}`;
-                const gammaResponse = await fetch(gammaUrl);
-                if (gammaResponse.ok) {
-                    const marketData = await gammaResponse.json();
-                    if (marketData.events && marketData.events.length > 0) {
-                        eventSlug = marketData.events[0]?.slug || "";
-                    }
-                }
+                const marketData = await getGammaClient().getMarketBySlug(marketSlug);
+                eventSlug = marketData?.events?.[0]?.slug || "";
             } catch (e) { }
         }
         return { marketSlug, eventSlug, question, image };
@@ -337,6 +335,8 @@ export class PolymarketAdapter implements IExchangeAdapter {
                     conditionId: conditionId,
                     tokenId: tokenId,
                     outcome: p.outcome || 'UNK',
+                    outcomeIndex: typeof p.outcomeIndex === 'number' ? p.outcomeIndex : undefined,
+                    negRisk: p.negativeRisk === true,
                     balance: size,
                     valueUsd: currentValueUsd,
                     investedValue: investedValueUsd,
@@ -368,7 +368,8 @@ export class PolymarketAdapter implements IExchangeAdapter {
                     trader: address,
                     marketId: act.conditionId,
                     tokenId: act.asset,
-                    outcome: act.outcomeIndex === 0 ? 'YES' : 'NO',
+                    outcome: resolveOutcomeLabel(act.outcome, act.outcomeIndex),
+                    outcomeIndex: act.outcomeIndex,
                     side: act.side.toUpperCase() as 'BUY' | 'SELL',
                     sizeUsd: act.usdcSize || (act.size * act.price),
                     price: act.price,
@@ -391,14 +392,17 @@ export class PolymarketAdapter implements IExchangeAdapter {
             const tickSize = Number(market.minimum_tick_size) || 0.01;
             const minOrderSize = Number(market.minimum_order_size) || 5;
 
+            const book = await this.getOrderBook(params.tokenId);
+            // Multi-outcome events settle through the neg-risk exchange; the book is authoritative per token
+            const negRisk = (book.neg_risk ?? market.neg_risk) === true;
+
             if (params.side === 'BUY') {
-                await this.ensureUsdcAllowance(market.neg_risk, params.sizeUsd);
+                await this.ensureUsdcAllowance(negRisk, params.sizeUsd);
             } else {
-                await this.ensureOutcomeTokenApproval(market.neg_risk);
+                await this.ensureOutcomeTokenApproval(negRisk);
             }
 
             const side = params.side === 'BUY' ? Side.BUY : Side.SELL;
-            const book = await this.getOrderBook(params.tokenId);
             
             let rawPrice: number;
             if (side === Side.SELL) {
@@ -438,7 +442,7 @@ export class PolymarketAdapter implements IExchangeAdapter {
                 size: Math.floor(shares),
                 feeRateBps: 0,
                 taker: "0x0000000000000000000000000000000000000000"
-            });
+            }, { negRisk });
 
             // CRITICAL: Respect orderType parameter for GTC (Maker) support
             let orderType = OrderType.FOK; // Default to FOK for Safety (Taker)
@@ -473,7 +477,10 @@ export class PolymarketAdapter implements IExchangeAdapter {
                     txHash: res.transactionHash, 
                     sharesFilled: actualFilledShares, 
                     priceFilled: avgPrice,
-                    usdFilled: actualUsdMoved
+                    usdFilled: actualUsdMoved,
+                    limitPrice: finalPrice,
+                    orderedShares: Math.floor(shares),
+                    orderType: orderType === OrderType.GTC ? 'GTC' : orderType === OrderType.FAK ? 'FAK' : 'FOK'
                 };
             }
             throw new Error(res.errorMsg || "Order execution rejected by relayer");
@@ -509,6 +516,36 @@ export class PolymarketAdapter implements IExchangeAdapter {
         } catch (e) { return []; }
     }
 
+    async getOrder(orderId: string): Promise<OrderSnapshot | null> {
+        if (!this.client) return null;
+        try {
+            const order: any = await this.client.getOrder(orderId);
+            if (!order || !order.id) return null;
+            const status = String(order.status || '').toUpperCase();
+            const expiration = Number(order.expiration) || 0;
+            return {
+                orderId: order.id,
+                status: status === 'LIVE' ? 'LIVE' : status === 'MATCHED' ? 'MATCHED' : 'CANCELLED',
+                originalSize: parseFloat(order.original_size || '0'),
+                sizeMatched: parseFloat(order.size_matched || '0'),
+                price: parseFloat(order.price || '0'),
+                expiration: expiration > 0 ? expiration * 1000 : undefined,
+                tradeIds: order.associate_trades || []
+            };
+        } catch (e) { return null; }
+    }
+
+    async getRewardEarnings(date: string): Promise<{ conditionId: string; earnings: number }[]> {
+        if (!this.client) return [];
+        const rows = await this.client.getEarningsForUserForDay(date);
+        // One row per reward asset; sum them per market
+        const byMarket = new Map<string, number>();
+        for (const row of rows || []) {
+            byMarket.set(row.condition_id, (byMarket.get(row.condition_id) || 0) + Number(row.earnings || 0));
+        }
+        return Array.from(byMarket, ([conditionId, earnings]) => ({ conditionId, earnings }));
+    }
+
     async mergePositions(conditionId: string, amount: number): Promise<string> {
         if (!this.safeManager) throw new Error("No Safe");
         const amountWei = ethers.parseUnits(amount.toString(), 6);
@@ -565,6 +602,13 @@ export class PolymarketAdapter implements IExchangeAdapter {
         return this.client;
     }
 
+    /**
+     * L2 credentials in use (derived on first authenticate if none were stored)
+     */
+    getApiCredentials(): L2ApiCredentials | undefined {
+        return this.config.l2ApiCredentials;
+    }
+
     getSigner(): any {
         return this.wallet;
     }
@@ -575,18 +619,30 @@ export class PolymarketAdapter implements IExchangeAdapter {
         const USDC_ADDRESS = TOKENS.USDC_BRIDGED;
         try {
             const balanceBefore = await this.fetchBalance(this.safeAddress);
-            const indexSets = [1n, 2n];
-            
-            const redeemTx = {
-                to: CTF_ADDRESS,
-                data: this.encodeRedeemPositions(
-                    USDC_ADDRESS,
-                    ethers.ZeroHash,
-                    conditionId,
-                    indexSets
-                ),
-                value: "0"
-            };
+            const negRiskAmounts = await this.getNegRiskRedeemAmounts(conditionId);
+
+            let redeemTx;
+            if (negRiskAmounts) {
+                // Neg-risk legs hold wrapped collateral; only the adapter can unwrap them
+                redeemTx = {
+                    to: NEG_RISK_ADAPTER_ADDRESS,
+                    data: new Interface(["function redeemPositions(bytes32 conditionId, uint256[] amounts)"])
+                        .encodeFunctionData("redeemPositions", [conditionId, negRiskAmounts]),
+                    value: "0"
+                };
+            } else {
+                const indexSets = [1n, 2n];
+                redeemTx = {
+                    to: CTF_ADDRESS,
+                    data: this.encodeRedeemPositions(
+                        USDC_ADDRESS,
+                        ethers.ZeroHash,
+                        conditionId,
+                        indexSets
+                    ),
+                    value: "0"
+                };
+            }
             
             const txHash = await this.safeManager.executeTransaction(redeemTx);
             await new Promise(r => setTimeout(r, 5000));
@@ -602,6 +658,28 @@ export class PolymarketAdapter implements IExchangeAdapter {
         }
     }
 
+    /**
+     * For neg-risk markets, the Safe's balance of each outcome token in CLOB token order
+     * (the NegRiskAdapter wants amounts, not index sets). Null for standard markets.
+     */
+    private async getNegRiskRedeemAmounts(conditionId: string): Promise<bigint[] | null> {
+        if (!this.client || !this.safeAddress) return null;
+        let market: any;
+        try {
+            market = await this.client.getMarket(conditionId);
+        } catch (e) {
+            return null;
+        }
+        if (!market?.neg_risk || !Array.isArray(market.tokens) || market.tokens.length === 0) return null;
+
+        const ctf = new Contract(CTF_ADDRESS, ["function balanceOf(address account, uint256 id) view returns (uint256)"], this.provider);
+        const amounts: bigint[] = [];
+        for (const token of market.tokens) {
+            amounts.push(await ctf.balanceOf(this.safeAddress, token.token_id));
+        }
+        return amounts;
+    }
+
     private encodeRedeemPositions(collateralToken: string, parentCollectionId: string, conditionId: string, indexSets: bigint[]): string {
         const iface = new Interface(["function redeemPositions(address collateralToken, bytes32 parentCollectionId, bytes32 conditionId, uint256[] calldata indexSets)"]);
         return iface.encodeFunctionData("redeemPositions", [collateralToken, parentCollectionId, conditionId, indexSets]);
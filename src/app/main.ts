@@ -4,10 +4,12 @@ import { loadEnv } from '../config/env.js';
 import { createPolymarketClient } from '../infrastructure/clob-client.factory.js';
 import { TradeMonitorService } from '../services/trade-monitor.service.js';
 import { TradeExecutorService } from '../services/trade-executor.service.js';
+import { TradeAggregatorService } from '../services/trade-aggregator.service.js';
 import { FundManagerService, FundManagerConfig } from '../services/fund-manager.service.js';
 import { NotificationService } from '../services/notification.service.js';
 import { FeeDistributorService } from '../services/fee-distributor.service.js';
 import { ConsoleLogger } from '../utils/logger.util.js';
+import { resolveOutcomeLabel } from '../utils/outcome.util.js';
 import { getUsdBalanceApprox, getPolBalance } from '../utils/get-balance.util.js';
 import { AlphaRegistryService } from '../services/alpha-registry.service.js';
 import { IExchangeAdapter, OrderParams, OrderResult } from '../adapters/interfaces.js';
@@ -27,6 +29,7 @@ interface PolyActivityResponse {
   price: number;
   side: string;
   outcomeIndex: number;
+  outcome?: string;
   transactionHash: string;
 }
 
@@ -127,7 +130,8 @@ async function main(): Promise<void> {
                          trader: address,
                          marketId: act.conditionId,
                          tokenId: act.asset,
-                         outcome: act.outcomeIndex === 0 ? 'YES' : 'NO',
+                         outcome: resolveOutcomeLabel(act.outcome, act.outcomeIndex),
+                         outcomeIndex: act.outcomeIndex,
                          side: act.side.toUpperCase() as 'BUY' | 'SELL',
                          sizeUsd: act.usdcSize || (act.size * act.price),
                          price: act.price,
@@ -245,12 +249,11 @@ async function main(): Promise<void> {
     env 
   });
 
-  const monitor = new TradeMonitorService({
-    adapter,
-    logger,
+  // No-op passthrough unless TRADE_AGGREGATION_ENABLED=true
+  const aggregator = new TradeAggregatorService({
     env,
-    userAddresses: env.userAddresses,
-    onDetectedTrade: async (signal) => {
+    logger,
+    onFlush: async (signal) => {
       await executor.copyTrade(signal);
       
       if (signal.side === 'SELL') {
@@ -272,6 +275,14 @@ async function main(): Promise<void> {
     },
   });
 
+  const monitor = new TradeMonitorService({
+    adapter,
+    logger,
+    env,
+    userAddresses: env.userAddresses,
+    onDetectedTrade: (signal) => aggregator.push(signal),
+  });
+
   await monitor.start(Math.floor(Date.now() / 1000));
 }
 
@@ -1,14 +1,57 @@
-
 import 'dotenv/config';
+import fs from 'fs';
 import { ConsoleLogger } from '../utils/logger.util.js';
+import { BacktestService, loadActivityFixtures } from '../services/backtest.service.js';
+import { parseSimulationArgs } from './simulation-args.js';
 
+/**
+ * Offline copy-trading backtester.
+ *
+ * Usage:
+ *   run-simulations --fixtures trades.ndjson[,more.json] --traders 0xabc,0xdef
+ *     [--from 2024-01-01] [--to 2024-12-31] [--balance 1000] [--multiplier 1]
+ *     [--max-trade 100] [--risk balanced] [--liquidity LOW] [--tp 20]
+ *     [--trader-balance 10000] [--spread 1] [--depth 1000] [--out report.json]
+ *     [--sizing proportional|fixed_usd|fixed_shares|percent_equity|kelly|conviction] [--sizing-value N]
+ *     [--win-rate 55]
+ */
 async function run(): Promise<void> {
   const logger = new ConsoleLogger();
+  const { fixtures, out, options } = parseSimulationArgs(process.argv.slice(2));
   logger.info('Simulation runner starting...');
+
+  const backtest = new BacktestService(options, logger);
+
+  const report = await backtest.run(loadActivityFixtures(fixtures));
+
+  const reasons = Object.entries(report.skipReasons)
+    .sort((a, b) => b[1] - a[1])
+    .map(([reason, count]) => `    ${reason}: ${count}`)
+    .join('\n');
+
+  console.log(
+    [
+      '',
+      '=== Backtest Report ===',
+      `Starting balance : $${report.startingBalance.toFixed(2)}`,
+      `Final equity     : $${report.finalEquity.toFixed(2)} (${report.returnPct >= 0 ? '+' : ''}${report.returnPct.toFixed(2)}%)`,
+      `Realized PnL     : $${report.realizedPnl.toFixed(2)}`,
+      `Unrealized PnL   : $${report.unrealizedPnl.toFixed(2)}`,
+      `Signals          : ${report.signals} (copied ${report.copied}, skipped ${report.skipped})`,
+      `Win rate         : ${report.winRate.toFixed(1)}% (${report.wins}W / ${report.losses}L)`,
+      `Max drawdown     : $${report.maxDrawdown.toFixed(2)} (${report.maxDrawdownPct.toFixed(2)}%)`,
+      `Skipped reasons  :${reasons ? '\n' + reasons : ' none'}`,
+      ''
+    ].join('\n')
+  );
+
+  if (out) {
+    fs.writeFileSync(out, JSON.stringify(report, null, 2));
+    logger.success(`Report (with equity curve) written to ${out}`);
+  }
 }
 
 run().catch((err) => {
-  // eslint-disable-next-line no-console
   console.error(err);
   process.exit(1);
 });
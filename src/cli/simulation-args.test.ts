@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { parseArgs, parseSimulationArgs, parseSizing } from './simulation-args.js';
+
+const NOW = Date.UTC(2025, 6, 1);
+
+describe('parseArgs', () => {
+  it('pairs flags with their values and treats bare flags as true', () => {
+    expect(parseArgs(['--fixtures', 'a.json', '--dry', '--balance', '50', 'stray'])).toEqual({ fixtures: 'a.json', dry: 'true', balance: '50' });
+  });
+});
+
+describe('parseSizing', () => {
+  it('sets the primary knob of the chosen strategy', () => {
+    expect(parseSizing('kelly', '0.5')).toEqual({ type: 'kelly', kellyFraction: 0.5 });
+    expect(parseSizing('proportional', '3')).toEqual({ type: 'proportional' });
+    expect(parseSizing(undefined, '3')).toBeUndefined();
+  });
+
+  it('refuses unknown strategies and non-numeric values', () => {
+    expect(() => parseSizing('martingale')).toThrow('Unknown --sizing');
+    expect(() => parseSizing('fixed_usd', 'ten')).toThrow('--sizing-value');
+  });
+});
+
+describe('parseSimulationArgs', () => {
+  it('requires fixtures', () => {
+    expect(() => parseSimulationArgs(['--traders', '0xabc'], NOW)).toThrow('--fixtures');
+  });
+
+  it('fills defaults for everything left out', () => {
+    const { fixtures, out, options } = parseSimulationArgs(['--fixtures', 'a.json, b.ndjson'], NOW);
+    expect(fixtures).toEqual(['a.json', 'b.ndjson']);
+    expect(out).toBeUndefined();
+    expect(options).toEqual({
+      traders: [],
+      from: 0,
+      to: NOW,
+      startingBalance: 1000,
+      strategy: { multiplier: 1, maxTradeAmount: 100, riskProfile: 'balanced', minLiquidityFilter: 'LOW', autoTp: undefined, sizingStrategy: undefined },
+      traderBalanceUsd: 10000,
+      traderWinRate: undefined,
+      spreadCents: 1,
+      depthUsd: 1000
+    });
+  });
+
+  it('reads the window, strategy and report path', () => {
+    const { out, options } = parseSimulationArgs([
+      '--fixtures', 'a.json', '--traders', '0xabc,0xdef', '--from', '2025-01-01', '--to', '2025-02-01',
+      '--multiplier', '2', '--liquidity', 'high', '--tp', '20', '--sizing', 'fixed_usd', '--sizing-value', '25',
+      '--win-rate', '55', '--out', 'report.json'
+    ], NOW);
+
+    expect(out).toBe('report.json');
+    expect(options).toMatchObject({
+      traders: ['0xabc', '0xdef'],
+      from: Date.UTC(2025, 0, 1),
+      to: Date.UTC(2025, 1, 1),
+      traderWinRate: 55,
+      strategy: { multiplier: 2, minLiquidityFilter: 'HIGH', autoTp: 20, sizingStrategy: { type: 'fixed_usd', fixedUsd: 25 } }
+    });
+  });
+});
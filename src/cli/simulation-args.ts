@@ -0,0 +1,93 @@
+import { SizingStrategyConfig, SizingStrategyType } from '../config/copy-strategy.js';
+import { BacktestOptions, BacktestStrategy } from '../services/backtest.service.js';
+
+export type SimulationArgs = {
+  fixtures: string[];
+  out?: string;
+  options: BacktestOptions;
+};
+
+type SizingValueKey = Exclude<keyof SizingStrategyConfig, 'type'>;
+
+// --sizing-value maps onto the primary knob of the chosen strategy
+const SIZING_VALUE_KEY: Record<SizingStrategyType, SizingValueKey | undefined> = {
+  proportional: undefined,
+  fixed_usd: 'fixedUsd',
+  fixed_shares: 'fixedShares',
+  percent_equity: 'equityPct',
+  kelly: 'kellyFraction',
+  conviction: 'convictionBaseUsd'
+};
+
+const isSizingType = (type: string): type is SizingStrategyType => Object.prototype.hasOwnProperty.call(SIZING_VALUE_KEY, type);
+
+/**
+ * Reads `--key value` pairs; a flag followed by another flag (or nothing) is 'true'.
+ */
+export function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const key = argv[i];
+    if (!key.startsWith('--')) continue;
+    const next = argv[i + 1];
+    if (next === undefined || next.startsWith('--')) {
+      args[key.slice(2)] = 'true';
+    } else {
+      args[key.slice(2)] = next;
+      i++;
+    }
+  }
+  return args;
+}
+
+const list = (val?: string) => (val ? val.split(',').map((s) => s.trim()).filter(Boolean) : []);
+const num = (val: string | undefined, fallback: number) => (val !== undefined && !isNaN(Number(val)) ? Number(val) : fallback);
+
+export function parseSizing(type?: string, value?: string): SizingStrategyConfig | undefined {
+  if (!type) return undefined;
+  if (!isSizingType(type)) throw new Error(`Unknown --sizing ${type}`);
+  const config: SizingStrategyConfig = { type };
+  const key = SIZING_VALUE_KEY[type];
+  if (key && value !== undefined) {
+    if (isNaN(Number(value))) throw new Error(`--sizing-value must be a number, got ${value}`);
+    config[key] = Number(value);
+  }
+  return config;
+}
+
+/**
+ * Backtest options from the run-simulations command line. Throws when no fixtures are given.
+ */
+export function parseSimulationArgs(argv: string[], now: number = Date.now()): SimulationArgs {
+  const args = parseArgs(argv);
+
+  const fixtures = list(args.fixtures);
+  if (fixtures.length === 0) {
+    throw new Error('At least one --fixtures file (JSON or NDJSON activity) is required');
+  }
+
+  const strategy: BacktestStrategy = {
+    multiplier: num(args.multiplier, 1),
+    maxTradeAmount: num(args['max-trade'], 100),
+    riskProfile: (args.risk as BacktestStrategy['riskProfile']) || 'balanced',
+    minLiquidityFilter: (args.liquidity?.toUpperCase() as BacktestStrategy['minLiquidityFilter']) || 'LOW',
+    autoTp: args.tp ? Number(args.tp) : undefined,
+    sizingStrategy: parseSizing(args.sizing, args['sizing-value'])
+  };
+
+  return {
+    fixtures,
+    out: args.out,
+    options: {
+      traders: list(args.traders),
+      from: args.from ? Date.parse(args.from) : 0,
+      to: args.to ? Date.parse(args.to) : now,
+      startingBalance: num(args.balance, 1000),
+      strategy,
+      traderBalanceUsd: num(args['trader-balance'], 10000),
+      traderWinRate: args['win-rate'] ? Number(args['win-rate']) : undefined,
+      spreadCents: num(args.spread, 1),
+      depthUsd: num(args.depth, 1000)
+    }
+  };
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { computeExitFraction, computeProportionalSizing, createSizingStrategy, SizingContext, sizeSellShares } from './copy-strategy.js';
+
+const CONTEXT: SizingContext = {
+  yourUsdBalance: 100,
+  yourShareBalance: 0,
+  traderUsdBalance: 1000,
+  traderTradeUsd: 100,
+  multiplier: 1,
+  currentPrice: 0.5,
+  side: 'BUY',
+  yourEquityUsd: 200
+};
+
+describe('sizeSellShares', () => {
+  it('sells nothing when the whole holding is below the market minimum', () => {
+    const sell = sizeSellShares(3, 2);
+    expect(sell.targetShares).toBe(0);
+    expect(sell.reason).toMatch(/^dust_trap_detected/);
+  });
+
+  it('boosts a small sell to the minimum', () => {
+    expect(sizeSellShares(20, 2)).toEqual({ targetShares: 5, reason: 'sell_boost_to_min_shares' });
+  });
+
+  it('sells everything rather than leave dust behind', () => {
+    expect(sizeSellShares(20, 17)).toEqual({ targetShares: 20, reason: 'full_liquidation_to_prevent_dust' });
+  });
+
+  it('never sells more than is held', () => {
+    expect(sizeSellShares(20, 30).targetShares).toBe(20);
+  });
+
+  it('uses the market minimum it is given', () => {
+    expect(sizeSellShares(8, 1, 1)).toEqual({ targetShares: 1, reason: undefined });
+  });
+});
+
+describe('computeExitFraction', () => {
+  it('is sold over sold plus still held', () => {
+    expect(computeExitFraction(5, 15)).toBe(0.25);
+    expect(computeExitFraction(10, 0)).toBe(1);
+  });
+
+  it('is zero without a sale and capped at a full exit', () => {
+    expect(computeExitFraction(0, 10)).toBe(0);
+    expect(computeExitFraction(NaN, 10)).toBe(0);
+    expect(computeExitFraction(5, -3)).toBe(1);
+  });
+});
+
+describe('computeProportionalSizing', () => {
+  it('sizes a buy by our balance relative to the trader after their trade', () => {
+    const result = computeProportionalSizing(CONTEXT);
+    expect(result.ratio).toBeCloseTo(100 / 1100, 9);
+    expect(result.targetShares).toBe(18);
+  });
+
+  it('mirrors a sell from the shares we hold', () => {
+    const result = computeProportionalSizing({ ...CONTEXT, side: 'SELL', yourShareBalance: 100 });
+    expect(result.targetShares).toBe(20);
+    expect(result.targetUsdSize).toBe(10);
+  });
+});
+
+describe('createSizingStrategy', () => {
+  it('defaults to proportional sizing', () => {
+    expect(createSizingStrategy().type).toBe('proportional');
+  });
+
+  it('buys a fixed USD amount', () => {
+    const result = createSizingStrategy({ type: 'fixed_usd', fixedUsd: 10 }).compute(CONTEXT);
+    expect(result.targetShares).toBe(20);
+    expect(result.reason).toBe('fixed_usd');
+  });
+
+  it('caps a percent of equity at our cash', () => {
+    const result = createSizingStrategy({ type: 'percent_equity', equityPct: 80 }).compute(CONTEXT);
+    expect(result.targetUsdSize).toBe(100);
+    expect(result.reason).toBe('percent_equity_80+capped_at_balance');
+  });
+
+  it('skips kelly without a positive edge', () => {
+    const kelly = createSizingStrategy({ type: 'kelly' });
+    expect(kelly.compute(CONTEXT).reason).toBe('kelly_no_win_rate');
+    expect(kelly.compute({ ...CONTEXT, traderWinRate: 40 }).targetShares).toBe(0);
+  });
+
+  it('stakes a fraction of full kelly', () => {
+    // p = 0.7 at even odds: full kelly 40%, a quarter of it 10% of $200 equity
+    const result = createSizingStrategy({ type: 'kelly' }).compute({ ...CONTEXT, traderWinRate: 70 });
+    expect(result.targetUsdSize).toBeCloseTo(20, 9);
+  });
+
+  it('scales conviction by trade size over the trader median, capped', () => {
+    const conviction = createSizingStrategy({ type: 'conviction', convictionBaseUsd: 10 });
+    expect(conviction.compute({ ...CONTEXT, traderMedianTradeUsd: 50 }).reason).toBe('conviction_2.00x');
+    expect(conviction.compute({ ...CONTEXT, traderMedianTradeUsd: 5 }).targetUsdSize).toBe(30);
+  });
+
+  it('mirrors sells proportionally whatever the buy strategy', () => {
+    const sell = { ...CONTEXT, side: 'SELL' as const, yourShareBalance: 100 };
+    expect(createSizingStrategy({ type: 'fixed_usd', fixedUsd: 50 }).compute(sell)).toEqual(computeProportionalSizing(sell));
+  });
+});
@@ -17,6 +17,42 @@ export type SizingResult = {
   reason?: string; // Metadata about why this size was chosen
 };
 
+/**
+ * Dust handling for any SELL: nothing when the whole holding is below the market minimum,
+ * at least the minimum otherwise, and everything when the remainder would fall below it.
+ */
+export function sizeSellShares(heldShares: number, targetShares: number, minOrderSize = 5): { targetShares: number; reason?: string } {
+  // If we have less than the minimum shares in total, we are in a 'Dust Trap'
+  if (heldShares < minOrderSize) {
+    return { targetShares: 0, reason: `dust_trap_detected: held_${heldShares.toFixed(2)}_below_min_${minOrderSize}` };
+  }
+
+  let reason: string | undefined;
+  // If the sell is too small, but we have enough to sell the minimum
+  if (targetShares < minOrderSize) {
+    targetShares = minOrderSize;
+    reason = "sell_boost_to_min_shares";
+  }
+
+  // CRITICAL: If this sell would leave us with 'dust' ( < min shares), just sell everything
+  const remaining = heldShares - targetShares;
+  if (remaining > 0 && remaining < minOrderSize) {
+    targetShares = heldShares;
+    reason = "full_liquidation_to_prevent_dust";
+  }
+
+  // Ensure we don't try to sell more than we have
+  return { targetShares: Math.min(targetShares, heldShares), reason };
+}
+
+/**
+ * Fraction of a position the trader just sold: sold / (sold + still held), in 0..1.
+ */
+export function computeExitFraction(soldShares: number, remainingShares: number): number {
+  if (!(soldShares > 0)) return 0;
+  return Math.min(1, soldShares / (soldShares + Math.max(0, remainingShares)));
+}
+
 export function computeProportionalSizing(input: CopyInputs): SizingResult {
   const { 
     yourUsdBalance, 
@@ -70,33 +106,13 @@ export function computeProportionalSizing(input: CopyInputs): SizingResult {
 
   // 3. Handle SELL Logic (Dust Prevention)
   if (side === 'SELL') {
-    let targetShares = Math.floor(targetUsdSize / price);
-    
-    // If we have less than the minimum shares in total, we are in a 'Dust Trap'
-    if (yourShareBalance < minOrderSize) {
-        return { 
-          targetUsdSize: 0, 
-          targetShares: 0, 
-          ratio, 
-          reason: `dust_trap_detected: held_${yourShareBalance.toFixed(2)}_below_min_${minOrderSize}` 
-        };
-    }
-
-    // If the proportional sell is too small, but we have enough to sell the minimum
-    if (targetShares < minOrderSize) {
-        targetShares = minOrderSize;
-        reason = "sell_boost_to_min_shares";
+    const sell = sizeSellShares(yourShareBalance, Math.floor(targetUsdSize / price), minOrderSize);
+    if (sell.targetShares <= 0) {
+        return { targetUsdSize: 0, targetShares: 0, ratio, reason: sell.reason };
     }
 
-    // CRITICAL: If this sell would leave us with 'dust' ( < 5 shares), just sell everything
-    const remaining = yourShareBalance - targetShares;
-    if (remaining > 0 && remaining < minOrderSize) {
-        targetShares = yourShareBalance;
-        reason = "full_liquidation_to_prevent_dust";
-    }
-
-    // Ensure we don't try to sell more than we have
-    targetShares = Math.min(targetShares, yourShareBalance);
+    const targetShares = sell.targetShares;
+    if (sell.reason) reason = sell.reason;
     targetUsdSize = targetShares * price;
 
     return { 
@@ -108,4 +124,138 @@ export function computeProportionalSizing(input: CopyInputs): SizingResult {
   }
 
   return { targetUsdSize: 0, targetShares: 0, ratio: 0, reason: "invalid_side" };
-}
\ No newline at end of file
+}
+
+// --- Pluggable Sizing Strategies ---
+
+export type SizingStrategyType =
+  | 'proportional'
+  | 'fixed_usd'
+  | 'fixed_shares'
+  | 'percent_equity'
+  | 'kelly'
+  | 'conviction';
+
+export type SizingStrategyConfig = {
+  type: SizingStrategyType;
+  fixedUsd?: number;          // fixed_usd: USD per copied BUY
+  fixedShares?: number;       // fixed_shares: shares per copied BUY
+  equityPct?: number;         // percent_equity: % of our total equity per BUY (e.g. 2 = 2%)
+  kellyFraction?: number;     // kelly: fraction of full Kelly to stake (default 0.25)
+  convictionBaseUsd?: number; // conviction: USD stake for a median-sized trader trade
+  maxConvictionMultiple?: number; // conviction: cap on the size/median ratio (default 3)
+};
+
+export type SizingContext = CopyInputs & {
+  yourEquityUsd: number;          // Cash + marked positions
+  traderWinRate?: number;         // Registry win rate, percent (0-100)
+  traderMedianTradeUsd?: number;  // Median USD size of the trader's recent trades
+};
+
+export interface SizingStrategy {
+  readonly type: SizingStrategyType;
+  compute(ctx: SizingContext): SizingResult;
+}
+
+/**
+ * Applies the same floor / cap / min-shares guards as proportional sizing to a raw BUY target.
+ */
+function finalizeBuy(ctx: SizingContext, rawUsd: number, reason: string): SizingResult {
+  const price = Math.max(0.01, Math.min(0.99, ctx.currentPrice));
+  const minOrderSize = ctx.minOrderSize ?? 5;
+  const ratio = ctx.traderUsdBalance > 0 ? ctx.yourUsdBalance / ctx.traderUsdBalance : 0;
+  let targetUsdSize = Math.max(0, rawUsd);
+
+  if (targetUsdSize < 1.00) {
+    targetUsdSize = Math.ceil(1.00 / price) * price;
+    reason = `${reason}+floor_boost_min_value`;
+  }
+  if (ctx.maxTradeAmount && targetUsdSize > ctx.maxTradeAmount) {
+    targetUsdSize = ctx.maxTradeAmount;
+    reason = `${reason}+capped_at_max`;
+  }
+  if (targetUsdSize > ctx.yourUsdBalance) {
+    targetUsdSize = ctx.yourUsdBalance;
+    reason = `${reason}+capped_at_balance`;
+  }
+
+  let targetShares = Math.floor(targetUsdSize / price);
+  if (targetShares < minOrderSize) {
+    targetShares = minOrderSize;
+    targetUsdSize = targetShares * price;
+    reason = `${reason}+boosted_for_min_shares`;
+  }
+
+  return { targetUsdSize, targetShares, ratio, reason };
+}
+
+const skip = (reason: string): SizingResult => ({ targetUsdSize: 0, targetShares: 0, ratio: 0, reason });
+
+/**
+ * Non-proportional strategies only decide BUY size. Exits keep mirroring the
+ * trader proportionally (with dust protection) so positions are never orphaned.
+ */
+function withProportionalSells(
+  type: SizingStrategyType,
+  buy: (ctx: SizingContext) => SizingResult
+): SizingStrategy {
+  return {
+    type,
+    compute: (ctx) => (ctx.side === 'SELL' ? computeProportionalSizing(ctx) : buy(ctx))
+  };
+}
+
+export function createSizingStrategy(config?: SizingStrategyConfig): SizingStrategy {
+  const type = config?.type || 'proportional';
+
+  switch (type) {
+    case 'fixed_usd':
+      return withProportionalSells(type, (ctx) =>
+        finalizeBuy(ctx, config?.fixedUsd ?? 10, 'fixed_usd')
+      );
+
+    case 'fixed_shares':
+      return withProportionalSells(type, (ctx) => {
+        const shares = Math.max(0, Math.floor(config?.fixedShares ?? 10));
+        return finalizeBuy(ctx, shares * ctx.currentPrice, 'fixed_shares');
+      });
+
+    case 'percent_equity':
+      return withProportionalSells(type, (ctx) => {
+        const pct = Math.max(0, config?.equityPct ?? 2);
+        return finalizeBuy(ctx, ctx.yourEquityUsd * (pct / 100), `percent_equity_${pct}`);
+      });
+
+    case 'kelly':
+      return withProportionalSells(type, (ctx) => {
+        if (ctx.traderWinRate === undefined || ctx.traderWinRate <= 0) {
+          return skip('kelly_no_win_rate');
+        }
+        const p = Math.min(0.99, ctx.traderWinRate / 100);
+        const price = Math.max(0.01, Math.min(0.99, ctx.currentPrice));
+        const odds = (1 - price) / price; // Net payout per $1 staked on a binary share
+        const fullKelly = p - (1 - p) / odds;
+        if (fullKelly <= 0) {
+          return skip(`kelly_negative_edge_${(fullKelly * 100).toFixed(1)}pct`);
+        }
+        const fraction = config?.kellyFraction ?? 0.25;
+        const stakePct = fullKelly * fraction;
+        return finalizeBuy(ctx, ctx.yourEquityUsd * stakePct, `kelly_${(stakePct * 100).toFixed(1)}pct`);
+      });
+
+    case 'conviction':
+      return withProportionalSells(type, (ctx) => {
+        const base = config?.convictionBaseUsd ?? 10;
+        if (!ctx.traderMedianTradeUsd || ctx.traderMedianTradeUsd <= 0) {
+          return finalizeBuy(ctx, base, 'conviction_no_history');
+        }
+        const maxMultiple = config?.maxConvictionMultiple ?? 3;
+        const multiple = Math.min(maxMultiple, Math.max(0.25, ctx.traderTradeUsd / ctx.traderMedianTradeUsd));
+        return finalizeBuy(ctx, base * multiple, `conviction_${multiple.toFixed(2)}x`);
+      });
+
+    case 'proportional':
+    default:
+      return { type: 'proportional', compute: (ctx) => computeProportionalSizing(ctx) };
+  }
+}
@@ -0,0 +1,94 @@
+export type TargetSides = 'BOTH' | 'BUY_ONLY';
+
+/**
+ * Per-followed-wallet overrides. Anything left undefined falls back to the bot-wide setting.
+ */
+export type TargetWalletConfig = {
+  address: string;
+  label?: string;
+  multiplier?: number;
+  maxTradeAmount?: number;
+  allowedSides?: TargetSides;
+  allowCategories?: string[]; // Only copy markets matching one of these (tag or slug substring)
+  denyCategories?: string[];  // Never copy markets matching one of these
+  paused?: boolean;           // No new buys; sells still mirror positions copied before the pause
+};
+
+// Legacy configs (and the UI) send plain address strings
+export type TargetWalletInput = string | TargetWalletConfig;
+
+const cleanList = (list?: unknown): string[] | undefined => {
+  if (!Array.isArray(list)) return undefined;
+  const cleaned = list.map((c) => String(c).trim().toLowerCase()).filter(Boolean);
+  return cleaned.length > 0 ? cleaned : undefined;
+};
+
+const positive = (val: unknown): number | undefined => {
+  const n = Number(val);
+  return val !== undefined && val !== null && val !== '' && !isNaN(n) && n > 0 ? n : undefined;
+};
+
+/**
+ * Accepts a comma string, a string array, an array of target objects, or a mix,
+ * and returns de-duplicated, lowercased target configs.
+ */
+export function normalizeTargets(input: TargetWalletInput[] | string | undefined | null): TargetWalletConfig[] {
+  if (!input) return [];
+  const items: TargetWalletInput[] = typeof input === 'string' ? input.split(',') : input;
+  const byAddress = new Map<string, TargetWalletConfig>();
+
+  for (const item of items) {
+    if (!item) continue;
+    if (typeof item === 'string') {
+      const address = item.trim().toLowerCase();
+      if (address && !byAddress.has(address)) byAddress.set(address, { address });
+      continue;
+    }
+    const address = String(item.address || '').trim().toLowerCase();
+    if (!address) continue;
+    byAddress.set(address, {
+      address,
+      label: item.label,
+      multiplier: positive(item.multiplier),
+      maxTradeAmount: positive(item.maxTradeAmount),
+      allowedSides: item.allowedSides === 'BUY_ONLY' ? 'BUY_ONLY' : 'BOTH',
+      allowCategories: cleanList(item.allowCategories),
+      denyCategories: cleanList(item.denyCategories),
+      paused: item.paused === true
+    });
+  }
+
+  return Array.from(byAddress.values());
+}
+
+/**
+ * Plain address lists carry no overrides, so keep whatever was configured
+ * for addresses that are still followed.
+ */
+export function mergeTargets(incoming: TargetWalletInput[] | string, existing: TargetWalletConfig[] = []): TargetWalletConfig[] {
+  const next = normalizeTargets(incoming);
+  const previous = new Map(existing.map((t) => [t.address.toLowerCase(), t]));
+  const isPlain = typeof incoming === 'string' || incoming.every((t) => typeof t === 'string');
+  if (!isPlain) return next;
+  return next.map((t) => previous.get(t.address) || t);
+}
+
+export function findTarget(targets: TargetWalletConfig[] | undefined, address: string): TargetWalletConfig | undefined {
+  if (!targets || !address) return undefined;
+  const lower = address.toLowerCase();
+  return targets.find((t) => t.address === lower);
+}
+
+/**
+ * Matches a category keyword against CLOB market tags and slugs (case-insensitive substring).
+ */
+export function marketMatchesCategory(market: any, category: string): boolean {
+  const haystack = [
+    ...(Array.isArray(market?.tags) ? market.tags : []),
+    market?.market_slug,
+    market?.category
+  ]
+    .filter(Boolean)
+    .map((v: any) => String(v).toLowerCase());
+  return haystack.some((v) => v.includes(category));
+}
@@ -1,6 +1,8 @@
 import fs from 'fs';
 import path from 'path';
 import dotenv from 'dotenv';
+import type { SizingStrategyConfig } from './copy-strategy.js';
+import type { TargetWalletConfig } from './copy-targets.js';
 
 // 1. Load standard .env
 dotenv.config();
@@ -31,6 +33,8 @@ export const WS_URLS = {
     DATA: 'wss://ws-live-data.polymarket.com' 
 };
 
+export const GAMMA_API_URL = 'https://gamma-api.polymarket.com';
+
 export type RuntimeEnv = {
   userAddresses: string[];
   proxyWallet: string;
@@ -41,6 +45,7 @@ export type RuntimeEnv = {
   retryLimit: number;
   aggregationEnabled: boolean;
   aggregationWindowSeconds: number;
+  aggregationPriceMovePct: number; // Flush the window early once price moves this far from the first fill
   usdcContractAddress: string;
   polymarketApiKey?: string;
   polymarketApiSecret?: string;
@@ -65,6 +70,9 @@ export type RuntimeEnv = {
   
   // Safety
   maxTradeAmount: number; // Cap per trade
+  minLiquidityFilter?: 'HIGH' | 'MEDIUM' | 'LOW'; // Thinnest book a copy may trade into
+  sizingStrategy?: SizingStrategyConfig; // Defaults to proportional
+  targets?: TargetWalletConfig[]; // Per-wallet overrides (multiplier, cap, sides, categories, pause)
   
   // Notifications
   enableNotifications: boolean;
@@ -154,6 +162,7 @@ export function loadEnv(): RuntimeEnv {
     retryLimit: Number(process.env.RETRY_LIMIT ?? 3),
     aggregationEnabled: String(process.env.TRADE_AGGREGATION_ENABLED ?? 'false') === 'true',
     aggregationWindowSeconds: Number(process.env.TRADE_AGGREGATION_WINDOW_SECONDS ?? 300),
+    aggregationPriceMovePct: Number(process.env.TRADE_AGGREGATION_PRICE_MOVE_PCT ?? 2),
     
     // FORCE USE OF BRIDGED USDC.e
     usdcContractAddress: TOKENS.USDC_BRIDGED,
@@ -198,4 +207,34 @@ export function loadEnv(): RuntimeEnv {
   };
 
   return env;
-}
\ No newline at end of file
+}
+
+/**
+ * Complete env for offline runs such as backtests. Nothing is read from process.env and every
+ * key, wallet and endpoint is left blank, so a replay cannot reach a live account.
+ */
+export function createOfflineEnv(overrides: Partial<RuntimeEnv> = {}): RuntimeEnv {
+  return {
+    userAddresses: [],
+    proxyWallet: '',
+    privateKey: '',
+    rpcUrl: '',
+    fetchIntervalSeconds: 1,
+    tradeMultiplier: 1,
+    retryLimit: 3,
+    aggregationEnabled: false,
+    aggregationWindowSeconds: 300,
+    aggregationPriceMovePct: 2,
+    usdcContractAddress: TOKENS.USDC_BRIDGED,
+    registryApiUrl: '',
+    adminRevenueWallet: '0x0000000000000000000000000000000000000000',
+    enableAutoCashout: false,
+    maxTradeAmount: 100,
+    enableNotifications: false,
+    lifiIntegrator: 'BetMirror',
+    solanaRpcUrl: '',
+    mongoUri: '',
+    mongoEncryptionKey: '',
+    ...overrides
+  };
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import type { ActivePosition } from '../domain/trade.types.js';
+import { evaluateExitRules, evaluateTakeProfitLadder, normalizeExitRules, normalizeTakeProfitLadder, recordTakeProfitSale, resolveExitRules, updateHighWaterMark } from './exit-rules.js';
+
+const T0 = Date.UTC(2025, 0, 1);
+const HOUR = 3_600_000;
+
+const position = (overrides: Partial<ActivePosition> = {}): ActivePosition => ({
+  tradeId: 'trade-1',
+  marketId: 'cond',
+  tokenId: 'yes',
+  outcome: 'YES',
+  entryPrice: 0.5,
+  shares: 100,
+  sizeUsd: 50,
+  timestamp: T0,
+  ...overrides
+});
+
+describe('normalizeExitRules', () => {
+  it('keeps positive numbers and drops everything else', () => {
+    expect(normalizeExitRules({ stopLossPct: '20', trailingStopPct: 0, maxHoldHours: -1, closeBeforeEndHours: 'x', other: 5 })).toEqual({ stopLossPct: 20 });
+  });
+
+  it('is undefined when nothing is set', () => {
+    expect(normalizeExitRules({ stopLossPct: '' })).toBeUndefined();
+    expect(normalizeExitRules(null)).toBeUndefined();
+  });
+});
+
+describe('normalizeTakeProfitLadder', () => {
+  it('sorts valid rungs by gain and keeps one per gain level', () => {
+    expect(normalizeTakeProfitLadder([
+      { gainPct: 50, sellPct: 50 },
+      { gainPct: 20, sellPct: 30 },
+      { gainPct: 20, sellPct: 25 },
+      { gainPct: 10, sellPct: 120 },
+      { gainPct: -5, sellPct: 10 }
+    ])).toEqual([{ gainPct: 20, sellPct: 25 }, { gainPct: 50, sellPct: 50 }]);
+  });
+
+  it('is undefined without a valid rung', () => {
+    expect(normalizeTakeProfitLadder([{ gainPct: 0, sellPct: 10 }])).toBeUndefined();
+    expect(normalizeTakeProfitLadder('20:50')).toBeUndefined();
+  });
+});
+
+describe('resolveExitRules', () => {
+  it('lets position rules win field by field', () => {
+    expect(resolveExitRules({ stopLossPct: 20, maxHoldHours: 48 }, { stopLossPct: 10 })).toEqual({ stopLossPct: 10, maxHoldHours: 48 });
+    expect(resolveExitRules(undefined, undefined)).toEqual({});
+  });
+});
+
+describe('updateHighWaterMark', () => {
+  it('only ratchets upwards', () => {
+    const pos = position({ currentPrice: 0.45 });
+    expect(updateHighWaterMark(pos)).toBe(false);
+    expect(pos.highWaterMark).toBe(0.5);
+
+    pos.currentPrice = 0.7;
+    expect(updateHighWaterMark(pos)).toBe(true);
+    pos.currentPrice = 0.6;
+    expect(updateHighWaterMark(pos)).toBe(false);
+    expect(pos.highWaterMark).toBe(0.7);
+  });
+});
+
+describe('evaluateExitRules', () => {
+  it('fires the stop loss once the loss reaches it', () => {
+    expect(evaluateExitRules(position({ currentPrice: 0.41 }), { stopLossPct: 20 }, T0)).toBeNull();
+    expect(evaluateExitRules(position({ currentPrice: 0.39 }), { stopLossPct: 20 }, T0)?.rule).toBe('stop_loss');
+  });
+
+  it('trails the high-water mark rather than the entry', () => {
+    const pos = position({ currentPrice: 0.6, highWaterMark: 0.8 });
+    expect(evaluateExitRules(pos, { stopLossPct: 20, trailingStopPct: 25 }, T0)?.rule).toBe('trailing_stop');
+    expect(evaluateExitRules(pos, { trailingStopPct: 30 }, T0)).toBeNull();
+  });
+
+  it('exits on hold time and on the approaching market end', () => {
+    const pos = position({ currentPrice: 0.5, endDate: new Date(T0 + 30 * HOUR).toISOString() });
+    expect(evaluateExitRules(pos, { maxHoldHours: 24 }, T0 + 24 * HOUR)?.rule).toBe('max_hold_time');
+    expect(evaluateExitRules(pos, { closeBeforeEndHours: 6 }, T0 + 23 * HOUR)).toBeNull();
+    expect(evaluateExitRules(pos, { closeBeforeEndHours: 6 }, T0 + 24 * HOUR)?.rule).toBe('close_before_end');
+  });
+
+  it('skips price rules without a usable price', () => {
+    expect(evaluateExitRules(position(), { stopLossPct: 1, trailingStopPct: 1 }, T0)).toBeNull();
+  });
+});
+
+describe('evaluateTakeProfitLadder', () => {
+  const LADDER = [{ gainPct: 20, sellPct: 25 }, { gainPct: 50, sellPct: 25 }, { gainPct: 100, sellPct: 50 }];
+
+  it('waits for the first rung', () => {
+    expect(evaluateTakeProfitLadder(position({ currentPrice: 0.59 }), LADDER)).toBeNull();
+    expect(evaluateTakeProfitLadder(position({ currentPrice: 0.8 }), [])).toBeNull();
+  });
+
+  it('sizes rungs off the shares held when the ladder started', () => {
+    const step = evaluateTakeProfitLadder(position({ currentPrice: 0.8, shares: 75, ladderBaseShares: 100, ladderRungsHit: [20] }), LADDER);
+    expect(step).toMatchObject({ rungs: [{ gainPct: 50, sellPct: 25 }], shares: 25 });
+  });
+
+  it('sells rungs crossed together in one step', () => {
+    const step = evaluateTakeProfitLadder(position({ currentPrice: 0.8 }), LADDER);
+    expect(step?.rungs.map(r => r.gainPct)).toEqual([20, 50]);
+    expect(step?.shares).toBe(50);
+  });
+
+  it('sells whatever is left on the last rung', () => {
+    const step = evaluateTakeProfitLadder(position({ currentPrice: 1, shares: 48, ladderBaseShares: 100, ladderRungsHit: [20, 50] }), LADDER);
+    expect(step?.shares).toBe(48);
+    expect(step?.detail).toMatch(/the rest$/);
+  });
+});
+
+describe('recordTakeProfitSale', () => {
+  const LADDER = [{ gainPct: 20, sellPct: 25 }, { gainPct: 100, sellPct: 75 }];
+
+  it('keeps a partly filled rung open and sells only what is still owed', () => {
+    const held = position({ currentPrice: 0.65, ladderBaseShares: 100 });
+    const step = evaluateTakeProfitLadder(held, LADDER)!;
+    expect(recordTakeProfitSale(held, step, 10)).toBe(false);
+    expect(held.ladderRungsHit).toBeUndefined();
+
+    held.shares = 90;
+    const retry = evaluateTakeProfitLadder(held, LADDER)!;
+    expect(retry.shares).toBeCloseTo(15, 9);
+    expect(recordTakeProfitSale(held, retry, 15)).toBe(true);
+    expect(held).toMatchObject({ ladderRungsHit: [20], ladderSharesSold: undefined });
+    expect(evaluateTakeProfitLadder({ ...held, shares: 75 }, LADDER)).toBeNull();
+  });
+});
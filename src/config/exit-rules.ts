@@ -0,0 +1,161 @@
+import type { ActivePosition, ExitRules, TakeProfitRung } from '../domain/trade.types.js';
+
+export type ExitTrigger = {
+  rule: 'stop_loss' | 'trailing_stop' | 'max_hold_time' | 'close_before_end';
+  detail: string;
+};
+
+export type LadderStep = {
+  rungs: TakeProfitRung[];  // Every rung reached and not yet sold
+  shares: number;
+  detail: string;
+};
+
+const EXIT_RULE_KEYS: Exclude<keyof ExitRules, 'takeProfitLadder'>[] = ['stopLossPct', 'trailingStopPct', 'maxHoldHours', 'closeBeforeEndHours'];
+const LADDER_EPSILON = 1e-6; // Shares; a fill this close to a rung's size completes it
+
+/**
+ * Rungs with a positive gain and a sell share in (0, 100], sorted by gain, one per gain level.
+ */
+export function normalizeTakeProfitLadder(input: any): TakeProfitRung[] | undefined {
+  if (!Array.isArray(input)) return undefined;
+  const byGain = new Map<number, TakeProfitRung>();
+  for (const rung of input) {
+    const gainPct = Number(rung?.gainPct);
+    const sellPct = Number(rung?.sellPct);
+    if (gainPct > 0 && sellPct > 0 && sellPct <= 100) byGain.set(gainPct, { gainPct, sellPct });
+  }
+  const ladder = Array.from(byGain.values()).sort((a, b) => a.gainPct - b.gainPct);
+  return ladder.length > 0 ? ladder : undefined;
+}
+
+/**
+ * Keeps only positive numeric fields from user input. Returns undefined when nothing is set.
+ */
+export function normalizeExitRules(input: any): ExitRules | undefined {
+  if (!input || typeof input !== 'object') return undefined;
+  const rules: ExitRules = {};
+  for (const key of EXIT_RULE_KEYS) {
+    const n = Number(input[key]);
+    if (input[key] !== undefined && input[key] !== null && input[key] !== '' && !isNaN(n) && n > 0) rules[key] = n;
+  }
+  const ladder = normalizeTakeProfitLadder(input.takeProfitLadder);
+  if (ladder) rules.takeProfitLadder = ladder;
+  return Object.keys(rules).length > 0 ? rules : undefined;
+}
+
+/**
+ * Per-position rules win field by field; unset fields fall back to the bot-wide rules.
+ */
+export function resolveExitRules(globalRules?: ExitRules, positionRules?: ExitRules): ExitRules {
+  const merged: ExitRules = { ...(globalRules || {}) };
+  if (positionRules) {
+    for (const [key, value] of Object.entries(positionRules)) {
+      if (value !== undefined && value !== null) (merged as any)[key] = value;
+    }
+  }
+  return merged;
+}
+
+export function hasActiveExitRules(rules: ExitRules): boolean {
+  return !!(rules.stopLossPct || rules.trailingStopPct || rules.maxHoldHours || rules.closeBeforeEndHours || rules.takeProfitLadder?.length);
+}
+
+/**
+ * Ratchets the high-water mark used by the trailing stop. Returns true when it moved.
+ */
+export function updateHighWaterMark(position: ActivePosition): boolean {
+  const price = position.currentPrice;
+  if (!price || isNaN(price)) return false;
+  const current = position.highWaterMark ?? position.entryPrice;
+  if (price > current) {
+    position.highWaterMark = price;
+    return true;
+  }
+  if (position.highWaterMark === undefined) position.highWaterMark = current;
+  return false;
+}
+
+/**
+ * Returns the first rule that fires for this position, or null.
+ * Percentages are positive numbers (e.g. stopLossPct 20 = exit at -20%).
+ */
+export function evaluateExitRules(position: ActivePosition, rules: ExitRules, now: number = Date.now()): ExitTrigger | null {
+  const price = position.currentPrice;
+  const hasPrice = !!price && !isNaN(price) && price > 0;
+
+  if (rules.stopLossPct && hasPrice && position.entryPrice > 0) {
+    const changePct = ((price! - position.entryPrice) / position.entryPrice) * 100;
+    if (changePct <= -rules.stopLossPct) {
+      return { rule: 'stop_loss', detail: `${changePct.toFixed(1)}% <= -${rules.stopLossPct}%` };
+    }
+  }
+
+  if (rules.trailingStopPct && hasPrice) {
+    const peak = position.highWaterMark ?? position.entryPrice;
+    if (peak > 0) {
+      const drawdownPct = ((peak - price!) / peak) * 100;
+      if (drawdownPct >= rules.trailingStopPct) {
+        return { rule: 'trailing_stop', detail: `${drawdownPct.toFixed(1)}% off high ${peak.toFixed(3)}` };
+      }
+    }
+  }
+
+  if (rules.maxHoldHours && position.timestamp) {
+    const heldHours = (now - position.timestamp) / 3_600_000;
+    if (heldHours >= rules.maxHoldHours) {
+      return { rule: 'max_hold_time', detail: `held ${heldHours.toFixed(1)}h >= ${rules.maxHoldHours}h` };
+    }
+  }
+
+  if (rules.closeBeforeEndHours && position.endDate) {
+    const end = Date.parse(position.endDate);
+    if (!isNaN(end)) {
+      const hoursLeft = (end - now) / 3_600_000;
+      if (hoursLeft <= rules.closeBeforeEndHours) {
+        return { rule: 'close_before_end', detail: `${hoursLeft.toFixed(1)}h to end <= ${rules.closeBeforeEndHours}h` };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Next take-profit sale for this position, or null. Rungs are sized off the shares held when
+ * the first one fired, rungs crossed together sell together, and the last rung sells the rest.
+ */
+export function evaluateTakeProfitLadder(position: ActivePosition, ladder: TakeProfitRung[] = []): LadderStep | null {
+  const price = position.currentPrice;
+  if (ladder.length === 0 || !price || isNaN(price) || price <= 0 || !(position.entryPrice > 0)) return null;
+
+  const gainPct = ((price - position.entryPrice) / position.entryPrice) * 100;
+  const hit = new Set(position.ladderRungsHit || []);
+  const rungs = ladder.filter(r => !hit.has(r.gainPct) && gainPct >= r.gainPct);
+  if (rungs.length === 0) return null;
+
+  const last = rungs.length + ladder.filter(r => hit.has(r.gainPct)).length >= ladder.length;
+  const base = position.ladderBaseShares ?? position.shares;
+  const sellPct = rungs.reduce((sum, r) => sum + r.sellPct, 0);
+  const owed = Math.max(0, (base * sellPct) / 100 - (position.ladderSharesSold || 0));
+  const shares = last ? position.shares : Math.min(position.shares, owed);
+  return {
+    rungs,
+    shares,
+    detail: `+${gainPct.toFixed(1)}% >= +${rungs[rungs.length - 1].gainPct}%, selling ${last ? 'the rest' : `${sellPct}%`}`
+  };
+}
+
+/**
+ * Records what a take-profit sale sold. Its rungs are marked once their shares are gone; a
+ * partial fill is kept so the next check only sells what is still owed. Returns true when done.
+ */
+export function recordTakeProfitSale(position: ActivePosition, step: LadderStep, sharesSold: number): boolean {
+  if (sharesSold < step.shares - LADDER_EPSILON) {
+    position.ladderSharesSold = (position.ladderSharesSold || 0) + sharesSold;
+    return false;
+  }
+  position.ladderRungsHit = [...(position.ladderRungsHit || []), ...step.rungs.map(r => r.gainPct)];
+  position.ladderSharesSold = undefined;
+  return true;
+}
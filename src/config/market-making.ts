@@ -0,0 +1,118 @@
+import type { MarketMakingProfile } from '../domain/market.types.js';
+import { QUOTING_MODEL_TYPES } from './quoting-model.js';
+
+export const DEFAULT_MM_PROFILE: MarketMakingProfile = {
+  quotingModel: 'fixed_offset',
+  quoteSize: 50,
+  spreadOffset: 0.01,
+  maxPositionUsd: 500,
+  maxOpenOrdersPerToken: 2,
+  rebalanceThreshold: 0.3,
+  riskAversion: 0.1,
+  liquidityDensity: 100,
+  maxHorizonHours: 24,
+  minSpreadCents: 1,
+  maxSpreadCents: 15,
+  minVolume: 5000,
+  minLiquidity: 1000,
+  preferRewardMarkets: true,
+  preferNewMarkets: true,
+  newMarketAgeMinutes: 60,
+  refreshIntervalMs: 5 * 60 * 1000,
+  priceMoveThresholdPct: 5,
+  autoMergeThreshold: 100,
+  enableKillSwitch: true,
+  enableToxicityGuard: true,
+  flowImbalanceThreshold: 0.6,
+  markoutThresholdCents: 1,
+  toxicSpreadMultiplier: 2,
+  toxicityCooldownMinutes: 5
+};
+
+type NumericKey = { [K in keyof MarketMakingProfile]: MarketMakingProfile[K] extends number ? K : never }[keyof MarketMakingProfile];
+type BooleanKey = { [K in keyof MarketMakingProfile]: MarketMakingProfile[K] extends boolean ? K : never }[keyof MarketMakingProfile];
+
+// Inclusive bounds; `integer` fields reject fractions
+const NUMERIC_BOUNDS: Record<NumericKey, { min: number; max: number; integer?: boolean }> = {
+  quoteSize: { min: 1, max: 10000 },
+  spreadOffset: { min: 0.001, max: 0.2 },
+  maxPositionUsd: { min: 1, max: 100000 },
+  maxOpenOrdersPerToken: { min: 1, max: 10, integer: true },
+  rebalanceThreshold: { min: 0.05, max: 1 },
+  riskAversion: { min: 0.001, max: 10 },
+  liquidityDensity: { min: 1, max: 10000 },
+  maxHorizonHours: { min: 0.1, max: 24 * 30 },
+  minSpreadCents: { min: 0, max: 50 },
+  maxSpreadCents: { min: 1, max: 99 },
+  minVolume: { min: 0, max: 100000000 },
+  minLiquidity: { min: 0, max: 100000000 },
+  newMarketAgeMinutes: { min: 1, max: 7 * 24 * 60 },
+  refreshIntervalMs: { min: 60 * 1000, max: 24 * 60 * 60 * 1000, integer: true },
+  priceMoveThresholdPct: { min: 0.5, max: 100 },
+  autoMergeThreshold: { min: 1, max: 1000000 },
+  flowImbalanceThreshold: { min: 0.1, max: 1 },
+  markoutThresholdCents: { min: 0.1, max: 50 },
+  toxicSpreadMultiplier: { min: 1, max: 10 },
+  toxicityCooldownMinutes: { min: 0.5, max: 24 * 60 }
+};
+const BOOLEAN_KEYS: BooleanKey[] = ['preferRewardMarkets', 'preferNewMarkets', 'enableKillSwitch', 'enableToxicityGuard'];
+
+export class MarketMakingProfileError extends Error {
+  constructor(public errors: string[]) {
+    super(`Invalid market-making config: ${errors.join('; ')}`);
+    this.name = 'MarketMakingProfileError';
+  }
+}
+
+/**
+ * Effective profile for a stored (possibly partial or legacy) User.mmConfig. Unknown or
+ * out-of-range stored values fall back to the defaults instead of failing a bot start.
+ */
+export function resolveMarketMakingProfile(stored?: Partial<MarketMakingProfile> | null): MarketMakingProfile {
+  const profile: MarketMakingProfile = { ...DEFAULT_MM_PROFILE };
+  if (!stored || typeof stored !== 'object') return profile;
+  try {
+    return validateMarketMakingProfile(stored, profile);
+  } catch {
+    return profile;
+  }
+}
+
+/**
+ * Applies a partial update on top of `base` and validates the result. Throws
+ * MarketMakingProfileError listing every bad field, so the UI can show them together.
+ */
+export function validateMarketMakingProfile(input: any, base: MarketMakingProfile = DEFAULT_MM_PROFILE): MarketMakingProfile {
+  if (!input || typeof input !== 'object') throw new MarketMakingProfileError(['Body must be an object']);
+  const profile: MarketMakingProfile = { ...base };
+  const errors: string[] = [];
+
+  for (const [key, bounds] of Object.entries(NUMERIC_BOUNDS) as [NumericKey, typeof NUMERIC_BOUNDS[NumericKey]][]) {
+    if (input[key] === undefined) continue;
+    const n = Number(input[key]);
+    if (input[key] === null || input[key] === '' || isNaN(n)) {
+      errors.push(`${key} must be a number`);
+    } else if (n < bounds.min || n > bounds.max) {
+      errors.push(`${key} must be between ${bounds.min} and ${bounds.max}`);
+    } else if (bounds.integer && !Number.isInteger(n)) {
+      errors.push(`${key} must be a whole number`);
+    } else {
+      profile[key] = n;
+    }
+  }
+  if (input.quotingModel !== undefined) {
+    if (QUOTING_MODEL_TYPES.includes(input.quotingModel)) profile.quotingModel = input.quotingModel;
+    else errors.push(`quotingModel must be one of ${QUOTING_MODEL_TYPES.join(', ')}`);
+  }
+  for (const key of BOOLEAN_KEYS) {
+    if (input[key] === undefined) continue;
+    if (typeof input[key] !== 'boolean') errors.push(`${key} must be true or false`);
+    else profile[key] = input[key];
+  }
+
+  if (profile.minSpreadCents >= profile.maxSpreadCents) errors.push('minSpreadCents must be below maxSpreadCents');
+  if (profile.quoteSize > profile.maxPositionUsd) errors.push('quoteSize cannot exceed maxPositionUsd');
+
+  if (errors.length > 0) throw new MarketMakingProfileError(errors);
+  return profile;
+}
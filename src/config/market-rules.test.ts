@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { compileMarketRules, DEFAULT_MM_RULES, MarketRulesError, validateMarketRules } from './market-rules.js';
+
+const check = (keywords: string[], question: string) =>
+  compileMarketRules({ ...DEFAULT_MM_RULES, includeKeywords: keywords }).check({ conditionId: '0x1', question });
+
+describe('market rule keywords', () => {
+  it('matches plain keywords as case-insensitive substrings', () => {
+    expect(check(['bitcoin'], 'Will Bitcoin hit $100k?')).toBeNull();
+    expect(check(['bitcoin'], 'Will ETH flip?')).toBe('keyword_not_included');
+  });
+
+  it('matches regex keywords case-insensitively', () => {
+    expect(check(['/\\bBTC|ETH\\b/'], 'will eth flip?')).toBeNull();
+  });
+
+  it('drops stateful flags so repeated checks agree', () => {
+    const filter = compileMarketRules({ ...DEFAULT_MM_RULES, includeKeywords: ['/rain/gy'] });
+    const market = { conditionId: '0x1', question: 'Will it rain in London?' };
+    expect(filter.check(market)).toBeNull();
+    expect(filter.check(market)).toBeNull();
+  });
+
+  it('only matches regexes against the start of very long text', () => {
+    expect(check(['/needle/'], `${'x'.repeat(1000)} needle`)).toBe('keyword_not_included');
+    expect(check(['needle'], `${'x'.repeat(1000)} needle`)).toBeNull();
+  });
+
+  it('refuses nested quantifiers', () => {
+    for (const pattern of ['/(a+)+$/', '/(\\w*\\s?)*/', '/((ab)+c)*/', '/(?:x+y){2,}/']) {
+      expect(() => validateMarketRules({ excludeKeywords: [pattern] })).toThrow(MarketRulesError);
+    }
+  });
+
+  it('accepts quantifiers that do not nest', () => {
+    const rules = validateMarketRules({ excludeKeywords: ['/(yes|no)+/', '/[(a+)]+/', '/\\(a+\\)+/', '/a+b*(c)?/'] });
+    expect(rules.excludeKeywords).toHaveLength(4);
+  });
+});
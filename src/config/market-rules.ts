@@ -0,0 +1,211 @@
+import type { MarketBlacklistEntry, MarketMakingRules } from '../domain/market.types.js';
+
+export const DEFAULT_MM_RULES: MarketMakingRules = {
+  allowCategories: [],
+  denyCategories: [],
+  includeKeywords: [],
+  excludeKeywords: [],
+  minDaysToEnd: 0,
+  maxActiveMarkets: 0,
+  blacklist: []
+};
+
+// What the rules look at; built from a tracked market or a persisted opportunity
+export type RuleSubject = {
+  conditionId: string;
+  question?: string;
+  category?: string;
+  tags?: string[];
+  endDate?: string;
+};
+
+export type MarketRuleFilter = {
+  rules: MarketMakingRules;
+  // Reason the market is excluded, or null when it may be quoted
+  check: (market: RuleSubject, now?: number) => string | null;
+};
+
+const LIST_KEYS = ['allowCategories', 'denyCategories', 'includeKeywords', 'excludeKeywords'] as const;
+const MAX_LIST_LENGTH = 50;
+const MAX_PATTERN_LENGTH = 200;
+const MAX_TEXT_LENGTH = 500; // Questions are far shorter; bounds regex work per check
+const DAY = 24 * 60 * 60 * 1000;
+
+export class MarketRulesError extends Error {
+  constructor(public errors: string[]) {
+    super(`Invalid market rules: ${errors.join('; ')}`);
+    this.name = 'MarketRulesError';
+  }
+}
+
+/**
+ * True when a quantified group itself contains a quantifier, e.g. `(a+)+` or `(\w*\s?)*`:
+ * the shapes that backtrack exponentially. Conservative, so some harmless patterns are refused too.
+ */
+function hasNestedQuantifier(pattern: string): boolean {
+  const groups: boolean[] = []; // Per open group: whether it contains a quantifier so far
+  let quantified = false;       // Whether the innermost closed group held a quantifier
+  let inClass = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === '\\') {
+      i++;
+      quantified = false;
+      continue;
+    }
+    if (inClass) {
+      if (c === ']') inClass = false;
+      continue;
+    }
+    if (c === '[') {
+      inClass = true;
+      quantified = false;
+    } else if (c === '(') {
+      groups.push(false);
+      if (pattern[i + 1] === '?') i++; // (?: (?= (?! (?<
+    } else if (c === ')') {
+      quantified = groups.pop() ?? false;
+      if (quantified && groups.length > 0) groups[groups.length - 1] = true;
+      continue;
+    } else if (c === '*' || c === '+' || c === '?' || c === '{') {
+      if (quantified) return true;
+      if (groups.length > 0) groups[groups.length - 1] = true;
+    }
+    quantified = false;
+  }
+  return false;
+}
+
+/**
+ * `/pattern/flags` is a regular expression; anything else a case-insensitive substring.
+ * Stateful flags (g, y) are dropped, patterns with nested quantifiers are refused, and only
+ * the first MAX_TEXT_LENGTH characters of a question are matched.
+ */
+function compileKeyword(keyword: string): (text: string) => boolean {
+  const regex = /^\/(.+)\/([a-z]*)$/.exec(keyword);
+  if (regex) {
+    if (hasNestedQuantifier(regex[1])) throw new Error('nested quantifiers are not allowed');
+    const flags = Array.from(new Set(`${regex[2]}i`.replace(/[gy]/g, ''))).join('');
+    const pattern = new RegExp(regex[1], flags);
+    return (text) => pattern.test(text.slice(0, MAX_TEXT_LENGTH));
+  }
+  const needle = keyword.toLowerCase();
+  return (text) => text.toLowerCase().includes(needle);
+}
+
+const toList = (value: unknown, lowercase: boolean): string[] | null => {
+  const items = typeof value === 'string' ? value.split(',') : Array.isArray(value) ? value : null;
+  if (!items) return null;
+  const cleaned = items.map((v) => String(v).trim()).filter(Boolean).map((v) => (lowercase ? v.toLowerCase() : v));
+  return Array.from(new Set(cleaned));
+};
+
+/**
+ * Effective rules for a stored (possibly partial) User.mmRules; invalid stored values fall back to defaults.
+ */
+export function resolveMarketRules(stored?: Partial<MarketMakingRules> | null): MarketMakingRules {
+  const rules: MarketMakingRules = { ...DEFAULT_MM_RULES };
+  if (!stored || typeof stored !== 'object') return rules;
+  try {
+    return validateMarketRules(stored, rules);
+  } catch {
+    return rules;
+  }
+}
+
+/**
+ * Applies a partial update on top of `base`. Lists accept arrays or comma strings; keyword
+ * regexes must compile. Throws MarketRulesError listing every bad field.
+ */
+export function validateMarketRules(input: any, base: MarketMakingRules = DEFAULT_MM_RULES): MarketMakingRules {
+  if (!input || typeof input !== 'object') throw new MarketRulesError(['Body must be an object']);
+  const rules: MarketMakingRules = { ...base };
+  const errors: string[] = [];
+
+  for (const key of LIST_KEYS) {
+    if (input[key] === undefined) continue;
+    const list = toList(input[key], key === 'allowCategories' || key === 'denyCategories');
+    if (!list) {
+      errors.push(`${key} must be a list`);
+      continue;
+    }
+    if (list.length > MAX_LIST_LENGTH) errors.push(`${key} can hold at most ${MAX_LIST_LENGTH} entries`);
+    for (const entry of list) {
+      if (entry.length > MAX_PATTERN_LENGTH) {
+        errors.push(`${key}: "${entry.slice(0, 20)}..." is longer than ${MAX_PATTERN_LENGTH} characters`);
+        continue;
+      }
+      try {
+        compileKeyword(entry);
+      } catch (e: any) {
+        errors.push(`${key}: ${entry} is not a valid pattern (${e.message})`);
+      }
+    }
+    rules[key] = list;
+  }
+
+  for (const [key, max] of [['minDaysToEnd', 365], ['maxActiveMarkets', 500]] as const) {
+    if (input[key] === undefined) continue;
+    const n = Number(input[key]);
+    if (input[key] === null || input[key] === '' || isNaN(n)) errors.push(`${key} must be a number`);
+    else if (n < 0 || n > max) errors.push(`${key} must be between 0 and ${max}`);
+    else if (key === 'maxActiveMarkets' && !Number.isInteger(n)) errors.push(`${key} must be a whole number`);
+    else rules[key] = n;
+  }
+
+  if (input.blacklist !== undefined) {
+    if (!Array.isArray(input.blacklist)) {
+      errors.push('blacklist must be a list');
+    } else {
+      const byId = new Map<string, MarketBlacklistEntry>();
+      for (const entry of input.blacklist) {
+        const conditionId = String(typeof entry === 'string' ? entry : entry?.conditionId || '').trim();
+        if (!conditionId) continue;
+        byId.set(conditionId.toLowerCase(), {
+          conditionId,
+          question: typeof entry === 'object' && entry.question ? String(entry.question) : undefined,
+          reason: typeof entry === 'object' && entry.reason ? String(entry.reason) : undefined,
+          addedAt: typeof entry === 'object' && Number(entry.addedAt) > 0 ? Number(entry.addedAt) : Date.now()
+        });
+      }
+      rules.blacklist = Array.from(byId.values());
+    }
+  }
+
+  if (errors.length > 0) throw new MarketRulesError(errors);
+  return rules;
+}
+
+/**
+ * Compiles rules once so the scanner can check every book update cheaply.
+ */
+export function compileMarketRules(rules: MarketMakingRules): MarketRuleFilter {
+  const blacklisted = new Set(rules.blacklist.map((b) => b.conditionId.toLowerCase()));
+  const include = rules.includeKeywords.map(compileKeyword);
+  const exclude = rules.excludeKeywords.map(compileKeyword);
+  const categoriesOf = (market: RuleSubject) =>
+    [market.category, ...(market.tags || [])].filter(Boolean).map((c) => String(c).toLowerCase());
+
+  return {
+    rules,
+    check: (market, now = Date.now()) => {
+      if (blacklisted.has(market.conditionId.toLowerCase())) return 'blacklisted';
+
+      const categories = categoriesOf(market);
+      if (rules.denyCategories.some((deny) => categories.some((c) => c.includes(deny)))) return 'category_denied';
+      if (rules.allowCategories.length > 0 && !rules.allowCategories.some((allow) => categories.some((c) => c.includes(allow)))) {
+        return 'category_not_allowed';
+      }
+
+      const question = market.question || '';
+      if (exclude.some((match) => match(question))) return 'keyword_excluded';
+      if (include.length > 0 && !include.some((match) => match(question))) return 'keyword_not_included';
+
+      if (rules.minDaysToEnd > 0 && market.endDate) {
+        const end = new Date(market.endDate).getTime();
+        if (!isNaN(end) && end - now < rules.minDaysToEnd * DAY) return 'ends_too_soon';
+      }
+      return null;
+    }
+  };
+}
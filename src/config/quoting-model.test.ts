@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createAvellanedaStoikovModel,
+  createFixedOffsetModel,
+  createQuotingModel,
+  midpointVolatility,
+  MidpointSample,
+  QuotingModelConfig
+} from './quoting-model.js';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 0, 1);
+
+const AS_CONFIG: QuotingModelConfig = {
+  quotingModel: 'avellaneda_stoikov',
+  spreadOffset: 0.02,
+  riskAversion: 0.5,
+  liquidityDensity: 50,
+  maxHorizonHours: 24
+};
+
+// A midpoint alternating +/- step every `intervalMs`
+const choppy = (count: number, step: number, intervalMs: number): MidpointSample[] =>
+  Array.from({ length: count }, (_, i) => ({ t: NOW - (count - i) * intervalMs, mid: 0.5 + (i % 2 === 0 ? 0 : step) }));
+
+describe('midpointVolatility', () => {
+  it('needs at least three samples', () => {
+    expect(midpointVolatility([])).toBe(0);
+    expect(midpointVolatility(choppy(2, 0.01, HOUR))).toBe(0);
+  });
+
+  it('scales the variance of midpoint changes to one hour', () => {
+    // Every half hour the midpoint moves one cent: variance 2 x 0.01^2 per hour
+    expect(midpointVolatility(choppy(11, 0.01, HOUR / 2))).toBeCloseTo(Math.sqrt(2) * 0.01, 6);
+  });
+
+  it('ignores samples that do not move forward in time', () => {
+    const history = [{ t: NOW, mid: 0.5 }, { t: NOW, mid: 0.9 }, { t: NOW - 1, mid: 0.1 }];
+    expect(midpointVolatility(history)).toBe(0);
+  });
+});
+
+describe('fixed offset model', () => {
+  const model = createFixedOffsetModel({ spreadOffset: 0.02 });
+
+  it('quotes the offset on either side of the midpoint', () => {
+    const quote = model.quote({ midpoint: 0.5, inventoryLots: 0 });
+    expect(quote.bidPrice).toBeCloseTo(0.48, 9);
+    expect(quote.askPrice).toBeCloseTo(0.52, 9);
+    expect(quote.reason).toBe('fixed_offset');
+  });
+
+  it('leans both sides against inventory skew', () => {
+    const quote = model.quote({ midpoint: 0.5, inventoryLots: 0, skew: 1 });
+    expect(quote.reservationPrice).toBeCloseTo(0.48, 9);
+    expect(quote.bidPrice).toBeCloseTo(0.46, 9);
+    expect(quote.askPrice).toBeCloseTo(0.5, 9);
+  });
+
+  it('stays inside the rewards band and widens after it', () => {
+    expect(model.quote({ midpoint: 0.5, inventoryLots: 0, maxHalfSpread: 0.015 }).halfSpread).toBeCloseTo(0.014, 9);
+    expect(model.quote({ midpoint: 0.5, inventoryLots: 0, maxHalfSpread: 0.015, spreadMultiplier: 2 }).halfSpread).toBeCloseTo(0.028, 9);
+  });
+
+  it('clamps prices to the tradable range', () => {
+    const quote = model.quote({ midpoint: 0.02, inventoryLots: 0 });
+    expect(quote.bidPrice).toBe(0.01);
+  });
+});
+
+describe('Avellaneda-Stoikov model', () => {
+  const model = createAvellanedaStoikovModel(AS_CONFIG);
+  const history = choppy(13, 0.02, HOUR / 4);
+
+  it('quotes symmetrically around the midpoint when flat', () => {
+    const quote = model.quote({ midpoint: 0.5, inventoryLots: 0, midpointHistory: history, now: NOW });
+    expect(quote.reservationPrice).toBe(0.5);
+    expect(0.5 - quote.bidPrice).toBeCloseTo(quote.askPrice - 0.5, 9);
+  });
+
+  it('pulls the reservation price against inventory', () => {
+    const flat = model.quote({ midpoint: 0.5, inventoryLots: 0, midpointHistory: history, now: NOW });
+    const long = model.quote({ midpoint: 0.5, inventoryLots: 5, midpointHistory: history, now: NOW });
+    const short = model.quote({ midpoint: 0.5, inventoryLots: -5, midpointHistory: history, now: NOW });
+    expect(long.reservationPrice).toBeLessThan(0.5);
+    expect(short.reservationPrice).toBeGreaterThan(0.5);
+    expect(long.bidPrice).toBeLessThanOrEqual(flat.bidPrice);
+    expect(long.askPrice).toBeLessThanOrEqual(flat.askPrice);
+  });
+
+  it('tightens as the market end approaches', () => {
+    const far = model.quote({ midpoint: 0.5, inventoryLots: 0, midpointHistory: history, endDate: NOW + 48 * HOUR, now: NOW });
+    const near = model.quote({ midpoint: 0.5, inventoryLots: 0, midpointHistory: history, endDate: NOW + HOUR, now: NOW });
+    expect(near.halfSpread).toBeLessThan(far.halfSpread);
+    expect(far.reason).toContain('tau_24.0h'); // Capped at maxHorizonHours
+  });
+
+  it('keeps both sides on the tick grid at least one tick apart', () => {
+    const quote = model.quote({ midpoint: 0.503, inventoryLots: 0, tickSize: 0.01, now: NOW });
+    expect(Math.round(quote.bidPrice * 100)).toBeCloseTo(quote.bidPrice * 100, 9);
+    expect(Math.round(quote.askPrice * 100)).toBeCloseTo(quote.askPrice * 100, 9);
+    expect(quote.askPrice - quote.bidPrice).toBeGreaterThanOrEqual(0.01 - 1e-9);
+  });
+
+  it('caps the half spread at the rewards band', () => {
+    const quote = model.quote({ midpoint: 0.5, inventoryLots: 0, midpointHistory: history, maxHalfSpread: 0.02, now: NOW });
+    expect(quote.halfSpread).toBeCloseTo(0.019, 9);
+  });
+});
+
+describe('createQuotingModel', () => {
+  it('selects the configured model and falls back to fixed offset', () => {
+    expect(createQuotingModel(AS_CONFIG).type).toBe('avellaneda_stoikov');
+    expect(createQuotingModel({ ...AS_CONFIG, quotingModel: 'fixed_offset' }).type).toBe('fixed_offset');
+    expect(createQuotingModel({ ...AS_CONFIG, quotingModel: 'unknown' as any }).type).toBe('fixed_offset');
+  });
+});
@@ -0,0 +1,154 @@
+// --- Pluggable Market-Making Quoting Models ---
+// Pure functions of their inputs (no I/O), so they can be exercised without a network.
+import type { QuotingModelType } from '../domain/market.types.js';
+
+export type { QuotingModelType };
+
+export const QUOTING_MODEL_TYPES: QuotingModelType[] = ['fixed_offset', 'avellaneda_stoikov'];
+
+export type QuotingModelConfig = {
+  quotingModel: QuotingModelType;
+  spreadOffset: number;       // fixed_offset: distance from midpoint
+  riskAversion: number;       // avellaneda_stoikov: gamma
+  liquidityDensity: number;   // avellaneda_stoikov: kappa, fill intensity decay per 1.00 of price
+  maxHorizonHours: number;    // avellaneda_stoikov: cap on T - t (long-dated markets would otherwise quote very wide)
+};
+
+export type MidpointSample = { t: number; mid: number };
+
+export type QuoteContext = {
+  midpoint: number;
+  inventoryLots: number;       // Current inventory in quote-size lots (inventory USD / quoteSize)
+  skew?: number;               // YES/NO inventory skew from the scanner (-1..1)
+  midpointHistory?: MidpointSample[];
+  endDate?: number;            // Market end, epoch ms
+  tickSize?: number;
+  maxHalfSpread?: number;      // Keep quotes inside the rewards band when set
+  spreadMultiplier?: number;   // Toxic-flow widening; applied after the rewards clamp, safety comes first
+  now?: number;
+};
+
+export type QuotePrices = {
+  bidPrice: number;
+  askPrice: number;
+  reservationPrice: number;
+  halfSpread: number;
+  reason: string;
+};
+
+export interface QuotingModel {
+  readonly type: QuotingModelType;
+  quote(ctx: QuoteContext): QuotePrices;
+}
+
+const MIN_PRICE = 0.01;
+const MAX_PRICE = 0.99;
+const SKEW_LEAN = 0.02;                  // fixed_offset: max 2 cent lean at full skew
+const DEFAULT_HORIZON_HOURS = 24;        // When the market has no end date
+const HOUR = 60 * 60 * 1000;
+
+const clampPrice = (p: number) => Math.min(MAX_PRICE, Math.max(MIN_PRICE, p));
+
+/**
+ * Per-hour standard deviation of midpoint changes, scaled from the sampled intervals.
+ * Returns 0 with fewer than three samples.
+ */
+export function midpointVolatility(history: MidpointSample[] = []): number {
+  if (history.length < 3) return 0;
+  let sumSq = 0;
+  let elapsed = 0;
+  for (let i = 1; i < history.length; i++) {
+    const dt = history[i].t - history[i - 1].t;
+    if (dt <= 0) continue;
+    const change = history[i].mid - history[i - 1].mid;
+    sumSq += change * change;
+    elapsed += dt;
+  }
+  if (elapsed <= 0) return 0;
+  return Math.sqrt(sumSq / (elapsed / HOUR)); // Variance accrues linearly in time
+}
+
+/**
+ * Rounds both sides to the tick and keeps at least one tick between bid and ask.
+ */
+function finalize(bid: number, ask: number, reservationPrice: number, halfSpread: number, tickSize: number, reason: string): QuotePrices {
+  const tick = tickSize > 0 ? tickSize : 0.01;
+  let bidPrice = clampPrice(Math.floor(bid / tick + 1e-9) * tick);
+  let askPrice = clampPrice(Math.ceil(ask / tick - 1e-9) * tick);
+  if (askPrice - bidPrice < tick - 1e-9) {
+    if (askPrice + tick <= MAX_PRICE) askPrice = askPrice + tick;
+    else bidPrice = bidPrice - tick;
+  }
+  return { bidPrice, askPrice, reservationPrice, halfSpread, reason };
+}
+
+/**
+ * The original quoting rule: midpoint +/- spreadOffset, both sides leaning against skew.
+ */
+export function createFixedOffsetModel(config: Pick<QuotingModelConfig, 'spreadOffset'>): QuotingModel {
+  return {
+    type: 'fixed_offset',
+    quote: (ctx) => {
+      const halfSpread = (ctx.maxHalfSpread !== undefined && config.spreadOffset > ctx.maxHalfSpread
+        ? ctx.maxHalfSpread - 0.001
+        : config.spreadOffset) * (ctx.spreadMultiplier || 1);
+      const lean = (ctx.skew || 0) * SKEW_LEAN;
+      const reservationPrice = ctx.midpoint - lean;
+      return {
+        bidPrice: clampPrice(reservationPrice - halfSpread),
+        askPrice: clampPrice(reservationPrice + halfSpread),
+        reservationPrice,
+        halfSpread,
+        reason: 'fixed_offset'
+      };
+    }
+  };
+}
+
+/**
+ * Avellaneda-Stoikov: quotes around the reservation price
+ *   r = s - q * gamma * sigma^2 * (T - t)
+ * with total spread
+ *   delta = gamma * sigma^2 * (T - t) + (2 / gamma) * ln(1 + gamma / kappa)
+ * where q is inventory in lots, sigma is per-hour midpoint volatility and T - t is hours to
+ * the market end (capped at maxHorizonHours). Long inventory pulls both quotes down.
+ */
+export function createAvellanedaStoikovModel(config: QuotingModelConfig): QuotingModel {
+  return {
+    type: 'avellaneda_stoikov',
+    quote: (ctx) => {
+      const gamma = Math.max(1e-6, config.riskAversion);
+      const kappa = Math.max(1e-6, config.liquidityDensity);
+      const now = ctx.now ?? Date.now();
+      const hoursLeft = ctx.endDate ? Math.max(0, (ctx.endDate - now) / HOUR) : DEFAULT_HORIZON_HOURS;
+      const tau = Math.min(hoursLeft, config.maxHorizonHours);
+      const sigma = midpointVolatility(ctx.midpointHistory);
+      const variance = sigma * sigma;
+
+      const reservationPrice = ctx.midpoint - ctx.inventoryLots * gamma * variance * tau;
+      let halfSpread = (gamma * variance * tau + (2 / gamma) * Math.log(1 + gamma / kappa)) / 2;
+      halfSpread = Math.max(halfSpread, ctx.tickSize || 0.01);
+      if (ctx.maxHalfSpread !== undefined) halfSpread = Math.min(halfSpread, Math.max(ctx.maxHalfSpread - 0.001, ctx.tickSize || 0.01));
+      halfSpread *= ctx.spreadMultiplier || 1;
+
+      return finalize(
+        reservationPrice - halfSpread,
+        reservationPrice + halfSpread,
+        reservationPrice,
+        halfSpread,
+        ctx.tickSize || 0.01,
+        `as_sigma_${sigma.toFixed(4)}_tau_${tau.toFixed(1)}h_q_${ctx.inventoryLots.toFixed(2)}`
+      );
+    }
+  };
+}
+
+export function createQuotingModel(config: QuotingModelConfig): QuotingModel {
+  switch (config.quotingModel) {
+    case 'avellaneda_stoikov':
+      return createAvellanedaStoikovModel(config);
+    case 'fixed_offset':
+    default:
+      return createFixedOffsetModel(config);
+  }
+}
@@ -1,7 +1,9 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import { TraderProfile } from '../domain/alpha.types.js';
-import { TradingWalletConfig } from '../domain/wallet.types.js';
-import { ActivePosition } from '../domain/trade.types.js';
+import { TradingWalletConfig, WithdrawalPolicy, WithdrawalStatus, WithdrawalToken } from '../domain/wallet.types.js';
+import { ActivePosition, PositionLot } from '../domain/trade.types.js';
+import { MarketMakingInventoryRecord, MarketMakingPnlRecord, MarketMakingProfile, MarketMakingRules, RewardEarningRecord } from '../domain/market.types.js';
+import { OrderFill, OrderSource, OrderStatus, OrderStatusChange } from '../domain/order.types.js';
 import { UserStats } from '../domain/user.types.js';
 import { BotConfig } from '../server/bot-engine.js';
 import { BridgeTransactionRecord } from '../services/lifi-bridge.service.js';
@@ -18,6 +20,9 @@ export interface IUser extends Document {
   activePositions: ActivePosition[];
   stats: UserStats;
   cashoutHistory: any[];
+  withdrawalPolicy?: WithdrawalPolicy;
+  mmConfig?: MarketMakingProfile; // Market-making profile, validated by validateMarketMakingProfile
+  mmRules?: MarketMakingRules;    // Market selection rules and blacklist, validated by validateMarketRules
   createdAt: Date;
   lastActive: Date;
 }
@@ -29,6 +34,7 @@ export interface ITrade extends Document {
   clobOrderId?: string; 
   assetId?: string;
   outcome: string;
+  outcomeIndex?: number;
   side: 'BUY' | 'SELL';
   size: number;         
   executedSize: number; 
@@ -38,9 +44,12 @@ export interface ITrade extends Document {
   txHash?: string;
   aiReasoning?: string;
   riskScore?: number;
+  sizingReason?: string;
+  exitReason?: string;
   timestamp: Date;
   marketSlug?: string;
   eventSlug?: string;
+  paper?: boolean;      // Simulated fill from a paper session
 }
 
 export interface IRegistry extends Document, TraderProfile {
@@ -76,6 +85,85 @@ export interface IDepositLog extends Document {
   timestamp: Date;
 }
 
+export interface IWithdrawal extends Document {
+  userId: string;
+  tokenType: WithdrawalToken;
+  amount: number;
+  toAddress: string;
+  source: 'SAFE' | 'EOA';
+  status: WithdrawalStatus;
+  txHash?: string;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Liquidity rewards per market per day (estimated by us, received from the exchange)
+ */
+export interface IRewardEarning extends Document, RewardEarningRecord {
+  userId: string;
+  paper: boolean; // Estimated from paper quotes; never paid
+  updatedAt: Date;
+}
+
+/**
+ * Market-making PnL per market per day, attributed by source (see MarketMakingPnlService)
+ */
+export interface IMarketMakingPnl extends Document, MarketMakingPnlRecord {
+  userId: string;
+  paper: boolean; // Paper sessions keep separate attribution
+  updatedAt: Date;
+}
+
+/**
+ * Quote inventory at average cost, the basis for spread, merge and redemption PnL
+ */
+export interface IMarketMakingInventory extends Document, MarketMakingInventoryRecord {
+  userId: string;
+  paper: boolean;
+  updatedAt: Date;
+}
+
+/**
+ * Open lots per token, the cost basis behind position PnL (see PositionLedgerService)
+ */
+export interface IPositionLedger extends Document {
+  userId: string;
+  paper: boolean; // Paper sessions keep a separate ledger
+  tokenId: string;
+  conditionId: string;
+  outcome?: string;
+  lots: PositionLot[];
+  realizedPnl: number;
+  updatedAt: Date;
+}
+
+/**
+ * Order Lifecycle (every CLOB order the bot places, with its fills)
+ */
+export interface IOrder extends Document {
+  userId: string;
+  clobOrderId: string;
+  marketId: string;
+  tokenId: string;
+  outcome: string;
+  side: 'BUY' | 'SELL';
+  source: OrderSource;
+  orderType: 'GTC' | 'FOK' | 'FAK';
+  requestedPrice: number;
+  requestedSize: number;
+  status: OrderStatus;
+  statusHistory: OrderStatusChange[];
+  fills: OrderFill[];
+  filledSize: number;
+  avgFillPrice: number;
+  txHash?: string;
+  paper?: boolean; // Placed on the paper exchange
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface IBotLog extends Document {
   userId: string;
   type: 'info' | 'warn' | 'error' | 'success';
@@ -83,6 +171,36 @@ export interface IBotLog extends Document {
   timestamp: Date;
 }
 
+/**
+ * Paper Trading Ledger (Simulated Balance, Positions & Resting Orders)
+ */
+export interface IPaperAccount extends Document {
+  userId: string;
+  balance: number;
+  startingBalance: number;
+  positions: any[];
+  openOrders: any[];
+  fills: any[]; // Most recent only
+  realizedPnl: number; // Lifetime, including merges and redemptions
+  updatedAt: Date;
+}
+
+/**
+ * Sign-In with Ethereum (EIP-4361) nonces and sessions
+ */
+export interface IAuthNonce extends Document {
+  nonce: string;
+  address: string;
+  createdAt: Date;
+}
+
+export interface IAuthSession extends Document {
+  tokenHash: string; // sha256 of the bearer token; the raw token is never stored
+  address: string;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
 /**
  * Money Market Opportunity Persistence
  */
@@ -121,7 +239,20 @@ const MoneyMarketOpportunitySchema = new Schema({
   isNew: Boolean,
   timestamp: { type: Date, default: Date.now, expires: 3600 }, // Expire after 1 hour
   roi: Number,
-  capacityUsd: Number
+  capacityUsd: Number,
+  category: String,   // With endDate, lets the feed apply a user's market rules without an engine
+  endDate: String
+});
+
+const PaperAccountSchema = new Schema<IPaperAccount>({
+  userId: { type: String, required: true, unique: true, index: true },
+  balance: { type: Number, default: 0 },
+  startingBalance: { type: Number, default: 0 },
+  positions: [Schema.Types.Mixed],
+  openOrders: [Schema.Types.Mixed],
+  fills: [Schema.Types.Mixed],
+  realizedPnl: { type: Number, default: 0 },
+  updatedAt: { type: Date, default: Date.now }
 });
 
 const ActivePositionSchema = new Schema<ActivePosition>({
@@ -130,6 +261,8 @@ const ActivePositionSchema = new Schema<ActivePosition>({
   marketId: String,
   tokenId: String,
   outcome: String,
+  outcomeIndex: Number,
+  negRisk: Boolean,
   entryPrice: Number,
   shares: Number, 
   sizeUsd: Number,
@@ -137,6 +270,19 @@ const ActivePositionSchema = new Schema<ActivePosition>({
   currentPrice: Number,
   question: String,
   image: String,
+  endDate: String,
+  exitRules: {
+    stopLossPct: Number,
+    trailingStopPct: Number,
+    maxHoldHours: Number,
+    closeBeforeEndHours: Number,
+    takeProfitLadder: [{ _id: false, gainPct: Number, sellPct: Number }]
+  },
+  highWaterMark: Number,
+  ladderBaseShares: Number,
+  ladderRungsHit: [Number],
+  ladderSharesSold: Number,
+  realizedPnl: Number,
   marketSlug: { 
     type: String, 
     default: "",
@@ -211,6 +357,26 @@ const UserSchema = new Schema<IUser>({
     cashBalance: { type: Number, default: 0 }
   },
   cashoutHistory: [Schema.Types.Mixed],
+  withdrawalPolicy: {
+    allowlist: [{
+      _id: false,
+      address: { type: String, required: true },
+      label: String,
+      addedAt: Number,
+      activeAt: Number
+    }],
+    limits: {
+      dailyUsdc: Number,
+      dailyPol: Number
+    },
+    pendingLimits: {
+      dailyUsdc: Number,
+      dailyPol: Number,
+      activeAt: Number
+    }
+  },
+  mmConfig: { type: Schema.Types.Mixed },
+  mmRules: { type: Schema.Types.Mixed },
   lastActive: { type: Date, default: Date.now },
   createdAt: { type: Date, default: Date.now }
 });
@@ -222,6 +388,7 @@ const TradeSchema = new Schema<ITrade>({
   clobOrderId: { type: String, index: true }, 
   assetId: String,
   outcome: String,
+  outcomeIndex: Number,
   side: String,
   size: Number,
   executedSize: { type: Number, default: 0 }, 
@@ -231,6 +398,9 @@ const TradeSchema = new Schema<ITrade>({
   txHash: String,
   aiReasoning: String,
   riskScore: Number,
+  sizingReason: String,
+  exitReason: String,
+  paper: { type: Boolean, default: false },
   timestamp: { type: Date, default: Date.now },
   marketSlug: { 
     type: String, 
@@ -254,6 +424,22 @@ const TradeSchema = new Schema<ITrade>({
 }
 });
 
+const TraderScoresFields = {
+  realizedPnl: Number,
+  unrealizedPnl: Number,
+  roiPct: Number,
+  winRate: Number,
+  consistency: Number,
+  avgHoldHours: Number,
+  topCategory: String,
+  categoryShare: Number,
+  avgEntryPrice: Number,
+  entryBand: String,
+  maxDrawdown: Number,
+  copyability: Number,
+  trades: Number
+};
+
 const RegistrySchema = new Schema<IRegistry>({
   address: { type: String, required: true, unique: true },
   ens: String,
@@ -267,7 +453,10 @@ const RegistrySchema = new Schema<IRegistry>({
   listedBy: String,
   listedAt: String,
   copyCount: { type: Number, default: 0 },
-  copyProfitGenerated: { type: Number, default: 0 }
+  copyProfitGenerated: { type: Number, default: 0 },
+  scores: TraderScoresFields,
+  scoreHistory: [{ _id: false, at: String, ...TraderScoresFields }],
+  scoredAt: String
 });
 
 const FeedbackSchema = new Schema<IFeedback>({
@@ -298,6 +487,121 @@ const DepositLogSchema = new Schema<IDepositLog>({
   timestamp: { type: Date, default: Date.now }
 });
 
+const AuthNonceSchema = new Schema<IAuthNonce>({
+  nonce: { type: String, required: true, unique: true },
+  address: { type: String, required: true, index: true },
+  createdAt: { type: Date, default: Date.now, expires: 600 } // Unused nonces die after 10 minutes
+});
+
+const AuthSessionSchema = new Schema<IAuthSession>({
+  tokenHash: { type: String, required: true, unique: true },
+  address: { type: String, required: true, index: true },
+  expiresAt: { type: Date, required: true, index: { expires: 0 } },
+  createdAt: { type: Date, default: Date.now }
+});
+
+const WithdrawalSchema = new Schema<IWithdrawal>({
+  userId: { type: String, required: true, index: true },
+  tokenType: { type: String, required: true },
+  amount: { type: Number, required: true },
+  toAddress: { type: String, required: true },
+  source: String,
+  status: { type: String, default: 'PENDING' },
+  txHash: String,
+  error: String,
+  createdAt: { type: Date, default: Date.now, index: true },
+  updatedAt: { type: Date, default: Date.now }
+});
+
+const OrderSchema = new Schema<IOrder>({
+  userId: { type: String, required: true, index: true },
+  clobOrderId: { type: String, required: true, index: true },
+  marketId: String,
+  tokenId: String,
+  outcome: String,
+  side: String,
+  source: String,
+  orderType: String,
+  requestedPrice: Number,
+  requestedSize: Number,
+  status: { type: String, default: 'OPEN', index: true },
+  statusHistory: [{ _id: false, status: String, at: Number }],
+  fills: [{ _id: false, tradeId: String, price: Number, size: Number, timestamp: Number }],
+  filledSize: { type: Number, default: 0 },
+  avgFillPrice: { type: Number, default: 0 },
+  txHash: String,
+  paper: { type: Boolean, default: false },
+  createdAt: { type: Date, default: Date.now, index: true },
+  updatedAt: { type: Date, default: Date.now }
+});
+OrderSchema.index({ userId: 1, clobOrderId: 1 }, { unique: true });
+
+const RewardEarningSchema = new Schema<IRewardEarning>({
+  userId: { type: String, required: true, index: true },
+  paper: { type: Boolean, default: false },
+  date: { type: String, required: true, index: true },
+  conditionId: { type: String, required: true },
+  question: String,
+  estimatedUsd: { type: Number, default: 0 },
+  receivedUsd: Number,
+  samples: { type: Number, default: 0 },
+  qualifyingSamples: { type: Number, default: 0 },
+  updatedAt: { type: Date, default: Date.now }
+});
+RewardEarningSchema.index({ userId: 1, paper: 1, date: 1, conditionId: 1 }, { unique: true });
+
+const MarketMakingPnlSchema = new Schema<IMarketMakingPnl>({
+  userId: { type: String, required: true, index: true },
+  paper: { type: Boolean, default: false },
+  date: { type: String, required: true, index: true },
+  conditionId: { type: String, required: true },
+  question: String,
+  spreadUsd: { type: Number, default: 0 },
+  mergeUsd: { type: Number, default: 0 },
+  mergeProceedsUsd: { type: Number, default: 0 },
+  redemptionUsd: { type: Number, default: 0 },
+  redemptionProceedsUsd: { type: Number, default: 0 },
+  unrealizedUsd: { type: Number, default: 0 },
+  inventoryUsd: { type: Number, default: 0 },
+  boughtUsd: { type: Number, default: 0 },
+  soldUsd: { type: Number, default: 0 },
+  fills: { type: Number, default: 0 },
+  updatedAt: { type: Date, default: Date.now }
+});
+MarketMakingPnlSchema.index({ userId: 1, paper: 1, date: 1, conditionId: 1 }, { unique: true });
+
+const MarketMakingInventorySchema = new Schema<IMarketMakingInventory>({
+  userId: { type: String, required: true, index: true },
+  paper: { type: Boolean, default: false },
+  tokenId: { type: String, required: true },
+  conditionId: { type: String, required: true },
+  question: String,
+  shares: { type: Number, default: 0 },
+  costUsd: { type: Number, default: 0 },
+  markPrice: Number,
+  updatedAt: { type: Date, default: Date.now }
+});
+MarketMakingInventorySchema.index({ userId: 1, paper: 1, tokenId: 1 }, { unique: true });
+
+const PositionLedgerSchema = new Schema<IPositionLedger>({
+  userId: { type: String, required: true, index: true },
+  paper: { type: Boolean, default: false },
+  tokenId: { type: String, required: true },
+  conditionId: { type: String, required: true },
+  outcome: String,
+  lots: [{
+    _id: false,
+    shares: Number,
+    price: Number,
+    openedAt: Number,
+    source: String,
+    orderId: String
+  }],
+  realizedPnl: { type: Number, default: 0 },
+  updatedAt: { type: Date, default: Date.now }
+});
+PositionLedgerSchema.index({ userId: 1, paper: 1, tokenId: 1 }, { unique: true });
+
 const BotLogSchema = new Schema<IBotLog>({
   userId: { type: String, required: true, index: true },
   type: String,
@@ -305,6 +609,12 @@ const BotLogSchema = new Schema<IBotLog>({
   timestamp: { type: Date, default: Date.now, expires: 86400 * 3 } 
 });
 
+/**
+ * Query value for a `paper` field: paper sessions match only their own records, live
+ * matches everything else (records written before the flag existed are live).
+ */
+export const paperScope = (paper?: boolean) => (paper ? true : { $ne: true });
+
 // --- Models ---
 
 export const User = mongoose.model<IUser>('User', UserSchema);
@@ -318,7 +628,16 @@ export { CopiedTrade, HunterEarning, WalletAnalytics } from './trade-tracking.sc
 export const BridgeTransaction = mongoose.model<IBridgeTransaction>('BridgeTransaction', BridgeTransactionSchema);
 export const DepositLog = mongoose.model<IDepositLog>('DepositLog', DepositLogSchema);
 export const BotLog = mongoose.model<IBotLog>('BotLog', BotLogSchema);
+export const Withdrawal = mongoose.model<IWithdrawal>('Withdrawal', WithdrawalSchema);
+export const Order = mongoose.model<IOrder>('Order', OrderSchema);
+export const RewardEarning = mongoose.model<IRewardEarning>('RewardEarning', RewardEarningSchema);
+export const MarketMakingPnl = mongoose.model<IMarketMakingPnl>('MarketMakingPnl', MarketMakingPnlSchema);
+export const MarketMakingInventory = mongoose.model<IMarketMakingInventory>('MarketMakingInventory', MarketMakingInventorySchema);
+export const PositionLedger = mongoose.model<IPositionLedger>('PositionLedger', PositionLedgerSchema);
 export const MoneyMarketOpportunity = mongoose.model<IMoneyMarketOpportunity>('MoneyMarketOpportunity', MoneyMarketOpportunitySchema);
+export const PaperAccount = mongoose.model<IPaperAccount>('PaperAccount', PaperAccountSchema);
+export const AuthNonce = mongoose.model<IAuthNonce>('AuthNonce', AuthNonceSchema);
+export const AuthSession = mongoose.model<IAuthSession>('AuthSession', AuthSessionSchema);
 
 // --- Connection ---
 
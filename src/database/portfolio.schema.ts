@@ -1,10 +1,11 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
 import { PortfolioSnapshot } from '../domain/portfolio.types.js';
+import { paperScope } from './index.js';
 
 // Interface for the model with static methods
 // FIX: Ensure the interface correctly represents a Mongoose Model with our custom statics
 interface IPortfolioSnapshotModel extends Model<PortfolioSnapshot & Document> {
-  getAnalytics(userId: string, period: '1D' | '1W' | '30D' | 'ALL'): Promise<any>;
+  getAnalytics(userId: string, period: '1D' | '1W' | '30D' | 'ALL', paper?: boolean): Promise<any>;
   createSnapshot(
     userId: string,
     totalValue: number,
@@ -13,7 +14,8 @@ interface IPortfolioSnapshotModel extends Model<PortfolioSnapshot & Document> {
     positionsCount: number,
     totalPnL: number,
     totalPnLPercent: number,
-    positionsBreakdown?: any[]
+    positionsBreakdown?: any[],
+    paper?: boolean
   ): Promise<PortfolioSnapshot & Document>;
   cleanupOldSnapshots(): Promise<{ deletedCount: number }>;
 }
@@ -21,6 +23,7 @@ interface IPortfolioSnapshotModel extends Model<PortfolioSnapshot & Document> {
 // Portfolio Snapshot Schema
 const portfolioSnapshotSchema = new Schema<PortfolioSnapshot & Document>({
   userId: { type: String, required: true, index: true },
+  paper: { type: Boolean, default: false },
   timestamp: { type: Date, required: true, index: true },
   totalValue: { type: Number, required: true },
   cashBalance: { type: Number, required: true },
@@ -45,11 +48,13 @@ const portfolioSnapshotSchema = new Schema<PortfolioSnapshot & Document>({
 portfolioSnapshotSchema.index({ userId: 1, timestamp: 1 });
 portfolioSnapshotSchema.index({ timestamp: 1 }); // For cleanup of old snapshots
 portfolioSnapshotSchema.index({ userId: 1, timestamp: -1 }); // Latest snapshots first for each user
+portfolioSnapshotSchema.index({ userId: 1, paper: 1, totalValue: -1 }); // Drawdown peak per session mode
 
 // Static methods for portfolio analytics
 portfolioSnapshotSchema.statics.getAnalytics = async function(
   userId: string, 
-  period: '1D' | '1W' | '30D' | 'ALL'
+  period: '1D' | '1W' | '30D' | 'ALL',
+  paper?: boolean
 ) {
   const now = new Date();
   let startDate: Date;
@@ -72,6 +77,7 @@ portfolioSnapshotSchema.statics.getAnalytics = async function(
   
   const snapshots = await this.find({
     userId,
+    paper: paperScope(paper),
     timestamp: { $gte: startDate }
   }).sort({ timestamp: 1 });
   
@@ -122,10 +128,12 @@ portfolioSnapshotSchema.statics.createSnapshot = async function(
   positionsCount: number,
   totalPnL: number,
   totalPnLPercent: number,
-  positionsBreakdown?: any[]
+  positionsBreakdown?: any[],
+  paper?: boolean
 ) {
   return this.create({
     userId,
+    paper: !!paper,
     timestamp: new Date(),
     totalValue,
     cashBalance,
@@ -15,6 +15,16 @@ export interface ICopiedTrade extends Document {
   txHash?: string;
   isSuccessful: boolean;
   profitUsd?: number; // Only for SELL trades
+  // Copy quality (CopyQualityService)
+  status?: 'FILLED' | 'SKIPPED' | 'FAILED';
+  reason?: string;
+  traderPrice?: number;
+  detectedAt?: Date;
+  detectionLatencyMs?: number;
+  aggregationDelayMs?: number;
+  executionLatencyMs?: number;
+  slippageCents?: number; // Positive = filled worse than the trader
+  paper?: boolean;        // Simulated copy; kept out of copy quality
 }
 
 // Wallet hunter earnings tracking
@@ -54,9 +64,20 @@ const CopiedTradeSchema = new Schema<ICopiedTrade>({
   timestamp: { type: Date, required: true, index: true },
   txHash: String,
   isSuccessful: { type: Boolean, default: true },
-  profitUsd: Number
+  profitUsd: Number,
+  status: { type: String, enum: ['FILLED', 'SKIPPED', 'FAILED'] },
+  reason: String,
+  traderPrice: Number,
+  detectedAt: Date,
+  detectionLatencyMs: Number,
+  aggregationDelayMs: Number,
+  executionLatencyMs: Number,
+  slippageCents: Number,
+  paper: { type: Boolean, default: false }
 });
 
+CopiedTradeSchema.index({ sourceWallet: 1, timestamp: -1 });
+
 const HunterEarningSchema = new Schema<IHunterEarning>({
   hunterAddress: { type: String, required: true, index: true },
   sourceWallet: { type: String, required: true, index: true },
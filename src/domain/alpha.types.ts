@@ -14,6 +14,65 @@ export interface TraderProfile {
   // Bet Mirror Specific Stats
   copyCount: number;         // How many times this wallet was copied on our platform
   copyProfitGenerated: number; // Total profit generated for copiers
+
+  // Scoring engine (RegistryAnalyticsService)
+  scores?: TraderScores;
+  scoreHistory?: TraderScoreSnapshot[]; // Oldest first, one per scoring run
+  scoredAt?: string;
+}
+
+// Odds band of a trader's volume-weighted entry price
+export type EntryPriceBand = 'longshot' | 'underdog' | 'tossup' | 'favorite' | 'heavy_favorite';
+
+export interface TraderScores {
+  realizedPnl: number;    // Sells and resolved positions against average cost
+  unrealizedPnl: number;  // Open positions at the current price
+  roiPct: number;         // Realized + unrealized over capital put into buys
+  winRate: number;        // Percent of closes (sells and resolutions) above entry
+  consistency: number;    // Sharpe-like: mean / stdev of daily realized PnL
+  avgHoldHours: number;
+  topCategory?: string;
+  categoryShare: number;  // Share of buy volume in topCategory, 0-1
+  avgEntryPrice: number;
+  entryBand: EntryPriceBand;
+  maxDrawdown: number;    // Largest fall of cumulative realized PnL from its peak, USD
+  copyability: number;    // 0-100; tiny trades, sub-second churn and extreme prices count against it
+  trades: number;         // Trades the scores were computed from
+}
+
+export interface TraderScoreSnapshot extends TraderScores {
+  at: string;
+}
+
+// How one detected trade of a followed wallet ended up on our side
+export type CopyOutcome = 'FILLED' | 'SKIPPED' | 'FAILED';
+
+export interface Distribution {
+  median: number;
+  p95: number;
+  samples: number;
+}
+
+export interface CopySkipReason {
+  reason: string;         // Reason key without its details, e.g. "insufficient_funds"
+  count: number;
+  rate: number;           // Share of all copy attempts, 0-1
+}
+
+// Aggregated CopiedTrade records for one followed wallet, across every copier
+export interface CopyQualitySummary {
+  wallet: string;
+  days: number;
+  attempts: number;
+  filled: number;
+  skipped: number;
+  failed: number;
+  skipRate: number;                 // Skipped + failed over attempts, 0-1
+  slippageCents: Distribution;      // Positive = filled worse than the trader
+  detectionLatencyMs: Distribution; // Trader's fill -> our monitor seeing it
+  aggregationDelayMs: Distribution; // Our monitor seeing it -> the aggregation window releasing it
+  executionLatencyMs: Distribution; // Executor taking the signal -> our order done
+  skipReasons: CopySkipReason[];    // Most frequent first
 }
 
 export interface FeeDistributionEvent {
@@ -23,6 +23,8 @@ export interface PositionData {
     // FIX: Added conditionId to satisfy bot-engine requirements and align with Polymarket CLOB API structure
     conditionId: string;
     outcome: string;
+    outcomeIndex?: number;
+    negRisk?: boolean; // Neg-risk event leg (redeems through the NegRiskAdapter)
     balance: number; // Number of shares
     valueUsd: number;
     investedValue?: number; // NEW: Total USD cost basis
@@ -38,4 +40,146 @@ export interface PositionData {
     eventSlug?: string;
     // FIX: Added clobOrderId to satisfy bot-engine requirements and internal tracking
     clobOrderId?: string;
-}
\ No newline at end of file
+}
+export type QuotingModelType = 'fixed_offset' | 'avellaneda_stoikov';
+
+// Per-user market-making profile (User.mmConfig). Quoting fields drive TradeExecutorService,
+// the rest drive MarketMakingScanner's market selection and risk checks.
+export interface MarketMakingProfile {
+    // Quoting
+    quotingModel: QuotingModelType;
+    quoteSize: number;              // USD per side
+    spreadOffset: number;           // Distance from midpoint in price units (0.01 = 1 cent)
+    maxPositionUsd: number;         // Max inventory per token
+    maxOpenOrdersPerToken: number;
+    rebalanceThreshold: number;     // Inventory skew (0-1) that triggers a rebalance
+    riskAversion: number;           // Avellaneda-Stoikov gamma
+    liquidityDensity: number;       // Avellaneda-Stoikov kappa (fill intensity decay per 1.00 of price)
+    maxHorizonHours: number;        // Avellaneda-Stoikov cap on time to market end
+    // Market selection
+    minSpreadCents: number;
+    maxSpreadCents: number;
+    minVolume: number;
+    minLiquidity: number;
+    preferRewardMarkets: boolean;
+    preferNewMarkets: boolean;
+    newMarketAgeMinutes: number;
+    refreshIntervalMs: number;
+    // Risk
+    priceMoveThresholdPct: number;  // Flash move that pulls that market (toxicity guard on) or trips the kill switch
+    autoMergeThreshold: number;     // Merge YES/NO pairs above this many shares
+    enableKillSwitch: boolean;
+    enableToxicityGuard: boolean;   // Widen/pull quotes per market on toxic flow instead of halting the bot
+    flowImbalanceThreshold: number; // |order-flow imbalance| (0-1) that counts as toxic
+    markoutThresholdCents: number;  // Mean adverse markout of our fills (cents/share) that counts as toxic
+    toxicSpreadMultiplier: number;  // Half-spread multiplier while a market is at 'widen'
+    toxicityCooldownMinutes: number; // Calm time before a widened/pulled market steps back down
+}
+
+// User-defined market selection for the market-making scanner (User.mmRules)
+export interface MarketMakingRules {
+    allowCategories: string[];      // Only markets whose category/tags match one of these (empty = all)
+    denyCategories: string[];
+    includeKeywords: string[];      // Question must match one of these; `/regex/flags` or plain substring
+    excludeKeywords: string[];
+    minDaysToEnd: number;           // Skip markets ending sooner (0 = off)
+    maxActiveMarkets: number;       // Markets quoted at once (0 = unlimited)
+    blacklist: MarketBlacklistEntry[];
+}
+
+export interface MarketBlacklistEntry {
+    conditionId: string;
+    question?: string;
+    reason?: string;
+    addedAt: number;
+}
+
+export type ToxicityLevel = 'normal' | 'widen' | 'pull';
+
+// Adverse-selection state of one market, kept by ToxicityMonitor
+export interface MarketToxicity {
+    conditionId: string;
+    level: ToxicityLevel;
+    imbalance: number;           // -1..1, positive = flow pushing the YES price up
+    markoutCents: number;        // Mean markout of our recent fills per share; negative = adverse
+    trades: number;              // Trades in the flow window
+    fills: number;               // Our fills with a resolved markout
+    reason?: string;
+    until?: number;              // Earliest time the level can step down (epoch ms)
+}
+
+// One row per market per UTC day, written by LiquidityRewardsService
+export interface RewardEarningRecord {
+    date: string;                // YYYY-MM-DD (UTC), the exchange's reward epoch
+    conditionId: string;
+    question?: string;
+    estimatedUsd: number;        // Sum of per-minute estimates from our own quote scoring
+    receivedUsd?: number;        // Reported by the exchange; unset until synced
+    samples: number;             // Minutes with a resting quote
+    qualifyingSamples: number;   // Minutes where the quote scored (within max spread, above min size)
+}
+
+export interface QuoteRewardScore {
+    tokenId: string;
+    conditionId: string;
+    question?: string;
+    bidScore: number;            // Score-weighted size, S(v, s) * shares
+    askScore: number;
+    qMin: number;                // Two-sidedness adjusted score the reward share is based on
+    twoSided: boolean;
+    qualifies: boolean;
+    reason?: string;             // Why a quote does not qualify
+    quotedUsd: number;           // Notional of the resting bid + ask
+    expectedDailyUsd: number;
+}
+
+export interface RewardsSummary {
+    days: number;
+    totals: { estimatedUsd: number; receivedUsd: number };
+    byMarket: (Omit<RewardEarningRecord, 'date'> & { days: number })[];
+    byDay: { date: string; estimatedUsd: number; receivedUsd: number }[];
+    live: QuoteRewardScore[];    // Current scoring of resting quotes (running engine only)
+}
+
+// --- Market-making PnL attribution (one row per market per UTC day) ---
+
+export interface MarketMakingPnlRecord {
+    date: string;                // YYYY-MM-DD (UTC)
+    conditionId: string;
+    question?: string;
+    spreadUsd: number;           // Realized on quote sells against the average cost of quote buys
+    mergeUsd: number;            // Merge proceeds less the cost of the merged YES/NO pairs
+    mergeProceedsUsd: number;
+    redemptionUsd: number;       // Redemption proceeds less the cost of the resolved inventory
+    redemptionProceedsUsd: number;
+    unrealizedUsd: number;       // Inventory mark-to-market at the last sample of the day
+    inventoryUsd: number;        // Inventory value at that mark
+    boughtUsd: number;
+    soldUsd: number;
+    fills: number;
+}
+
+export interface MarketMakingPnlMarket extends Omit<MarketMakingPnlRecord, 'date'> {
+    rewardsUsd: number;          // Received where the exchange has reported it, else our estimate
+    realizedUsd: number;         // spread + merge + redemption
+    netUsd: number;              // realized + rewards + current unrealized
+    days: number;
+    losingDays: number;          // Days where realized + rewards + change in unrealized was negative
+}
+
+export interface MarketMakingPnlSummary {
+    days: number;
+    totals: { spreadUsd: number; mergeUsd: number; redemptionUsd: number; rewardsUsd: number; unrealizedUsd: number; netUsd: number };
+    byMarket: MarketMakingPnlMarket[];
+    byDay: { date: string; realizedUsd: number; rewardsUsd: number; unrealizedUsd: number }[];
+}
+
+// Open quote inventory per token, carried at average cost
+export interface MarketMakingInventoryRecord {
+    tokenId: string;
+    conditionId: string;
+    question?: string;
+    shares: number;
+    costUsd: number;
+    markPrice?: number;          // Last midpoint seen by the mark-to-market sampler
+}
@@ -0,0 +1,46 @@
+// Order lifecycle records kept by OrderStoreService (one per CLOB order we place)
+
+export type OrderStatus =
+  | 'OPEN'              // Resting on the book, nothing matched yet
+  | 'PARTIALLY_FILLED'  // Some size matched, remainder still resting
+  | 'FILLED'
+  | 'CANCELLED'         // Cancelled by us, or the unfilled remainder of a FOK/FAK order
+  | 'EXPIRED';          // GTD order that reached its expiration
+
+export type OrderSource = 'COPY' | 'MANUAL_EXIT' | 'MM_QUOTE' | 'EXTERNAL'; // EXTERNAL = live on the CLOB but not placed by this bot
+
+export interface OrderFill {
+  tradeId?: string; // CLOB trade id when known; used to ignore duplicate fill reports
+  price: number;
+  size: number;     // Shares
+  timestamp: number;
+}
+
+export interface OrderStatusChange {
+  status: OrderStatus;
+  at: number;
+}
+
+export interface OrderRecord {
+  id: string;
+  userId: string;
+  clobOrderId: string;
+  marketId: string;
+  tokenId: string;
+  outcome: string;
+  side: 'BUY' | 'SELL';
+  source: OrderSource;
+  orderType: 'GTC' | 'FOK' | 'FAK';
+  requestedPrice: number;
+  requestedSize: number; // Shares
+  status: OrderStatus;
+  statusHistory: OrderStatusChange[];
+  fills: OrderFill[];
+  filledSize: number;
+  avgFillPrice: number;
+  txHash?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export const OPEN_ORDER_STATUSES: OrderStatus[] = ['OPEN', 'PARTIALLY_FILLED'];
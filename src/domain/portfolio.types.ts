@@ -3,6 +3,7 @@
 export interface PortfolioSnapshot {
   id: string;
   userId: string;
+  paper?: boolean; // Paper sessions keep their own history
   timestamp: Date;
   totalValue: number; // Total portfolio value (cash + positions)
   cashBalance: number; // Available cash
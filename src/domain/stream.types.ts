@@ -0,0 +1,25 @@
+// Real-time bot channel (SSE) shared by the server and the dashboard
+
+export type BotStreamEventType =
+  | 'trade'      // BotCallbacks.onTradeComplete
+  | 'positions'  // BotCallbacks.onPositionsUpdate
+  | 'stats'      // BotCallbacks.onStatsUpdate
+  | 'arb'        // BotCallbacks.onArbUpdate
+  | 'cashout'    // BotCallbacks.onCashout
+  | 'fee'        // BotCallbacks.onFeePaid
+  | 'log'        // New BotLog line
+  | 'resync';    // Cursor fell out of the replay buffer; client should fetch a full snapshot
+
+export interface BotStreamEvent<T = any> {
+  id: number; // Monotonic per user; doubles as the resume cursor (SSE Last-Event-ID)
+  type: BotStreamEventType;
+  data: T;
+  timestamp: number;
+}
+
+export interface BotStreamLogLine {
+  id: string;
+  time: string;
+  type: 'info' | 'warn' | 'error' | 'success';
+  message: string;
+}
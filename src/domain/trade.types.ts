@@ -2,17 +2,22 @@ export type TradeSignal = {
   trader: string;
   marketId: string;
   tokenId: string;
-  outcome: 'YES' | 'NO';
+  outcome: string; // Outcome label from the feed ("Yes", "No", "Trump", ...)
+  outcomeIndex?: number; // Position of tokenId within the market's outcomes
   side: 'BUY' | 'SELL';
   sizeUsd: number;
-  price: number;
+  price: number; // VWAP when aggregatedFills > 1
   timestamp: number;
+  detectedAt?: number; // When TradeMonitorService saw the fill; the first fill's when aggregated
+  flushedAt?: number; // When TradeAggregatorService released the signal (at once when not buffered)
+  traderShares?: number; // SELL: shares the trader still held when the fill was seen; the last fill's when aggregated
+  aggregatedFills?: number; // Set by TradeAggregatorService
 };
 
 export type TradeEvent = {
   trader: string;
   marketId: string;
-  outcome: 'YES' | 'NO';
+  outcome: string;
   side: 'BUY' | 'SELL';
   sizeUsd: number;
   price: number;
@@ -25,16 +30,20 @@ export type TradeHistoryEntry = {
   timestamp: string;
   marketId: string;
   outcome: string;
+  outcomeIndex?: number;
   side: 'BUY' | 'SELL';
   size: number;
   executedSize?: number;
   price: number;
   pnl?: number;
+  positionPnl?: number; // Realized over the whole position, on the sell that closes it
   status: 'OPEN' | 'CLOSED' | 'SKIPPED' | 'FAILED' | 'FILLED';
   txHash?: string;
   // Metadata for UI
   aiReasoning?: string;
   riskScore?: number;
+  sizingReason?: string; // Which sizing strategy/guard picked the stake
+  exitReason?: string; // Which exit rule (or manual action) closed the position
   // CLOB Tracking
   clobOrderId?: string;
   assetId?: string;
@@ -42,6 +51,27 @@ export type TradeHistoryEntry = {
   eventSlug?: string;
 };
 
+// One step of a take-profit ladder: at +gainPct, sell sellPct% of the shares held when the ladder started
+export type TakeProfitRung = {
+  gainPct: number;
+  sellPct: number;
+};
+
+// Automatic exits. Percentages are positive numbers (stopLossPct 20 = exit at -20%).
+export type ExitRules = {
+  stopLossPct?: number;
+  trailingStopPct?: number;     // Distance from the high-water mark of currentPrice
+  maxHoldHours?: number;
+  closeBeforeEndHours?: number; // Exit N hours before the market endDate
+  takeProfitLadder?: TakeProfitRung[]; // Ascending by gainPct; the last rung sells whatever is left
+};
+
+// Part of a position to exit; unset means all of it
+export type ExitSize = {
+  shares?: number;
+  percent?: number; // 0-100 of the shares currently held
+};
+
 // Tracks open positions to calculate REAL PnL on sell
 export interface ActivePosition {
   tradeId: string; // Link to the original TradeHistoryEntry._id
@@ -49,9 +79,11 @@ export interface ActivePosition {
   marketId: string;
   conditionId?: string; // The condition ID used by Polymarket's CLOB API
   tokenId: string;
-  outcome: 'YES' | 'NO';
+  outcome: string;
+  outcomeIndex?: number;
+  negRisk?: boolean; // Leg of a neg-risk (multi-outcome) event
   entryPrice: number;
-  shares: number; // Exact number of shares held (Critical for selling)
+  shares: number; // Exact number of shares held (Critical for selling); net of recorded fills
   sizeUsd: number; // Initial invested amount
   investedValue?: number;
   timestamp: number;
@@ -70,4 +102,52 @@ export interface ActivePosition {
   marketActive?: boolean;
   marketClosed?: boolean;
   marketArchived?: boolean;
+  // Exit Rule Engine
+  exitRules?: ExitRules; // Overrides the bot-wide rules for this position
+  highWaterMark?: number;
+  ladderBaseShares?: number;  // Shares held when the first take-profit rung fired
+  ladderRungsHit?: number[];  // gainPct of every rung already sold
+  ladderSharesSold?: number;  // Sold so far toward rungs whose sale only partly filled
+  realizedPnl?: number; // From SELL fills that reduced (but did not close) this position
+}
+
+// --- Position ledger (lot accounting per token) ---
+
+// FIFO consumes the oldest lots first; AVERAGE takes every lot down pro rata at the blended cost
+export type CostBasisMethod = 'FIFO' | 'AVERAGE';
+
+export type LotSource = 'COPY' | 'MM_QUOTE' | 'IMPORTED'; // IMPORTED = found on chain with no recorded buy
+
+export interface PositionLot {
+  shares: number;   // Remaining shares of this buy
+  price: number;    // Cost per share
+  openedAt: number;
+  source: LotSource;
+  orderId?: string;
+}
+
+export interface PositionBook {
+  tokenId: string;
+  conditionId: string;
+  outcome?: string;
+  lots: PositionLot[];
+  shares: number;
+  costUsd: number;
+  avgPrice: number;
+  realizedPnl: number; // Lifetime, across every disposal of this token
+  updatedAt: number;
+}
+
+// ADJUST = shares gone on chain without a recorded exit; closed at cost, no PnL
+export type LotDisposalKind = 'SELL' | 'REDEEM' | 'MERGE' | 'ADJUST';
+
+export interface LotDisposal {
+  tokenId: string;
+  kind: LotDisposalKind;
+  shares: number;
+  costUsd: number;
+  proceedsUsd: number;
+  realizedPnl: number;
+  remainingShares: number;
+  closed: boolean;
 }
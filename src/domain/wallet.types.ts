@@ -40,3 +40,41 @@ export interface WalletBalance {
   usdc: number;
   formatted: string;
 }
+
+// --- Withdrawal policy ---
+
+export type WithdrawalToken = 'USDC' | 'POL';
+export type WithdrawalStatus = 'PENDING' | 'SENT' | 'CONFIRMED' | 'FAILED';
+
+export interface WithdrawalRecord {
+  id: string;
+  userId: string;
+  tokenType: WithdrawalToken;
+  amount: number; // Token units (USDC or POL), not wei
+  toAddress: string;
+  source: 'SAFE' | 'EOA';
+  status: WithdrawalStatus;
+  txHash?: string;
+  error?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface WithdrawalAllowlistEntry {
+  address: string;
+  label?: string;
+  addedAt: number;
+  activeAt: number; // Usable only after the cooling period
+}
+
+// Rolling 24h caps per token. Undefined = unlimited.
+export interface WithdrawalLimits {
+  dailyUsdc?: number;
+  dailyPol?: number;
+}
+
+export interface WithdrawalPolicy {
+  allowlist: WithdrawalAllowlistEntry[];
+  limits: WithdrawalLimits;
+  pendingLimits?: WithdrawalLimits & { activeAt: number }; // Raised limits wait out the cooling period
+}
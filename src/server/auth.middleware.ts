@@ -0,0 +1,66 @@
+import { AuthError, AuthService } from '../services/auth.service.js';
+
+// Fields through which routes identify the acting wallet
+const IDENTITY_FIELDS = ['userId'];
+
+/**
+ * Session token from the Authorization header. `?token=` is only honoured where the caller
+ * opts in (the SSE stream: EventSource cannot set headers); tokens in URLs end up in logs.
+ */
+export const bearerToken = (req: any, allowQuery = false): string | undefined => {
+  const header: string | undefined = req.headers?.authorization;
+  if (header?.startsWith('Bearer ')) return header.slice(7).trim();
+  return allowQuery && typeof req.query?.token === 'string' ? req.query.token : undefined;
+};
+
+const requestDomain = (req: any): string => req.get?.('host') || req.headers?.host || '';
+
+/**
+ * Session middleware. Binds req.userId to the signed-in wallet, rejects requests whose
+ * userId (body, query or URL) names another wallet, and fills it in where omitted.
+ * requireStreamAuth also accepts the token as `?token=`, for EventSource routes only.
+ */
+export function createAuthMiddleware(auth: AuthService) {
+  const authenticate = (allowQueryToken: boolean) => async (req: any, res: any, next: any) => {
+    try {
+      const address = await auth.resolveSession(bearerToken(req, allowQueryToken));
+      if (!address) return res.status(401).json({ error: 'Sign in required', code: 'SESSION_REQUIRED' });
+
+      for (const source of [req.params, req.query, req.body]) {
+        if (!source) continue;
+        for (const key of IDENTITY_FIELDS) {
+          const claimed = source[key];
+          if (claimed !== undefined && String(claimed).toLowerCase() !== address) {
+            return res.status(403).json({ error: 'userId does not match the signed-in wallet' });
+          }
+        }
+      }
+
+      if (req.body && typeof req.body === 'object' && req.body.userId === undefined) req.body.userId = address;
+      if (req.query && req.query.userId === undefined) req.query.userId = address;
+      req.userId = address;
+      next();
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  };
+  const requireAuth = authenticate(false);
+  const requireStreamAuth = authenticate(true);
+
+  /**
+   * Must run after requireAuth. The body carries `authorization: { message, signature }`,
+   * a fresh SIWE message whose resources bind it to `action` and the rest of the body.
+   */
+  const requireFreshSignature = (action: string) => async (req: any, res: any, next: any) => {
+    try {
+      const { authorization, ...payload } = req.body || {};
+      await auth.verifyAction(req.userId, action, payload, authorization, requestDomain(req));
+      next();
+    } catch (e: any) {
+      const status = e instanceof AuthError ? e.status : 500;
+      res.status(status).json({ error: e.message, code: status === 428 ? 'SIGNATURE_REQUIRED' : undefined });
+    }
+  };
+
+  return { requireAuth, requireStreamAuth, requireFreshSignature, requestDomain };
+}
@@ -5,16 +5,35 @@ import { aiAgent } from '../services/ai-agent.service.js';
 import { NotificationService } from '../services/notification.service.js';
 import { FundManagerService } from '../services/fund-manager.service.js';
 import { PortfolioService } from '../services/portfolio.service.js';
-import { TradeHistoryEntry, ActivePosition, TradeSignal } from '../domain/trade.types.js';
+import { RiskManagerService, RiskLimits, RiskState, RiskStatus } from '../services/risk-manager.service.js';
+import { TradeAggregatorService, AggregationConfig, applyAggregationConfig } from '../services/trade-aggregator.service.js';
+import { OrderStoreService } from '../services/order-store.service.js';
+import { UserChannelService, UserOrderEvent } from '../services/user-channel-ws.service.js';
+import { LiquidityRewardsService } from '../services/liquidity-rewards.service.js';
+import { MarketMakingPnlService } from '../services/market-making-pnl.service.js';
+import { PositionLedgerService } from '../services/position-ledger.service.js';
+import { CopyQualityService } from '../services/copy-quality.service.js';
+import { getGammaClient } from '../services/gamma-client.service.js';
+import { OrderFill, OrderRecord } from '../domain/order.types.js';
+import { TradeHistoryEntry, ActivePosition, TradeSignal, ExitRules, ExitSize, CostBasisMethod, LotDisposal, LotSource, PositionBook } from '../domain/trade.types.js';
+import { BotStreamLogLine } from '../domain/stream.types.js';
 import { CashoutRecord, FeeDistributionEvent, IRegistryService } from '../domain/alpha.types.js';
 import { UserStats } from '../domain/user.types.js';
+import { MarketMakingPnlSummary, MarketMakingProfile, MarketMakingRules, MarketToxicity, RewardsSummary } from '../domain/market.types.js';
 import { TradingWalletConfig, L2ApiCredentials } from '../domain/wallet.types.js'; 
-import { BotLog, User, Trade } from '../database/index.js';
+import { BotLog, User, Trade, paperScope } from '../database/index.js';
 import { PolymarketAdapter } from '../adapters/polymarket/polymarket.adapter.js';
+import { PaperExchangeAdapter, fetchPublicOrderBook, fetchPublicMarket } from '../adapters/paper/paper.adapter.js';
 import { Logger } from '../utils/logger.util.js';
+import { sameOutcome } from '../utils/outcome.util.js';
 import { FeeDistributorService } from '../services/fee-distributor.service.js';
 import { EvmWalletService } from '../services/evm-wallet.service.js';
 import { TOKENS } from '../config/env.js';
+import { SizingStrategyConfig } from '../config/copy-strategy.js';
+import { TargetWalletConfig, findTarget } from '../config/copy-targets.js';
+import { evaluateExitRules, evaluateTakeProfitLadder, hasActiveExitRules, recordTakeProfitSale, resolveExitRules, updateHighWaterMark } from '../config/exit-rules.js';
+import { resolveMarketMakingProfile } from '../config/market-making.js';
+import { resolveMarketRules } from '../config/market-rules.js';
 import { registryAnalytics } from '../services/registry-analytics.service.js';
 import { MarketMakingScanner, MarketOpportunity } from '../services/arbitrage-scanner.js';
 import { ArbitrageOpportunity } from '../adapters/interfaces.js';
@@ -24,6 +43,7 @@ export interface BotConfig {
     userId: string;
     walletConfig?: TradingWalletConfig;
     userAddresses: string[];
+    targets?: TargetWalletConfig[]; // Per-wallet overrides; userAddresses stays the flat address list
     rpcUrl: string;
     geminiApiKey?: string;
     riskProfile: 'conservative' | 'balanced' | 'degen';
@@ -46,6 +66,15 @@ export interface BotConfig {
     builderApiPassphrase?: string;
     mongoEncryptionKey: string;
     maxTradeAmount?: number;
+    paperTrading?: { enabled: boolean; startingBalance?: number };
+    sizingStrategy?: SizingStrategyConfig;
+    exitRules?: ExitRules; // Bot-wide defaults; ActivePosition.exitRules overrides per position
+    riskLimits?: RiskLimits;
+    riskState?: RiskState; // Circuit breaker state, persisted via onRiskStateUpdate
+    aggregation?: AggregationConfig; // Merge bursty fills; falls back to TRADE_AGGREGATION_* env
+    mmConfig?: MarketMakingProfile; // Loaded from User.mmConfig; defaults when unset
+    mmRules?: MarketMakingRules; // Loaded from User.mmRules; market selection for the MM scanner
+    costBasisMethod?: CostBasisMethod; // How the position ledger consumes lots on sells (FIFO by default)
 }
 
 export interface BotCallbacks {
@@ -55,6 +84,8 @@ export interface BotCallbacks {
     onStatsUpdate?: (stats: UserStats) => Promise<void>;
     onPositionsUpdate?: (positions: ActivePosition[]) => Promise<void>;
     onArbUpdate?: (opportunities: ArbitrageOpportunity[]) => Promise<void>;
+    onRiskStateUpdate?: (state: RiskState) => Promise<void>;
+    onLog?: (line: BotStreamLogLine) => void;
 }
 
 export class BotEngine {
@@ -62,11 +93,22 @@ export class BotEngine {
     private monitor?: TradeMonitorService;
     private executor?: TradeExecutorService;
     private arbScanner?: MarketMakingScanner;
-    private exchange?: PolymarketAdapter;
+    private exchange?: PolymarketAdapter | PaperExchangeAdapter;
     private portfolioService?: PortfolioService;
+    private riskManager?: RiskManagerService;
+    private aggregator?: TradeAggregatorService;
+    private orderStore?: OrderStoreService;
+    private userChannel?: UserChannelService;
+    private rewards?: LiquidityRewardsService;
+    private mmPnl?: MarketMakingPnlService;
+    private ledger?: PositionLedgerService;
+    private copyQuality?: CopyQualityService;
+    private feeDistributor?: FeeDistributorService;
     private runtimeEnv: any;
     
     private fundWatcher?: NodeJS.Timeout;
+    private exitRuleWatcher?: NodeJS.Timeout;
+    private exitingPositions: Set<string> = new Set();
     private activePositions: ActivePosition[] = [];
     private stats: UserStats = {
         totalPnl: 0, 
@@ -83,6 +125,7 @@ export class BotEngine {
 
     private lastPositionSync = 0;
     private readonly POSITION_SYNC_INTERVAL = 30000;
+    private readonly DUST_SHARES = 0.01; // Remainders below this close the position
 
     constructor(
         private config: BotConfig,
@@ -93,18 +136,28 @@ export class BotEngine {
         if (config.stats) this.stats = config.stats;
     }
 
-    public getAdapter(): PolymarketAdapter | undefined {
+    public getAdapter(): PolymarketAdapter | PaperExchangeAdapter | undefined {
         return this.exchange;
     }
 
+    public getOrderStore(): OrderStoreService | undefined {
+        return this.orderStore;
+    }
+
     private async addLog(type: 'info' | 'warn' | 'error' | 'success', message: string) {
         try {
-            await BotLog.create({ userId: this.config.userId, type, message, timestamp: new Date() } as any);
+            const log = await BotLog.create({ userId: this.config.userId, type, message, timestamp: new Date() } as any);
+            this.callbacks?.onLog?.({ id: log._id.toString(), time: log.timestamp.toLocaleTimeString(), type, message });
         } catch (e) { console.error("Log failed", e); }
     }
 
     public updateConfig(newConfig: Partial<BotConfig>) {
-        if (newConfig.userAddresses && this.monitor) {
+        if (newConfig.targets) {
+            this.config.targets = newConfig.targets;
+            this.config.userAddresses = newConfig.targets.map(t => t.address);
+            if (this.runtimeEnv) this.runtimeEnv.targets = newConfig.targets;
+            if (this.monitor) this.monitor.updateTargets(newConfig.targets);
+        } else if (newConfig.userAddresses && this.monitor) {
             this.monitor.updateTargets(newConfig.userAddresses);
             this.config.userAddresses = newConfig.userAddresses;
         }
@@ -130,6 +183,39 @@ export class BotEngine {
 
         if (newConfig.riskProfile !== undefined) this.config.riskProfile = newConfig.riskProfile;
         if (newConfig.autoTp !== undefined) this.config.autoTp = newConfig.autoTp;
+        if (newConfig.exitRules !== undefined) this.config.exitRules = newConfig.exitRules;
+        if (newConfig.riskLimits !== undefined) {
+            this.config.riskLimits = newConfig.riskLimits;
+            if (this.riskManager) {
+                this.riskManager.updateLimits(newConfig.riskLimits);
+                this.riskManager.evaluateBreakers().catch(console.error);
+            }
+        }
+        if (newConfig.sizingStrategy !== undefined) {
+            this.config.sizingStrategy = newConfig.sizingStrategy;
+            if (this.runtimeEnv) this.runtimeEnv.sizingStrategy = newConfig.sizingStrategy;
+        }
+        if (newConfig.aggregation !== undefined) {
+            this.config.aggregation = newConfig.aggregation;
+            if (this.runtimeEnv) applyAggregationConfig(this.runtimeEnv, newConfig.aggregation);
+        }
+        if (newConfig.mmConfig !== undefined) {
+            // Scanner and executor pick it up in place; the market WebSocket is not restarted
+            this.config.mmConfig = newConfig.mmConfig;
+            this.arbScanner?.updateConfig(newConfig.mmConfig);
+            this.executor?.updateMarketMakingConfig(newConfig.mmConfig);
+        }
+        if (newConfig.costBasisMethod !== undefined) {
+            this.config.costBasisMethod = newConfig.costBasisMethod;
+            this.ledger?.setMethod(newConfig.costBasisMethod);
+        }
+        if (newConfig.mmRules !== undefined) {
+            this.config.mmRules = newConfig.mmRules;
+            const excluded = this.arbScanner?.updateRules(newConfig.mmRules) || [];
+            for (const conditionId of excluded) {
+                this.executor?.cancelMarketQuotes(conditionId).catch(() => { /* next quote cycle retries */ });
+            }
+        }
         
         if (newConfig.autoCashout) {
             this.config.autoCashout = newConfig.autoCashout;
@@ -148,6 +234,7 @@ export class BotEngine {
                 const market = await client.getMarket(position.marketId);
                 
                 if (market) {
+                    if (!position.endDate && market.end_date_iso) position.endDate = market.end_date_iso;
                     position.marketClosed = market.closed || false;
                     position.marketActive = market.active || false;
                     position.marketAcceptingOrders = market.accepting_orders || false;
@@ -198,7 +285,18 @@ export class BotEngine {
                 const address = this.exchange.getFunderAddress();
                 if(address) {
                     const chainPositions = await this.exchange.getPositions(address);
+                    // The chain knows balances, the ledger knows cost; pick up anything bought or sold outside our fills.
+                    // An empty list is also what a failed positions request returns, so it never closes books.
+                    if (chainPositions.length > 0) await this.ledger?.reconcile(chainPositions.map(p => ({
+                        tokenId: p.tokenId,
+                        conditionId: p.conditionId || p.marketId,
+                        outcome: p.outcome,
+                        shares: p.balance || 0,
+                        avgPrice: p.entryPrice
+                    })));
                     const enrichedPositions: ActivePosition[] = [];
+                    // Chain data has no memory of when we entered or which rules apply; keep ours
+                    const previousByToken = new Map(this.activePositions.map(p => [p.tokenId, p]));
 
                     for (const p of chainPositions) {
                         const marketSlug = p.marketSlug || "";
@@ -215,35 +313,51 @@ export class BotEngine {
                             if (eventSlug) updateData.eventSlug = eventSlug;
                             
                             await Trade.updateMany(
-                                { userId: this.config.userId, marketId: p.marketId },
+                                { userId: this.config.userId, paper: paperScope(this.config.paperTrading?.enabled), marketId: p.marketId },
                                 { $set: updateData }
                             );
                         }
 
+                        const book = this.ledger?.getBook(p.tokenId);
+                        const hasBook = !!book && book.shares >= this.DUST_SHARES;
+                        const entryPrice = hasBook ? book!.avgPrice : (p.entryPrice || 0.5);
+                        const shares = p.balance || 0;
+                        const investedValue = shares * entryPrice;
+                        const unrealizedPnL = p.currentPrice ? shares * p.currentPrice - investedValue : p.unrealizedPnL;
+
                         enrichedPositions.push({
                             tradeId: realId, 
                             clobOrderId: realId,
                             marketId: p.marketId,
                             conditionId: p.conditionId, 
                             tokenId: p.tokenId,
-                            outcome: (p.outcome || 'YES').toUpperCase() as 'YES' | 'NO',
-                            entryPrice: p.entryPrice || 0.5,
-                            shares: p.balance || 0,
-                            sizeUsd: p.valueUsd,
-                            investedValue: p.investedValue,
-                            timestamp: Date.now(),
+                            outcome: p.outcome || previousByToken.get(p.tokenId)?.outcome || 'UNK',
+                            outcomeIndex: p.outcomeIndex ?? previousByToken.get(p.tokenId)?.outcomeIndex,
+                            negRisk: p.negRisk || previousByToken.get(p.tokenId)?.negRisk,
+                            entryPrice,
+                            shares,
+                            sizeUsd: hasBook ? investedValue : p.valueUsd,
+                            investedValue: hasBook ? investedValue : p.investedValue,
+                            timestamp: previousByToken.get(p.tokenId)?.timestamp || Date.now(),
                             currentPrice: p.currentPrice,
-                            unrealizedPnL: p.unrealizedPnL,
-                            unrealizedPnLPercent: p.unrealizedPnLPercent,
+                            unrealizedPnL,
+                            unrealizedPnLPercent: hasBook && unrealizedPnL !== undefined && investedValue > 0 ? (unrealizedPnL / investedValue) * 100 : p.unrealizedPnLPercent,
                             question: question,
                             image: image,
+                            endDate: p.endDate || previousByToken.get(p.tokenId)?.endDate,
                             marketSlug: marketSlug,
                             eventSlug: eventSlug,
                             marketState: 'ACTIVE',
                             marketAcceptingOrders: true,
                             marketActive: true,
                             marketClosed: false,
-                            marketArchived: false
+                            marketArchived: false,
+                            exitRules: previousByToken.get(p.tokenId)?.exitRules,
+                            highWaterMark: previousByToken.get(p.tokenId)?.highWaterMark,
+                            ladderBaseShares: previousByToken.get(p.tokenId)?.ladderBaseShares,
+                            ladderRungsHit: previousByToken.get(p.tokenId)?.ladderRungsHit,
+                            ladderSharesSold: previousByToken.get(p.tokenId)?.ladderSharesSold,
+                            realizedPnl: previousByToken.get(p.tokenId)?.realizedPnl
                         });
                         
                         await this.updateMarketState(enrichedPositions[enrichedPositions.length - 1]);
@@ -267,16 +381,94 @@ export class BotEngine {
                 }
             }
             
+            this.activePositions.forEach(p => updateHighWaterMark(p));
+
             if (this.callbacks?.onPositionsUpdate) {
                 await this.callbacks.onPositionsUpdate(this.activePositions);
             }
             
             await this.syncStats();
+            await this.checkExitRules();
 
         } catch (e: any) {
             this.addLog('warn', `Sync Positions Failed: ${e.message}`);
         }
     }
+
+    /**
+     * Runs stop-loss / trailing / time-based rules over every open position and liquidates the
+     * ones that fire. Otherwise sells the next take-profit rung the position has reached.
+     */
+    private async checkExitRules(): Promise<void> {
+        if (!this.executor || !this.isRunning) return;
+
+        for (const position of [...this.activePositions]) {
+            if (this.exitingPositions.has(position.tokenId)) continue;
+            if (position.marketState && position.marketState !== 'ACTIVE') continue;
+
+            const rules = resolveExitRules(this.config.exitRules, position.exitRules);
+            if (!hasActiveExitRules(rules)) continue;
+
+            const trigger = evaluateExitRules(position, rules);
+            if (!trigger) {
+                await this.runTakeProfitLadder(position, rules);
+                continue;
+            }
+
+            const exitReason = `Exit Rule: ${trigger.rule} (${trigger.detail})`;
+            this.exitingPositions.add(position.tokenId);
+            try {
+                await this.addLog('warn', `🛑 ${exitReason} -> closing ${position.outcome} on ${position.question || position.marketId}`);
+                await this.emergencySell(position.tradeId, undefined, exitReason);
+            } catch (e: any) {
+                await this.addLog('error', `Exit rule ${trigger.rule} failed for ${position.marketId}: ${e.message}`);
+            } finally {
+                this.exitingPositions.delete(position.tokenId);
+            }
+        }
+    }
+
+    private async runTakeProfitLadder(position: ActivePosition, rules: ExitRules) {
+        const step = evaluateTakeProfitLadder(position, rules.takeProfitLadder);
+        if (!step) return;
+
+        const exitReason = `Exit Rule: take_profit (${step.detail})`;
+        this.exitingPositions.add(position.tokenId);
+        try {
+            if (position.ladderBaseShares === undefined) position.ladderBaseShares = position.shares;
+            const held = position.shares;
+            if (step.shares > 0) {
+                await this.addLog('info', `🎯 ${exitReason} -> selling ${step.shares.toFixed(2)} ${position.outcome} on ${position.question || position.marketId}`);
+                await this.emergencySell(position.tradeId, undefined, exitReason, { shares: step.shares });
+            }
+            // A position synced meanwhile is a new object; a closed one is gone along with its shares
+            const current = this.activePositions.find(p => p.tokenId === position.tokenId);
+            const sold = held - (current?.shares ?? 0);
+            if (!recordTakeProfitSale(current || position, step, sold)) {
+                await this.addLog('warn', `Take-profit rung partly filled: sold ${sold.toFixed(2)} of ${step.shares.toFixed(2)}, retrying the rest on the next check`);
+            }
+            if (this.callbacks?.onPositionsUpdate) await this.callbacks.onPositionsUpdate(this.activePositions);
+        } catch (e: any) {
+            await this.addLog('error', `Take-profit rung failed for ${position.marketId}: ${e.message}`);
+        } finally {
+            this.exitingPositions.delete(position.tokenId);
+        }
+    }
+
+    public async setPositionExitRules(tradeIdOrMarketId: string, rules: ExitRules | null, outcome?: string): Promise<ActivePosition> {
+        const position = this.activePositions.find(p => p.tradeId === tradeIdOrMarketId)
+            || this.activePositions.find(p => p.marketId === tradeIdOrMarketId && (!outcome || sameOutcome(p.outcome, outcome)));
+        if (!position) throw new Error("Position not found in active database.");
+
+        position.exitRules = rules || undefined;
+        // A new ladder starts over from the current size
+        position.ladderBaseShares = undefined;
+        position.ladderRungsHit = undefined;
+        position.ladderSharesSold = undefined;
+        await this.addLog('info', `Exit rules for ${position.question || position.marketId}: ${rules ? JSON.stringify(rules) : 'bot defaults'}`);
+        if (this.callbacks?.onPositionsUpdate) await this.callbacks.onPositionsUpdate(this.activePositions);
+        return position;
+    }
     
     public async syncStats(): Promise<void> {
         if (!this.exchange) return;
@@ -295,6 +487,8 @@ export class BotEngine {
 
             this.stats.portfolioValue = cashBalance + positionValue;
             this.stats.cashBalance = cashBalance;
+
+            if (this.riskManager) await this.riskManager.evaluateBreakers();
             
             if (this.callbacks?.onStatsUpdate) {
                 await this.callbacks.onStatsUpdate(this.stats);
@@ -304,18 +498,25 @@ export class BotEngine {
         }
     }
 
-    public async emergencySell(tradeIdOrMarketId: string, outcome?: string): Promise<string> {
+    /**
+     * Market-exits a position, or part of it when `size` is given. A partial exit writes its own
+     * SELL trade with the PnL realized on the shares sold and leaves the rest open.
+     */
+    public async emergencySell(tradeIdOrMarketId: string, outcome?: string, exitReason = 'Manual Exit', size?: ExitSize): Promise<string> {
         if (!this.executor) throw new Error("Executor not initialized.");
         
         let positionIndex = this.activePositions.findIndex(p => p.tradeId === tradeIdOrMarketId);
         if (positionIndex === -1 && outcome) {
-             positionIndex = this.activePositions.findIndex(p => p.marketId === tradeIdOrMarketId && p.outcome === outcome);
+             positionIndex = this.activePositions.findIndex(p => p.marketId === tradeIdOrMarketId && sameOutcome(p.outcome, outcome));
         }
 
         if (positionIndex === -1) throw new Error("Position not found in active database.");
 
         const position = this.activePositions[positionIndex];
-        this.addLog('warn', `Executing Market Exit: Offloading ${position.shares} shares of ${position.outcome} (${position.question || position.marketId})...`);
+        const sharesToSell = size?.shares !== undefined ? Math.min(size.shares, position.shares)
+            : size?.percent !== undefined ? (position.shares * Math.min(100, size.percent)) / 100
+            : undefined;
+        this.addLog('warn', `Executing Market Exit: Offloading ${(sharesToSell ?? position.shares).toFixed(2)} of ${position.shares.toFixed(2)} shares of ${position.outcome} (${position.question || position.marketId})...`);
 
         try {
             let currentPrice = 0.5;
@@ -323,12 +524,23 @@ export class BotEngine {
                currentPrice = await this.exchange?.getMarketPrice(position.marketId, position.tokenId, 'SELL') || 0.5;
             } catch(e) {}
 
-            const success = await this.executor.executeManualExit(position, currentPrice);
+            const exit = await this.executor.executeManualExit(position, currentPrice, sharesToSell);
             
-            if (success) {
-                const exitValue = position.shares * currentPrice;
-                const costBasis = position.shares * position.entryPrice;
-                const realizedPnl = exitValue - costBasis;
+            if (exit.success) {
+                // Redemptions settle every outcome of the condition through the ledger
+                if (exit.redeemedUsd !== undefined) {
+                    const disposals = await this.recordRedemption(position.conditionId || position.marketId, exit.redeemedUsd, exitReason);
+                    const realized = disposals.reduce((sum, d) => sum + d.realizedPnl, 0);
+                    this.addLog('success', `Exit summary: Redeemed $${exit.redeemedUsd.toFixed(2)}. Realized PnL: $${realized.toFixed(2)}`);
+                    setTimeout(() => this.syncStats(), 2000);
+                    return "sold";
+                }
+
+                // Sells only close what actually matched
+                const sharesClosed = exit.sharesSold;
+                const exitValue = exit.sharesSold * exit.priceFilled;
+                const exitPrice = sharesClosed > 0 ? exitValue / sharesClosed : currentPrice;
+                const { realizedPnl, totalRealizedPnl, costBasis, closed } = await this.applySellToPosition(position, sharesClosed, exitValue);
 
                 if (this.callbacks?.onTradeComplete) {
                     await this.callbacks.onTradeComplete({
@@ -339,28 +551,27 @@ export class BotEngine {
                         side: 'SELL',
                         size: costBasis, 
                         executedSize: exitValue, 
-                        price: currentPrice,
+                        price: exitPrice,
                         pnl: realizedPnl,
-                        status: 'CLOSED',
-                        aiReasoning: 'Manual Exit',
+                        positionPnl: closed ? totalRealizedPnl : undefined,
+                        status: closed ? 'CLOSED' : 'FILLED',
+                        aiReasoning: exitReason,
+                        exitReason,
                         riskScore: 0,
-                        clobOrderId: position.clobOrderId,
+                        clobOrderId: exit.orderId || position.clobOrderId,
                         marketSlug: position.marketSlug,
                         eventSlug: position.eventSlug
                     });
                 }
 
-                if (position.tradeId && !position.tradeId.startsWith('imported')) {
-                    await Trade.findByIdAndUpdate(position.tradeId, {
-                        status: 'CLOSED',
-                        pnl: realizedPnl
-                    });
-                }
+                if (this.riskManager) await this.riskManager.recordRealizedPnl(realizedPnl);
+
+                if (closed) await this.closeTrades(position, totalRealizedPnl, exitReason);
 
-                this.activePositions.splice(positionIndex, 1);
+                if (closed) this.activePositions.splice(this.activePositions.indexOf(position), 1);
                 if (this.callbacks?.onPositionsUpdate) await this.callbacks.onPositionsUpdate(this.activePositions);
                 
-                this.addLog('success', `Exit summary: Liquidated ${position.shares.toFixed(2)} shares @ $${currentPrice.toFixed(3)}. Realized PnL: $${realizedPnl.toFixed(2)}`);
+                this.addLog('success', `Exit summary: Liquidated ${sharesClosed.toFixed(2)} shares @ $${exitPrice.toFixed(3)}. Realized PnL: $${realizedPnl.toFixed(2)}${closed ? '' : ` (${position.shares.toFixed(2)} shares remain)`}`);
                 
                 setTimeout(() => this.syncStats(), 2000);
                 
@@ -389,21 +600,41 @@ export class BotEngine {
                 success: (m: string) => { console.log(`${m}`); this.addLog('success', m); }
             };
 
-            this.exchange = new PolymarketAdapter({
-                rpcUrl: this.config.rpcUrl,
-                walletConfig: this.config.walletConfig!,
-                userId: this.config.userId,
-                l2ApiCredentials: this.config.l2ApiCredentials,
-                builderApiKey: this.config.builderApiKey,
-                builderApiSecret: this.config.builderApiSecret,
-                builderApiPassphrase: this.config.builderApiPassphrase,
-                mongoEncryptionKey: this.config.mongoEncryptionKey
-            }, engineLogger);
+            if (this.config.paperTrading?.enabled) {
+                // Simulated fills against the public orderbook. No keys, no on-chain calls.
+                this.exchange = new PaperExchangeAdapter({
+                    userId: this.config.userId,
+                    address: this.config.walletConfig?.address,
+                    startingBalance: this.config.paperTrading.startingBalance ?? 1000,
+                    bookProvider: fetchPublicOrderBook,
+                    marketProvider: fetchPublicMarket,
+                    persist: true
+                }, engineLogger);
+            } else {
+                this.exchange = new PolymarketAdapter({
+                    rpcUrl: this.config.rpcUrl,
+                    walletConfig: this.config.walletConfig!,
+                    userId: this.config.userId,
+                    l2ApiCredentials: this.config.l2ApiCredentials,
+                    builderApiKey: this.config.builderApiKey,
+                    builderApiSecret: this.config.builderApiSecret,
+                    builderApiPassphrase: this.config.builderApiPassphrase,
+                    mongoEncryptionKey: this.config.mongoEncryptionKey
+                }, engineLogger);
+            }
 
             await this.exchange.initialize();
 
+            // Cost basis for every position; paper sessions keep their own books
+            this.ledger = new PositionLedgerService({
+                userId: this.config.userId,
+                paper: !!this.config.paperTrading?.enabled,
+                logger: engineLogger
+            }, this.config.costBasisMethod);
+            await this.ledger.start();
+
             // Initialize the real-time arbitrage scanner instance (Actually Market Making)
-            this.arbScanner = new MarketMakingScanner(this.exchange, engineLogger);
+            this.arbScanner = new MarketMakingScanner(this.exchange, engineLogger, resolveMarketMakingProfile(this.config.mmConfig), resolveMarketRules(this.config.mmRules));
             
             // --- MARKET MAKING EVENT WIREUP ---
 
@@ -417,6 +648,26 @@ export class BotEngine {
                 this.stop(); // Stop the bot loop
             });
 
+            // 1b. Toxic flow on one market: widen or pull just that market's quotes
+            this.arbScanner.on('toxicity', async (state: MarketToxicity & { question?: string }) => {
+                const label = state.question ? state.question.slice(0, 40) : state.conditionId.slice(0, 10);
+                if (state.level === 'pull') {
+                    const cancelled = await this.executor?.cancelMarketQuotes(state.conditionId) || 0;
+                    await this.addLog('warn', `☣️ Toxic flow on ${label} (${state.reason}). Pulled ${cancelled} quote(s) until it cools down`);
+                } else if (state.level === 'widen') {
+                    await this.addLog('warn', `☣️ Toxic flow on ${label} (${state.reason}). Widening quotes`);
+                } else {
+                    await this.addLog('info', `✅ Flow normal again on ${label}. Quoting resumes`);
+                }
+            });
+
+            // 1c. Paper quotes rest in the simulated book; live quotes and prints are what fill them
+            if (this.exchange instanceof PaperExchangeAdapter) {
+                const paper = this.exchange;
+                this.arbScanner.on('topOfBook', ({ tokenId, bestBid, bestAsk }) => paper.recordTopOfBook(tokenId, bestBid, bestAsk));
+                this.arbScanner.on('lastTrade', ({ tokenId, price }) => paper.replayPrice(tokenId, price));
+            }
+
             // 2. Auto Merge: If we have equal YES and NO, free up USDCe
             this.arbScanner.on('mergeOpportunity', async ({ conditionId, amount }) => {
                 await this.addLog('info', `📦 Auto-Merging ${amount} pairs for ${conditionId}`);
@@ -425,6 +676,11 @@ export class BotEngine {
                     if (adapter) {
                         const tx = await adapter.mergePositions(conditionId, amount);
                         await this.addLog('success', `✅ Inventory Merged: ${tx}`);
+                        await this.mmPnl?.recordMerge(conditionId, amount)
+                            .catch(e => engineLogger.warn(`[MM PNL] Merge not recorded: ${e.message}`));
+                        for (const p of this.activePositions.filter(p => p.conditionId === conditionId)) await this.ensureBook(p);
+                        const disposals = await this.ledger?.recordMerge(conditionId, amount) || [];
+                        await this.settleDisposals(disposals, 'Merged complete sets');
                     } else {
                         throw new Error('Adapter not available');
                     }
@@ -441,7 +697,12 @@ export class BotEngine {
                 const winner = this.activePositions.find(p => p.conditionId === conditionId);
                 if (winner) {
                     await this.addLog('info', `🏆 Winning shares detected. Redeeming...`);
-                    await this.exchange?.redeemPosition(conditionId, winner.tokenId);
+                    const redeemed = await this.exchange?.redeemPosition(conditionId, winner.tokenId);
+                    if (redeemed?.success) {
+                        await this.mmPnl?.recordRedemption(conditionId, winner.tokenId, winner.shares, redeemed.amountUsd || 0)
+                            .catch(e => engineLogger.warn(`[MM PNL] Redemption not recorded: ${e.message}`));
+                        await this.recordRedemption(conditionId, redeemed.amountUsd || 0, 'Market Resolved - Redemption');
+                    }
                 }
             });
 
@@ -491,11 +752,24 @@ export class BotEngine {
         this.isRunning = false;
         this.arbScanner?.stop();
         if (this.monitor) this.monitor.stop();
+        this.aggregator?.stop();
+        this.orderStore?.stop();
+        this.rewards?.stop();
+        this.mmPnl?.stop();
+        if (this.userChannel) {
+            this.userChannel.stop();
+            this.userChannel.removeAllListeners();
+            this.userChannel = undefined;
+        }
         if (this.portfolioService) this.portfolioService.stopSnapshotService();
         if (this.fundWatcher) {
             clearInterval(this.fundWatcher);
             this.fundWatcher = undefined;
         }
+        if (this.exitRuleWatcher) {
+            clearInterval(this.exitRuleWatcher);
+            this.exitRuleWatcher = undefined;
+        }
         this.addLog('warn', 'Engine Stopped.').catch(console.error);
     }
 
@@ -504,6 +778,15 @@ export class BotEngine {
      */
     private async executeMarketMaking(opp: MarketOpportunity) {
         if (!this.executor || !this.exchange) return;
+
+        const rejection = this.arbScanner?.getRuleRejection(opp.tokenId);
+        if (rejection) {
+            await this.addLog('warn', `🚫 MM skipped ${opp.question.slice(0, 30)}...: ${rejection.replace(/_/g, ' ')}`);
+            return;
+        }
+        const maxMarkets = this.config.mmRules?.maxActiveMarkets || 0;
+        const quoted = this.executor.getQuotedMarkets();
+        if (maxMarkets > 0 && !quoted.has(opp.conditionId) && quoted.size >= maxMarkets) return;
         
         const result = await this.executor.executeMarketMakingQuotes(opp);
         
@@ -550,6 +833,10 @@ export class BotEngine {
                         roi: 1.0,
                         combinedCost: 1.0,
                         capacityUsd: tracked.liquidity,
+                        rewardsMaxSpread: tracked.rewardsMaxSpread,
+                        rewardsMinSize: tracked.rewardsMinSize,
+                        rewardsDailyRate: tracked.rewardsDailyRate,
+                        endDate: tracked.endDate,
                         status: tracked.status,
                         acceptingOrders: tracked.acceptingOrders
                     };
@@ -619,7 +906,8 @@ export class BotEngine {
                         positions: this.activePositions,
                         totalPnL: this.stats.totalPnl || 0
                     };
-                }
+                },
+                !!this.config.paperTrading?.enabled
             );
             
             await this.startServices(engineLogger);
@@ -630,6 +918,12 @@ export class BotEngine {
 
             await this.syncPositions(true); 
             await this.syncStats();
+            if (this.riskManager) await this.riskManager.initialize();
+
+            // Refresh prices (and run exit rules) even when no trades are flowing
+            this.exitRuleWatcher = setInterval(() => {
+                this.syncPositions(false).catch(console.error);
+            }, this.POSITION_SYNC_INTERVAL);
         } catch (e: any) {
             console.error(e);
             await this.addLog('error', `Setup Failed: ${e.message}`);
@@ -644,6 +938,8 @@ export class BotEngine {
             tradeMultiplier: this.config.multiplier,
             maxTradeAmount: this.config.maxTradeAmount || 100, 
             minLiquidityFilter: this.config.minLiquidityFilter || 'LOW', 
+            sizingStrategy: this.config.sizingStrategy,
+            targets: this.config.targets,
             usdcContractAddress: TOKENS.USDC_BRIDGED,
             adminRevenueWallet: process.env.ADMIN_REVENUE_WALLET,
             enableNotifications: this.config.enableNotifications,
@@ -652,16 +948,101 @@ export class BotEngine {
             twilioAuthToken: process.env.TWILIO_AUTH_TOKEN,
             twilioFromNumber: process.env.TWILIO_FROM_NUMBER
         };
+        applyAggregationConfig(this.runtimeEnv, this.config.aggregation);
         
         const funder = this.exchange.getFunderAddress();
         if (!funder) throw new Error("Missing funder address.");
 
+        this.riskManager = new RiskManagerService({
+            userId: this.config.userId,
+            paper: !!this.config.paperTrading?.enabled,
+            logger,
+            getPositions: () => this.activePositions,
+            getPortfolioValue: () => this.stats.portfolioValue || 0,
+            onStateChange: async (state) => {
+                this.config.riskState = state;
+                if (this.callbacks?.onRiskStateUpdate) await this.callbacks.onRiskStateUpdate(state);
+            }
+        }, this.config.riskLimits, this.config.riskState);
+
+        // Market-making PnL ledger: quote fills, merges, redemptions and inventory marks per market
+        this.mmPnl = new MarketMakingPnlService({
+            userId: this.config.userId,
+            paper: !!this.config.paperTrading?.enabled,
+            logger,
+            getMidpoint: (tokenId) => {
+                const tracked = this.arbScanner?.getTrackedMarket(tokenId);
+                return tracked && tracked.bestBid > 0 && tracked.bestAsk > 0 ? (tracked.bestBid + tracked.bestAsk) / 2 : undefined;
+            },
+            getQuestion: (tokenId) => this.arbScanner?.getTrackedMarket(tokenId)?.question
+        });
+        await this.mmPnl.start();
+
+        // Latency and slippage of every copy attempt, aggregated per followed wallet
+        this.copyQuality = new CopyQualityService({ userId: this.config.userId, paper: !!this.config.paperTrading?.enabled, logger });
+
+        this.orderStore = new OrderStoreService({
+            userId: this.config.userId,
+            adapter: this.exchange,
+            logger,
+            paper: !!this.config.paperTrading?.enabled,
+            onFill: async (order, fill) => {
+                await this.applyOrderFill(order, fill);
+                await this.mmPnl?.recordFill(order, fill).catch(e => logger.warn(`[MM PNL] Fill not recorded: ${e.message}`));
+                if (order.source === 'MM_QUOTE') this.arbScanner?.recordQuoteFill(order.tokenId, order.side, fill.price, fill.size);
+            }
+        });
+        await this.orderStore.start();
+
         this.executor = new TradeExecutorService({
             adapter: this.exchange,
             proxyWallet: funder,
             env: this.runtimeEnv, 
-            logger: logger
+            logger: logger,
+            riskCheck: (signal, sizeUsd) => this.riskManager!.checkExposure(signal, sizeUsd),
+            orderStore: this.orderStore,
+            getMidpointHistory: (tokenId) => this.arbScanner?.getMidpointHistory(tokenId) || [],
+            getToxicity: (conditionId) => this.arbScanner?.getToxicity(conditionId)
+        }, resolveMarketMakingProfile(this.config.mmConfig));
+
+        // Authenticated user channel: streamed fills/cancels for our orders (paper fills are local)
+        const apiCredentials = this.exchange instanceof PolymarketAdapter ? this.exchange.getApiCredentials() : undefined;
+        if (apiCredentials) {
+            this.userChannel = new UserChannelService(apiCredentials, logger);
+            this.executor.attachUserChannel(this.userChannel);
+            this.userChannel.on('order', (event: UserOrderEvent) => {
+                this.orderStore?.sync({
+                    orderId: event.orderId,
+                    status: event.type === 'cancelled' ? 'CANCELLED' : event.type === 'filled' ? 'MATCHED' : 'LIVE',
+                    originalSize: event.originalSize,
+                    sizeMatched: event.sizeMatched,
+                    price: event.price,
+                    tradeIds: event.tradeId ? [event.tradeId] : []
+                }).catch(e => logger.warn(`[ORDERS] Stream update failed: ${e.message}`));
+            });
+            this.userChannel.start();
+        }
+
+        // Liquidity rewards: score our resting quotes each minute, compare with what the exchange pays
+        this.rewards = new LiquidityRewardsService({
+            userId: this.config.userId,
+            paper: !!this.config.paperTrading?.enabled,
+            adapter: this.exchange,
+            logger,
+            getQuotes: () => this.executor?.getActiveQuotes() || [],
+            getMarket: (tokenId) => {
+                const tracked = this.arbScanner?.getTrackedMarket(tokenId);
+                if (!tracked || !(tracked.bestBid > 0) || !(tracked.bestAsk > 0)) return undefined;
+                return {
+                    midpoint: (tracked.bestBid + tracked.bestAsk) / 2,
+                    rewardsMaxSpread: tracked.rewardsMaxSpread,
+                    rewardsMinSize: tracked.rewardsMinSize,
+                    rewardsDailyRate: tracked.rewardsDailyRate,
+                    liquidity: tracked.liquidity
+                };
+            }
         });
+        this.rewards.start();
 
         this.stats.allowanceApproved = true; 
 
@@ -677,37 +1058,44 @@ export class BotEngine {
             new NotificationService(this.runtimeEnv, logger)
         );
 
-        let feeDistributor: FeeDistributorService | undefined;
         try {
              const walletService = new EvmWalletService(this.config.rpcUrl, this.config.mongoEncryptionKey);
-             if (this.config.walletConfig?.encryptedPrivateKey) {
+             // Paper sessions never pay real fees
+             if (this.config.walletConfig?.encryptedPrivateKey && !this.config.paperTrading?.enabled) {
                  const wallet = await walletService.getWalletInstance(this.config.walletConfig.encryptedPrivateKey);
-                 feeDistributor = new FeeDistributorService(wallet, this.runtimeEnv, logger, this.registryService);
+                 this.feeDistributor = new FeeDistributorService(wallet, this.runtimeEnv, logger, this.registryService);
              }
         } catch(e) { logger.warn("Fee Distributor init failed"); }
 
         const notifier = new NotificationService(this.runtimeEnv, logger);
 
-        this.monitor = new TradeMonitorService({
-            adapter: this.exchange,
+        // Bursts of fills are merged here (when enabled) before anything is copied
+        this.aggregator = new TradeAggregatorService({
             env: this.runtimeEnv,
             logger: logger,
-            userAddresses: this.config.userAddresses,
-            onDetectedTrade: async (signal: TradeSignal) => {
+            onFlush: async (signal: TradeSignal) => {
                 if (!this.isRunning) return;
 
                 // --- MM EXCLUSION ZONE ---
                 const isManagedByMM = this.arbScanner?.getOpportunities().some(o => o.tokenId === signal.tokenId);
                 if (isManagedByMM && this.config.enableAutoArb) {
                     this.addLog('info', `🛡️ Signal Skipped: Market ${signal.marketId.slice(0,8)} is managed by MM Strategy.`);
+                    await this.copyQuality?.record(signal, 'SKIPPED', 'managed_by_mm');
                     return;
                 }
 
                 if (signal.side === 'SELL') {
-                    const hasPosition = this.activePositions.some(p => 
-                        p.marketId === signal.marketId && p.outcome === signal.outcome
-                    );
-                    if (!hasPosition) return; 
+                    if (this.findPositionIndexForSignal(signal) === -1) return;
+                }
+
+                // Paused targets are only watched for exits
+                if (signal.side === 'BUY' && findTarget(this.config.targets, signal.trader)?.paused) return;
+
+                // Circuit breaker only blocks new exposure; exits keep mirroring the trader
+                if (signal.side === 'BUY' && this.riskManager?.isPaused()) {
+                    await this.recordRiskSkip(signal, `Copying paused by circuit breaker: ${this.riskManager.getPauseReason()}`);
+                    await this.copyQuality?.record(signal, 'SKIPPED', 'circuit_breaker');
+                    return;
                 }
 
                 const aiResult = await aiAgent.analyzeTrade(
@@ -721,6 +1109,7 @@ export class BotEngine {
 
                 if (!aiResult.shouldCopy) {
                     await this.addLog('info', `AI Skipped: ${aiResult.reasoning} (Score: ${aiResult.riskScore})`);
+                    await this.copyQuality?.record(signal, 'SKIPPED', 'ai_rejected');
                     if (this.callbacks?.onTradeComplete) {
                         await this.callbacks.onTradeComplete({
                             id: crypto.randomUUID(),
@@ -742,7 +1131,14 @@ export class BotEngine {
                 await this.addLog('info', `AI Approved: ${aiResult.reasoning}. Executing...`);
 
                 if (this.executor) {
+                    const startedAt = Date.now();
                     const result: ExecutionResult = await this.executor.copyTrade(signal);
+                    await this.copyQuality?.record(
+                        signal,
+                        result.status === 'FILLED' ? 'FILLED' : result.status === 'FAILED' ? 'FAILED' : 'SKIPPED',
+                        result.status === 'FILLED' ? undefined : result.reason || result.status.toLowerCase(),
+                        { ...result, startedAt }
+                    );
                     
                     if (result.status === 'FILLED') {
                         await this.addLog('success', `Trade Executed! Size: $${result.executedAmount.toFixed(2)}`);
@@ -763,22 +1159,7 @@ export class BotEngine {
                             
                             let eventSlug = "";
                             try {
-                                const gammaUrl = `https://gamma-api.polymarket.com/markets?condition_id=${signal.marketId}`;
-                                const controller = new AbortController();
-                                const timeoutId = setTimeout(() => controller.abort(), 5000);
-                                
-                                const gammaResponse = await fetch(gammaUrl, { 
-                                    signal: controller.signal,
-                                    headers: { 'Accept': 'application/json' }
-                                });
-                                clearTimeout(timeoutId);
-                                
-                                if (gammaResponse.ok) {
-                                    const gammaData = await gammaResponse.json();
-                                    if (gammaData && gammaData.length > 0 && gammaData[0].events && gammaData[0].events.length > 0) {
-                                        eventSlug = gammaData[0].events[0]?.slug || "";
-                                    }
-                                }
+                                eventSlug = await getGammaClient().getEventSlug(signal.marketId) || "";
                             } catch (gammaError) {}
 
                             const newTrade: TradeHistoryEntry = {
@@ -786,6 +1167,7 @@ export class BotEngine {
                                 timestamp: new Date().toISOString(),
                                 marketId: signal.marketId,
                                 outcome: signal.outcome,
+                                outcomeIndex: signal.outcomeIndex,
                                 side: 'BUY',
                                 size: signal.sizeUsd,
                                 executedSize: result.executedAmount,
@@ -793,23 +1175,49 @@ export class BotEngine {
                                 pnl: 0,
                                 status: 'OPEN',
                                 txHash: result.txHash,
-                                clobOrderId: result.txHash, 
+                                clobOrderId: result.orderId, 
                                 assetId: signal.tokenId,
                                 aiReasoning: aiResult.reasoning,
                                 riskScore: aiResult.riskScore,
+                                sizingReason: result.reason,
                                 marketSlug: marketSlug,
                                 eventSlug: eventSlug
                             };
 
                             if (this.callbacks?.onTradeComplete) await this.callbacks.onTradeComplete(newTrade);
 
-                            this.activePositions.push({
+                            // Another buy of a held outcome is a new lot on the same position
+                            const held = this.activePositions.find(p => p.tokenId === signal.tokenId);
+                            if (held) await this.ensureBook(held);
+                            const book = await this.ledger?.recordBuy({
+                                tokenId: signal.tokenId,
+                                conditionId: signal.marketId,
+                                outcome: signal.outcome,
+                                shares: result.executedShares,
+                                price: result.priceFilled || signal.price,
+                                source: 'COPY',
+                                orderId: result.orderId
+                            });
+
+                            if (held) {
+                                if (book) {
+                                    this.applyBook(held, book);
+                                } else {
+                                    const shares = held.shares + result.executedShares;
+                                    held.entryPrice = (held.shares * held.entryPrice + result.executedAmount) / shares;
+                                    held.shares = shares;
+                                    held.sizeUsd = shares * held.entryPrice;
+                                    held.investedValue = held.sizeUsd;
+                                }
+                            } else this.activePositions.push({
                                 tradeId: tradeId, 
-                                clobOrderId: result.txHash,
+                                clobOrderId: result.orderId,
                                 marketId: signal.marketId,
                                 conditionId: signal.marketId, 
                                 tokenId: signal.tokenId,
                                 outcome: signal.outcome,
+                                outcomeIndex: signal.outcomeIndex,
+                                negRisk: marketData?.neg_risk === true,
                                 entryPrice: result.priceFilled || signal.price,
                                 shares: result.executedShares, 
                                 sizeUsd: result.executedAmount,
@@ -827,41 +1235,58 @@ export class BotEngine {
                                 marketArchived: false
                             });
                         } else if (signal.side === 'SELL') {
-                            const idx = this.activePositions.findIndex(p => p.marketId === signal.marketId && p.outcome === signal.outcome);
+                            const idx = this.findPositionIndexForSignal(signal);
                             if (idx !== -1) {
                                 const closingPos = this.activePositions[idx];
                                 const exitValue = result.executedAmount;
-                                const realizedPnl = exitValue - (closingPos.shares * closingPos.entryPrice);
+                                // The trader may only be trimming; keep whatever did not match (or was not mirrored)
+                                const { realizedPnl, totalRealizedPnl, costBasis, closed } = await this.applySellToPosition(closingPos, result.executedShares, exitValue);
+                                const sellId = crypto.randomUUID();
 
-                                await Trade.findByIdAndUpdate(closingPos.tradeId, { status: 'CLOSED', pnl: realizedPnl });
+                                if (closed) await this.closeTrades(closingPos, totalRealizedPnl);
+                                else await this.addLog('info', `Partial exit mirrored: sold ${result.executedShares.toFixed(2)} shares, ${closingPos.shares.toFixed(2)} remain open`);
+                                if (this.riskManager) await this.riskManager.recordRealizedPnl(realizedPnl);
                                 
                                 if (this.callbacks?.onTradeComplete) {
                                     await this.callbacks.onTradeComplete({
-                                        id: crypto.randomUUID(),
+                                        id: sellId,
                                         timestamp: new Date().toISOString(),
                                         marketId: closingPos.marketId,
                                         outcome: closingPos.outcome,
                                         side: 'SELL',
-                                        size: closingPos.shares * closingPos.entryPrice,
+                                        size: costBasis,
                                         executedSize: exitValue,
                                         price: result.priceFilled || signal.price,
                                         pnl: realizedPnl,
-                                        status: 'CLOSED',
+                                        positionPnl: closed ? totalRealizedPnl : undefined,
+                                        status: closed ? 'CLOSED' : 'FILLED',
                                         aiReasoning: aiResult.reasoning,
                                         riskScore: aiResult.riskScore,
-                                        clobOrderId: closingPos.clobOrderId,
+                                        sizingReason: result.reason,
+                                        clobOrderId: result.orderId || closingPos.clobOrderId,
                                         marketSlug: closingPos.marketSlug,
                                         eventSlug: closingPos.eventSlug
                                     });
                                 }
 
-                                this.activePositions.splice(idx, 1);
+                                // Finder and platform fees come out of profit realized against the ledger lots
+                                if (realizedPnl > 0 && this.feeDistributor) {
+                                    const fee = await this.feeDistributor.distributeFeesOnProfit(sellId, realizedPnl, signal.trader);
+                                    if (fee) {
+                                        this.stats.totalFeesPaid += fee.listerFee + fee.platformFee;
+                                        if (this.callbacks?.onFeePaid) await this.callbacks.onFeePaid(fee);
+                                    }
+                                }
+
+                                if (closed) this.activePositions.splice(this.activePositions.indexOf(closingPos), 1);
                             }
                         }
 
                         if (this.callbacks?.onPositionsUpdate) await this.callbacks.onPositionsUpdate(this.activePositions);
                         await notifier.sendTradeAlert(signal);
                         setTimeout(() => this.syncStats(), 2000);
+                    } else if (result.status === 'SKIPPED' && result.reason?.startsWith('risk_')) {
+                        await this.recordRiskSkip(signal, `Risk limit: ${result.reason}`);
                     } else {
                         await this.addLog('warn', `Execution Failed: ${result.reason || result.status}`);
                     }
@@ -869,6 +1294,15 @@ export class BotEngine {
             }
         });
 
+        this.monitor = new TradeMonitorService({
+            adapter: this.exchange,
+            env: this.runtimeEnv,
+            logger: logger,
+            userAddresses: this.config.userAddresses,
+            targets: this.config.targets,
+            onDetectedTrade: (signal: TradeSignal) => this.aggregator!.push(signal)
+        });
+
         await this.monitor.start(this.config.startCursor || Math.floor(Date.now() / 1000));
         await this.addLog('success', `Engine Active. Monitoring ${this.config.userAddresses.length} targets.`);
     }
@@ -877,6 +1311,255 @@ export class BotEngine {
         return this.activePositions;
     }
 
+    public async getRewardsSummary(days?: number): Promise<RewardsSummary | null> {
+        return this.rewards ? this.rewards.getSummary(days) : null;
+    }
+
+    public async getMarketMakingPnl(days?: number): Promise<MarketMakingPnlSummary | null> {
+        return this.mmPnl ? this.mmPnl.getSummary(days) : null;
+    }
+
+    public getRiskStatus(): RiskStatus | null {
+        return this.riskManager?.getStatus() || null;
+    }
+
+    public async resetRiskBreaker(): Promise<RiskStatus | null> {
+        if (!this.riskManager) return null;
+        await this.riskManager.reset();
+        await this.addLog('info', 'Risk circuit breaker reset. Copy trading resumed.');
+        return this.riskManager.getStatus();
+    }
+
+    /**
+     * Matches a copied SELL to our position by token, so sibling outcomes of a
+     * multi-outcome event never close each other.
+     */
+    private findPositionIndexForSignal(signal: TradeSignal): number {
+        const byToken = this.activePositions.findIndex(p => p.tokenId === signal.tokenId);
+        if (byToken !== -1) return byToken;
+        return this.activePositions.findIndex(p =>
+            !p.tokenId && p.marketId === signal.marketId && sameOutcome(p.outcome, signal.outcome)
+        );
+    }
+
+    /**
+     * Reduces a position by a SELL fill. Cost basis comes from the ledger lots (FIFO or average
+     * cost); the realized part accumulates on the position until it drops below dust and closes.
+     */
+    private async applySellToPosition(position: ActivePosition, sharesSold: number, proceedsUsd: number): Promise<{ realizedPnl: number; totalRealizedPnl: number; costBasis: number; closed: boolean }> {
+        await this.ensureBook(position);
+        const disposal = this.ledger && position.tokenId ? await this.ledger.recordSell(position.tokenId, sharesSold, proceedsUsd) : null;
+
+        let realizedPnl: number;
+        let costBasis: number;
+        let closed: boolean;
+        if (disposal) {
+            realizedPnl = disposal.realizedPnl;
+            costBasis = disposal.costUsd;
+            closed = disposal.closed;
+            this.applyBook(position, this.ledger!.getBook(position.tokenId)!);
+        } else {
+            const sold = Math.min(sharesSold, position.shares);
+            costBasis = sold * position.entryPrice;
+            realizedPnl = proceedsUsd - costBasis;
+            position.shares = Math.max(0, position.shares - sold);
+            position.sizeUsd = position.shares * position.entryPrice;
+            position.investedValue = position.sizeUsd;
+            closed = position.shares < this.DUST_SHARES;
+        }
+
+        const totalRealizedPnl = (position.realizedPnl || 0) + realizedPnl;
+        position.realizedPnl = totalRealizedPnl;
+        this.stats.totalPnl += realizedPnl;
+        return { realizedPnl, totalRealizedPnl, costBasis, closed };
+    }
+
+    /**
+     * Mirrors a ledger book onto the position the UI and exit rules read.
+     */
+    private applyBook(position: ActivePosition, book: PositionBook) {
+        position.shares = book.shares;
+        position.entryPrice = book.avgPrice || position.entryPrice;
+        position.sizeUsd = book.costUsd;
+        position.investedValue = book.costUsd;
+        if (position.currentPrice) {
+            position.unrealizedPnL = book.shares * position.currentPrice - book.costUsd;
+            position.unrealizedPnLPercent = book.costUsd > 0 ? (position.unrealizedPnL / book.costUsd) * 100 : 0;
+        }
+    }
+
+    /**
+     * Positions opened before the ledger existed get a single lot at their recorded entry.
+     */
+    private async ensureBook(position: ActivePosition) {
+        if (!this.ledger || !position.tokenId || position.shares < this.DUST_SHARES) return;
+        if ((this.ledger.getBook(position.tokenId)?.shares || 0) > 0) return;
+        await this.ledger.recordBuy({
+            tokenId: position.tokenId,
+            conditionId: position.conditionId || position.marketId,
+            outcome: position.outcome,
+            shares: position.shares,
+            price: position.entryPrice,
+            source: 'IMPORTED',
+            at: position.timestamp
+        });
+    }
+
+    /**
+     * A redeemed condition: every held outcome closes against the ledger, the winning side at
+     * its $1 and the losing side at $0 (marked by current price). Returns the disposals.
+     */
+    public async recordRedemption(conditionId: string, proceedsUsd: number, exitReason = 'Market Resolved - Redemption'): Promise<LotDisposal[]> {
+        if (!this.ledger) return [];
+        const positions = this.activePositions.filter(p => (p.conditionId || p.marketId) === conditionId);
+        for (const p of positions) await this.ensureBook(p);
+        const marks = Object.fromEntries(positions.filter(p => p.currentPrice !== undefined).map(p => [p.tokenId, p.currentPrice!]));
+        const disposals = await this.ledger.recordRedemption(conditionId, proceedsUsd, marks);
+        await this.settleDisposals(disposals, exitReason);
+        return disposals;
+    }
+
+    /**
+     * Applies ledger disposals that did not come from an order (redemptions, merges) to the
+     * matching positions, trade history and risk state.
+     */
+    private async settleDisposals(disposals: LotDisposal[], exitReason: string) {
+        if (disposals.length === 0) return;
+        for (const d of disposals) {
+            this.stats.totalPnl += d.realizedPnl;
+            if (this.riskManager) await this.riskManager.recordRealizedPnl(d.realizedPnl);
+
+            const position = this.activePositions.find(p => p.tokenId === d.tokenId);
+            if (!position) continue;
+            const totalRealizedPnl = (position.realizedPnl || 0) + d.realizedPnl;
+            position.realizedPnl = totalRealizedPnl;
+            const book = this.ledger?.getBook(d.tokenId);
+            if (book) this.applyBook(position, book);
+
+            if (this.callbacks?.onTradeComplete) {
+                await this.callbacks.onTradeComplete({
+                    id: crypto.randomUUID(),
+                    timestamp: new Date().toISOString(),
+                    marketId: position.marketId,
+                    outcome: position.outcome,
+                    side: 'SELL',
+                    size: d.costUsd,
+                    executedSize: d.proceedsUsd,
+                    price: d.shares > 0 ? d.proceedsUsd / d.shares : 0,
+                    pnl: d.realizedPnl,
+                    positionPnl: d.closed ? totalRealizedPnl : undefined,
+                    status: d.closed ? 'CLOSED' : 'FILLED',
+                    aiReasoning: exitReason,
+                    exitReason,
+                    riskScore: 0,
+                    assetId: position.tokenId,
+                    marketSlug: position.marketSlug,
+                    eventSlug: position.eventSlug
+                });
+            }
+
+            if (d.closed) {
+                await this.closeTrades(position, totalRealizedPnl, exitReason);
+                this.activePositions.splice(this.activePositions.indexOf(position), 1);
+            }
+        }
+        if (this.callbacks?.onPositionsUpdate) await this.callbacks.onPositionsUpdate(this.activePositions);
+    }
+
+    /**
+     * Closes the OPEN buy trades behind a position; with several lots there is one per buy.
+     */
+    private async closeTrades(position: ActivePosition, pnl: number, exitReason?: string) {
+        if (position.tradeId && !position.tradeId.startsWith('imported')) {
+            await Trade.findByIdAndUpdate(position.tradeId, { status: 'CLOSED', pnl, ...(exitReason ? { exitReason } : {}) });
+        }
+        if (position.tokenId) {
+            await Trade.updateMany(
+                { userId: this.config.userId, paper: paperScope(this.config.paperTrading?.enabled), assetId: position.tokenId, side: 'BUY', status: 'OPEN' },
+                { status: 'CLOSED', ...(exitReason ? { exitReason } : {}) }
+            );
+        }
+    }
+
+    /**
+     * Fills reported after placement (resting maker quotes). Placement fills are applied by
+     * the copy/exit flows themselves from the recorded order.
+     */
+    private async applyOrderFill(order: OrderRecord, fill: OrderFill) {
+        const idx = this.activePositions.findIndex(p => p.tokenId === order.tokenId);
+
+        if (order.side === 'BUY') {
+            if (idx !== -1) await this.ensureBook(this.activePositions[idx]);
+            const source: LotSource = order.source === 'MM_QUOTE' ? 'MM_QUOTE' : 'COPY';
+            const book = await this.ledger?.recordBuy({
+                tokenId: order.tokenId,
+                conditionId: order.marketId,
+                outcome: order.outcome,
+                shares: fill.size,
+                price: fill.price,
+                source,
+                orderId: order.clobOrderId,
+                at: fill.timestamp
+            });
+
+            if (idx === -1) {
+                this.activePositions.push({
+                    tradeId: order.clobOrderId,
+                    clobOrderId: order.clobOrderId,
+                    marketId: order.marketId,
+                    conditionId: order.marketId,
+                    tokenId: order.tokenId,
+                    outcome: order.outcome,
+                    entryPrice: fill.price,
+                    shares: fill.size,
+                    sizeUsd: fill.size * fill.price,
+                    investedValue: fill.size * fill.price,
+                    timestamp: fill.timestamp,
+                    currentPrice: fill.price,
+                    marketState: 'ACTIVE',
+                    marketAcceptingOrders: true,
+                    marketActive: true,
+                    marketClosed: false,
+                    marketArchived: false
+                });
+            } else if (book) {
+                this.applyBook(this.activePositions[idx], book);
+            } else {
+                const position = this.activePositions[idx];
+                const shares = position.shares + fill.size;
+                position.entryPrice = (position.shares * position.entryPrice + fill.size * fill.price) / shares;
+                position.shares = shares;
+                position.sizeUsd = shares * position.entryPrice;
+                position.investedValue = position.sizeUsd;
+            }
+        } else if (idx !== -1) {
+            const position = this.activePositions[idx];
+            const { realizedPnl, closed } = await this.applySellToPosition(position, fill.size, fill.size * fill.price);
+            if (this.riskManager) await this.riskManager.recordRealizedPnl(realizedPnl);
+            if (closed) this.activePositions.splice(this.activePositions.indexOf(position), 1);
+        }
+
+        if (this.callbacks?.onPositionsUpdate) await this.callbacks.onPositionsUpdate(this.activePositions);
+    }
+
+    private async recordRiskSkip(signal: TradeSignal, reason: string) {
+        await this.addLog('warn', `🛡️ Signal Skipped: ${reason}`);
+        if (this.callbacks?.onTradeComplete) {
+            await this.callbacks.onTradeComplete({
+                id: crypto.randomUUID(),
+                timestamp: new Date().toISOString(),
+                marketId: signal.marketId,
+                outcome: signal.outcome,
+                side: signal.side,
+                size: signal.sizeUsd,
+                executedSize: 0,
+                price: signal.price,
+                status: 'SKIPPED',
+                aiReasoning: reason
+            });
+        }
+    }
+
     public getArbOpportunities(): ArbitrageOpportunity[] { 
         return this.arbScanner?.getOpportunities() || []; 
     }
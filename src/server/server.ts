@@ -8,11 +8,25 @@ import mongoose from 'mongoose';
 import { ethers, JsonRpcProvider } from 'ethers';
 import { BotEngine, BotConfig } from './bot-engine.js';
 import { TradingWalletConfig } from '../domain/wallet.types.js';
-import { connectDB, User, Registry, Trade, Feedback, BridgeTransaction, BotLog, DepositLog, HunterEarning, MoneyMarketOpportunity, ITrade } from '../database/index.js';
+import { connectDB, User, Registry, Trade, Feedback, BridgeTransaction, BotLog, DepositLog, HunterEarning, MoneyMarketOpportunity, ITrade, paperScope } from '../database/index.js';
 import { PortfolioSnapshotModel } from '../database/portfolio.schema.js';
 import { loadEnv, TOKENS } from '../config/env.js';
+import { mergeTargets, TargetWalletConfig } from '../config/copy-targets.js';
+import { normalizeExitRules } from '../config/exit-rules.js';
+import { normalizeRiskLimits } from '../services/risk-manager.service.js';
+import { normalizeAggregationConfig } from '../services/trade-aggregator.service.js';
+import { normalizeCostBasisMethod } from '../services/position-ledger.service.js';
+import { getRewardsHistory } from '../services/liquidity-rewards.service.js';
+import { getMarketMakingPnl } from '../services/market-making-pnl.service.js';
+import { DEFAULT_MM_PROFILE, MarketMakingProfileError, resolveMarketMakingProfile, validateMarketMakingProfile } from '../config/market-making.js';
+import { compileMarketRules, MarketRulesError, resolveMarketRules, validateMarketRules } from '../config/market-rules.js';
+import { WithdrawalPolicyService, WithdrawalPolicyError, normalizeWithdrawalLimits, normalizeWithdrawalToken } from '../services/withdrawal-policy.service.js';
 import { DbRegistryService } from '../services/db-registry.service.js';
-import { registryAnalytics } from '../services/registry-analytics.service.js';
+import { EventStreamService } from '../services/event-stream.service.js';
+import { AuthService } from '../services/auth.service.js';
+import { createAuthMiddleware, bearerToken } from './auth.middleware.js';
+import { registryAnalytics, SCORE_HISTORY_DAYS } from '../services/registry-analytics.service.js';
+import { getCopyQualitySummary } from '../services/copy-quality.service.js';
 import { EvmWalletService } from '../services/evm-wallet.service.js';
 import { SafeManagerService } from '../services/safe-manager.service.js';
 import { BuilderVolumeData } from '../domain/alpha.types.js';
@@ -21,8 +35,8 @@ import { ArbitrageOpportunity } from '../adapters/interfaces.js';
 import { ActivePosition } from '../domain/trade.types.js';
 import axios from 'axios';
 import { Logger } from '../utils/logger.util.js';
+import { sameOutcome } from '../utils/outcome.util.js';
 import fs from 'fs';
-import crypto from 'crypto';
 
 // ESM compatibility
 const __filename = fileURLToPath(import.meta.url);
@@ -48,6 +62,14 @@ const serverLogger: Logger = {
     success: (msg) => console.log(`[SERVER SUCCESS] ${msg}`)
 };
 
+// Live push channel (SSE) for dashboard updates
+const eventStream = new EventStreamService(serverLogger, (userId) => !!ACTIVE_BOTS.get(userId)?.isRunning);
+
+// Sign-In with Ethereum sessions. SIWE_DOMAIN pins the expected domain behind proxies.
+const authService = new AuthService(serverLogger, process.env.SIWE_DOMAIN);
+const { requireAuth, requireStreamAuth, requireFreshSignature, requestDomain } = createAuthMiddleware(authService);
+const withdrawalPolicy = new WithdrawalPolicyService(serverLogger, new JsonRpcProvider(ENV.rpcUrl));
+
 app.use(cors());
 app.use(express.json({ limit: '10mb' }) as any); 
 
@@ -66,34 +88,46 @@ async function startUserBot(userId: string, config: BotConfig) {
 
     const startCursor = config.startCursor || Math.floor(Date.now() / 1000);
     const engineConfig = { ...config, userId: normId, startCursor };
+    // Paper sessions keep their state in PaperAccount; the live User record and stats stay untouched
+    const paper = !!config.paperTrading?.enabled;
 
     const engine = new BotEngine(engineConfig, dbRegistryService, {
         onPositionsUpdate: async (positions) => {
             // We still update DB for persistence/backup, but UI will prefer live feed
-            await User.updateOne({ address: normId }, { activePositions: positions });
+            eventStream.publish(normId, 'positions', positions);
+            if (!paper) await User.updateOne({ address: normId }, { activePositions: positions });
         },
         onCashout: async (record) => {
-            await User.updateOne({ address: normId }, { $push: { cashoutHistory: record } });
+            eventStream.publish(normId, 'cashout', record);
+            if (!paper) await User.updateOne({ address: normId }, { $push: { cashoutHistory: record } });
+        },
+        onLog: (line) => {
+            eventStream.publish(normId, 'log', line);
         },
         onTradeComplete: async (trade) => {
+            eventStream.publish(normId, 'trade', trade);
             try {
                 serverLogger.info(`Trade Complete for ${normId}: ${trade.side} ${trade.outcome} | Executed: $${trade.executedSize?.toFixed(2) || 0} | PnL: $${trade.pnl?.toFixed(2) || 0}`);
                 
                 // ATOMIC STATS UPDATE
+                // Partial exits only add volume and PnL; the sell that closes a position counts it once, on its total
+                const partialExit = trade.side === 'SELL' && trade.status === 'FILLED';
                 const update: any = {
                     $inc: {
                         'stats.totalVolume': trade.executedSize || 0,
-                        'stats.tradesCount': 1
+                        'stats.tradesCount': partialExit ? 0 : 1
                     }
                 };
 
                 if (trade.side === 'SELL' && trade.pnl !== undefined) {
                     update.$inc['stats.totalPnl'] = trade.pnl;
-                    if (trade.pnl >= 0) update.$inc['stats.winCount'] = 1;
-                    else update.$inc['stats.lossCount'] = 1;
+                    if (trade.status === 'CLOSED') {
+                        if ((trade.positionPnl ?? trade.pnl) >= 0) update.$inc['stats.winCount'] = 1;
+                        else update.$inc['stats.lossCount'] = 1;
+                    }
                 }
 
-                await User.updateOne({ address: normId }, update);
+                if (!paper) await User.updateOne({ address: normId }, update);
 
                 const exists = await Trade.findById(trade.id);
                 if (!exists) {
@@ -102,6 +136,7 @@ async function startUserBot(userId: string, config: BotConfig) {
                         userId: normId,
                         marketId: trade.marketId,
                         outcome: trade.outcome,
+                        outcomeIndex: trade.outcomeIndex,
                         side: trade.side,
                         size: trade.size,
                         executedSize: trade.executedSize || 0,
@@ -113,9 +148,12 @@ async function startUserBot(userId: string, config: BotConfig) {
                         assetId: trade.assetId,         
                         aiReasoning: trade.aiReasoning,
                         riskScore: trade.riskScore,
+                        sizingReason: trade.sizingReason,
+                        exitReason: trade.exitReason,
                         timestamp: trade.timestamp,
                         marketSlug: trade.marketSlug,
-                        eventSlug: trade.eventSlug
+                        eventSlug: trade.eventSlug,
+                        paper
                     });
                 } else {
                     // Update existing trade entry (e.g. closing an open position)
@@ -130,6 +168,8 @@ async function startUserBot(userId: string, config: BotConfig) {
             }
         },
         onStatsUpdate: async (stats) => {
+            eventStream.publish(normId, 'stats', stats);
+            if (paper) return;
             await User.updateOne({ address: normId }, { 
                 $set: {
                     'stats.portfolioValue': stats.portfolioValue,
@@ -139,9 +179,15 @@ async function startUserBot(userId: string, config: BotConfig) {
             });
         },
         onArbUpdate: async (opportunities) => {
-            // Memory update handled by poll
+            eventStream.publish(normId, 'arb', opportunities);
+        },
+        onRiskStateUpdate: async (state) => {
+            // A paper breaker only lives as long as the paper session
+            if (paper) return;
+            await User.updateOne({ address: normId }, { $set: { 'activeBotConfig.riskState': state } });
         },
         onFeePaid: async (event) => {
+             eventStream.publish(normId, 'fee', event);
              const lister = await Registry.findOne({ address: { $regex: new RegExp(`^${event.listerAddress}$`, "i") } });
              if (lister) {
                  lister.copyCount = (lister.copyCount || 0) + 1;
@@ -169,8 +215,34 @@ app.get('/health', (req, res) => {
     });
 });
 
+// 0b. Sign-In with Ethereum (EIP-4361)
+app.get('/api/auth/nonce', async (req: any, res: any) => {
+    try {
+        const nonce = await authService.createNonce(req.query.address);
+        res.json({ nonce, domain: process.env.SIWE_DOMAIN || requestDomain(req) });
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+app.post('/api/auth/verify', async (req: any, res: any) => {
+    const { message, signature } = req.body;
+    try {
+        const session = await authService.signIn(message, signature, requestDomain(req));
+        res.json(session);
+    } catch (e: any) {
+        res.status(e.status || 500).json({ error: e.message });
+    }
+});
+
+app.post('/api/auth/logout', async (req: any, res: any) => {
+    const token = bearerToken(req);
+    if (token) await authService.signOut(token);
+    res.json({ success: true });
+});
+
 // 1. Check Status / Init
-app.post('/api/wallet/status', async (req: any, res: any) => {
+app.post('/api/wallet/status', requireAuth, async (req: any, res: any) => {
   const { userId } = req.body; 
   if (!userId) { res.status(400).json({ error: 'User Address required' }); return; }
   const normId = userId.toLowerCase();
@@ -219,7 +291,7 @@ app.post('/api/wallet/status', async (req: any, res: any) => {
 });
 
 // 2. Activate Trading Wallet (EOA + Safe Calculation)
-app.post('/api/wallet/activate', async (req: any, res: any) => {
+app.post('/api/wallet/activate', requireAuth, requireFreshSignature('wallet.activate'), async (req: any, res: any) => {
     console.log(`[ACTIVATION REQUEST] Received payload for user: ${req.body?.userId}`);
     const { userId } = req.body;
     
@@ -283,7 +355,7 @@ app.post('/api/wallet/activate', async (req: any, res: any) => {
 });
 
 // 2b. Add Recovery Owner (Multi-Owner Safe)
-app.post('/api/wallet/add-recovery', async (req: any, res: any) => {
+app.post('/api/wallet/add-recovery', requireAuth, requireFreshSignature('wallet.add-recovery'), async (req: any, res: any) => {
     const { userId } = req.body;
     if (!userId) return res.status(400).json({ error: 'Missing User ID' });
     const normId = userId.toLowerCase();
@@ -325,6 +397,7 @@ app.get('/api/stats/global', async (req: any, res: any) => {
     try {
         const userCount = await User.countDocuments();
         const tradeAgg = await Trade.aggregate([
+            { $match: { paper: paperScope(false) } },
             { $group: { _id: null, signalVolume: { $sum: "$size" }, executedVolume: { $sum: "$executedSize" }, count: { $sum: 1 } } }
         ]);
         const signalVolume = tradeAgg[0]?.signalVolume || 0;
@@ -404,7 +477,7 @@ app.get('/api/stats/global', async (req: any, res: any) => {
 });
 
 // 4. Feedback
-app.post('/api/feedback', async (req: any, res: any) => {
+app.post('/api/feedback', requireAuth, async (req: any, res: any) => {
     const { userId, rating, comment } = req.body;
     try {
         await Feedback.create({ userId: userId.toLowerCase(), rating, comment });
@@ -415,13 +488,16 @@ app.post('/api/feedback', async (req: any, res: any) => {
 });
 
 // 5. Start Bot
-app.post('/api/bot/start', async (req: any, res: any) => {
-  const { userId, userAddresses, rpcUrl, geminiApiKey, multiplier, riskProfile, enableAutoArb, autoTp, notifications, autoCashout, maxTradeAmount } = req.body;
+app.post('/api/bot/start', requireAuth, async (req: any, res: any) => {
+  const { userId, userAddresses, rpcUrl, geminiApiKey, multiplier, riskProfile, enableAutoArb, autoTp, notifications, autoCashout, maxTradeAmount, paperTrading, sizingStrategy, exitRules, riskLimits, aggregation, costBasisMethod } = req.body;
   
   if (!userId) { res.status(400).json({ error: 'Missing userId' }); return; }
   const normId = userId.toLowerCase();
 
   try {
+      // Auto-cashout sweeps are withdrawals too
+      if (autoCashout?.destinationAddress) await withdrawalPolicy.assertDestinationAllowed(normId, autoCashout.destinationAddress);
+
       const user = await User.findOne({ address: normId })
         .select('+tradingWallet.encryptedPrivateKey +tradingWallet.l2ApiCredentials.key +tradingWallet.l2ApiCredentials.secret +tradingWallet.l2ApiCredentials.passphrase');
 
@@ -431,11 +507,14 @@ app.post('/api/bot/start', async (req: any, res: any) => {
       }
 
       const l2Creds = user.tradingWallet.l2ApiCredentials;
+      // Accepts plain addresses or per-target objects ({ address, multiplier, maxTradeAmount, ... })
+      const targets = mergeTargets(userAddresses || [], user.activeBotConfig?.targets);
       
       const config: BotConfig = {
         userId: normId,
         walletConfig: user.tradingWallet,
-        userAddresses: Array.isArray(userAddresses) ? userAddresses : userAddresses.split(',').map((s: string) => s.trim()),
+        userAddresses: targets.map(t => t.address),
+        targets,
         rpcUrl,
         geminiApiKey,
         multiplier: Number(multiplier),
@@ -446,7 +525,20 @@ app.post('/api/bot/start', async (req: any, res: any) => {
         userPhoneNumber: notifications?.phoneNumber,
         autoCashout: autoCashout,
         maxTradeAmount: maxTradeAmount ? Number(maxTradeAmount) : 100, 
-        activePositions: user.activePositions || [],
+        paperTrading: paperTrading?.enabled 
+            ? { enabled: true, startingBalance: Number(paperTrading.startingBalance) || 1000 } 
+            : undefined,
+        sizingStrategy: sizingStrategy?.type ? sizingStrategy : undefined,
+        exitRules: normalizeExitRules(exitRules),
+        riskLimits: normalizeRiskLimits(riskLimits),
+        aggregation: normalizeAggregationConfig(aggregation),
+        costBasisMethod: normalizeCostBasisMethod(costBasisMethod),
+        mmConfig: resolveMarketMakingProfile(user.mmConfig),
+        mmRules: resolveMarketRules(user.mmRules),
+        // A tripped circuit breaker is not cleared by restarting the bot; paper sessions start clear
+        riskState: paperTrading?.enabled ? undefined : user.activeBotConfig?.riskState,
+        // Paper ledger owns its own positions; don't seed it with live holdings
+        activePositions: paperTrading?.enabled ? [] : (user.activePositions || []),
         stats: user.stats,
         l2ApiCredentials: l2Creds,
         mongoEncryptionKey: ENV.mongoEncryptionKey,
@@ -465,42 +557,60 @@ app.post('/api/bot/start', async (req: any, res: any) => {
       res.json({ success: true, status: 'RUNNING' });
   } catch (e: any) {
       console.error("Failed to start bot:", e);
-      res.status(500).json({ error: e.message });
+      res.status(e instanceof WithdrawalPolicyError ? e.status : 500).json({ error: e.message });
   }
 });
 
 // 6. Stop Bot
-app.post('/api/bot/stop', async (req: any, res: any) => {
+app.post('/api/bot/stop', requireAuth, async (req: any, res: any) => {
     const { userId } = req.body;
     const normId = userId.toLowerCase();
     
     const engine = ACTIVE_BOTS.get(normId);
     if (engine) engine.stop();
+    eventStream.release(normId);
     
     await User.updateOne({ address: normId }, { isBotRunning: false });
     res.json({ success: true, status: 'STOPPED' });
 });
 
 // Live Update Bot
-app.post('/api/bot/update', async (req: any, res: any) => {
-    const { userId, targets, multiplier, riskProfile, autoTp, autoCashout, notifications, maxTradeAmount } = req.body;
+app.post('/api/bot/update', requireAuth, async (req: any, res: any) => {
+    const { userId, targets, multiplier, riskProfile, autoTp, autoCashout, notifications, maxTradeAmount, sizingStrategy, exitRules, riskLimits, aggregation, costBasisMethod } = req.body;
     
     if (!userId) { res.status(400).json({ error: 'Missing userId' }); return; }
     const normId = userId.toLowerCase();
 
     try {
+        if (autoCashout?.destinationAddress) await withdrawalPolicy.assertDestinationAllowed(normId, autoCashout.destinationAddress);
+
         const user = await User.findOne({ address: normId });
         if (!user) { res.status(404).json({ error: 'User not found' }); return; }
 
         if (!user.activeBotConfig) user.activeBotConfig = {} as any;
         const cfg = user.activeBotConfig!;
 
-        if (targets) cfg.userAddresses = targets;
+        let mergedTargets: TargetWalletConfig[] | undefined;
+        if (targets) {
+            mergedTargets = mergeTargets(targets, cfg.targets);
+            cfg.targets = mergedTargets;
+            cfg.userAddresses = mergedTargets.map(t => t.address);
+        }
         if (multiplier) cfg.multiplier = multiplier;
         if (riskProfile) cfg.riskProfile = riskProfile;
         if (autoTp) cfg.autoTp = autoTp;
         if (autoCashout) cfg.autoCashout = autoCashout;
         if (maxTradeAmount) cfg.maxTradeAmount = maxTradeAmount;
+        if (sizingStrategy?.type) cfg.sizingStrategy = sizingStrategy;
+        // An empty object clears the bot-wide exit rules
+        const normalizedExitRules = exitRules !== undefined ? (normalizeExitRules(exitRules) || {}) : undefined;
+        if (normalizedExitRules) cfg.exitRules = normalizedExitRules;
+        const normalizedRiskLimits = riskLimits !== undefined ? (normalizeRiskLimits(riskLimits) || {}) : undefined;
+        if (normalizedRiskLimits) cfg.riskLimits = normalizedRiskLimits;
+        const normalizedAggregation = aggregation !== undefined ? (normalizeAggregationConfig(aggregation) || {}) : undefined;
+        if (normalizedAggregation) cfg.aggregation = normalizedAggregation;
+        const normalizedCostBasis = normalizeCostBasisMethod(costBasisMethod);
+        if (normalizedCostBasis) cfg.costBasisMethod = normalizedCostBasis;
         if (notifications) {
             cfg.enableNotifications = notifications.enabled;
             cfg.userPhoneNumber = notifications.phoneNumber;
@@ -511,35 +621,53 @@ app.post('/api/bot/update', async (req: any, res: any) => {
         const engine = ACTIVE_BOTS.get(normId);
         if (engine && engine.isRunning) {
             engine.updateConfig({
-                userAddresses: targets,
+                targets: mergedTargets,
                 multiplier: multiplier ? Number(multiplier) : undefined,
                 riskProfile: riskProfile,
                 autoTp: autoTp ? Number(autoTp) : undefined,
                 autoCashout: autoCashout,
-                maxTradeAmount: maxTradeAmount ? Number(maxTradeAmount) : undefined
+                maxTradeAmount: maxTradeAmount ? Number(maxTradeAmount) : undefined,
+                sizingStrategy: sizingStrategy?.type ? sizingStrategy : undefined,
+                exitRules: normalizedExitRules,
+                riskLimits: normalizedRiskLimits,
+                aggregation: normalizedAggregation,
+                costBasisMethod: normalizedCostBasis
             });
         }
 
         res.json({ success: true });
     } catch (e: any) {
         console.error("Failed to update bot config:", e);
-        res.status(500).json({ error: e.message });
+        res.status(e instanceof WithdrawalPolicyError ? e.status : 500).json({ error: e.message });
     }
 });
 
+// Live Stream: SSE feed of BotCallbacks events and BotLog lines. Resumes from ?cursor= or Last-Event-ID.
+app.get('/api/stream', requireStreamAuth, (req: any, res: any) => {
+    const normId = req.userId;
+
+    // EventSource sends Last-Event-ID on its own reconnects; that beats the cursor baked into the URL
+    const rawCursor = req.headers['last-event-id'] ?? req.query.cursor;
+    eventStream.subscribe(normId, res, rawCursor !== undefined ? Number(rawCursor) : undefined);
+});
+
 // 7. Bot Status & Logs
-app.get('/api/bot/status/:userId', async (req: any, res: any) => {
+app.get('/api/bot/status/:userId', requireAuth, async (req: any, res: any) => {
     const { userId } = req.params;
     const normId = userId.toLowerCase();
     
     const engine = ACTIVE_BOTS.get(normId);
     
     try {
-        const tradeHistory = await Trade.find({ userId: normId }).sort({ timestamp: -1 }).limit(50).lean();
         const user = await User.findOne({ address: normId }).lean();
+        const tradeHistory = await Trade.find({ userId: normId, paper: paperScope(user?.activeBotConfig?.paperTrading?.enabled) }).sort({ timestamp: -1 }).limit(50).lean();
         const dbLogs = await BotLog.find({ userId: normId }).sort({ timestamp: -1 }).limit(100).lean();
         
-        const persistedMMOpps = await MoneyMarketOpportunity.find().sort({ timestamp: -1 }).limit(20).lean();
+        // Persisted opportunities are shared across users; hide the ones this user's rules exclude
+        const ruleFilter = compileMarketRules(resolveMarketRules(user?.mmRules));
+        const persistedMMOpps = (await MoneyMarketOpportunity.find().sort({ timestamp: -1 }).limit(50).lean())
+            .filter((o: any) => ruleFilter.check({ conditionId: o.conditionId || o.marketId, question: o.question, category: o.category, endDate: o.endDate }) === null)
+            .slice(0, 20);
 
         const formattedLogs = dbLogs.map(l => ({
             id: l._id.toString(),
@@ -595,6 +723,7 @@ app.get('/api/bot/status/:userId', async (req: any, res: any) => {
             positions: livePositions, 
             stats: user?.stats || null,
             config: user?.activeBotConfig || null,
+            risk: engine ? engine.getRiskStatus() : null,
             mmOpportunities: mmOpportunities 
         });
     } catch (e) {
@@ -604,7 +733,7 @@ app.get('/api/bot/status/:userId', async (req: any, res: any) => {
 });
 
 // --- NEW MM SCANNER ENDPOINTS ---
-app.post('/api/bot/mm/add-market', async (req: any, res: any) => {
+app.post('/api/bot/mm/add-market', requireAuth, async (req: any, res: any) => {
     const { userId, conditionId, slug } = req.body;
     const normId = userId.toLowerCase();
     const engine = ACTIVE_BOTS.get(normId);
@@ -620,7 +749,7 @@ app.post('/api/bot/mm/add-market', async (req: any, res: any) => {
     res.json({ success });
 });
 
-app.post('/api/bot/mm/bookmark', async (req: any, res: any) => {
+app.post('/api/bot/mm/bookmark', requireAuth, async (req: any, res: any) => {
     const { userId, conditionId, action } = req.body;
     const normId = userId.toLowerCase();
     const engine = ACTIVE_BOTS.get(normId);
@@ -635,7 +764,7 @@ app.post('/api/bot/mm/bookmark', async (req: any, res: any) => {
     res.json({ success: true });
 });
 
-app.get('/api/bot/mm/bookmarks', async (req: any, res: any) => {
+app.get('/api/bot/mm/bookmarks', requireAuth, async (req: any, res: any) => {
     const { userId } = req.query;
     const normId = userId.toLowerCase();
     const engine = ACTIVE_BOTS.get(normId);
@@ -644,7 +773,7 @@ app.get('/api/bot/mm/bookmarks', async (req: any, res: any) => {
     res.json({ success: true, bookmarks: engine.getBookmarkedOpportunities() });
 });
 
-app.get('/api/bot/mm/opportunities/:category', async (req: any, res: any) => {
+app.get('/api/bot/mm/opportunities/:category', requireAuth, async (req: any, res: any) => {
     const { userId } = req.query;
     const { category } = req.params;
     const normId = userId.toLowerCase();
@@ -654,14 +783,163 @@ app.get('/api/bot/mm/opportunities/:category', async (req: any, res: any) => {
     res.json({ success: true, opportunities: engine.getOpportunitiesByCategory(category) });
 });
 
+// Market-making profile: stored on the user, applied live to a running engine
+app.get('/api/bot/mm/config', requireAuth, async (req: any, res: any) => {
+    try {
+        const user = await User.findOne({ address: req.userId }).select('mmConfig').lean();
+        res.json({ config: resolveMarketMakingProfile(user?.mmConfig), defaults: DEFAULT_MM_PROFILE, running: !!ACTIVE_BOTS.get(req.userId)?.isRunning });
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+app.put('/api/bot/mm/config', requireAuth, async (req: any, res: any) => {
+    try {
+        const user = await User.findOne({ address: req.userId }).select('mmConfig').lean();
+        if (!user) { res.status(404).json({ error: 'User not found' }); return; }
+
+        // Unknown keys (e.g. userId) are ignored; only profile fields are validated and applied
+        const config = validateMarketMakingProfile(req.body, resolveMarketMakingProfile(user.mmConfig));
+        await User.updateOne({ address: req.userId }, { $set: { mmConfig: config } });
+
+        const engine = ACTIVE_BOTS.get(req.userId);
+        if (engine && engine.isRunning) engine.updateConfig({ mmConfig: config });
+
+        res.json({ success: true, config, applied: !!engine?.isRunning });
+    } catch (e: any) {
+        if (e instanceof MarketMakingProfileError) {
+            res.status(400).json({ error: e.message, errors: e.errors });
+            return;
+        }
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Market selection rules: category allow/deny, question keywords, min days to end, max markets, blacklist
+app.get('/api/bot/mm/rules', requireAuth, async (req: any, res: any) => {
+    try {
+        const user = await User.findOne({ address: req.userId }).select('mmRules').lean();
+        res.json({ rules: resolveMarketRules(user?.mmRules), running: !!ACTIVE_BOTS.get(req.userId)?.isRunning });
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+const saveMarketRules = async (userId: string, input: any) => {
+    const user = await User.findOne({ address: userId }).select('mmRules').lean();
+    if (!user) return null;
+    const rules = validateMarketRules(input, resolveMarketRules(user.mmRules));
+    await User.updateOne({ address: userId }, { $set: { mmRules: rules } });
+
+    const engine = ACTIVE_BOTS.get(userId);
+    if (engine && engine.isRunning) engine.updateConfig({ mmRules: rules });
+    return { rules, applied: !!engine?.isRunning };
+};
+
+app.put('/api/bot/mm/rules', requireAuth, async (req: any, res: any) => {
+    try {
+        const saved = await saveMarketRules(req.userId, req.body);
+        if (!saved) { res.status(404).json({ error: 'User not found' }); return; }
+        res.json({ success: true, ...saved });
+    } catch (e: any) {
+        if (e instanceof MarketRulesError) {
+            res.status(400).json({ error: e.message, errors: e.errors });
+            return;
+        }
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Permanent per-market blacklist: { conditionId, question?, reason?, action: 'add' | 'remove' }
+app.post('/api/bot/mm/blacklist', requireAuth, async (req: any, res: any) => {
+    try {
+        const { conditionId, question, reason, action } = req.body;
+        if (!conditionId) { res.status(400).json({ error: 'conditionId required' }); return; }
+        const user = await User.findOne({ address: req.userId }).select('mmRules').lean();
+        if (!user) { res.status(404).json({ error: 'User not found' }); return; }
+
+        const current = resolveMarketRules(user.mmRules).blacklist;
+        const others = current.filter(b => b.conditionId.toLowerCase() !== String(conditionId).toLowerCase());
+        const blacklist = action === 'remove' ? others : [...others, { conditionId, question, reason, addedAt: Date.now() }];
+        const saved = await saveMarketRules(req.userId, { blacklist });
+        res.json({ success: true, ...saved });
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Stored market-making and portfolio history follows the mode of the user's configured bot while it is stopped
+const isPaperUser = async (userId: string): Promise<boolean> => {
+    const user = await User.findOne({ address: userId }).select('activeBotConfig.paperTrading').lean();
+    return !!user?.activeBotConfig?.paperTrading?.enabled;
+};
+
+// Liquidity rewards: estimated (from our quote scoring) vs. received, per market and day
+app.get('/api/bot/mm/rewards', requireAuth, async (req: any, res: any) => {
+    try {
+        const days = Math.min(Math.max(Number(req.query.days) || 7, 1), 90);
+        const engine = ACTIVE_BOTS.get(req.userId);
+        const summary = (engine && await engine.getRewardsSummary(days)) || await getRewardsHistory(req.userId, days, await isPaperUser(req.userId));
+        res.json(summary);
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+app.get('/api/bot/mm/pnl', requireAuth, async (req: any, res: any) => {
+    try {
+        const days = Math.min(Math.max(Number(req.query.days) || 7, 1), 90);
+        const engine = ACTIVE_BOTS.get(req.userId);
+        const summary = (engine && await engine.getMarketMakingPnl(days)) || await getMarketMakingPnl(req.userId, days, await isPaperUser(req.userId));
+        res.json(summary);
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
 // 8. Registry Routes
+// ?sort= keys the marketplace can order by; anything else keeps the default (most copied)
+const REGISTRY_SORTS: Record<string, string> = {
+    copyability: 'scores.copyability',
+    roi: 'scores.roiPct',
+    consistency: 'scores.consistency',
+    pnl: 'totalPnl',
+    winRate: 'winRate'
+};
+
 app.get('/api/registry', async (req, res) => {
     try {
-        const profiles = await Registry.find().sort({ copyCount: -1, totalPnl: -1 });
+        const field = REGISTRY_SORTS[String(req.query.sort || '')];
+        const sort: Record<string, 1 | -1> = field ? { [field]: -1, copyCount: -1 } : { copyCount: -1, totalPnl: -1 };
+        // History is served per trader by /scores; the list stays small
+        const profiles = await Registry.find().select('-scoreHistory').sort(sort);
         res.json(profiles);
     } catch (e) { res.status(500).json({error: 'DB Error'}); }
 });
 
+app.get('/api/registry/:address/scores', async (req: any, res: any) => {
+    const address = String(req.params.address).toLowerCase();
+    // Only SCORE_HISTORY_DAYS of hourly snapshots are kept
+    const days = Math.min(Number(req.query.days) || 30, SCORE_HISTORY_DAYS);
+    try {
+        const profile: any = await Registry.findOne({ address }).select('scores scoredAt scoreHistory').lean();
+        if (!profile) return res.status(404).json({error: 'Not found'});
+        const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+        res.json({
+            scores: profile.scores || null,
+            scoredAt: profile.scoredAt,
+            history: (profile.scoreHistory || []).filter((s: any) => s.at >= since)
+        });
+    } catch (e) { res.status(500).json({error: 'DB Error'}); }
+});
+
+app.get('/api/registry/:address/copy-quality', async (req: any, res: any) => {
+    const days = Number(req.query.days) || 30;
+    try {
+        res.json(await getCopyQualitySummary(req.params.address, days));
+    } catch (e) { res.status(500).json({error: 'DB Error'}); }
+});
+
 app.get('/api/registry/:address/earnings', async (req: any, res: any) => {
     try {
         const address = req.params.address.toLowerCase();
@@ -694,17 +972,18 @@ app.get('/api/registry/:address', async (req: any, res: any) => {
     } catch (e) { res.status(500).json({error: 'DB Error'}); }
 });
 
-app.post('/api/registry', async (req, res) => {
+app.post('/api/registry', requireAuth, async (req: any, res: any) => {
     const { address, listedBy } = req.body;
     if (!address || !address.startsWith('0x')) { res.status(400).json({error:'Invalid address'}); return; }
+    if (listedBy && listedBy.toLowerCase() !== req.userId) { res.status(403).json({ error: 'listedBy must be the signed-in wallet' }); return; }
     
     try {
         const existing = await Registry.findOne({ address: { $regex: new RegExp(`^${address}$`, "i") } });
         if (existing) { res.status(409).json({error:'Already listed', profile: existing}); return; }
 
         const profile = await Registry.create({
-            address, 
-            listedBy: listedBy.toLowerCase(), 
+            address: address.toLowerCase(),
+            listedBy: req.userId, 
             listedAt: new Date().toISOString(),
             isSystem: false,
             tags: [], 
@@ -732,7 +1011,7 @@ app.get('/api/proxy/trades/:address', async (req: any, res: any) => {
 });
 
 // 9. Bridge Routes
-app.get('/api/bridge/history/:userId', async (req, res) => {
+app.get('/api/bridge/history/:userId', requireAuth, async (req, res) => {
     const { userId } = req.params;
     try {
         const history = await BridgeTransaction.find({ userId: userId.toLowerCase() }).sort({ timestamp: -1 }).lean();
@@ -742,7 +1021,7 @@ app.get('/api/bridge/history/:userId', async (req, res) => {
     }
 });
 
-app.post('/api/bridge/record', async (req: any, res: any) => {
+app.post('/api/bridge/record', requireAuth, async (req: any, res: any) => {
     const { userId, transaction } = req.body;
     if (!userId || !transaction) { res.status(400).json({ error: 'Missing Data' }); return; }
     const normId = userId.toLowerCase();
@@ -754,7 +1033,7 @@ app.post('/api/bridge/record', async (req: any, res: any) => {
     }
 });
 
-app.post('/api/deposit/record', async (req: any, res: any) => {
+app.post('/api/deposit/record', requireAuth, async (req: any, res: any) => {
     const { userId, amount, txHash } = req.body;
     if (!userId || !amount || !txHash) { res.status(400).json({ error: 'Missing Data' }); return; }
     try {
@@ -765,16 +1044,20 @@ app.post('/api/deposit/record', async (req: any, res: any) => {
     }
 });
 
-app.post('/api/wallet/withdraw', async (req: any, res: any) => {
-    const { userId, tokenType, toAddress, forceEoa, targetSafeAddress } = req.body;
+app.post('/api/wallet/withdraw', requireAuth, requireFreshSignature('wallet.withdraw'), async (req: any, res: any) => {
+    const { userId, tokenType, toAddress, forceEoa, targetSafeAddress, amount } = req.body;
     const normId = userId.toLowerCase();
     const isForceEoa = forceEoa === true; // Explicit boolean conversion
+    const token = normalizeWithdrawalToken(tokenType);
+    const destination = String(toAddress || normId);
+    let withdrawalId: string | undefined;
     try {
         // MUST explicitly select encrypted field for withdrawal
         const user = await User.findOne({ address: normId })
             .select('+tradingWallet.encryptedPrivateKey');
 
         if (!user || !user.tradingWallet || !user.tradingWallet.encryptedPrivateKey) { res.status(400).json({ error: 'Wallet not configured' }); return; }
+        if (!ethers.isAddress(destination)) { res.status(400).json({ error: 'Invalid destination address' }); return; }
         const walletConfig = user.tradingWallet;
         let txHash = '';
         const provider = new JsonRpcProvider(ENV.rpcUrl);
@@ -785,57 +1068,69 @@ app.post('/api/wallet/withdraw', async (req: any, res: any) => {
         
         let balanceToWithdraw = 0n;
         let eoaBalance = 0n;
-        if (tokenType === 'POL') { 
+        if (token === 'POL') { 
             balanceToWithdraw = await provider.getBalance(safeAddr); 
             if (!targetSafeAddress) eoaBalance = await provider.getBalance(walletConfig.address);
         } else { 
             try { 
                 balanceToWithdraw = await usdcContract.balanceOf(safeAddr); 
                 if (!targetSafeAddress) eoaBalance = await usdcContract.balanceOf(walletConfig.address);
-            } catch(e) {} 
+            } catch(e) {
+                // Treated as an empty balance below
+            } 
         }
-        
-        if (!isForceEoa) {
-             if (balanceToWithdraw > 0n) {
-                 const signer = await evmWalletService.getWalletInstance(walletConfig.encryptedPrivateKey);
-                 const safeManager = new SafeManagerService(signer, ENV.builderApiKey, ENV.builderApiSecret, ENV.builderApiPassphrase, serverLogger, safeAddr);
-                 
-                 if (tokenType === 'POL') { 
-                    const reserve = ethers.parseEther("0.05");
-                    if (balanceToWithdraw > reserve) {
-                        const amountStr = ethers.formatEther(balanceToWithdraw - reserve);
-                        txHash = await safeManager.withdrawNativeOnChain(toAddress || normId, amountStr);
-                    } else {
-                        throw new Error("Insufficient POL in Safe to cover gas for withdrawal.");
-                    }
-                } else { 
-                    txHash = await safeManager.withdrawUSDC(toAddress || normId, balanceToWithdraw.toString()); 
-                }
-             } else if (eoaBalance > 0n && !targetSafeAddress) {
-                 let tokenAddr = TOKENS.USDC_BRIDGED;
-                 if (tokenType === 'POL') tokenAddr = TOKENS.POL;
-                 let amountStr: string = "";
-                 if (tokenType === 'POL') { const reserve = ethers.parseEther("0.05"); if (eoaBalance > reserve) { amountStr = ethers.formatEther(eoaBalance - reserve); } else { throw new Error("Insufficient POL in EOA to cover gas for rescue."); } }
-                 txHash = await evmWalletService.withdrawFunds(walletConfig.encryptedPrivateKey, toAddress || normId, tokenAddr, amountStr);
-             } else { return res.status(400).json({ error: `Insufficient ${tokenType || 'USDC'} funds.` }); }
-        } else if (isForceEoa) {
+
+        // Safe first; the signer EOA is only swept when the Safe is empty (rescue path)
+        let source: 'SAFE' | 'EOA';
+        let available: bigint;
+        const reserve = token === 'POL' ? ethers.parseEther("0.05") : 0n;
+        if (isForceEoa || balanceToWithdraw > 0n) {
+            source = 'SAFE';
+            available = balanceToWithdraw - reserve;
+            if (token === 'POL' && available <= 0n) throw new Error("Insufficient POL in Safe to cover gas for withdrawal.");
+        } else if (eoaBalance > 0n && !targetSafeAddress) {
+            source = 'EOA';
+            available = eoaBalance - reserve;
+            if (token === 'POL' && available <= 0n) throw new Error("Insufficient POL in EOA to cover gas for rescue.");
+        } else {
+            return res.status(400).json({ error: `Insufficient ${tokenType || 'USDC'} funds.` });
+        }
+
+        // Partial withdrawal when an amount is given, otherwise sweep
+        const decimals = token === 'POL' ? 18 : 6;
+        let value = available;
+        if (amount !== undefined && amount !== null && amount !== '') {
+            try {
+                value = ethers.parseUnits(String(amount), decimals);
+            } catch (e) {
+                return res.status(400).json({ error: 'Invalid amount' });
+            }
+            if (value <= 0n) return res.status(400).json({ error: 'Invalid amount' });
+            if (value > available) return res.status(400).json({ error: `Amount exceeds available balance (${ethers.formatUnits(available, decimals)} ${token})` });
+        }
+        if (value <= 0n) return res.status(400).json({ error: `Insufficient ${tokenType || 'USDC'} funds.` });
+        const amountTokens = Number(ethers.formatUnits(value, decimals));
+
+        withdrawalId = await withdrawalPolicy.reserve(normId, { tokenType: token, amount: amountTokens, toAddress: destination, source });
+
+        if (source === 'SAFE') {
             const signer = await evmWalletService.getWalletInstance(walletConfig.encryptedPrivateKey);
             const safeManager = new SafeManagerService(signer, ENV.builderApiKey, ENV.builderApiSecret, ENV.builderApiPassphrase, serverLogger, safeAddr);
-            
-            if (tokenType === 'POL') {
-                const reserve = ethers.parseEther("0.05");
-                if (balanceToWithdraw > reserve) {
-                    const amountStr = ethers.formatEther(balanceToWithdraw - reserve);
-                    txHash = await safeManager.withdrawNativeOnChain(toAddress || normId, amountStr);
-                } else {
-                    throw new Error("Insufficient POL in Safe to cover gas for withdrawal.");
-                }
+            if (token === 'POL') {
+                txHash = await safeManager.withdrawNativeOnChain(destination, ethers.formatEther(value));
             } else {
-                txHash = await safeManager.withdrawUSDC(toAddress || normId, balanceToWithdraw.toString());
+                txHash = await safeManager.withdrawUSDC(destination, value.toString());
             }
+        } else {
+            const tokenAddr = token === 'POL' ? TOKENS.POL : TOKENS.USDC_BRIDGED;
+            txHash = await evmWalletService.withdrawFunds(walletConfig.encryptedPrivateKey, destination, tokenAddr, ethers.formatUnits(value, decimals));
         }
-        res.json({ success: true, txHash });
+
+        await withdrawalPolicy.markSent(withdrawalId, txHash);
+        res.json({ success: true, txHash, withdrawalId, amount: amountTokens });
     } catch (e: any) {
+        if (withdrawalId) await withdrawalPolicy.markFailed(withdrawalId, e?.message || 'Withdrawal failed').catch(() => undefined);
+        if (e instanceof WithdrawalPolicyError) return res.status(e.status).json({ error: e.message, code: 'WITHDRAWAL_POLICY' });
         res.status(500).json({ 
             error: e?.message || 'Withdrawal failed',
             type: e?.name || 'Unknown',
@@ -844,7 +1139,52 @@ app.post('/api/wallet/withdraw', async (req: any, res: any) => {
     }
 });
 
-app.post('/api/bot/execute-arb', async (req, res) => {
+app.get('/api/wallet/withdrawals', requireAuth, async (req: any, res: any) => {
+    try {
+        const limit = Math.min(Number(req.query.limit) || 50, 200);
+        res.json(await withdrawalPolicy.getHistory(req.userId, limit));
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+app.get('/api/wallet/withdrawal-policy', requireAuth, async (req: any, res: any) => {
+    try {
+        res.json(await withdrawalPolicy.getPolicy(req.userId));
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Policy changes need the owner's signature over the exact change, on top of the session
+app.post('/api/wallet/withdrawal-policy/allowlist', requireAuth, requireFreshSignature('withdrawal.allowlist.add'), async (req: any, res: any) => {
+    try {
+        const entry = await withdrawalPolicy.addDestination(req.userId, String(req.body.address || ''), req.body.label);
+        res.json({ success: true, entry });
+    } catch (e: any) {
+        res.status(e instanceof WithdrawalPolicyError ? e.status : 500).json({ error: e.message });
+    }
+});
+
+app.post('/api/wallet/withdrawal-policy/allowlist/remove', requireAuth, requireFreshSignature('withdrawal.allowlist.remove'), async (req: any, res: any) => {
+    try {
+        await withdrawalPolicy.removeDestination(req.userId, String(req.body.address || ''));
+        res.json({ success: true });
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+app.post('/api/wallet/withdrawal-policy/limits', requireAuth, requireFreshSignature('withdrawal.limits'), async (req: any, res: any) => {
+    try {
+        const policy = await withdrawalPolicy.setLimits(req.userId, normalizeWithdrawalLimits(req.body));
+        res.json({ success: true, policy });
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+app.post('/api/bot/execute-arb', requireAuth, async (req, res) => {
     const { userId, marketId } = req.body;
     const engine = ACTIVE_BOTS.get(userId.toLowerCase());
     if (!engine) return res.status(404).json({ error: "Engine offline" });
@@ -853,7 +1193,7 @@ app.post('/api/bot/execute-arb', async (req, res) => {
     res.json({ success });
 });
 
-app.post('/api/trade/sync', async (req: any, res: any) => {
+app.post('/api/trade/sync', requireAuth, async (req: any, res: any) => {
     const { userId, force } = req.body;
     const normId = userId.toLowerCase();
     const engine = ACTIVE_BOTS.get(normId);
@@ -866,21 +1206,76 @@ app.post('/api/trade/sync', async (req: any, res: any) => {
     }
 });
 
-app.post('/api/trade/exit', async (req: any, res: any) => {
-    const { userId, marketId, outcome } = req.body;
+app.post('/api/trade/exit', requireAuth, async (req: any, res: any) => {
+    const { userId, marketId, outcome, shares, percent } = req.body;
     const normId = userId.toLowerCase();
+    // Partial exits: a share count or a percentage of the position; neither sells it all
+    const size = shares !== undefined ? { shares: Number(shares) } : percent !== undefined ? { percent: Number(percent) } : undefined;
+    if (size?.shares !== undefined && !(size.shares > 0)) { res.status(400).json({ error: 'shares must be a positive number' }); return; }
+    if (size?.percent !== undefined && !(size.percent > 0 && size.percent <= 100)) { res.status(400).json({ error: 'percent must be between 0 and 100' }); return; }
     const engine = ACTIVE_BOTS.get(normId);
     if (!engine) return res.status(404).json({ error: "Bot not running" });
     try {
-        const result = await engine.emergencySell(marketId, outcome);
+        const result = await engine.emergencySell(marketId, outcome, 'Manual Exit', size);
         res.json({ success: true, result });
     } catch (e: any) {
         res.status(500).json({ error: e.message });
     }
 });
 
+// Portfolio risk limits / circuit breaker
+app.get('/api/bot/risk', requireAuth, async (req: any, res: any) => {
+    const { userId } = req.query;
+    if (!userId) { res.status(400).json({ error: 'User ID required' }); return; }
+    const normId = userId.toLowerCase();
+    const engine = ACTIVE_BOTS.get(normId);
+    if (engine) return res.json({ running: true, ...engine.getRiskStatus() });
+
+    const user = await User.findOne({ address: normId }).lean();
+    const cfg: any = user?.activeBotConfig || {};
+    res.json({
+        running: false,
+        limits: cfg.riskLimits || {},
+        paused: !!cfg.riskState?.pausedReason,
+        pausedReason: cfg.riskState?.pausedReason,
+        resumeAt: cfg.riskState?.resumeAt
+    });
+});
+
+app.post('/api/bot/risk/reset', requireAuth, async (req: any, res: any) => {
+    const { userId } = req.body;
+    if (!userId) { res.status(400).json({ error: 'User ID required' }); return; }
+    const normId = userId.toLowerCase();
+    try {
+        const engine = ACTIVE_BOTS.get(normId);
+        if (engine) {
+            const status = await engine.resetRiskBreaker();
+            return res.json({ success: true, status });
+        }
+        await User.updateOne({ address: normId }, { $set: { 'activeBotConfig.riskState': { baselineAt: Date.now() } } });
+        res.json({ success: true, status: null });
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Per-position exit rules (null/empty rules fall back to the bot defaults)
+app.post('/api/trade/exit-rules', requireAuth, async (req: any, res: any) => {
+    const { userId, tradeId, marketId, outcome, rules } = req.body;
+    if (!userId || (!tradeId && !marketId)) { res.status(400).json({ error: 'userId and tradeId or marketId required' }); return; }
+    const normId = userId.toLowerCase();
+    const engine = ACTIVE_BOTS.get(normId);
+    if (!engine) return res.status(404).json({ error: "Bot not running" });
+    try {
+        const position = await engine.setPositionExitRules(tradeId || marketId, normalizeExitRules(rules) || null, outcome);
+        res.json({ success: true, exitRules: position.exitRules || null });
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
 // --- ORDER MANAGEMENT ENDPOINTS ---
-app.get('/api/orders/open', async (req: any, res: any) => {
+app.get('/api/orders/open', requireAuth, async (req: any, res: any) => {
     const { userId } = req.query;
     if (!userId) { res.status(400).json({ error: 'User ID required' }); return; }
     const normId = userId.toLowerCase();
@@ -889,6 +1284,10 @@ app.get('/api/orders/open', async (req: any, res: any) => {
         const engine = ACTIVE_BOTS.get(normId);
         if (!engine) return res.status(404).json({ error: 'Bot not running' });
         
+        // Lifecycle records (requested vs filled, fills, status history) once the engine is set up
+        const orderStore = engine.getOrderStore();
+        if (orderStore) return res.json({ success: true, orders: await orderStore.getOpenOrders() });
+
         const adapter = engine.getAdapter();
         if (!adapter) return res.status(500).json({ error: 'Adapter not initialized' });
         
@@ -899,7 +1298,7 @@ app.get('/api/orders/open', async (req: any, res: any) => {
     }
 });
 
-app.post('/api/orders/cancel', async (req: any, res: any) => {
+app.post('/api/orders/cancel', requireAuth, async (req: any, res: any) => {
     const { userId, orderId } = req.body;
     if (!userId || !orderId) { 
         res.status(400).json({ error: 'User ID and Order ID required' }); 
@@ -917,6 +1316,7 @@ app.post('/api/orders/cancel', async (req: any, res: any) => {
         const success = await adapter.cancelOrder(orderId);
         
         if (success) {
+            await engine.getOrderStore()?.applyStatus(orderId, 'CANCELLED');
             res.json({ success: true, message: 'Order cancelled successfully' });
         } else {
             res.status(400).json({ error: 'Failed to cancel order' });
@@ -926,12 +1326,15 @@ app.post('/api/orders/cancel', async (req: any, res: any) => {
     }
 });
 
-app.post('/api/redeem', async (req: any, res: any) => {
-    const { userId, marketId, outcome } = req.body;
-    if (!userId || !marketId || !outcome) { 
+app.post('/api/redeem', requireAuth, async (req: any, res: any) => {
+    const { userId, marketId, outcome, tokenId } = req.body;
+    if (!userId || !marketId || (!outcome && !tokenId)) { 
         res.status(400).json({ error: 'User ID, Market ID, and Outcome required' }); 
         return; 
     }
+    // Token id is unambiguous on multi-outcome events; the label is kept for older clients
+    const matches = (p: { marketId: string; tokenId: string; outcome: string }) =>
+        p.marketId === marketId && (tokenId ? p.tokenId === tokenId : sameOutcome(p.outcome, outcome));
     const normId = userId.toLowerCase();
     
     try {
@@ -942,7 +1345,7 @@ app.post('/api/redeem', async (req: any, res: any) => {
         if (!adapter) return res.status(500).json({ error: 'Adapter not initialized' });
         
         const positions = await adapter.getPositions(adapter.getFunderAddress());
-        const position = positions.find(p => p.marketId === marketId && p.outcome === outcome);
+        const position = positions.find(matches);
         
         if (!position) {
             return res.status(404).json({ error: 'Position not found' });
@@ -951,46 +1354,9 @@ app.post('/api/redeem', async (req: any, res: any) => {
         const result = await adapter.redeemPosition(marketId, position.tokenId);
         
         if (result.success) {
-            const costBasis = (position as any).investedValue || (position.balance * position.entryPrice);
-            const realizedPnl = (result.amountUsd || 0) - costBasis;
-            
-            const Trade = (await import('../database/index.js')).Trade;
-            const activePositions = engine.getActivePositions();
-            const activePosition = activePositions.find(p => p.marketId === marketId && p.outcome === outcome);
-            
-            if (activePosition?.tradeId && !activePosition.tradeId.startsWith('imported')) {
-                await Trade.findByIdAndUpdate(activePosition.tradeId, {
-                    status: 'CLOSED',
-                    pnl: realizedPnl
-                });
-            }
-            
-            const positionIndex = activePositions.findIndex(p => p.marketId === marketId && p.outcome === outcome);
-            if (positionIndex !== -1) {
-                activePositions.splice(positionIndex, 1);
-                const callbacks = engine.getCallbacks();
-                if (callbacks?.onPositionsUpdate) {
-                    await callbacks.onPositionsUpdate(activePositions);
-                }
-            }
-            
-            const callbacks = engine.getCallbacks();
-            if (callbacks?.onTradeComplete && activePosition) {
-                await callbacks.onTradeComplete({
-                    id: crypto.randomUUID(),
-                    timestamp: new Date().toISOString(),
-                    marketId: activePosition.marketId,
-                    outcome: activePosition.outcome,
-                    side: 'SELL',
-                    size: costBasis,
-                    executedSize: result.amountUsd || 0,
-                    price: 1.0,
-                    pnl: realizedPnl,
-                    status: 'CLOSED',
-                    aiReasoning: 'Market Resolved - Redemption',
-                    riskScore: 0
-                });
-            }
+            // The ledger closes every outcome of the condition and reports the trades
+            const disposals = await engine.recordRedemption(marketId, result.amountUsd || 0);
+            const realizedPnl = disposals.reduce((sum, d) => sum + d.realizedPnl, 0);
             
             res.json({ 
                 success: true, 
@@ -1080,9 +1446,12 @@ async function restoreBots() {
 
                  const config: BotConfig = {
                      ...user.activeBotConfig,
+                     mmConfig: resolveMarketMakingProfile(user.mmConfig),
+                     mmRules: resolveMarketRules(user.mmRules),
                      walletConfig: user.tradingWallet,
                      stats: user.stats,
-                     activePositions: user.activePositions,
+                     activePositions: user.activeBotConfig.paperTrading?.enabled ? [] : user.activePositions,
+                     riskState: user.activeBotConfig.paperTrading?.enabled ? undefined : user.activeBotConfig.riskState,
                      startCursor: lastTime,
                      l2ApiCredentials: l2Creds,
                      mongoEncryptionKey: ENV.mongoEncryptionKey,
@@ -1150,7 +1519,7 @@ async function seedRegistry() {
 }
 
 // --- PORTFOLIO ANALYTICS ENDPOINTS ---
-app.get('/api/portfolio/snapshots/:userId', async (req: any, res: any) => {
+app.get('/api/portfolio/snapshots/:userId', requireAuth, async (req: any, res: any) => {
     const { userId } = req.params;
     const { period = 'ALL' } = req.query;
     const normId = userId.toLowerCase();
@@ -1177,6 +1546,7 @@ app.get('/api/portfolio/snapshots/:userId', async (req: any, res: any) => {
         
         const snapshots = await PortfolioSnapshotModel.find({
             userId: normId,
+            paper: paperScope(await isPaperUser(normId)),
             timestamp: { $gte: startDate }
         }).sort({ timestamp: 1 });
         
@@ -1187,13 +1557,13 @@ app.get('/api/portfolio/snapshots/:userId', async (req: any, res: any) => {
     }
 });
 
-app.get('/api/portfolio/analytics/:userId', async (req: any, res: any) => {
+app.get('/api/portfolio/analytics/:userId', requireAuth, async (req: any, res: any) => {
     const { userId } = req.params;
     const { period = 'ALL' } = req.query;
     const normId = userId.toLowerCase();
     
     try {
-        const analytics = await PortfolioSnapshotModel.getAnalytics(normId, period as '1D' | '1W' | '30D' | 'ALL');
+        const analytics = await PortfolioSnapshotModel.getAnalytics(normId, period as '1D' | '1W' | '30D' | 'ALL', await isPaperUser(normId));
         res.json(analytics);
     } catch (e: any) {
         serverLogger.error(`Portfolio analytics error: ${e.message}`);
@@ -1201,13 +1571,13 @@ app.get('/api/portfolio/analytics/:userId', async (req: any, res: any) => {
     }
 });
 
-app.get('/api/portfolio/latest/:userId', async (req: any, res: any) => {
+app.get('/api/portfolio/latest/:userId', requireAuth, async (req: any, res: any) => {
     const { userId } = req.params;
     const normId = userId.toLowerCase();
     
     try {
         const snapshot = await PortfolioSnapshotModel
-            .findOne({ userId: normId })
+            .findOne({ userId: normId, paper: paperScope(await isPaperUser(normId)) })
             .sort({ timestamp: -1 });
         res.json(snapshot);
     } catch (e: any) {
@@ -1225,6 +1595,8 @@ connectDB()
     .then(async () => {
         console.log("✅ DB Connected. Syncing system...");
         await seedRegistry(); 
+        // Rescore the registry hourly so score history builds up
+        setInterval(() => registryAnalytics.updateAllRegistryStats(), 60 * 60 * 1000);
         restoreBots();
     })
     .catch((err) => {
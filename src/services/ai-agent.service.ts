@@ -16,7 +16,7 @@ export class AiAgentService {
   async analyzeTrade(
     marketQuestion: string,
     tradeSide: "BUY" | "SELL",
-    outcome: "YES" | "NO",
+    outcome: string,
     size: number,
     price: number,
     riskProfile: RiskProfile = 'balanced',
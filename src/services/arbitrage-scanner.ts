@@ -1,36 +1,20 @@
 import { IExchangeAdapter } from '../adapters/interfaces.js';
 import { Logger } from '../utils/logger.util.js';
 import { WS_URLS } from '../config/env.js';
+import { DEFAULT_MM_PROFILE } from '../config/market-making.js';
+import { compileMarketRules, DEFAULT_MM_RULES, MarketRuleFilter } from '../config/market-rules.js';
+import { MarketMakingProfile, MarketMakingRules, MarketToxicity } from '../domain/market.types.js';
+import { rewardYield } from './liquidity-rewards.service.js';
+import { ToxicityMonitor } from './toxicity-monitor.service.js';
+import { GammaEventQuery, getGammaClient } from './gamma-client.service.js';
+import type { MidpointSample } from '../config/quoting-model.js';
+import { reconnectDelay } from '../utils/backoff.util.js';
 import { MoneyMarketOpportunity } from '../database/index.js';
 import EventEmitter from 'events';
 // Use default import for WebSocket
 import WebSocket from 'ws';
 import type RawData from 'ws';
 
-// Rate limiter utility
-class RateLimiter {
-    private lastRequestTime = 0;
-    private delay: number;
-
-    constructor(delayMs: number = 1500) {
-        this.delay = delayMs;
-    }
-
-    async limit<T>(promise: () => Promise<T>): Promise<T> {
-        const now = Date.now();
-        const timeSinceLastRequest = now - this.lastRequestTime;
-        
-        if (timeSinceLastRequest < this.delay) {
-            await new Promise(resolve => 
-                setTimeout(resolve, this.delay - timeSinceLastRequest)
-            );
-        }
-
-        this.lastRequestTime = Date.now();
-        return await promise();
-    }
-}
-
 // ============================================================
 // INTERFACES (ENHANCED)
 // ============================================================
@@ -53,6 +37,9 @@ export interface MarketOpportunity {
     isNew: boolean;
     rewardsMaxSpread?: number;
     rewardsMinSize?: number;
+    rewardsDailyRate?: number;
+    rewardYield?: number; // Expected daily reward per USD of quoted inventory
+    endDate?: string;
     timestamp: number;
     // Compatibility fields for UI
     roi: number;
@@ -84,6 +71,8 @@ interface TrackedMarket {
     discoveredAt: number;
     rewardsMaxSpread?: number;
     rewardsMinSize?: number;
+    rewardsDailyRate?: number;
+    endDate?: string;
     // Track YES/NO token mapping
     isYesToken?: boolean;
     pairedTokenId?: string;
@@ -94,25 +83,20 @@ interface TrackedMarket {
     orderMinSize?: number;
     orderPriceMinTickSize?: number;
     category?: string;
+    tags?: string[];        // Event tag slugs, for category rules
     featured?: boolean;
     competitive?: number;
 }
 
-export interface MarketMakerConfig {
-    minSpreadCents: number;
-    maxSpreadCents: number;
-    minVolume: number;
-    minLiquidity: number;
-    preferRewardMarkets: boolean;
-    preferNewMarkets: boolean;
-    newMarketAgeMinutes: number;
-    refreshIntervalMs: number;
-    // Risk management config
-    priceMoveThresholdPct: number;    // Cancel orders if price moves X%
-    maxInventoryPerToken: number;      // Max USD exposure per token
-    autoMergeThreshold: number;        // Merge when pairs exceed this
-    enableKillSwitch: boolean;         // Enable emergency stop
-}
+export type MarketMakerConfig = Pick<MarketMakingProfile,
+    | 'minSpreadCents' | 'maxSpreadCents' | 'minVolume' | 'minLiquidity'
+    | 'preferRewardMarkets' | 'preferNewMarkets' | 'newMarketAgeMinutes' | 'refreshIntervalMs'
+    | 'priceMoveThresholdPct' | 'autoMergeThreshold' | 'enableKillSwitch'
+    | 'quoteSize' | 'spreadOffset' // Reference quote for reward yield ranking
+    | 'enableToxicityGuard' | 'flowImbalanceThreshold' | 'markoutThresholdCents' | 'toxicityCooldownMinutes'>;
+
+const MIDPOINT_HISTORY_WINDOW = 60 * 60 * 1000;
+const MIDPOINT_HISTORY_MAX = 240;
 
 // Risk Management Interfaces
 interface InventoryBalance {
@@ -147,40 +131,33 @@ export class MarketMakingScanner extends EventEmitter {
     private reconnectTimeout?: NodeJS.Timeout;
     private readonly maxReconnectAttempts = 10;
     private readonly maxReconnectDelay = 30000;
-    private rateLimiter = new RateLimiter(1500); // 1.5 seconds between requests
+    private gamma = getGammaClient(); // Shared cache and rate limit across bots
 
     // Risk management state
     private lastMidpoints: Map<string, number> = new Map();
+    private midpointHistory: Map<string, MidpointSample[]> = new Map(); // Book midpoints, for quoting volatility
     private inventoryBalances: Map<string, InventoryBalance> = new Map();
     private tickSizes: Map<string, TickSizeInfo> = new Map();
     private resolvedMarkets: Set<string> = new Set();
     private killSwitchActive = false;
+    private toxicity: ToxicityMonitor;
     private bookmarkedMarkets: Set<string> = new Set();
 
-    // Default config (EXTENDED)
-    private config: MarketMakerConfig = {
-        minSpreadCents: 1, 
-        maxSpreadCents: 15,
-        minVolume: 5000,
-        minLiquidity: 1000,
-        preferRewardMarkets: true,
-        preferNewMarkets: true,
-        newMarketAgeMinutes: 60,
-        refreshIntervalMs: 5 * 60 * 1000,
-        // Risk defaults
-        priceMoveThresholdPct: 5,
-        maxInventoryPerToken: 500,
-        autoMergeThreshold: 100,
-        enableKillSwitch: true
-    };
+    // Defaults come from the shared market-making profile (User.mmConfig overrides them)
+    private config: MarketMakerConfig = { ...DEFAULT_MM_PROFILE };
+    // User market rules (User.mmRules), applied to discovery and to the opportunity feed
+    private ruleFilter: MarketRuleFilter = compileMarketRules(DEFAULT_MM_RULES);
 
     constructor(
         private adapter: IExchangeAdapter,
         private logger: Logger,
-        config?: Partial<MarketMakerConfig>
+        config?: Partial<MarketMakerConfig>,
+        rules?: MarketMakingRules
     ) {
         super();
         if (config) this.config = { ...this.config, ...config };
+        if (rules) this.ruleFilter = compileMarketRules(rules);
+        this.toxicity = new ToxicityMonitor(this.config);
     }
 
     async start() {
@@ -205,25 +182,7 @@ export class MarketMakingScanner extends EventEmitter {
             this.logger.info('🔌 Connecting to WebSocket...');
             this.connect();
             
-            this.refreshInterval = setInterval(async () => {
-                try {
-                    this.logger.info('🔄 Refreshing markets...');
-                    await this.discoverMarkets();
-                    this.logger.info(`✅ Market refresh complete. Tracking ${this.trackedMarkets.size} markets`);
-                    
-                    // Log some stats about tracked markets
-                    if (this.trackedMarkets.size > 0) {
-                        const sampleMarket = Array.from(this.trackedMarkets.values())[0];
-                        this.logger.info(`📊 Sample market: ${sampleMarket.question?.substring(0, 50)}...`);
-                        this.logger.info(`   Bid: ${sampleMarket.bestBid} | Ask: ${sampleMarket.bestAsk} | Spread: ${sampleMarket.spread.toFixed(4)}`);
-                    }
-                    
-                    this.logger.info(`🔄 Next refresh in ${this.config.refreshIntervalMs / 1000} seconds`);
-                } catch (error) {
-                    const errorMessage = error instanceof Error ? error.message : String(error);
-                    this.logger.error(`❌ Error during market refresh: ${errorMessage}`);
-                }
-            }, this.config.refreshIntervalMs) as unknown as NodeJS.Timeout;
+            this.scheduleRefresh();
             
             this.logger.success('📊 MM ENGINE: Spread Capture Mode Active');
             this.logger.info(`🔍 Currently tracking ${this.trackedMarkets.size} markets`);
@@ -235,6 +194,70 @@ export class MarketMakingScanner extends EventEmitter {
         }
     }
 
+    /**
+     * Applies a new profile to a running scanner. Thresholds take effect on the next book
+     * update or refresh; only the refresh timer is rescheduled, the WebSocket stays up.
+     */
+    public updateConfig(config: Partial<MarketMakerConfig>) {
+        const previousInterval = this.config.refreshIntervalMs;
+        this.config = { ...this.config, ...config };
+        this.toxicity.updateConfig(this.config);
+        if (this.refreshInterval && this.config.refreshIntervalMs !== previousInterval) {
+            this.scheduleRefresh();
+        }
+        if (!this.config.enableKillSwitch && this.killSwitchActive) this.resetKillSwitch();
+        this.logger.info('⚙️ Market making scanner config updated');
+    }
+
+    /**
+     * Applies new market rules. Tracked markets that no longer pass are dropped at once (their
+     * condition ids are returned so open quotes can be pulled); markets a looser rule now admits
+     * are picked up on the next discovery refresh.
+     */
+    public updateRules(rules: MarketMakingRules): string[] {
+        this.ruleFilter = compileMarketRules(rules);
+        const dropped = new Set<string>();
+        for (const [tokenId, market] of this.trackedMarkets.entries()) {
+            if (this.ruleFilter.check(market) === null) continue;
+            this.trackedMarkets.delete(tokenId);
+            dropped.add(market.conditionId);
+        }
+        this.opportunities = this.opportunities.filter(o => !dropped.has(o.conditionId));
+        this.logger.info(`⚙️ Market rules updated${dropped.size > 0 ? ` (${dropped.size} markets excluded)` : ''}`);
+        return Array.from(dropped);
+    }
+
+    /**
+     * Why the user's rules exclude a tracked market, or null when it may be quoted.
+     */
+    public getRuleRejection(tokenId: string): string | null {
+        const market = this.trackedMarkets.get(tokenId);
+        return market ? this.ruleFilter.check(market) : null;
+    }
+
+    private scheduleRefresh() {
+        if (this.refreshInterval) clearInterval(this.refreshInterval);
+        this.refreshInterval = setInterval(async () => {
+            try {
+                this.logger.info('🔄 Refreshing markets...');
+                await this.discoverMarkets();
+                this.logger.info(`✅ Market refresh complete. Tracking ${this.trackedMarkets.size} markets`);
+                
+                // Log some stats about tracked markets
+                if (this.trackedMarkets.size > 0) {
+                    const sampleMarket = Array.from(this.trackedMarkets.values())[0];
+                    this.logger.info(`📊 Sample market: ${sampleMarket.question?.substring(0, 50)}...`);
+                    this.logger.info(`   Bid: ${sampleMarket.bestBid} | Ask: ${sampleMarket.bestAsk} | Spread: ${sampleMarket.spread.toFixed(4)}`);
+                }
+                
+                this.logger.info(`🔄 Next refresh in ${this.config.refreshIntervalMs / 1000} seconds`);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                this.logger.error(`❌ Error during market refresh: ${errorMessage}`);
+            }
+        }, this.config.refreshIntervalMs) as unknown as NodeJS.Timeout;
+    }
+
     /**
      * PRODUCTION: Fetch available tag IDs from Gamma API
      * Uses /tags endpoint to get category IDs for filtering
@@ -243,16 +266,7 @@ export class MarketMakingScanner extends EventEmitter {
         const tagMap: Record<string, number> = {};
         
         try {
-            const response = await this.rateLimiter.limit(() => 
-                fetch('https://gamma-api.polymarket.com/tags?limit=200')
-            );
-            
-            if (!response.ok) {
-                this.logger.warn('Failed to fetch tags, proceeding without category filtering');
-                return tagMap;
-            }
-            
-            const tags = await response.json();
+            const tags = await this.gamma.getTags(200);
             
             for (const tag of tags) {
                 const slug = (tag.slug || tag.label || '').toLowerCase();
@@ -295,36 +309,34 @@ export class MarketMakingScanner extends EventEmitter {
             // Step 1: Fetch available tags to get tag IDs
             const tagIds = await this.fetchTagIds();
             
-            // Step 2: Build endpoints for specific categories
-            const endpoints = [
+            // Step 2: Build endpoints for specific categories (denied categories are not fetched;
+            // allowed ones the fixed list does not cover are fetched by tag slug)
+            const { allowCategories, denyCategories } = this.ruleFilter.rules;
+            const open = { active: true, closed: false };
+            const categoryEndpoint = (category: string, tagId: number | undefined, limit: number): GammaEventQuery[] =>
+                tagId && !denyCategories.some(deny => category.includes(deny))
+                    ? [{ ...open, tagId, limit, order: 'volume', ascending: false }]
+                    : [];
+            const endpoints: GammaEventQuery[] = [
                 // Featured markets (highlighted by Polymarket)
-                'https://gamma-api.polymarket.com/events?active=true&closed=false&featured=true&limit=100',
-                
-                // Sports markets
-                ...(tagIds.sports ? [
-                    `https://gamma-api.polymarket.com/events?active=true&closed=false&tag_id=${tagIds.sports}&limit=100&order=volume&ascending=false`
-                ] : []),
-                
-                // Crypto markets
-                ...(tagIds.crypto ? [
-                    `https://gamma-api.polymarket.com/events?active=true&closed=false&tag_id=${tagIds.crypto}&limit=100&order=volume&ascending=false`
-                ] : []),
-                
-                // Business/Finance markets
-                ...(tagIds.business ? [
-                    `https://gamma-api.polymarket.com/events?active=true&closed=false&tag_id=${tagIds.business}&limit=50&order=volume&ascending=false`
-                ] : []),
+                { ...open, featured: true, limit: 100 },
                 
-                // Politics markets
-                ...(tagIds.politics ? [
-                    `https://gamma-api.polymarket.com/events?active=true&closed=false&tag_id=${tagIds.politics}&limit=100&order=volume&ascending=false`
-                ] : []),
+                // Sports, crypto, business/finance and politics markets
+                ...categoryEndpoint('sports', tagIds.sports, 100),
+                ...categoryEndpoint('crypto', tagIds.crypto, 100),
+                ...categoryEndpoint('business', tagIds.business, 50),
+                ...categoryEndpoint('politics', tagIds.politics, 100),
+
+                // User-allowed categories
+                ...allowCategories
+                    .filter(category => !['sports', 'crypto', 'business', 'politics'].includes(category))
+                    .map((tagSlug): GammaEventQuery => ({ ...open, tagSlug, limit: 100, order: 'volume', ascending: false })),
                 
                 // Get trending markets (high volume, recent)
-                'https://gamma-api.polymarket.com/events?active=true&closed=false&limit=30&order=volume&ascending=false',
+                { ...open, limit: 30, order: 'volume', ascending: false },
                 
                 // Get newest markets (for breaking news)
-                'https://gamma-api.polymarket.com/events?active=true&closed=false&limit=30&order=id&ascending=false'
+                { ...open, limit: 30, order: 'id', ascending: false }
             ];
 
             let addedCount = 0;
@@ -332,24 +344,17 @@ export class MarketMakingScanner extends EventEmitter {
             const seenConditionIds = new Set<string>();
 
             // Process each endpoint
-            for (const url of endpoints) {
+            for (const query of endpoints) {
                 try {
-                    this.logger.debug(`Fetching: ${url}`);
+                    this.logger.debug(`Fetching events: ${JSON.stringify(query)}`);
                     
-                    const response = await this.rateLimiter.limit(() => fetch(url));
-                    if (!response.ok) {
-                        this.logger.debug(`Endpoint returned ${response.status}: ${url}`);
-                        continue;
-                    }
-                    
-                    const data = await response.json();
-                    const events = Array.isArray(data) ? data : (data.data || []);
+                    const events = await this.gamma.getEvents(query);
                     
-                    this.logger.debug(`Got ${events.length} events from ${url.split('?')[0]}`);
+                    this.logger.debug(`Got ${events.length} events`);
                     
                     for (const event of events) {
                         const markets = event.markets || [];
-                        const isFeatured = url.includes('featured=true');
+                        const isFeatured = query.featured === true;
                         
                         for (const market of markets) {
                             // Mark as featured if coming from featured endpoint
@@ -453,6 +458,19 @@ export class MarketMakingScanner extends EventEmitter {
         const status = this.computeMarketStatus(market);
         const volume24hr = this.parseNumber(market.volume24hr || market.volume24hrClob || 0);
         const category = this.extractCategory(event, market);
+        const rewardsDailyRate = this.parseRewardsDailyRate(market);
+        const endDate: string | undefined = market.endDate || event.endDate || undefined;
+        const tags: string[] = (Array.isArray(event.tags) ? event.tags : [])
+            .map((t: any) => String(t?.slug || t?.label || '').toLowerCase())
+            .filter(Boolean);
+
+        // User market rules: excluded markets are neither tracked nor subscribed
+        const rejection = this.ruleFilter.check({ conditionId, question: market.question || event.title, category, tags, endDate });
+        if (rejection) {
+            for (const tokenId of tokenIds) this.trackedMarkets.delete(tokenId);
+            this.opportunities = this.opportunities.filter(o => o.conditionId !== conditionId);
+            return result;
+        }
 
         // Process each token (YES and NO)
         for (let i = 0; i < tokenIds.length; i++) {
@@ -466,6 +484,11 @@ export class MarketMakingScanner extends EventEmitter {
                 existing.status = status;
                 existing.acceptingOrders = market.acceptingOrders !== false;
                 existing.volume24hr = volume24hr;
+                existing.rewardsMaxSpread = market.rewardsMaxSpread;
+                existing.rewardsMinSize = market.rewardsMinSize;
+                existing.rewardsDailyRate = rewardsDailyRate;
+                existing.endDate = endDate;
+                existing.tags = tags;
                 // Update prices if available
                 if (outcomePrices && outcomePrices[i]) {
                     const price = this.parseNumber(outcomePrices[i]);
@@ -507,6 +530,8 @@ export class MarketMakingScanner extends EventEmitter {
                 discoveredAt: Date.now(),
                 rewardsMaxSpread: market.rewardsMaxSpread,
                 rewardsMinSize: market.rewardsMinSize,
+                rewardsDailyRate,
+                endDate,
                 isYesToken,
                 pairedTokenId,
                 status,
@@ -515,6 +540,7 @@ export class MarketMakingScanner extends EventEmitter {
                 orderMinSize: this.parseNumber(market.orderMinSize || market.minimum_order_size || 5),
                 orderPriceMinTickSize: this.parseNumber(market.orderPriceMinTickSize || market.minimum_tick_size || 0.01),
                 category,
+                tags,
                 featured: market.featured === true || event.featured === true,
                 competitive: market.competitive
             });
@@ -526,6 +552,16 @@ export class MarketMakingScanner extends EventEmitter {
         return result;
     }
 
+    /**
+     * USD per day across the market's active reward programs (Gamma: clobRewards[].rewardsDailyRate)
+     */
+    private parseRewardsDailyRate(market: any): number | undefined {
+        const programs: any[] = Array.isArray(market.clobRewards) ? market.clobRewards : [];
+        const total = programs.reduce((sum, p) => sum + this.parseNumber(p?.rewardsDailyRate || 0), 0)
+            || this.parseNumber(market.rewardsDailyRate || 0);
+        return total > 0 ? total : undefined;
+    }
+
     /**
      * PRODUCTION: Parse JSON string to array
      */
@@ -635,10 +671,7 @@ export class MarketMakingScanner extends EventEmitter {
     async debugApiResponse() {
         try {
             // Test basic endpoint
-            const response = await fetch(
-                'https://gamma-api.polymarket.com/events?closed=false&limit=5&order=volume&ascending=false'
-            );
-            const data = await response.json();
+            const data = await this.gamma.getEvents({ closed: false, limit: 5, order: 'volume', ascending: false });
             
             this.logger.info('=== API TEST ===');
             this.logger.info(`Events count: ${data.length}`);
@@ -660,8 +693,7 @@ export class MarketMakingScanner extends EventEmitter {
             }
             
             // Test tags endpoint
-            const tagsResponse = await fetch('https://gamma-api.polymarket.com/tags?limit=20');
-            const tags = await tagsResponse.json();
+            const tags = await this.gamma.getTags(20);
             this.logger.info('\n=== TAGS ===');
             this.logger.info(`Sample tags: ${tags.slice(0, 5).map((t: any) => `${t.id}: ${t.slug}`).join(', ')}`);
             
@@ -675,22 +707,12 @@ export class MarketMakingScanner extends EventEmitter {
      */
     async addMarketByConditionId(conditionId: string): Promise<boolean> {
         try {
-            const response = await fetch(
-                `https://gamma-api.polymarket.com/markets?condition_id=${conditionId}`
-            );
-            
-            if (!response.ok) {
-                this.logger.warn(`Market not found: ${conditionId}`);
-                return false;
-            }
-            
-            const markets = await response.json();
-            if (!markets || markets.length === 0) {
+            const market = await this.gamma.getMarketByConditionId(conditionId);
+            if (!market) {
                 this.logger.warn(`Market not found: ${conditionId}`);
                 return false;
             }
 
-            const market = markets[0];
             const seenConditionIds = new Set<string>();
             const result = this.processMarketData(market, { title: market.question }, seenConditionIds);
             
@@ -714,16 +736,7 @@ export class MarketMakingScanner extends EventEmitter {
      */
     async addMarketBySlug(slug: string): Promise<boolean> {
         try {
-            const response = await fetch(
-                `https://gamma-api.polymarket.com/markets/slug/${slug}`
-            );
-            
-            if (!response.ok) {
-                this.logger.warn(`Market not found: ${slug}`);
-                return false;
-            }
-            
-            const market = await response.json();
+            const market = await this.gamma.getMarketBySlug(slug);
             if (!market || !market.conditionId) {
                 this.logger.warn(`Market not found by slug: ${slug}`);
                 return false;
@@ -924,6 +937,7 @@ export class MarketMakingScanner extends EventEmitter {
             market.bestBid = bestBid;
             market.bestAsk = bestAsk;
             market.spread = spread;
+            this.emit('topOfBook', { tokenId, bestBid, bestAsk });
             
             // If this is the first price update after discovery, log it
             if (market.discoveredAt && (Date.now() - market.discoveredAt) < 10000) {
@@ -953,6 +967,17 @@ export class MarketMakingScanner extends EventEmitter {
         market.bestBid = bestBid;
         market.bestAsk = bestAsk;
         market.spread = bestAsk - bestBid;
+        this.recordMidpoint(market);
+        this.toxicity.recordBook({
+            conditionId: market.conditionId,
+            tokenId,
+            direction: market.isYesToken === false ? -1 : 1,
+            bestBid,
+            bidSize: parseFloat(bids[0]?.size || '0'),
+            bestAsk,
+            askSize: parseFloat(asks[0]?.size || '0')
+        });
+        this.evaluateToxicity(market.conditionId);
 
         this.evaluateOpportunity(market);
     }
@@ -964,6 +989,7 @@ export class MarketMakingScanner extends EventEmitter {
         const outcomes: string[] = msg.outcomes || ['Yes', 'No'];
 
         if (assetIds.length !== 2) return;
+        if (this.ruleFilter.check({ conditionId, question }) !== null) return;
 
         this.logger.info(`🆕 NEW BINARY MARKET DETECTED: ${question}`);
 
@@ -1006,17 +1032,46 @@ export class MarketMakingScanner extends EventEmitter {
             if (change.best_bid) market.bestBid = parseFloat(change.best_bid);
             if (change.best_ask) market.bestAsk = parseFloat(change.best_ask);
             market.spread = market.bestAsk - market.bestBid;
+            this.recordMidpoint(market);
 
             this.evaluateOpportunity(market);
         }
     }
 
+    private recordMidpoint(market: TrackedMarket) {
+        if (!(market.bestBid > 0) || !(market.bestAsk > 0)) return;
+        // Paper sessions match their resting quotes against this
+        this.emit('topOfBook', { tokenId: market.tokenId, bestBid: market.bestBid, bestAsk: market.bestAsk });
+        const now = Date.now();
+        const mid = (market.bestBid + market.bestAsk) / 2;
+        this.toxicity.recordMidpoint(market.tokenId, mid);
+        const history = this.midpointHistory.get(market.tokenId) || [];
+        if (history.length > 0 && history[history.length - 1].mid === mid) return;
+        history.push({ t: now, mid });
+        while (history.length > MIDPOINT_HISTORY_MAX || (history.length > 0 && now - history[0].t > MIDPOINT_HISTORY_WINDOW)) history.shift();
+        this.midpointHistory.set(market.tokenId, history);
+    }
+
+    /**
+     * Recent book midpoints (last hour) for volatility-aware quoting.
+     */
+    getMidpointHistory(tokenId: string): MidpointSample[] {
+        return this.midpointHistory.get(tokenId) || [];
+    }
+
     private handleLastTradePrice(msg: any) {
         const tokenId = msg.asset_id;
         const price = parseFloat(msg.price);
         const market = this.trackedMarkets.get(tokenId);
         
         if (!market) return;
+        if (price > 0) this.emit('lastTrade', { tokenId, price });
+
+        const size = parseFloat(msg.size || '0');
+        const side = String(msg.side || '').toUpperCase();
+        if (side === 'BUY' || side === 'SELL') {
+            this.toxicity.recordTrade(market.conditionId, market.isYesToken === false ? -1 : 1, side, size);
+        }
 
         const lastMid = this.lastMidpoints.get(tokenId);
         
@@ -1026,13 +1081,46 @@ export class MarketMakingScanner extends EventEmitter {
             if (movePct > this.config.priceMoveThresholdPct) {
                 this.logger.warn(`🔴 FLASH MOVE: ${movePct.toFixed(1)}% on ${market.question.slice(0, 30)}...`);
                 
-                if (this.config.enableKillSwitch) {
+                if (this.config.enableToxicityGuard) {
+                    // Only this market stops quoting; everything else keeps running
+                    const state = this.toxicity.pull(market.conditionId, `flash move ${movePct.toFixed(1)}%`);
+                    this.emit('toxicity', { ...state, question: market.question });
+                } else if (this.config.enableKillSwitch) {
                     this.triggerKillSwitch(`Volatility spike on ${market.tokenId}`);
                 }
             }
         }
 
         this.lastMidpoints.set(tokenId, price);
+        this.evaluateToxicity(market.conditionId);
+    }
+
+    private evaluateToxicity(conditionId: string) {
+        const changed = this.toxicity.evaluate(conditionId);
+        if (!changed) return;
+        const question = Array.from(this.trackedMarkets.values()).find(m => m.conditionId === conditionId)?.question;
+        this.emit('toxicity', { ...changed, question });
+    }
+
+    /**
+     * Our market-making fill, for markouts against the midpoint shortly after.
+     */
+    recordQuoteFill(tokenId: string, side: 'BUY' | 'SELL', price: number, size: number) {
+        const market = this.trackedMarkets.get(tokenId);
+        if (!market) return;
+        this.toxicity.recordFill({ conditionId: market.conditionId, tokenId, side, price, size });
+        this.evaluateToxicity(market.conditionId);
+    }
+
+    /**
+     * Adverse-selection state for one market; undefined until it has seen flow.
+     */
+    getToxicity(conditionId: string): MarketToxicity | undefined {
+        return this.toxicity.getState(conditionId);
+    }
+
+    getToxicMarkets(): MarketToxicity[] {
+        return this.toxicity.getAll();
     }
 
     private handleMarketResolved(msg: any) {
@@ -1054,6 +1142,7 @@ export class MarketMakingScanner extends EventEmitter {
         }
 
         this.opportunities = this.opportunities.filter(o => o.conditionId !== conditionId);
+        this.toxicity.forget(conditionId);
 
         this.emit('marketResolved', {
             conditionId,
@@ -1097,6 +1186,12 @@ export class MarketMakingScanner extends EventEmitter {
         if (market.status !== 'active' || !market.acceptingOrders) {
             return;
         }
+
+        // 2b. User market rules (time-based ones such as minimum days to end can start failing later)
+        if (this.ruleFilter.check(market) !== null) {
+            this.opportunities = this.opportunities.filter(o => o.tokenId !== market.tokenId);
+            return;
+        }
         
         // 3. Calculate spread metrics
         const spread = market.spread;
@@ -1153,6 +1248,13 @@ export class MarketMakingScanner extends EventEmitter {
             isNew: isStillNew,
             rewardsMaxSpread: market.rewardsMaxSpread,
             rewardsMinSize: market.rewardsMinSize,
+            rewardsDailyRate: market.rewardsDailyRate,
+            endDate: market.endDate,
+            rewardYield: rewardYield(
+                { midpoint, rewardsMaxSpread: market.rewardsMaxSpread, rewardsMinSize: market.rewardsMinSize, rewardsDailyRate: market.rewardsDailyRate, liquidity: market.liquidity },
+                this.config.quoteSize,
+                this.config.spreadOffset
+            ),
             timestamp: Date.now(),
             roi: roi,
             combinedCost: combinedCost,
@@ -1187,7 +1289,10 @@ export class MarketMakingScanner extends EventEmitter {
         } catch (dbErr) {}
 
         this.opportunities.sort((a, b) => {
-            if (a.isNew !== b.isNew) return a.isNew ? -1 : 1;
+            if (this.config.preferNewMarkets && a.isNew !== b.isNew) return a.isNew ? -1 : 1;
+            if (this.config.preferRewardMarkets && (a.rewardYield || 0) !== (b.rewardYield || 0)) {
+                return (b.rewardYield || 0) - (a.rewardYield || 0);
+            }
             return b.spreadCents - a.spreadCents;
         });
 
@@ -1222,7 +1327,7 @@ export class MarketMakingScanner extends EventEmitter {
         }
 
         this.reconnectAttempts++;
-        const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), this.maxReconnectDelay);
+        const delay = reconnectDelay(this.reconnectAttempts, this.maxReconnectDelay);
 
         this.logger.info(`Reconnecting in ${delay}ms (${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
 
@@ -0,0 +1,120 @@
+import axios from 'axios';
+import { web3Service } from './web3.service.js';
+import { actionResource, buildSiweMessage } from '../utils/siwe.util.js';
+
+type StoredSession = { token: string; address: string; expiresAt: number };
+
+const STORAGE_KEY = 'bet_mirror_session';
+
+/**
+ * Browser side of Sign-In with Ethereum: keeps the bearer session on axios and
+ * produces the per-request signatures that withdrawal/key routes demand.
+ */
+export class AuthSessionService {
+  private session: StoredSession | null = null;
+  private interceptorId: number | null = null;
+  private signingIn: Promise<string> | null = null;
+
+  getToken(): string | null {
+    return this.session && this.session.expiresAt > Date.now() ? this.session.token : null;
+  }
+
+  /**
+   * Reuses a stored session for this address, or prompts the wallet for a SIWE signature.
+   */
+  async ensureSession(address: string): Promise<string> {
+    const stored = this.load();
+    if (stored && stored.address === address.toLowerCase() && stored.expiresAt > Date.now() + 60_000) {
+      this.apply(stored);
+      return stored.token;
+    }
+    return this.signIn(address);
+  }
+
+  async signIn(address: string): Promise<string> {
+    // Concurrent 401s share one wallet prompt
+    if (this.signingIn) return this.signingIn;
+    this.signingIn = (async () => {
+      const message = await this.buildMessage(address, 'Sign in to Bet Mirror to manage your trading bot.');
+      const signature = await web3Service.signMessage(message);
+      const res = await axios.post('/api/auth/verify', { message, signature });
+      const session: StoredSession = res.data;
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+      this.apply(session);
+      return session.token;
+    })();
+    try {
+      return await this.signingIn;
+    } finally {
+      this.signingIn = null;
+    }
+  }
+
+  async signOut(): Promise<void> {
+    try {
+      if (this.getToken()) await axios.post('/api/auth/logout');
+    } catch (e) {
+      // Session expires server-side anyway
+    }
+    localStorage.removeItem(STORAGE_KEY);
+    this.session = null;
+    delete axios.defaults.headers.common['Authorization'];
+  }
+
+  /**
+   * Fresh signature binding `action` to the exact request body (minus `authorization`).
+   */
+  async signAction(address: string, action: string, payload: Record<string, any>): Promise<{ message: string; signature: string }> {
+    const message = await this.buildMessage(
+      address,
+      `Authorize ${action} for ${address}.`,
+      [actionResource(action, payload)]
+    );
+    const signature = await web3Service.signMessage(message);
+    return { message, signature };
+  }
+
+  private async buildMessage(address: string, statement: string, resources?: string[]): Promise<string> {
+    const { data } = await axios.get('/api/auth/nonce', { params: { address } });
+    return buildSiweMessage({
+      domain: data.domain || window.location.host,
+      address,
+      statement,
+      uri: window.location.origin,
+      version: '1',
+      chainId: 137,
+      nonce: data.nonce,
+      issuedAt: new Date().toISOString(),
+      resources
+    });
+  }
+
+  private apply(session: StoredSession) {
+    this.session = session;
+    axios.defaults.headers.common['Authorization'] = `Bearer ${session.token}`;
+    if (this.interceptorId !== null) return;
+
+    // Expired session: sign in again once, then replay the request
+    this.interceptorId = axios.interceptors.response.use(undefined, async (error) => {
+      const original = error.config;
+      if (error.response?.status === 401 && error.response?.data?.code === 'SESSION_REQUIRED' && this.session && !original?._retried) {
+        const token = await this.signIn(this.session.address);
+        original._retried = true;
+        original.headers = { ...original.headers, Authorization: `Bearer ${token}` };
+        return axios(original);
+      }
+      throw error;
+    });
+  }
+
+  private load(): StoredSession | null {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      return raw ? JSON.parse(raw) : null;
+    } catch (e) {
+      return null;
+    }
+  }
+}
+
+export const authSession = new AuthSessionService();
@@ -0,0 +1,108 @@
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+import { AuthNonce, AuthSession } from '../database/index.js';
+import { SiweFields, actionResource, parseSiweMessage } from '../utils/siwe.util.js';
+import { Logger } from '../utils/logger.util.js';
+
+export type SignedAuthorization = { message: string; signature: string };
+
+export class AuthError extends Error {
+  constructor(message: string, public status = 401) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+/**
+ * Sign-In with Ethereum (EIP-4361) sessions, plus one-shot signatures for sensitive actions.
+ */
+export class AuthService {
+  private readonly SESSION_TTL = 4 * 60 * 60 * 1000; // 4 hours
+  private readonly MAX_MESSAGE_AGE = 10 * 60 * 1000; // Matches the AuthNonce TTL
+  private readonly ACTION_MAX_AGE = 2 * 60 * 1000; // Fresh signatures must be fresh
+  private readonly CLOCK_SKEW = 60 * 1000;
+
+  constructor(private logger: Logger, private domain?: string) {}
+
+  async createNonce(address?: string): Promise<string> {
+    const nonce = crypto.randomBytes(16).toString('hex');
+    await AuthNonce.create({ nonce, address: (address || '').toLowerCase() });
+    return nonce;
+  }
+
+  /**
+   * Verifies a signed SIWE message and issues a bearer session bound to the signer.
+   */
+  async signIn(message: string, signature: string, requestDomain: string): Promise<{ token: string; address: string; expiresAt: number }> {
+    const fields = await this.verifySignedMessage(message, signature, requestDomain, this.MAX_MESSAGE_AGE);
+    const address = fields.address.toLowerCase();
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const expiresAt = Date.now() + this.SESSION_TTL;
+    await AuthSession.create({ tokenHash: sha256(token), address, expiresAt: new Date(expiresAt) });
+
+    this.logger.info(`[Auth] Session issued for ${address}`);
+    return { token, address, expiresAt };
+  }
+
+  async resolveSession(token?: string): Promise<string | null> {
+    if (!token) return null;
+    const session = await AuthSession.findOne({ tokenHash: sha256(token) }).lean();
+    if (!session || session.expiresAt.getTime() < Date.now()) return null;
+    return session.address;
+  }
+
+  async signOut(token: string): Promise<void> {
+    await AuthSession.deleteOne({ tokenHash: sha256(token) });
+  }
+
+  /**
+   * Checks a per-request signature: fresh SIWE message from the session owner whose
+   * resources bind it to this action and exact payload.
+   */
+  async verifyAction(address: string, action: string, payload: Record<string, any>, auth: SignedAuthorization | undefined, requestDomain: string): Promise<void> {
+    if (!auth?.message || !auth?.signature) throw new AuthError('Fresh wallet signature required for this action', 428);
+
+    const fields = await this.verifySignedMessage(auth.message, auth.signature, requestDomain, this.ACTION_MAX_AGE);
+    if (fields.address.toLowerCase() !== address.toLowerCase()) throw new AuthError('Signature does not belong to the session wallet', 403);
+    if (!fields.resources?.includes(actionResource(action, payload))) {
+      throw new AuthError(`Signature does not authorize ${action} with these parameters`, 403);
+    }
+  }
+
+  private async verifySignedMessage(message: string, signature: string, requestDomain: string, maxAge: number): Promise<SiweFields> {
+    if (!message || !signature) throw new AuthError('message and signature required', 400);
+
+    let fields: SiweFields;
+    try {
+      fields = parseSiweMessage(message);
+    } catch (e: any) {
+      throw new AuthError(e.message, 400);
+    }
+
+    const expectedDomain = this.domain || requestDomain;
+    if (fields.domain !== expectedDomain) throw new AuthError(`Domain mismatch: ${fields.domain}`);
+
+    const now = Date.now();
+    const issuedAt = Date.parse(fields.issuedAt);
+    if (isNaN(issuedAt) || issuedAt > now + this.CLOCK_SKEW || now - issuedAt > maxAge) throw new AuthError('Message expired');
+    if (fields.expirationTime && Date.parse(fields.expirationTime) < now) throw new AuthError('Message expired');
+
+    let recovered: string;
+    try {
+      recovered = ethers.verifyMessage(message, signature);
+    } catch (e) {
+      throw new AuthError('Invalid signature');
+    }
+    if (recovered.toLowerCase() !== fields.address.toLowerCase()) throw new AuthError('Invalid signature');
+
+    // Single use: consuming the nonce is what stops replays
+    const nonce = await AuthNonce.findOneAndDelete({ nonce: fields.nonce });
+    if (!nonce) throw new AuthError('Unknown or already used nonce');
+    if (nonce.address && nonce.address !== fields.address.toLowerCase()) throw new AuthError('Nonce was issued for another address');
+
+    return fields;
+  }
+}
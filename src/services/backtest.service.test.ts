@@ -0,0 +1,94 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { Logger } from '../utils/logger.util.js';
+import { BacktestOptions, BacktestService, HistoricalActivity, loadActivityFixtures } from './backtest.service.js';
+
+const logger: Logger = { info: () => {}, warn: () => {}, error: () => {}, debug: () => {}, success: () => {} };
+
+const TRADER = '0xWhale';
+const T0 = Date.UTC(2025, 0, 1);
+const MINUTE = 60 * 1000;
+
+const OPTIONS: BacktestOptions = {
+  traders: [TRADER],
+  from: T0,
+  to: T0 + 60 * MINUTE,
+  startingBalance: 1000,
+  strategy: { multiplier: 1, maxTradeAmount: 100, riskProfile: 'balanced' },
+  traderBalanceUsd: 10000,
+  spreadCents: 0
+};
+
+const trade = (minute: number, side: 'BUY' | 'SELL', price: number, usdcSize: number, proxyWallet = TRADER): HistoricalActivity => ({
+  type: 'TRADE',
+  timestamp: (T0 + minute * MINUTE) / 1000,
+  proxyWallet,
+  conditionId: 'cond',
+  asset: 'yes',
+  outcomeIndex: 0,
+  side,
+  price,
+  usdcSize,
+  size: usdcSize / price
+});
+
+describe('BacktestService', () => {
+  it('copies a followed trader and settles the position at resolution', async () => {
+    const report = await new BacktestService(OPTIONS, logger).run([
+      { type: 'RESOLUTION', timestamp: (T0 + 30 * MINUTE) / 1000, conditionId: 'cond', asset: 'yes', winningAsset: 'yes' },
+      trade(1, 'BUY', 0.5, 500)
+    ]);
+
+    expect(report).toMatchObject({ signals: 1, copied: 1, skipped: 0, wins: 1, losses: 0 });
+    expect(report.realizedPnl).toBeGreaterThan(0);
+    expect(report.finalEquity).toBeCloseTo(1000 + report.realizedPnl, 6);
+    expect(report.equityCurve.map(p => p.timestamp)).toEqual([T0 + MINUTE, T0 + 30 * MINUTE]);
+  });
+
+  it('ignores other wallets and activity outside the window', async () => {
+    const report = await new BacktestService(OPTIONS, logger).run([
+      trade(1, 'BUY', 0.5, 500, '0xsomeoneelse'),
+      trade(120, 'BUY', 0.5, 500)
+    ]);
+
+    expect(report).toMatchObject({ signals: 0, copied: 0, finalEquity: 1000 });
+  });
+
+  it('buckets skipped signals by reason', async () => {
+    const report = await new BacktestService({ ...OPTIONS, strategy: { ...OPTIONS.strategy, riskProfile: 'conservative' } }, logger).run([
+      trade(1, 'BUY', 0.9, 500),
+      trade(2, 'SELL', 0.5, 500)
+    ]);
+
+    expect(report).toMatchObject({ signals: 2, copied: 0, skipped: 2 });
+    expect(report.skipReasons).toEqual({ risk_profile_price_band: 1, no_position_to_sell: 1 });
+  });
+
+  it('tracks the drawdown of the equity curve', async () => {
+    const report = await new BacktestService(OPTIONS, logger).run([
+      trade(1, 'BUY', 0.5, 500),
+      trade(2, 'BUY', 0.25, 10, '0xsomeoneelse')
+    ]);
+
+    expect(report.maxDrawdown).toBeGreaterThan(0);
+    expect(report.unrealizedPnl).toBeCloseTo(-report.maxDrawdown, 6);
+  });
+});
+
+describe('loadActivityFixtures', () => {
+  it('reads JSON arrays and NDJSON rows', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'backtest-fixtures-'));
+    try {
+      const json = path.join(dir, 'trades.json');
+      const ndjson = path.join(dir, 'trades.ndjson');
+      fs.writeFileSync(json, JSON.stringify([trade(1, 'BUY', 0.5, 10)]));
+      fs.writeFileSync(ndjson, `${JSON.stringify(trade(2, 'SELL', 0.6, 10))}\n\n${JSON.stringify(trade(3, 'BUY', 0.4, 10))}\n`);
+
+      expect(loadActivityFixtures([json, ndjson]).map(a => a.side)).toEqual(['BUY', 'SELL', 'BUY']);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
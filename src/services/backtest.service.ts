@@ -0,0 +1,367 @@
+import fs from 'fs';
+import path from 'path';
+import type { Logger } from '../utils/logger.util.js';
+import { createOfflineEnv, RuntimeEnv } from '../config/env.js';
+import type { TradeSignal } from '../domain/trade.types.js';
+import type { OrderBook } from '../domain/market.types.js';
+import type { SizingStrategyConfig } from '../config/copy-strategy.js';
+import { TargetWalletInput, normalizeTargets } from '../config/copy-targets.js';
+import { resolveOutcomeLabel } from '../utils/outcome.util.js';
+import { PaperExchangeAdapter } from '../adapters/paper/paper.adapter.js';
+import { TradeExecutorService } from './trade-executor.service.js';
+
+/**
+ * Recorded data-api activity row (same shape the live TradeMonitor polls),
+ * plus an optional RESOLUTION row so replays can settle markets.
+ */
+export interface HistoricalActivity {
+    type: string; // "TRADE" | "ORDER_FILLED" | "RESOLUTION"
+    timestamp: number;
+    proxyWallet?: string;
+    conditionId: string;
+    asset: string;
+    side?: string;
+    size?: number;
+    price?: number;
+    usdcSize?: number;
+    outcomeIndex?: number;
+    outcome?: string; // Label as reported by the activity feed
+    title?: string;
+    slug?: string;
+    transactionHash?: string;
+    // RESOLUTION rows: winning token id
+    winningAsset?: string;
+}
+
+export interface BacktestStrategy {
+    multiplier: number;
+    maxTradeAmount: number;
+    riskProfile: 'conservative' | 'balanced' | 'degen';
+    minLiquidityFilter?: 'HIGH' | 'MEDIUM' | 'LOW';
+    autoTp?: number; // Take profit, % gain over entry
+    sizingStrategy?: SizingStrategyConfig;
+}
+
+export interface BacktestOptions {
+    traders: TargetWalletInput[]; // Plain addresses or per-target overrides
+    from: number; // ms
+    to: number;   // ms
+    startingBalance: number;
+    strategy: BacktestStrategy;
+    traderBalanceUsd?: number;  // Whale bankroll used for proportional sizing
+    traderWinRate?: number;     // Registry-style win rate (percent) for Kelly sizing
+    spreadCents?: number;       // Synthetic book spread around each print
+    depthUsd?: number;          // Synthetic book depth per side
+}
+
+export interface EquityPoint {
+    timestamp: number;
+    equity: number;
+}
+
+export interface BacktestReport {
+    startingBalance: number;
+    finalEquity: number;
+    realizedPnl: number;
+    unrealizedPnl: number;
+    returnPct: number;
+    signals: number;
+    copied: number;
+    skipped: number;
+    wins: number;
+    losses: number;
+    winRate: number;
+    maxDrawdown: number;
+    maxDrawdownPct: number;
+    skipReasons: Record<string, number>;
+    equityCurve: EquityPoint[];
+}
+
+/**
+ * Reads recorded activity from .json (array) or .ndjson/.jsonl (one row per line) fixtures.
+ */
+export function loadActivityFixtures(files: string[]): HistoricalActivity[] {
+    const rows: HistoricalActivity[] = [];
+    for (const file of files) {
+        const raw = fs.readFileSync(file, 'utf8');
+        const ext = path.extname(file).toLowerCase();
+        if (ext === '.ndjson' || ext === '.jsonl') {
+            for (const line of raw.split('\n')) {
+                if (line.trim()) rows.push(JSON.parse(line));
+            }
+        } else {
+            const parsed = JSON.parse(raw);
+            rows.push(...(Array.isArray(parsed) ? parsed : [parsed]));
+        }
+    }
+    return rows;
+}
+
+const toMs = (ts: number) => (ts > 1e11 ? ts : ts * 1000);
+
+/**
+ * Replays historical trader activity through the live sizing engine and executor checks,
+ * filling against synthetic orderbooks on a paper ledger.
+ */
+export class BacktestService {
+    private clock = 0;
+    private adapter: PaperExchangeAdapter;
+    private skipReasons: Record<string, number> = {};
+    private equityCurve: EquityPoint[] = [];
+    private marketTokens: Map<string, Map<string, string>> = new Map(); // conditionId -> tokenId -> outcome
+    private traderTradeSizes: Map<string, number[]> = new Map();
+    private traderShares: Map<string, number> = new Map(); // trader:tokenId -> shares bought minus sold in the replay
+    private signals = 0;
+    private copied = 0;
+
+    constructor(
+        private options: BacktestOptions,
+        private logger: Logger
+    ) {
+        this.adapter = new PaperExchangeAdapter({
+            userId: 'backtest',
+            startingBalance: options.startingBalance,
+            persist: false,
+            now: () => this.clock
+        }, logger);
+    }
+
+    async run(activity: HistoricalActivity[]): Promise<BacktestReport> {
+        await this.adapter.initialize();
+
+        const targets = new Set(normalizeTargets(this.options.traders).map(t => t.address));
+        const events = activity
+            .map(a => ({ ...a, timestamp: toMs(a.timestamp) }))
+            .filter(a => a.timestamp >= this.options.from && a.timestamp <= this.options.to)
+            .sort((a, b) => a.timestamp - b.timestamp);
+
+        this.logger.info(`Replaying ${events.length} events for ${targets.size} trader(s)...`);
+
+        for (const event of events) {
+            this.clock = event.timestamp;
+
+            if (event.type === 'RESOLUTION') {
+                if (event.winningAsset) this.adapter.resolveMarket(event.conditionId, event.winningAsset);
+                await this.adapter.redeemPosition(event.conditionId, event.winningAsset || '');
+                this.recordEquity();
+                continue;
+            }
+            if (event.type !== 'TRADE' && event.type !== 'ORDER_FILLED') continue;
+            if (event.price === undefined || !event.side) continue;
+
+            this.trackMarket(event);
+            this.recordSyntheticBook(event.asset, event.price);
+            await this.checkTakeProfit(event.asset);
+
+            const trader = (event.proxyWallet || '').toLowerCase();
+            const sizes = this.traderTradeSizes.get(trader) || [];
+            this.traderTradeSizes.set(trader, sizes);
+
+            if (targets.size > 0 && !targets.has(trader)) {
+                this.recordEquity();
+                continue;
+            }
+
+            const sizeUsd = event.usdcSize || ((event.size || 0) * event.price);
+            // Replay the trader's own holdings first, so exits see what is left after this fill
+            const sharesKey = `${trader}:${event.asset}`;
+            const held = this.traderShares.get(sharesKey);
+            const shares = event.size || (event.price > 0 ? sizeUsd / event.price : 0);
+            if (event.side.toUpperCase() === 'BUY') this.traderShares.set(sharesKey, (held || 0) + shares);
+            else if (held !== undefined) this.traderShares.set(sharesKey, Math.max(0, held - shares));
+            await this.replaySignal({
+                trader,
+                marketId: event.conditionId,
+                tokenId: event.asset,
+                outcome: resolveOutcomeLabel(event.outcome, event.outcomeIndex),
+                outcomeIndex: event.outcomeIndex,
+                side: event.side.toUpperCase() as 'BUY' | 'SELL',
+                sizeUsd,
+                price: event.price,
+                timestamp: event.timestamp
+            });
+            // Only trades seen before the signal count towards the trader's median
+            sizes.push(sizeUsd);
+            this.recordEquity();
+        }
+
+        return this.buildReport();
+    }
+
+    private async replaySignal(signal: TradeSignal): Promise<void> {
+        this.signals++;
+
+        // Offline stand-in for the AI risk gate: the conservative band from the analyst prompt
+        if (this.options.strategy.riskProfile === 'conservative' && (signal.price < 0.20 || signal.price > 0.80)) {
+            this.skip('risk_profile_price_band');
+            return;
+        }
+
+        if (signal.side === 'SELL') {
+            const positions = await this.adapter.getPositions('backtest');
+            if (!positions.some(p => p.tokenId === signal.tokenId)) {
+                this.skip('no_position_to_sell');
+                return;
+            }
+        }
+
+        // Paper fills debit cash immediately, so a fresh executor per signal keeps the
+        // live in-flight spend reservation from compounding across replayed trades.
+        const executor = new TradeExecutorService({
+            adapter: this.adapter,
+            env: this.buildEnv(),
+            logger: this.logger,
+            proxyWallet: 'backtest',
+            traderBalanceProvider: async () => this.options.traderBalanceUsd ?? 10000,
+            // Buys before the replay window are unknown; those exits fall back to USD sizing
+            traderPositionProvider: async (trader, _conditionId, tokenId) => this.traderShares.get(`${trader}:${tokenId}`) ?? null,
+            traderStatsProvider: async (trader) => ({
+                winRate: this.options.traderWinRate,
+                medianTradeUsd: this.median(this.traderTradeSizes.get(trader) || [])
+            })
+        });
+
+        const result = await executor.copyTrade(signal);
+        if (result.status === 'FILLED') {
+            this.copied++;
+        } else {
+            this.skip(this.normalizeReason(result.reason || result.status));
+        }
+    }
+
+    private async checkTakeProfit(tokenId: string): Promise<void> {
+        const autoTp = this.options.strategy.autoTp;
+        if (!autoTp) return;
+
+        const positions = await this.adapter.getPositions('backtest');
+        const pos = positions.find(p => p.tokenId === tokenId);
+        if (!pos || pos.entryPrice <= 0) return;
+
+        const gainPct = ((pos.currentPrice - pos.entryPrice) / pos.entryPrice) * 100;
+        if (gainPct < autoTp) return;
+
+        const result = await this.adapter.createOrder({
+            marketId: pos.marketId,
+            tokenId: pos.tokenId,
+            outcome: pos.outcome,
+            side: 'SELL',
+            sizeUsd: pos.valueUsd,
+            sizeShares: pos.balance,
+            orderType: 'FAK'
+        });
+        if (result.success) {
+            this.logger.info(`🎯 [TP] Closed ${pos.tokenId.slice(0, 8)}... at +${gainPct.toFixed(1)}%`);
+        }
+    }
+
+    private buildEnv(): RuntimeEnv {
+        const { strategy } = this.options;
+        return createOfflineEnv({
+            tradeMultiplier: strategy.multiplier,
+            maxTradeAmount: strategy.maxTradeAmount,
+            minLiquidityFilter: strategy.minLiquidityFilter || 'LOW',
+            sizingStrategy: strategy.sizingStrategy,
+            targets: normalizeTargets(this.options.traders)
+        });
+    }
+
+    private median(values: number[]): number | undefined {
+        if (values.length === 0) return undefined;
+        const sorted = [...values].sort((a, b) => a - b);
+        const mid = Math.floor(sorted.length / 2);
+        return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+    }
+
+    private trackMarket(event: HistoricalActivity): void {
+        const tokens = this.marketTokens.get(event.conditionId) || new Map<string, string>();
+        tokens.set(event.asset, resolveOutcomeLabel(event.outcome, event.outcomeIndex));
+        this.marketTokens.set(event.conditionId, tokens);
+        this.adapter.registerMarket({
+            condition_id: event.conditionId,
+            question: event.title,
+            market_slug: event.slug,
+            tokens: Array.from(tokens.entries()).map(([tokenId, outcome]) => ({ token_id: tokenId, outcome }))
+        });
+    }
+
+    /**
+     * Builds a symmetric book around the print. The opposite token of a binary
+     * market is quoted at the complement so exits stay priceable.
+     */
+    private recordSyntheticBook(tokenId: string, price: number): void {
+        this.adapter.recordOrderBook(tokenId, this.syntheticBook(price));
+        this.adapter.replayPrice(tokenId, price);
+
+        for (const tokens of this.marketTokens.values()) {
+            if (!tokens.has(tokenId) || tokens.size !== 2) continue;
+            for (const other of tokens.keys()) {
+                if (other !== tokenId) this.adapter.recordOrderBook(other, this.syntheticBook(1 - price));
+            }
+        }
+    }
+
+    private syntheticBook(price: number): OrderBook {
+        const half = (this.options.spreadCents ?? 1) / 200;
+        const depthUsd = this.options.depthUsd ?? 1000;
+        const bid = Math.max(0.001, Math.round((price - half) * 1000) / 1000);
+        const ask = Math.min(0.999, Math.round((price + half) * 1000) / 1000);
+        return {
+            bids: [{ price: bid, size: depthUsd / bid }],
+            asks: [{ price: ask, size: depthUsd / ask }],
+            min_order_size: 5,
+            tick_size: 0.001
+        };
+    }
+
+    private skip(reason: string): void {
+        this.skipReasons[reason] = (this.skipReasons[reason] || 0) + 1;
+    }
+
+    // Strip dynamic detail (balances, amounts) so reasons bucket together
+    private normalizeReason(reason: string): string {
+        return reason.split(' (')[0].split(':')[0].trim();
+    }
+
+    private recordEquity(): void {
+        const { equity } = this.adapter.getLedgerSummary();
+        this.equityCurve.push({ timestamp: this.clock, equity });
+    }
+
+    private buildReport(): BacktestReport {
+        const summary = this.adapter.getLedgerSummary();
+        const closes = this.adapter.getFills().filter(f => f.realizedPnl !== undefined);
+        const wins = closes.filter(f => (f.realizedPnl || 0) > 0).length;
+        const losses = closes.length - wins;
+
+        let peak = this.options.startingBalance;
+        let maxDrawdown = 0;
+        let maxDrawdownPct = 0;
+        for (const point of this.equityCurve) {
+            peak = Math.max(peak, point.equity);
+            const dd = peak - point.equity;
+            if (dd > maxDrawdown) {
+                maxDrawdown = dd;
+                maxDrawdownPct = peak > 0 ? (dd / peak) * 100 : 0;
+            }
+        }
+
+        const totalPnl = summary.equity - this.options.startingBalance;
+        return {
+            startingBalance: this.options.startingBalance,
+            finalEquity: summary.equity,
+            realizedPnl: summary.realizedPnl,
+            unrealizedPnl: totalPnl - summary.realizedPnl,
+            returnPct: this.options.startingBalance > 0 ? (totalPnl / this.options.startingBalance) * 100 : 0,
+            signals: this.signals,
+            copied: this.copied,
+            skipped: this.signals - this.copied,
+            wins,
+            losses,
+            winRate: closes.length > 0 ? (wins / closes.length) * 100 : 0,
+            maxDrawdown,
+            maxDrawdownPct,
+            skipReasons: this.skipReasons,
+            equityCurve: this.equityCurve
+        };
+    }
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it, vi } from 'vitest';
+import { copySlippageCents, percentile, skipReasonKey, summarizeCopyQuality } from './copy-quality.service.js';
+
+vi.mock('../database/index.js', () => ({ CopiedTrade: {}, paperScope: () => ({}) }));
+
+describe('copySlippageCents', () => {
+  it('is positive when we filled worse than the trader', () => {
+    expect(copySlippageCents('BUY', 0.5, 0.52)).toBeCloseTo(2, 9);
+    expect(copySlippageCents('SELL', 0.5, 0.52)).toBeCloseTo(-2, 9);
+  });
+
+  it('is undefined without a fill or a trader price', () => {
+    expect(copySlippageCents('BUY', 0.5)).toBeUndefined();
+    expect(copySlippageCents('BUY', 0, 0.5)).toBeUndefined();
+  });
+});
+
+describe('percentile', () => {
+  it('uses the nearest rank', () => {
+    const values = [5, 1, 4, 2, 3];
+    expect(percentile(values, 50)).toBe(3);
+    expect(percentile(values, 95)).toBe(5);
+    expect(percentile([], 50)).toBe(0);
+  });
+});
+
+describe('skipReasonKey', () => {
+  it('drops the details after the reason key', () => {
+    expect(skipReasonKey('insufficient_funds (balance: 1.20)')).toBe('insufficient_funds');
+    expect(skipReasonKey('target_category_denied:Sports')).toBe('target_category_denied');
+    expect(skipReasonKey(undefined)).toBe('unknown');
+  });
+});
+
+describe('summarizeCopyQuality', () => {
+  it('counts outcomes and keeps each latency stage apart', () => {
+    const summary = summarizeCopyQuality('0xabc', [
+      { status: 'FILLED', slippageCents: 1, detectionLatencyMs: 2000, aggregationDelayMs: 30000, executionLatencyMs: 800 },
+      { status: 'FILLED', slippageCents: 3, detectionLatencyMs: 4000, aggregationDelayMs: 0, executionLatencyMs: 1200 },
+      { status: 'SKIPPED', reason: 'ai_rejected', detectionLatencyMs: 3000, aggregationDelayMs: 30000 },
+      { isSuccessful: false, reason: 'insufficient_funds (balance: 0)' }
+    ]);
+
+    expect(summary).toMatchObject({ attempts: 4, filled: 2, skipped: 1, failed: 1, skipRate: 0.5 });
+    expect(summary.executionLatencyMs).toEqual({ median: 800, p95: 1200, samples: 2 });
+    expect(summary.aggregationDelayMs).toEqual({ median: 30000, p95: 30000, samples: 3 });
+    expect(summary.skipReasons.map(r => r.reason)).toEqual(['ai_rejected', 'insufficient_funds']);
+  });
+
+  it('treats legacy rows without a status by their success flag', () => {
+    expect(summarizeCopyQuality('0xabc', [{ isSuccessful: true }, {}]).filled).toBe(2);
+  });
+});
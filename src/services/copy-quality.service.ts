@@ -0,0 +1,162 @@
+import crypto from 'crypto';
+import { CopiedTrade, paperScope } from '../database/index.js';
+import { CopyOutcome, CopyQualitySummary, CopySkipReason, Distribution } from '../domain/alpha.types.js';
+import { TradeSignal } from '../domain/trade.types.js';
+import { Logger } from '../utils/logger.util.js';
+
+export type CopyQualityDeps = {
+  userId: string;
+  // Paper copies are stored tagged and left out of every summary
+  paper?: boolean;
+  logger: Logger;
+};
+
+// What our side of the copy produced; skips before the executor ran have no fill
+export type CopyFill = {
+  priceFilled?: number;
+  executedAmount?: number;
+  txHash?: string;
+  orderId?: string;
+  startedAt?: number; // When the executor took the signal
+};
+
+const DEFAULT_DAYS = 30;
+const MAX_RECORDS = 5000;
+
+/**
+ * Cents per share we paid above (BUY) or received below (SELL) the trader's price.
+ * Undefined when nothing filled.
+ */
+export function copySlippageCents(side: 'BUY' | 'SELL', traderPrice: number, fillPrice?: number): number | undefined {
+  if (!(fillPrice !== undefined && fillPrice > 0) || !(traderPrice > 0)) return undefined;
+  const diff = side === 'BUY' ? fillPrice - traderPrice : traderPrice - fillPrice;
+  return parseFloat((diff * 100).toFixed(3));
+}
+
+/**
+ * Nearest-rank percentile (p in 0-100) of unsorted values; 0 for an empty list.
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))];
+}
+
+/**
+ * Executor reasons carry details ("insufficient_funds (balance: ...)", "target_category_denied:Sports");
+ * skips are grouped by the leading key.
+ */
+export function skipReasonKey(reason?: string): string {
+  const key = (reason || '').trim().split(/[\s:(]/)[0];
+  return key || 'unknown';
+}
+
+const distributionOf = (values: number[]): Distribution => ({
+  median: parseFloat(percentile(values, 50).toFixed(3)),
+  p95: parseFloat(percentile(values, 95).toFixed(3)),
+  samples: values.length
+});
+
+type CopyRecord = {
+  status?: CopyOutcome;
+  isSuccessful?: boolean;
+  reason?: string;
+  slippageCents?: number;
+  detectionLatencyMs?: number;
+  aggregationDelayMs?: number;
+  executionLatencyMs?: number;
+};
+
+export function summarizeCopyQuality(wallet: string, records: CopyRecord[], days = DEFAULT_DAYS): CopyQualitySummary {
+  // Rows written before copy quality was tracked only know whether they succeeded
+  const statusOf = (r: CopyRecord): CopyOutcome => r.status || (r.isSuccessful === false ? 'FAILED' : 'FILLED');
+  const numbers = (pick: (r: CopyRecord) => number | undefined, rows: CopyRecord[]) =>
+    rows.map(pick).filter((v): v is number => typeof v === 'number' && Number.isFinite(v));
+
+  const filled = records.filter(r => statusOf(r) === 'FILLED');
+  const missed = records.filter(r => statusOf(r) !== 'FILLED');
+  const counts = new Map<string, number>();
+  for (const r of missed) {
+    const key = skipReasonKey(r.reason);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+  const skipReasons: CopySkipReason[] = Array.from(counts, ([reason, count]) => ({
+    reason,
+    count,
+    rate: parseFloat((count / records.length).toFixed(4))
+  })).sort((a, b) => b.count - a.count);
+
+  return {
+    wallet,
+    days,
+    attempts: records.length,
+    filled: filled.length,
+    skipped: missed.filter(r => statusOf(r) === 'SKIPPED').length,
+    failed: missed.filter(r => statusOf(r) === 'FAILED').length,
+    skipRate: records.length > 0 ? parseFloat((missed.length / records.length).toFixed(4)) : 0,
+    slippageCents: distributionOf(numbers(r => r.slippageCents, filled)),
+    detectionLatencyMs: distributionOf(numbers(r => r.detectionLatencyMs, records)),
+    aggregationDelayMs: distributionOf(numbers(r => r.aggregationDelayMs, records)),
+    executionLatencyMs: distributionOf(numbers(r => r.executionLatencyMs, filled)),
+    skipReasons
+  };
+}
+
+/**
+ * Copy quality of one followed wallet over the last `days`, across every live bot copying it.
+ */
+export async function getCopyQualitySummary(wallet: string, days = DEFAULT_DAYS): Promise<CopyQualitySummary> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const records = await CopiedTrade.find({ sourceWallet: wallet.toLowerCase(), paper: paperScope(false), timestamp: { $gte: since } })
+    .sort({ timestamp: -1 })
+    .limit(MAX_RECORDS)
+    .select('status isSuccessful reason slippageCents detectionLatencyMs aggregationDelayMs executionLatencyMs')
+    .lean();
+  return summarizeCopyQuality(wallet.toLowerCase(), records as CopyRecord[], days);
+}
+
+/**
+ * Writes one CopiedTrade per copy attempt: how late we saw the trader's fill, how long it
+ * waited in aggregation, how long our order took once the executor had it, and how far our
+ * fill landed from the trader's price. Skips and failures are kept too, so the skip rate per
+ * wallet can be read back.
+ */
+export class CopyQualityService {
+  constructor(private readonly deps: CopyQualityDeps) {}
+
+  /**
+   * Store failures never fail the copy itself.
+   */
+  async record(signal: TradeSignal, status: CopyOutcome, reason?: string, fill: CopyFill = {}, completedAt = Date.now()): Promise<void> {
+    const { detectedAt, flushedAt } = signal;
+    const priceFilled = status === 'FILLED' ? fill.priceFilled : undefined;
+    try {
+      await CopiedTrade.create({
+        sourceWallet: signal.trader.toLowerCase(),
+        copierUserId: this.deps.userId,
+        tradeId: fill.orderId || crypto.randomUUID(),
+        marketId: signal.marketId,
+        outcome: signal.outcome || 'UNKNOWN',
+        side: signal.side,
+        sizeUsd: signal.sizeUsd,
+        executedSize: status === 'FILLED' ? fill.executedAmount || 0 : 0,
+        price: priceFilled || signal.price,
+        timestamp: new Date(completedAt),
+        txHash: fill.txHash,
+        isSuccessful: status === 'FILLED',
+        status,
+        reason,
+        traderPrice: signal.price,
+        detectedAt: detectedAt ? new Date(detectedAt) : undefined,
+        detectionLatencyMs: detectedAt ? Math.max(0, detectedAt - signal.timestamp) : undefined,
+        aggregationDelayMs: detectedAt && flushedAt ? Math.max(0, flushedAt - detectedAt) : undefined,
+        executionLatencyMs: fill.startedAt && status === 'FILLED' ? Math.max(0, completedAt - fill.startedAt) : undefined,
+        slippageCents: copySlippageCents(signal.side, signal.price, priceFilled),
+        paper: !!this.deps.paper
+      });
+    } catch (e: any) {
+      this.deps.logger.warn(`[COPY QUALITY] Copy of ${signal.trader.slice(0, 6)}... not recorded: ${e.message}`);
+    }
+  }
+}
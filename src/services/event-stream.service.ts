@@ -0,0 +1,127 @@
+import type { Response } from 'express';
+import { BotStreamEvent, BotStreamEventType } from '../domain/stream.types.js';
+import { Logger } from '../utils/logger.util.js';
+
+// Each of these replaces the previous one, so only the latest is worth replaying
+const SNAPSHOT_TYPES: BotStreamEventType[] = ['arb', 'positions', 'stats'];
+
+/**
+ * Per-user Server-Sent Events fan-out for BotCallbacks and BotLog lines.
+ * Keeps a short replay buffer so a reconnecting client can resume from its last event id:
+ * the last BUFFER_SIZE incremental events plus the latest snapshot of each snapshot type.
+ * Buffers of users with no running bot (per `isActive`) are dropped once nobody is subscribed.
+ */
+export class EventStreamService {
+  private subscribers: Map<string, Set<Response>> = new Map();
+  private buffers: Map<string, BotStreamEvent[]> = new Map();
+  private sequences: Map<string, number> = new Map();
+  private evicted: Map<string, number> = new Map(); // Highest incremental event id no longer buffered
+  private heartbeat?: NodeJS.Timeout;
+
+  private readonly BUFFER_SIZE = 500;
+  private readonly HEARTBEAT_INTERVAL = 25000; // Keeps proxies from closing idle streams
+
+  constructor(private logger: Logger, private isActive: (userId: string) => boolean = () => true) {}
+
+  publish<T>(userId: string, type: BotStreamEventType, data: T) {
+    const normId = userId.toLowerCase();
+    const id = (this.sequences.get(normId) || 0) + 1;
+    this.sequences.set(normId, id);
+
+    const event: BotStreamEvent<T> = { id, type, data, timestamp: Date.now() };
+    const snapshot = SNAPSHOT_TYPES.includes(type);
+    const buffer = (this.buffers.get(normId) || []).filter(e => !(snapshot && e.type === type));
+    buffer.push(event);
+    const incremental = buffer.filter(e => !SNAPSHOT_TYPES.includes(e.type));
+    if (incremental.length > this.BUFFER_SIZE) {
+      const dropped = incremental.slice(0, incremental.length - this.BUFFER_SIZE);
+      const droppedIds = new Set(dropped.map(e => e.id));
+      this.evicted.set(normId, dropped[dropped.length - 1].id);
+      this.buffers.set(normId, buffer.filter(e => !droppedIds.has(e.id)));
+    } else {
+      this.buffers.set(normId, buffer);
+    }
+
+    this.subscribers.get(normId)?.forEach(res => this.write(res, event));
+  }
+
+  /**
+   * Drops a user's replay buffer unless someone is still subscribed (call when their bot stops).
+   * Later reconnects with an older cursor get a resync.
+   */
+  release(userId: string) {
+    const normId = userId.toLowerCase();
+    if (this.subscribers.has(normId) || !this.buffers.has(normId)) return;
+    this.buffers.delete(normId);
+    this.evicted.set(normId, this.sequences.get(normId) || 0);
+  }
+
+  /**
+   * Attaches an SSE response. Events after `cursor` are replayed first; if the cursor
+   * is older than the buffer the client gets a `resync` event and should refetch a snapshot.
+   */
+  subscribe(userId: string, res: Response, cursor?: number) {
+    const normId = userId.toLowerCase();
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders?.();
+    res.write('retry: 3000\n\n');
+
+    const buffer = this.buffers.get(normId) || [];
+    const latest = this.sequences.get(normId) || 0;
+    const evicted = this.evicted.get(normId) || 0;
+    // Cursors from a previous server process (> latest) or from before evicted events cannot be replayed;
+    // superseded snapshots are not missed, the latest one is still buffered
+    const canReplay = cursor !== undefined && !isNaN(cursor) && cursor <= latest && cursor >= evicted;
+    if (canReplay) {
+      buffer.filter(e => e.id > cursor!).forEach(e => this.write(res, e));
+    } else {
+      this.write(res, { id: latest, type: 'resync', data: null, timestamp: Date.now() });
+    }
+
+    if (!this.subscribers.has(normId)) this.subscribers.set(normId, new Set());
+    this.subscribers.get(normId)!.add(res);
+    this.ensureHeartbeat();
+
+    res.on('close', () => {
+      const subs = this.subscribers.get(normId);
+      subs?.delete(res);
+      if (subs && subs.size === 0) {
+        this.subscribers.delete(normId);
+        if (!this.isActive(normId)) this.release(normId);
+      }
+      if (this.subscribers.size === 0 && this.heartbeat) {
+        clearInterval(this.heartbeat);
+        this.heartbeat = undefined;
+      }
+    });
+  }
+
+  getSubscriberCount(userId: string): number {
+    return this.subscribers.get(userId.toLowerCase())?.size || 0;
+  }
+
+  private write(res: Response, event: BotStreamEvent) {
+    try {
+      res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    } catch (e: any) {
+      this.logger.warn(`[Stream] Write failed: ${e.message}`);
+    }
+  }
+
+  private ensureHeartbeat() {
+    if (this.heartbeat) return;
+    this.heartbeat = setInterval(() => {
+      this.subscribers.forEach(subs => subs.forEach(res => {
+        try {
+          res.write(': ping\n\n');
+        } catch (e) {
+          // Dead sockets are cleaned up by the close handler
+        }
+      }));
+    }, this.HEARTBEAT_INTERVAL);
+  }
+}
@@ -0,0 +1,61 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { httpGet } from '../utils/http.js';
+import { GammaClient, GammaError } from './gamma-client.service.js';
+
+vi.mock('../utils/http.js', () => ({ httpGet: vi.fn() }));
+
+const MARKET = { conditionId: '0xabc', question: 'Will it rain?', events: [{ slug: 'rain' }] };
+
+describe('GammaClient fixtures', () => {
+  let fixtureDir: string;
+
+  beforeAll(async () => {
+    fixtureDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gamma-fixtures-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(fixtureDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    vi.mocked(httpGet).mockReset();
+  });
+
+  it('records responses, including not-found answers', async () => {
+    vi.mocked(httpGet).mockImplementation(async (url: string) => {
+      if (url.includes('/markets/slug/')) throw Object.assign(new Error('Not Found'), { response: { status: 404 } });
+      return [MARKET];
+    });
+    const client = new GammaClient({ fixtureMode: 'record', fixtureDir, minIntervalMs: 0 });
+
+    expect(await client.getMarketByConditionId('0xabc')).toEqual(MARKET);
+    expect(await client.getMarketBySlug('missing')).toBeNull();
+    expect(await fs.readdir(fixtureDir)).toHaveLength(2);
+  });
+
+  it('replays recorded responses without the network', async () => {
+    const client = new GammaClient({ fixtureMode: 'replay', fixtureDir });
+
+    expect(await client.getEventSlug('0xabc')).toBe('rain');
+    expect(await client.getMarketBySlug('missing')).toBeNull();
+    expect(httpGet).not.toHaveBeenCalled();
+  });
+
+  it('fails a replay that was never recorded', async () => {
+    const client = new GammaClient({ fixtureMode: 'replay', fixtureDir });
+    await expect(client.getMarketByConditionId('0xother')).rejects.toBeInstanceOf(GammaError);
+  });
+
+  it('serves repeated requests from its cache', async () => {
+    vi.mocked(httpGet).mockResolvedValue([MARKET]);
+    const client = new GammaClient({ minIntervalMs: 0 });
+
+    await Promise.all([client.getMarkets({ conditionId: '0xabc' }), client.getMarkets({ conditionId: '0xabc' })]);
+    await client.getMarketByConditionId('0xabc');
+    expect(httpGet).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(httpGet).mock.calls[0][0]).toMatch(/\/markets\?condition_id=0xabc$/);
+  });
+});
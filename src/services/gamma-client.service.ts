@@ -0,0 +1,286 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { GAMMA_API_URL } from '../config/env.js';
+import { httpGet } from '../utils/http.js';
+
+// Gamma returns numbers and JSON arrays as strings on many fields; only what the bot reads is typed
+export type GammaTag = {
+  id: string;
+  label?: string;
+  slug?: string;
+};
+
+export type GammaMarket = {
+  id: string;
+  conditionId: string;
+  question?: string;
+  slug?: string;
+  clobTokenIds?: string;        // JSON array of token ids, YES first
+  outcomes?: string;            // JSON array of labels
+  outcomePrices?: string;       // JSON array of prices
+  active?: boolean;
+  closed?: boolean;
+  archived?: boolean;
+  acceptingOrders?: boolean;
+  endDate?: string;
+  volume?: string;
+  volumeNum?: number;
+  liquidity?: string;
+  liquidityNum?: number;
+  rewardsMinSize?: number;
+  rewardsMaxSpread?: number;
+  image?: string;
+  icon?: string;
+  events?: GammaEvent[];
+  [key: string]: unknown;
+};
+
+export type GammaEvent = {
+  id: string;
+  slug?: string;
+  title?: string;
+  endDate?: string;
+  featured?: boolean;
+  image?: string;
+  icon?: string;
+  tags?: GammaTag[];
+  markets?: GammaMarket[];
+  [key: string]: unknown;
+};
+
+export type GammaEventQuery = {
+  active?: boolean;
+  closed?: boolean;
+  featured?: boolean;
+  tagId?: number;
+  tagSlug?: string;
+  limit?: number;
+  order?: 'volume' | 'id' | 'liquidity' | 'endDate';
+  ascending?: boolean;
+};
+
+export type GammaMarketQuery = {
+  conditionId?: string;
+  slug?: string;
+  active?: boolean;
+  closed?: boolean;
+  limit?: number;
+};
+
+// off: network only; record: network, and every response is written to fixtureDir;
+// replay: fixtureDir only, a missing fixture is an error (no network)
+export type GammaFixtureMode = 'off' | 'record' | 'replay';
+
+export type GammaClientOptions = {
+  baseUrl?: string;
+  minIntervalMs?: number;   // Spacing between requests that reach the network
+  maxEntries?: number;      // LRU bound on cached responses
+  fixtureMode?: GammaFixtureMode;
+  fixtureDir?: string;
+};
+
+export class GammaError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'GammaError';
+  }
+}
+
+type Query = Record<string, string | number | boolean | undefined>;
+type CacheEntry = { value: unknown; expiresAt: number };
+
+const TTL = {
+  tags: 60 * 60 * 1000,
+  events: 60 * 1000,
+  markets: 30 * 1000,
+  slug: 5 * 60 * 1000
+};
+const DEFAULT_MIN_INTERVAL = 300;
+const DEFAULT_MAX_ENTRIES = 500;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Gamma query keys are snake_case; undefined values are dropped and keys sorted so equal
+ * requests share one cache key.
+ */
+const toQueryString = (query: Query = {}): string =>
+  Object.entries(query)
+    .filter(([, v]) => v !== undefined)
+    .map(([k, v]) => [k.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`), String(v)])
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([k, v]) => `${encodeURIComponent(k)}=${encodeURIComponent(v)}`)
+    .join('&');
+
+/**
+ * Read-only client for the Gamma market metadata API. Responses are cached (LRU with a TTL per
+ * endpoint), identical in-flight requests share one call, and network calls are spaced by one
+ * limiter, so every bot in the process using getGammaClient() stays under the API rate limit.
+ */
+export class GammaClient {
+  private readonly baseUrl: string;
+  private readonly minInterval: number;
+  private readonly maxEntries: number;
+  private readonly fixtureMode: GammaFixtureMode;
+  private readonly fixtureDir: string;
+  private cache: Map<string, CacheEntry> = new Map();
+  private inflight: Map<string, Promise<unknown>> = new Map();
+  private nextSlot = 0;
+
+  constructor(options: GammaClientOptions = {}) {
+    this.baseUrl = (options.baseUrl || GAMMA_API_URL).replace(/\/$/, '');
+    this.minInterval = options.minIntervalMs ?? DEFAULT_MIN_INTERVAL;
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.fixtureMode = options.fixtureMode || 'off';
+    this.fixtureDir = options.fixtureDir || path.resolve(process.cwd(), 'fixtures/gamma');
+  }
+
+  async getTags(limit = 200): Promise<GammaTag[]> {
+    return this.request<GammaTag[]>('/tags', { limit }, TTL.tags);
+  }
+
+  async getEvents(query: GammaEventQuery = {}): Promise<GammaEvent[]> {
+    const data = await this.request<GammaEvent[] | { data?: GammaEvent[] }>('/events', query, TTL.events);
+    return Array.isArray(data) ? data : data?.data || [];
+  }
+
+  async getEventBySlug(slug: string): Promise<GammaEvent | null> {
+    return this.requestOrNull<GammaEvent>(`/events/slug/${encodeURIComponent(slug)}`, TTL.slug);
+  }
+
+  async getMarkets(query: GammaMarketQuery = {}): Promise<GammaMarket[]> {
+    const data = await this.request<GammaMarket[]>('/markets', query, TTL.markets);
+    return Array.isArray(data) ? data : [];
+  }
+
+  async getMarketByConditionId(conditionId: string): Promise<GammaMarket | null> {
+    const markets = await this.getMarkets({ conditionId });
+    return markets[0] || null;
+  }
+
+  async getMarketBySlug(slug: string): Promise<GammaMarket | null> {
+    return this.requestOrNull<GammaMarket>(`/markets/slug/${encodeURIComponent(slug)}`, TTL.slug);
+  }
+
+  /**
+   * Slug of the first event a market belongs to (used for polymarket.com links).
+   */
+  async getEventSlug(conditionId: string): Promise<string | undefined> {
+    const market = await this.getMarketByConditionId(conditionId);
+    return market?.events?.[0]?.slug || undefined;
+  }
+
+  clearCache() {
+    this.cache.clear();
+  }
+
+  private async requestOrNull<T>(pathname: string, ttl: number): Promise<T | null> {
+    try {
+      return await this.request<T>(pathname, {}, ttl);
+    } catch (e) {
+      if (e instanceof GammaError && e.status === 404) return null;
+      throw e;
+    }
+  }
+
+  private async request<T>(pathname: string, query: Query, ttl: number): Promise<T> {
+    const qs = toQueryString(query);
+    const key = qs ? `${pathname}?${qs}` : pathname;
+
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      // Re-insert so Map order tracks recency
+      this.cache.delete(key);
+      this.cache.set(key, cached);
+      return cached.value as T;
+    }
+
+    const pending = this.inflight.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const promise = this.load(key)
+      .then((value) => {
+        this.remember(key, value, ttl);
+        return value;
+      })
+      .finally(() => this.inflight.delete(key));
+    this.inflight.set(key, promise);
+    return promise as Promise<T>;
+  }
+
+  private async load(key: string): Promise<unknown> {
+    if (this.fixtureMode === 'replay') return this.readFixture(key);
+
+    await this.throttle();
+    let value: unknown;
+    try {
+      value = await httpGet<unknown>(`${this.baseUrl}${key}`, { headers: { Accept: 'application/json' } });
+    } catch (e: any) {
+      const status = e.response?.status;
+      // Not-found is an answer (slug lookups return null), so replay needs it too
+      if (this.fixtureMode === 'record' && status === 404) await this.writeFixture(key, null, status);
+      throw new GammaError(`Gamma ${key} failed: ${status ? `HTTP ${status}` : e.message}`, status);
+    }
+    if (this.fixtureMode === 'record') await this.writeFixture(key, value);
+    return value;
+  }
+
+  private remember(key: string, value: unknown, ttl: number) {
+    this.cache.set(key, { value, expiresAt: Date.now() + ttl });
+    while (this.cache.size > this.maxEntries) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+  }
+
+  /**
+   * Reserves the next free request slot; callers queue behind each other minInterval apart.
+   */
+  private async throttle() {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + this.minInterval;
+    if (slot > now) await sleep(slot - now);
+  }
+
+  private fixturePath(key: string): string {
+    const readable = key.replace(/[^a-zA-Z0-9]+/g, '_').replace(/^_|_$/g, '').slice(0, 80);
+    const hash = crypto.createHash('sha1').update(key).digest('hex').slice(0, 10);
+    return path.join(this.fixtureDir, `${readable}-${hash}.json`);
+  }
+
+  private async readFixture(key: string): Promise<unknown> {
+    const file = this.fixturePath(key);
+    let raw: string;
+    try {
+      raw = await fs.readFile(file, 'utf8');
+    } catch {
+      throw new GammaError(`No Gamma fixture for ${key} (expected ${file})`);
+    }
+    const fixture = JSON.parse(raw);
+    if (fixture.status === 404) throw new GammaError(`Gamma ${key} failed: HTTP 404`, 404);
+    return fixture.body;
+  }
+
+  private async writeFixture(key: string, body: unknown, status = 200) {
+    await fs.mkdir(this.fixtureDir, { recursive: true });
+    await fs.writeFile(this.fixturePath(key), JSON.stringify({ key, status, recordedAt: new Date().toISOString(), body }, null, 2));
+  }
+}
+
+// Process-wide instance: one cache and one rate limit for every bot
+let gammaClient: GammaClient | null = null;
+
+/**
+ * GAMMA_FIXTURES=record|replay and GAMMA_FIXTURE_DIR select the fixture mode.
+ */
+export const getGammaClient = (): GammaClient => {
+  if (!gammaClient) {
+    const mode = process.env.GAMMA_FIXTURES;
+    gammaClient = new GammaClient({
+      fixtureMode: mode === 'record' || mode === 'replay' ? mode : 'off',
+      fixtureDir: process.env.GAMMA_FIXTURE_DIR
+    });
+  }
+  return gammaClient;
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it, vi } from 'vitest';
+import { expectedDailyReward, orderScore, RewardMarket, rewardYield, scoreQuote } from './liquidity-rewards.service.js';
+
+vi.mock('../database/index.js', () => ({ RewardEarning: {}, paperScope: () => ({}) }));
+
+const MARKET: RewardMarket = { midpoint: 0.5, rewardsMaxSpread: 3, rewardsMinSize: 20, rewardsDailyRate: 100, liquidity: 1000 };
+
+describe('orderScore', () => {
+  it('falls off quadratically towards the max spread', () => {
+    expect(orderScore(3, 0)).toBe(1);
+    expect(orderScore(4, 2)).toBe(0.25);
+    expect(orderScore(3, 3)).toBe(0);
+  });
+
+  it('scores nothing without a max spread', () => {
+    expect(orderScore(0, 0)).toBe(0);
+  });
+});
+
+describe('scoreQuote', () => {
+  it('rewards a two-sided quote by its weaker side', () => {
+    const score = scoreQuote({ bid: { price: 0.49, size: 100 }, ask: { price: 0.515, size: 100 } }, MARKET);
+    expect(score.bidScore).toBeCloseTo(100 * (2 / 3) ** 2, 9);
+    expect(score.askScore).toBeCloseTo(25, 9);
+    expect(score).toMatchObject({ twoSided: true, qualifies: true, reason: undefined });
+    expect(score.qMin).toBeCloseTo(score.askScore, 9);
+  });
+
+  it('gives a single-sided quote a third inside the midpoint band', () => {
+    const score = scoreQuote({ bid: { price: 0.5, size: 90 } }, MARKET);
+    expect(score).toMatchObject({ bidScore: 90, askScore: 0, qMin: 30, twoSided: false, qualifies: true });
+  });
+
+  it('gives a single-sided quote nothing outside the band', () => {
+    const score = scoreQuote({ bid: { price: 0.95, size: 90 } }, { ...MARKET, midpoint: 0.95 });
+    expect(score).toMatchObject({ qMin: 0, qualifies: false, reason: 'one_sided_outside_band' });
+  });
+
+  it('explains why a quote does not score', () => {
+    expect(scoreQuote({ bid: { price: 0.5, size: 10 } }, MARKET).reason).toBe('bid_below_min_size');
+    expect(scoreQuote({ ask: { price: 0.54, size: 100 } }, MARKET).reason).toBe('ask_outside_max_spread');
+    expect(scoreQuote({ bid: { price: 0.5, size: 100 } }, { midpoint: 0.5 }).reason).toBe('no_rewards');
+  });
+});
+
+describe('expectedDailyReward', () => {
+  it('shares the pool with the liquidity already on the book', () => {
+    // 1000 USD at 0.50 is 2000 shares competing at a quarter score: Q 500
+    expect(expectedDailyReward(500, MARKET)).toBeCloseTo(50, 9);
+    expect(expectedDailyReward(500, { ...MARKET, liquidity: 0 })).toBe(100);
+    expect(expectedDailyReward(0, MARKET)).toBe(0);
+  });
+});
+
+describe('rewardYield', () => {
+  it('is the expected reward per USD of a reference two-sided quote', () => {
+    const yieldPerUsd = rewardYield(MARKET, 50, 0.01);
+    const { qMin } = scoreQuote({ bid: { price: 0.49, size: 50 / 0.49 }, ask: { price: 0.51, size: 50 / 0.51 } }, MARKET);
+    expect(yieldPerUsd).toBeCloseTo(expectedDailyReward(qMin, MARKET) / 100, 9);
+  });
+
+  it('is zero for markets without rewards', () => {
+    expect(rewardYield({ midpoint: 0.5 }, 50, 0.01)).toBe(0);
+  });
+});
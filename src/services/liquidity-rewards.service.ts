@@ -0,0 +1,277 @@
+import { IExchangeAdapter } from '../adapters/interfaces.js';
+import { RewardEarning, paperScope } from '../database/index.js';
+import { QuoteRewardScore, RewardEarningRecord, RewardsSummary } from '../domain/market.types.js';
+import { Logger } from '../utils/logger.util.js';
+
+export type QuoteSide = { price: number; size: number };
+
+// A quote of ours resting on the book, as tracked by TradeExecutorService
+export type RestingQuote = {
+  tokenId: string;
+  conditionId: string;
+  question?: string;
+  bid?: QuoteSide;
+  ask?: QuoteSide;
+};
+
+// Reward parameters and current book state for one token
+export type RewardMarket = {
+  midpoint: number;
+  rewardsMaxSpread?: number;  // Cents
+  rewardsMinSize?: number;    // Shares
+  rewardsDailyRate?: number;  // USD per day for the whole market
+  liquidity?: number;         // USD resting on the book (competition proxy)
+};
+
+export type LiquidityRewardsDeps = {
+  userId: string;
+  // Paper quotes only ever accrue estimates, kept apart from live earnings
+  paper?: boolean;
+  adapter: IExchangeAdapter;
+  logger: Logger;
+  getQuotes: () => RestingQuote[];
+  getMarket: (tokenId: string) => RewardMarket | undefined;
+};
+
+const SINGLE_SIDED_DIVISOR = 3;           // c: one-sided liquidity earns a third inside the midpoint band
+const TWO_SIDED_BAND = { min: 0.1, max: 0.9 }; // Outside this band only two-sided quotes score
+const COMPETITOR_SCORE = 0.25;            // Assume competing size rests at half the max spread
+const SAMPLE_INTERVAL = 60 * 1000;        // The exchange samples the book once a minute
+const SAMPLES_PER_DAY = 24 * 60;
+const RECEIVED_SYNC_INTERVAL = 60 * 60 * 1000;
+
+const utcDate = (ts: number = Date.now()) => new Date(ts).toISOString().slice(0, 10);
+
+/**
+ * S(v, s) = ((v - s) / v)^2 for an order s cents from the midpoint, v = max spread in cents.
+ */
+export function orderScore(maxSpreadCents: number, distanceCents: number): number {
+  if (!(maxSpreadCents > 0) || distanceCents >= maxSpreadCents) return 0;
+  const ratio = (maxSpreadCents - Math.max(0, distanceCents)) / maxSpreadCents;
+  return ratio * ratio;
+}
+
+/**
+ * Max reward spread as a price distance (rewardsMaxSpread is quoted in cents).
+ */
+export const maxSpreadPrice = (rewardsMaxSpread?: number): number | undefined =>
+  rewardsMaxSpread && rewardsMaxSpread > 0 ? rewardsMaxSpread / 100 : undefined;
+
+/**
+ * Scores one token's quotes against the liquidity rewards formula. Each side earns
+ * S(v, s) * size when it meets the min size; Q_min then rewards two-sided quoting
+ * (single-sided quotes earn Q / c inside the 10-90¢ band and nothing outside it).
+ */
+export function scoreQuote(quote: Pick<RestingQuote, 'bid' | 'ask'>, market: RewardMarket): Omit<QuoteRewardScore, 'tokenId' | 'conditionId' | 'question' | 'quotedUsd' | 'expectedDailyUsd'> {
+  const maxSpread = market.rewardsMaxSpread || 0;
+  if (!(maxSpread > 0)) return { bidScore: 0, askScore: 0, qMin: 0, twoSided: false, qualifies: false, reason: 'no_rewards' };
+
+  const minSize = market.rewardsMinSize || 0;
+  const reasons: string[] = [];
+  const sideScore = (side: QuoteSide | undefined, label: string) => {
+    if (!side || side.size <= 0) return 0;
+    if (side.size < minSize) {
+      reasons.push(`${label}_below_min_size`);
+      return 0;
+    }
+    const score = orderScore(maxSpread, Math.abs(side.price - market.midpoint) * 100);
+    if (score === 0) reasons.push(`${label}_outside_max_spread`);
+    return score * side.size;
+  };
+
+  const bidScore = sideScore(quote.bid, 'bid');
+  const askScore = sideScore(quote.ask, 'ask');
+  const inBand = market.midpoint >= TWO_SIDED_BAND.min && market.midpoint <= TWO_SIDED_BAND.max;
+  const qMin = inBand
+    ? Math.max(Math.min(bidScore, askScore), Math.max(bidScore, askScore) / SINGLE_SIDED_DIVISOR)
+    : Math.min(bidScore, askScore);
+  if (qMin === 0 && !inBand && (bidScore > 0 || askScore > 0)) reasons.push('one_sided_outside_band');
+
+  return {
+    bidScore,
+    askScore,
+    qMin,
+    twoSided: bidScore > 0 && askScore > 0,
+    qualifies: qMin > 0,
+    reason: qMin > 0 ? undefined : reasons[0]
+  };
+}
+
+/**
+ * Our share of the daily pool, assuming the rest of the book's liquidity competes at
+ * COMPETITOR_SCORE. A rough estimate; the received figure from the exchange is authoritative.
+ */
+export function expectedDailyReward(qMin: number, market: RewardMarket): number {
+  if (qMin <= 0 || !market.rewardsDailyRate || market.midpoint <= 0) return 0;
+  const competingQ = ((market.liquidity || 0) / market.midpoint) * COMPETITOR_SCORE;
+  return market.rewardsDailyRate * (qMin / (qMin + competingQ));
+}
+
+/**
+ * Expected daily reward per USD of inventory for a reference two-sided quote of
+ * `quoteSizeUsd` per side at `spreadOffset` (clamped inside half the max spread).
+ */
+export function rewardYield(market: RewardMarket, quoteSizeUsd: number, spreadOffset: number): number {
+  const maxSpread = maxSpreadPrice(market.rewardsMaxSpread);
+  if (!maxSpread || !market.rewardsDailyRate || quoteSizeUsd <= 0) return 0;
+  const offset = Math.min(spreadOffset, maxSpread / 2);
+  const bidPrice = Math.max(0.01, market.midpoint - offset);
+  const askPrice = Math.min(0.99, market.midpoint + offset);
+  const minSize = market.rewardsMinSize || 0;
+  const { qMin } = scoreQuote({
+    bid: { price: bidPrice, size: Math.max(quoteSizeUsd / bidPrice, minSize) },
+    ask: { price: askPrice, size: Math.max(quoteSizeUsd / askPrice, minSize) }
+  }, market);
+  return expectedDailyReward(qMin, market) / (2 * quoteSizeUsd);
+}
+
+/**
+ * Samples our resting quotes once a minute (as the exchange does), accrues the estimated
+ * reward per market per UTC day, and pulls the rewards actually paid so the two can be compared.
+ */
+export class LiquidityRewardsService {
+  private sampleTimer?: NodeJS.Timeout;
+  private syncTimer?: NodeJS.Timeout;
+  private lastScores: QuoteRewardScore[] = [];
+
+  constructor(private readonly deps: LiquidityRewardsDeps) {}
+
+  start() {
+    if (this.sampleTimer) return;
+    this.sampleTimer = setInterval(() => {
+      this.sample().catch(e => this.deps.logger.warn(`[REWARDS] Sampling failed: ${e.message}`));
+    }, SAMPLE_INTERVAL);
+    if (this.deps.adapter.getRewardEarnings) {
+      this.syncReceived().catch(() => { /* logged inside */ });
+      this.syncTimer = setInterval(() => {
+        this.syncReceived().catch(() => { /* logged inside */ });
+      }, RECEIVED_SYNC_INTERVAL);
+    }
+  }
+
+  stop() {
+    if (this.sampleTimer) clearInterval(this.sampleTimer);
+    if (this.syncTimer) clearInterval(this.syncTimer);
+    this.sampleTimer = undefined;
+    this.syncTimer = undefined;
+    this.lastScores = [];
+  }
+
+  /**
+   * Scores every resting quote against its market's current midpoint.
+   */
+  scoreQuotes(): QuoteRewardScore[] {
+    const scores: QuoteRewardScore[] = [];
+    for (const quote of this.deps.getQuotes()) {
+      const market = this.deps.getMarket(quote.tokenId);
+      if (!market || !market.rewardsMaxSpread) continue;
+      const score = scoreQuote(quote, market);
+      scores.push({
+        tokenId: quote.tokenId,
+        conditionId: quote.conditionId,
+        question: quote.question,
+        ...score,
+        quotedUsd: (quote.bid ? quote.bid.price * quote.bid.size : 0) + (quote.ask ? quote.ask.price * quote.ask.size : 0),
+        expectedDailyUsd: expectedDailyReward(score.qMin, market)
+      });
+    }
+    return scores;
+  }
+
+  async sample(): Promise<void> {
+    const scores = this.scoreQuotes();
+    this.lastScores = scores;
+    if (scores.length === 0) return;
+
+    // YES and NO quotes of one market accrue to the same condition
+    const byMarket = new Map<string, { question?: string; estimatedUsd: number; qualifies: boolean }>();
+    for (const s of scores) {
+      const entry = byMarket.get(s.conditionId) || { question: s.question, estimatedUsd: 0, qualifies: false };
+      entry.estimatedUsd += s.expectedDailyUsd / SAMPLES_PER_DAY;
+      entry.qualifies = entry.qualifies || s.qualifies;
+      byMarket.set(s.conditionId, entry);
+    }
+
+    const date = utcDate();
+    await RewardEarning.bulkWrite(Array.from(byMarket, ([conditionId, entry]) => ({
+      updateOne: {
+        filter: { userId: this.deps.userId, paper: paperScope(this.deps.paper), date, conditionId },
+        update: {
+          $inc: { estimatedUsd: entry.estimatedUsd, samples: 1, qualifyingSamples: entry.qualifies ? 1 : 0 },
+          $set: { question: entry.question, updatedAt: new Date() }
+        },
+        upsert: true
+      }
+    })));
+  }
+
+  /**
+   * Records what the exchange paid for today and yesterday (yesterday settles after midnight UTC).
+   */
+  async syncReceived(): Promise<void> {
+    if (!this.deps.adapter.getRewardEarnings) return;
+    const now = Date.now();
+    for (const date of [utcDate(now - 24 * 60 * 60 * 1000), utcDate(now)]) {
+      try {
+        const rows = await this.deps.adapter.getRewardEarnings(date);
+        if (rows.length === 0) continue;
+        await RewardEarning.bulkWrite(rows.map(row => ({
+          updateOne: {
+            filter: { userId: this.deps.userId, paper: paperScope(this.deps.paper), date, conditionId: row.conditionId },
+            update: { $set: { receivedUsd: row.earnings, updatedAt: new Date() } },
+            upsert: true
+          }
+        })));
+      } catch (e: any) {
+        this.deps.logger.warn(`[REWARDS] Could not fetch received rewards for ${date}: ${e.message}`);
+      }
+    }
+  }
+
+  async getSummary(days = 7): Promise<RewardsSummary> {
+    const summary = await getRewardsHistory(this.deps.userId, days, this.deps.paper);
+    return { ...summary, live: this.lastScores.length > 0 ? this.lastScores : this.scoreQuotes() };
+  }
+}
+
+/**
+ * Stored estimated vs. received rewards for the last `days` UTC days (works without a running engine).
+ */
+export async function getRewardsHistory(userId: string, days = 7, paper?: boolean): Promise<RewardsSummary> {
+  const since = utcDate(Date.now() - (days - 1) * 24 * 60 * 60 * 1000);
+  const rows: RewardEarningRecord[] = await RewardEarning.find({ userId, paper: paperScope(paper), date: { $gte: since } }).sort({ date: -1 }).lean();
+
+  const byMarket = new Map<string, RewardsSummary['byMarket'][number]>();
+  const byDay = new Map<string, RewardsSummary['byDay'][number]>();
+  const totals = { estimatedUsd: 0, receivedUsd: 0 };
+
+  for (const row of rows) {
+    const received = row.receivedUsd || 0;
+    totals.estimatedUsd += row.estimatedUsd || 0;
+    totals.receivedUsd += received;
+
+    const market = byMarket.get(row.conditionId) || {
+      conditionId: row.conditionId, question: row.question, estimatedUsd: 0, receivedUsd: 0, samples: 0, qualifyingSamples: 0, days: 0
+    };
+    market.estimatedUsd += row.estimatedUsd || 0;
+    market.receivedUsd = (market.receivedUsd || 0) + received;
+    market.samples += row.samples || 0;
+    market.qualifyingSamples += row.qualifyingSamples || 0;
+    market.days++;
+    if (!market.question && row.question) market.question = row.question;
+    byMarket.set(row.conditionId, market);
+
+    const day = byDay.get(row.date) || { date: row.date, estimatedUsd: 0, receivedUsd: 0 };
+    day.estimatedUsd += row.estimatedUsd || 0;
+    day.receivedUsd += received;
+    byDay.set(row.date, day);
+  }
+
+  return {
+    days,
+    totals,
+    byMarket: Array.from(byMarket.values()).sort((a, b) => (b.receivedUsd || b.estimatedUsd) - (a.receivedUsd || a.estimatedUsd)),
+    byDay: Array.from(byDay.values()),
+    live: []
+  };
+}
@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { OrderRecord } from '../domain/order.types.js';
+import { Logger } from '../utils/logger.util.js';
+import { getMarketMakingPnl, MarketMakingPnlService } from './market-making-pnl.service.js';
+
+const db = vi.hoisted(() => {
+  const query = (rows: () => any[]) => {
+    const q: any = { sort: () => q, lean: async () => rows() };
+    return q;
+  };
+  const stored = { pnl: [] as any[], rewards: [] as any[], inventory: [] as any[] };
+  return {
+    stored,
+    MarketMakingPnl: { updateOne: vi.fn(), bulkWrite: vi.fn(), find: () => query(() => stored.pnl) },
+    MarketMakingInventory: { updateOne: vi.fn(), deleteOne: vi.fn(), bulkWrite: vi.fn(), find: () => query(() => stored.inventory) },
+    RewardEarning: { find: () => query(() => stored.rewards) }
+  };
+});
+
+vi.mock('../database/index.js', () => ({
+  MarketMakingPnl: db.MarketMakingPnl,
+  MarketMakingInventory: db.MarketMakingInventory,
+  RewardEarning: db.RewardEarning,
+  paperScope: () => ({})
+}));
+
+const logger: Logger = { info: () => {}, warn: () => {}, error: () => {}, debug: () => {}, success: () => {} };
+
+const quote = (tokenId: string, side: 'BUY' | 'SELL'): OrderRecord => ({
+  id: 'o1',
+  userId: '0xuser',
+  clobOrderId: '0xorder',
+  marketId: 'cond',
+  tokenId,
+  outcome: tokenId === 'yes' ? 'Yes' : 'No',
+  side,
+  source: 'MM_QUOTE',
+  orderType: 'GTC',
+  requestedPrice: 0.5,
+  requestedSize: 100,
+  status: 'OPEN',
+  statusHistory: [],
+  fills: [],
+  filledSize: 0,
+  avgFillPrice: 0,
+  createdAt: 0,
+  updatedAt: 0
+});
+
+const fill = (size: number, price: number) => ({ size, price, timestamp: 0 });
+
+// Sum of every $inc written to the daily PnL rows
+const increments = () => {
+  const total: Record<string, number> = {};
+  for (const [, update] of db.MarketMakingPnl.updateOne.mock.calls) {
+    for (const [key, value] of Object.entries(update.$inc || {})) total[key] = (total[key] || 0) + (value as number);
+  }
+  return total;
+};
+
+describe('MarketMakingPnlService', () => {
+  let pnl: MarketMakingPnlService;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    db.stored.inventory = [];
+    pnl = new MarketMakingPnlService({ userId: '0xuser', logger, getMidpoint: () => undefined });
+    await pnl.start();
+    pnl.stop();
+  });
+
+  it('realizes the spread against the average cost of quote inventory', async () => {
+    await pnl.recordFill(quote('yes', 'BUY'), fill(10, 0.4));
+    await pnl.recordFill(quote('yes', 'BUY'), fill(10, 0.5));
+    await pnl.recordFill(quote('yes', 'SELL'), fill(10, 0.55));
+
+    const totals = increments();
+    expect(totals).toMatchObject({ fills: 3, boughtUsd: 9, soldUsd: 5.5 });
+    expect(totals.spreadUsd).toBeCloseTo(10 * (0.55 - 0.45), 9);
+  });
+
+  it('ignores fills on orders that are not quotes', async () => {
+    await pnl.recordFill({ ...quote('yes', 'BUY'), source: 'COPY' }, fill(10, 0.4));
+    expect(db.MarketMakingPnl.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('attributes merges of YES/NO pairs at a dollar per pair', async () => {
+    await pnl.recordFill(quote('yes', 'BUY'), fill(10, 0.45));
+    await pnl.recordFill(quote('no', 'BUY'), fill(6, 0.5));
+    await pnl.recordMerge('cond', 100);
+
+    const totals = increments();
+    expect(totals.mergeProceedsUsd).toBe(6);
+    expect(totals.mergeUsd).toBeCloseTo(6 - (6 * 0.45 + 6 * 0.5), 9);
+  });
+
+  it('closes the whole market on redemption', async () => {
+    await pnl.recordFill(quote('yes', 'BUY'), fill(10, 0.6));
+    await pnl.recordFill(quote('no', 'BUY'), fill(5, 0.3));
+    await pnl.recordRedemption('cond', 'yes', 10, 10);
+
+    const totals = increments();
+    expect(totals.redemptionProceedsUsd).toBe(10);
+    expect(totals.redemptionUsd).toBeCloseTo(10 - 7.5, 9);
+    expect(db.MarketMakingInventory.deleteOne).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('getMarketMakingPnl', () => {
+  it('joins rewards and marks to the inventory still held', async () => {
+    const today = new Date().toISOString().slice(0, 10);
+    db.stored.pnl = [
+      { date: today, conditionId: 'a', question: 'A?', spreadUsd: 2, mergeUsd: 1, fills: 4, unrealizedUsd: -1 },
+      { date: today, conditionId: 'b', spreadUsd: -3, fills: 2 }
+    ];
+    db.stored.rewards = [
+      { date: today, conditionId: 'a', estimatedUsd: 0.5, receivedUsd: 0.8 },
+      { date: today, conditionId: 'c', estimatedUsd: 0.2 }
+    ];
+    db.stored.inventory = [{ tokenId: 'a-yes', conditionId: 'a', shares: 10, costUsd: 5, markPrice: 0.4 }];
+
+    const summary = await getMarketMakingPnl('0xuser', 7);
+
+    expect(summary.byMarket.map(m => m.conditionId)).toEqual(['b', 'c', 'a']);
+    expect(summary.byMarket[2]).toMatchObject({ realizedUsd: 3, rewardsUsd: 0.8, inventoryUsd: 4, unrealizedUsd: -1, fills: 4 });
+    expect(summary.byMarket[2].netUsd).toBeCloseTo(2.8, 9);
+    expect(summary.byMarket[0]).toMatchObject({ netUsd: -3, losingDays: 1 });
+    expect(summary.totals.rewardsUsd).toBeCloseTo(1, 9);
+    expect(summary.byDay).toEqual([{ date: today, realizedUsd: 0, rewardsUsd: 1, unrealizedUsd: -1 }]);
+  });
+});
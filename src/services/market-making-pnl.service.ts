@@ -0,0 +1,326 @@
+import { MarketMakingInventory, MarketMakingPnl, RewardEarning, paperScope } from '../database/index.js';
+import { MarketMakingInventoryRecord, MarketMakingPnlMarket, MarketMakingPnlRecord, MarketMakingPnlSummary, RewardEarningRecord } from '../domain/market.types.js';
+import { OrderFill, OrderRecord } from '../domain/order.types.js';
+import { Logger } from '../utils/logger.util.js';
+
+export type MarketMakingPnlDeps = {
+  userId: string;
+  // Paper sessions attribute their quotes apart from live ones
+  paper?: boolean;
+  logger: Logger;
+  getMidpoint: (tokenId: string) => number | undefined;
+  getQuestion?: (tokenId: string) => string | undefined;
+};
+
+type PnlIncrement = Partial<Pick<MarketMakingPnlRecord,
+  | 'spreadUsd' | 'mergeUsd' | 'mergeProceedsUsd' | 'redemptionUsd' | 'redemptionProceedsUsd'
+  | 'boughtUsd' | 'soldUsd' | 'fills'>>;
+
+const SHARE_EPSILON = 1e-6;
+const MARK_INTERVAL = 5 * 60 * 1000;
+
+const utcDate = (ts: number = Date.now()) => new Date(ts).toISOString().slice(0, 10);
+
+const lotValue = (lot: MarketMakingInventoryRecord) =>
+  lot.shares * (lot.markPrice ?? (lot.shares > 0 ? lot.costUsd / lot.shares : 0));
+
+/**
+ * Attributes market-making PnL to each market per UTC day: spread captured by quote fills
+ * (average cost), merges of YES/NO pairs, redemptions at resolution, and the mark-to-market
+ * of inventory still held. Rewards are joined from RewardEarning when summarising.
+ *
+ * Only inventory bought by our quotes carries a basis here, so merges and redemptions are
+ * attributed up to the quote inventory the ledger knows about.
+ */
+export class MarketMakingPnlService {
+  private inventory: Map<string, MarketMakingInventoryRecord> = new Map(); // tokenId -> lot
+  private markTimer?: NodeJS.Timeout;
+
+  constructor(private readonly deps: MarketMakingPnlDeps) {}
+
+  async start(): Promise<void> {
+    const lots = await MarketMakingInventory.find(this.scope()).lean();
+    this.inventory = new Map(lots.map(lot => [lot.tokenId, {
+      tokenId: lot.tokenId,
+      conditionId: lot.conditionId,
+      question: lot.question,
+      shares: lot.shares,
+      costUsd: lot.costUsd,
+      markPrice: lot.markPrice
+    }]));
+    if (this.markTimer) return;
+    this.markTimer = setInterval(() => {
+      this.markToMarket().catch(e => this.deps.logger.warn(`[MM PNL] Mark-to-market failed: ${e.message}`));
+    }, MARK_INTERVAL);
+  }
+
+  stop() {
+    if (this.markTimer) clearInterval(this.markTimer);
+    this.markTimer = undefined;
+  }
+
+  /**
+   * A fill on one of our quotes. Buys add to inventory at cost; sells realize the spread
+   * against the average cost of what the ledger holds.
+   */
+  async recordFill(order: OrderRecord, fill: OrderFill): Promise<void> {
+    if (order.source !== 'MM_QUOTE' || fill.size <= SHARE_EPSILON) return;
+
+    const lot = this.getLot(order.tokenId, order.marketId);
+    const notional = fill.size * fill.price;
+    const inc: PnlIncrement = { fills: 1 };
+
+    if (order.side === 'BUY') {
+      lot.shares += fill.size;
+      lot.costUsd += notional;
+      inc.boughtUsd = notional;
+    } else {
+      const closed = Math.min(fill.size, lot.shares);
+      const basis = lot.shares > 0 ? lot.costUsd * (closed / lot.shares) : 0;
+      lot.shares -= closed;
+      lot.costUsd -= basis;
+      inc.soldUsd = notional;
+      inc.spreadUsd = closed * fill.price - basis;
+    }
+
+    await this.saveLot(lot);
+    await this.increment(lot.conditionId, lot.question, inc);
+  }
+
+  /**
+   * `amount` YES/NO pairs merged back into USDC at $1 per pair.
+   */
+  async recordMerge(conditionId: string, amount: number): Promise<void> {
+    const lots = this.lotsFor(conditionId);
+    if (lots.length < 2) return;
+
+    const pairs = Math.min(amount, ...lots.map(lot => lot.shares));
+    if (pairs <= SHARE_EPSILON) return;
+
+    let basis = 0;
+    for (const lot of lots) {
+      const cost = lot.costUsd * (pairs / lot.shares);
+      basis += cost;
+      lot.shares -= pairs;
+      lot.costUsd -= cost;
+      await this.saveLot(lot);
+    }
+
+    await this.increment(conditionId, lots[0].question, { mergeUsd: pairs - basis, mergeProceedsUsd: pairs });
+    this.deps.logger.info(`📒 [MM PNL] Merged ${pairs.toFixed(2)} pairs on ${conditionId.slice(0, 10)}...: ${(pairs - basis).toFixed(2)} USD vs. cost`);
+  }
+
+  /**
+   * The market resolved and `tokenId` was redeemed: `redeemedShares` paid `proceedsUsd` in total.
+   * Every other outcome of the market is worthless, so the whole condition's inventory closes.
+   */
+  async recordRedemption(conditionId: string, tokenId: string, redeemedShares: number, proceedsUsd: number): Promise<void> {
+    const lots = this.lotsFor(conditionId);
+    if (lots.length === 0) return;
+
+    const payoutPerShare = redeemedShares > 0 ? proceedsUsd / redeemedShares : 0;
+    const winner = lots.find(lot => lot.tokenId === tokenId);
+    const proceeds = winner ? Math.min(winner.shares, redeemedShares) * payoutPerShare : 0;
+    const basis = lots.reduce((sum, lot) => sum + lot.costUsd, 0);
+
+    for (const lot of lots) {
+      lot.shares = 0;
+      lot.costUsd = 0;
+      await this.saveLot(lot);
+    }
+
+    await this.increment(conditionId, lots[0].question, { redemptionUsd: proceeds - basis, redemptionProceedsUsd: proceeds });
+  }
+
+  /**
+   * Marks quote inventory to the current midpoint and snapshots it on today's rows.
+   */
+  async markToMarket(): Promise<void> {
+    const byCondition = new Map<string, { question?: string; inventoryUsd: number; unrealizedUsd: number }>();
+    for (const lot of this.inventory.values()) {
+      const mid = this.deps.getMidpoint(lot.tokenId);
+      if (mid !== undefined && mid > 0) lot.markPrice = mid;
+      const entry = byCondition.get(lot.conditionId) || { question: lot.question, inventoryUsd: 0, unrealizedUsd: 0 };
+      const value = lotValue(lot);
+      entry.inventoryUsd += value;
+      entry.unrealizedUsd += value - lot.costUsd;
+      byCondition.set(lot.conditionId, entry);
+    }
+    if (byCondition.size === 0) return;
+
+    const date = utcDate();
+    await MarketMakingInventory.bulkWrite(Array.from(this.inventory.values(), lot => ({
+      updateOne: {
+        filter: { ...this.scope(), tokenId: lot.tokenId },
+        update: { $set: { markPrice: lot.markPrice, updatedAt: new Date() } }
+      }
+    })));
+    await MarketMakingPnl.bulkWrite(Array.from(byCondition, ([conditionId, entry]) => ({
+      updateOne: {
+        filter: { ...this.scope(), date, conditionId },
+        update: {
+          $set: { question: entry.question, inventoryUsd: entry.inventoryUsd, unrealizedUsd: entry.unrealizedUsd, updatedAt: new Date() }
+        },
+        upsert: true
+      }
+    })));
+  }
+
+  async getSummary(days = 7): Promise<MarketMakingPnlSummary> {
+    await this.markToMarket();
+    return getMarketMakingPnl(this.deps.userId, days, this.deps.paper);
+  }
+
+  private getLot(tokenId: string, conditionId: string): MarketMakingInventoryRecord {
+    let lot = this.inventory.get(tokenId);
+    if (!lot) {
+      lot = { tokenId, conditionId, question: this.deps.getQuestion?.(tokenId), shares: 0, costUsd: 0 };
+      this.inventory.set(tokenId, lot);
+    }
+    return lot;
+  }
+
+  private lotsFor(conditionId: string): MarketMakingInventoryRecord[] {
+    return Array.from(this.inventory.values()).filter(lot => lot.conditionId === conditionId && lot.shares > SHARE_EPSILON);
+  }
+
+  private async saveLot(lot: MarketMakingInventoryRecord): Promise<void> {
+    if (lot.shares <= SHARE_EPSILON) {
+      this.inventory.delete(lot.tokenId);
+      await MarketMakingInventory.deleteOne({ ...this.scope(), tokenId: lot.tokenId });
+      // Nothing left to mark: today's snapshot for the market drops with it
+      if (this.lotsFor(lot.conditionId).length === 0) {
+        await MarketMakingPnl.updateOne(
+          { ...this.scope(), date: utcDate(), conditionId: lot.conditionId },
+          { $set: { inventoryUsd: 0, unrealizedUsd: 0, updatedAt: new Date() } },
+          { upsert: true }
+        );
+      }
+      return;
+    }
+    await MarketMakingInventory.updateOne(
+      { ...this.scope(), tokenId: lot.tokenId },
+      { $set: { conditionId: lot.conditionId, question: lot.question, shares: lot.shares, costUsd: lot.costUsd, markPrice: lot.markPrice, updatedAt: new Date() } },
+      { upsert: true }
+    );
+  }
+
+  private scope() {
+    return { userId: this.deps.userId, paper: paperScope(this.deps.paper) };
+  }
+
+  private async increment(conditionId: string, question: string | undefined, inc: PnlIncrement): Promise<void> {
+    await MarketMakingPnl.updateOne(
+      { ...this.scope(), date: utcDate(), conditionId },
+      { $inc: inc, $set: { ...(question ? { question } : {}), updatedAt: new Date() } },
+      { upsert: true }
+    );
+  }
+}
+
+/**
+ * Stored PnL attribution for the last `days` UTC days (works without a running engine).
+ * Unrealized PnL per market is the current mark of the inventory still held.
+ */
+export async function getMarketMakingPnl(userId: string, days = 7, paper?: boolean): Promise<MarketMakingPnlSummary> {
+  const since = utcDate(Date.now() - (days - 1) * 24 * 60 * 60 * 1000);
+  const scope = { userId, paper: paperScope(paper) };
+  const [rows, rewardRows, lots] = await Promise.all([
+    MarketMakingPnl.find({ ...scope, date: { $gte: since } }).sort({ date: 1 }).lean() as Promise<MarketMakingPnlRecord[]>,
+    RewardEarning.find({ ...scope, date: { $gte: since } }).lean() as Promise<RewardEarningRecord[]>,
+    MarketMakingInventory.find(scope).lean() as Promise<MarketMakingInventoryRecord[]>
+  ]);
+
+  const rewards = new Map<string, RewardEarningRecord>(rewardRows.map(r => [`${r.date}|${r.conditionId}`, r]));
+  const rewardFor = (date: string, conditionId: string) => {
+    const r = rewards.get(`${date}|${conditionId}`);
+    return r ? (r.receivedUsd ?? r.estimatedUsd ?? 0) : 0;
+  };
+
+  const held = new Map<string, { inventoryUsd: number; unrealizedUsd: number }>();
+  for (const lot of lots) {
+    const entry = held.get(lot.conditionId) || { inventoryUsd: 0, unrealizedUsd: 0 };
+    entry.inventoryUsd += lotValue(lot);
+    entry.unrealizedUsd += lotValue(lot) - lot.costUsd;
+    held.set(lot.conditionId, entry);
+  }
+
+  const byMarket = new Map<string, MarketMakingPnlMarket>();
+  const lastUnrealized = new Map<string, number>();
+  const byDay = new Map<string, MarketMakingPnlSummary['byDay'][number]>();
+  const emptyMarket = (conditionId: string, question?: string): MarketMakingPnlMarket => ({
+    conditionId, question, spreadUsd: 0, mergeUsd: 0, mergeProceedsUsd: 0, redemptionUsd: 0, redemptionProceedsUsd: 0,
+    unrealizedUsd: 0, inventoryUsd: 0, boughtUsd: 0, soldUsd: 0, fills: 0,
+    rewardsUsd: 0, realizedUsd: 0, netUsd: 0, days: 0, losingDays: 0
+  });
+
+  for (const row of rows) {
+    const market = byMarket.get(row.conditionId) || emptyMarket(row.conditionId, row.question);
+    const realized = (row.spreadUsd || 0) + (row.mergeUsd || 0) + (row.redemptionUsd || 0);
+    const reward = rewardFor(row.date, row.conditionId);
+    const unrealized = row.unrealizedUsd || 0;
+
+    market.spreadUsd += row.spreadUsd || 0;
+    market.mergeUsd += row.mergeUsd || 0;
+    market.mergeProceedsUsd += row.mergeProceedsUsd || 0;
+    market.redemptionUsd += row.redemptionUsd || 0;
+    market.redemptionProceedsUsd += row.redemptionProceedsUsd || 0;
+    market.boughtUsd += row.boughtUsd || 0;
+    market.soldUsd += row.soldUsd || 0;
+    market.fills += row.fills || 0;
+    market.rewardsUsd += reward;
+    market.days++;
+    // A losing day: what was realized and earned did not cover the move in held inventory
+    if (realized + reward + (unrealized - (lastUnrealized.get(row.conditionId) || 0)) < 0) market.losingDays++;
+    lastUnrealized.set(row.conditionId, unrealized);
+    if (!market.question && row.question) market.question = row.question;
+    byMarket.set(row.conditionId, market);
+
+    const day = byDay.get(row.date) || { date: row.date, realizedUsd: 0, rewardsUsd: 0, unrealizedUsd: 0 };
+    day.realizedUsd += realized;
+    day.rewardsUsd += reward;
+    day.unrealizedUsd += unrealized;
+    byDay.set(row.date, day);
+  }
+
+  // Markets that earned rewards without a fill
+  const filledMarkets = new Set(byMarket.keys());
+  for (const r of rewardRows) {
+    if (filledMarkets.has(r.conditionId)) continue;
+    const reward = rewardFor(r.date, r.conditionId);
+    const market = byMarket.get(r.conditionId) || emptyMarket(r.conditionId, r.question);
+    market.rewardsUsd += reward;
+    market.days++;
+    byMarket.set(r.conditionId, market);
+
+    const day = byDay.get(r.date) || { date: r.date, realizedUsd: 0, rewardsUsd: 0, unrealizedUsd: 0 };
+    day.rewardsUsd += reward;
+    byDay.set(r.date, day);
+  }
+
+  const totals = { spreadUsd: 0, mergeUsd: 0, redemptionUsd: 0, rewardsUsd: 0, unrealizedUsd: 0, netUsd: 0 };
+  const markets: MarketMakingPnlMarket[] = [];
+  for (const market of byMarket.values()) {
+    const current = held.get(market.conditionId);
+    market.inventoryUsd = current?.inventoryUsd || 0;
+    market.unrealizedUsd = current?.unrealizedUsd || 0;
+    market.realizedUsd = market.spreadUsd + market.mergeUsd + market.redemptionUsd;
+    market.netUsd = market.realizedUsd + market.rewardsUsd + market.unrealizedUsd;
+    markets.push(market);
+
+    totals.spreadUsd += market.spreadUsd;
+    totals.mergeUsd += market.mergeUsd;
+    totals.redemptionUsd += market.redemptionUsd;
+    totals.rewardsUsd += market.rewardsUsd;
+    totals.unrealizedUsd += market.unrealizedUsd;
+    totals.netUsd += market.netUsd;
+  }
+
+  return {
+    days,
+    totals,
+    // Worst first: the markets that keep losing to adverse selection are the blacklist candidates
+    byMarket: markets.sort((a, b) => a.netUsd - b.netUsd),
+    byDay: Array.from(byDay.values()).sort((a, b) => b.date.localeCompare(a.date))
+  };
+}
@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { IExchangeAdapter, OrderParams, OrderResult, OrderSnapshot } from '../adapters/interfaces.js';
+import { Logger } from '../utils/logger.util.js';
+import { OrderStoreService } from './order-store.service.js';
+
+// In-memory stand-in for the Order model covering the filters and updates the store uses
+const db = vi.hoisted(() => {
+  const rows: any[] = [];
+  const matches = (row: any, filter: any) => Object.entries(filter).every(([key, cond]: [string, any]) => {
+    if (cond && typeof cond === 'object' && '$in' in cond) return cond.$in.includes(row[key]);
+    if (cond && typeof cond === 'object' && '$ne' in cond) return row[key] !== cond.$ne;
+    return String(row[key]) === String(cond);
+  });
+  const copy = (row: any) => (row ? structuredClone(row) : null);
+  const query = (result: () => any) => {
+    const q: any = { select: () => q, sort: () => q, limit: () => q, lean: async () => result() };
+    return q;
+  };
+  const update = (row: any, change: any) => {
+    Object.assign(row, change.$set || {});
+    for (const [key, value] of Object.entries(change.$push || {})) row[key] = [...(row[key] || []), value];
+  };
+  const Order = {
+    create: async (doc: any) => {
+      const row = { _id: `order-${rows.length + 1}`, createdAt: new Date(), updatedAt: new Date(), ...doc };
+      rows.push(row);
+      return { ...row, toObject: () => copy(row) };
+    },
+    findOne: (filter: any) => query(() => copy(rows.find(r => matches(r, filter)))),
+    find: (filter: any) => query(() => rows.filter(r => matches(r, filter)).map(copy)),
+    countDocuments: async (filter: any) => rows.filter(r => matches(r, filter)).length,
+    updateOne: async (filter: any, change: any) => {
+      const row = rows.find(r => matches(r, filter));
+      if (row) update(row, change);
+    },
+    findOneAndUpdate: (filter: any, change: any) => query(() => {
+      const row = rows.find(r => matches(r, filter));
+      if (row) update(row, change);
+      return copy(row);
+    })
+  };
+  return { rows, Order };
+});
+
+vi.mock('../database/index.js', () => ({ Order: db.Order, paperScope: (paper?: boolean) => (paper ? true : { $ne: true }) }));
+
+const logger: Logger = { info: () => {}, warn: () => {}, error: () => {}, debug: () => {}, success: () => {} };
+
+const PARAMS: OrderParams = { marketId: 'cond', tokenId: 'yes', outcome: 'YES', side: 'BUY', sizeUsd: 5, sizeShares: 10, priceLimit: 0.5 };
+
+const placed = (overrides: Partial<OrderResult> = {}): OrderResult => ({
+  success: true,
+  orderId: '0xorder',
+  sharesFilled: 0,
+  priceFilled: 0.5,
+  ...overrides
+});
+
+const snapshot = (overrides: Partial<OrderSnapshot> = {}): OrderSnapshot => ({
+  orderId: '0xorder',
+  status: 'LIVE',
+  originalSize: 10,
+  sizeMatched: 0,
+  price: 0.5,
+  ...overrides
+});
+
+describe('OrderStoreService', () => {
+  const getOrder = vi.fn();
+  let store: OrderStoreService;
+
+  beforeEach(() => {
+    db.rows.length = 0;
+    getOrder.mockReset();
+    const adapter = { getOrder, getOpenOrders: async () => [] } as unknown as IExchangeAdapter;
+    store = new OrderStoreService({ userId: '0xuser', adapter, logger });
+  });
+
+  afterEach(() => {
+    store.stop();
+  });
+
+  it('derives the placement status from the order type and matched size', async () => {
+    expect(await store.track(PARAMS, placed({ success: false }), 'COPY')).toBeNull();
+    expect((await store.track(PARAMS, placed({ orderId: 'a', sharesFilled: 10 }), 'COPY'))?.status).toBe('FILLED');
+    expect((await store.track({ ...PARAMS, orderType: 'FAK' }, placed({ orderId: 'b', sharesFilled: 4 }), 'COPY'))?.status).toBe('CANCELLED');
+
+    const resting = await store.track({ ...PARAMS, orderType: 'GTC' }, placed({ orderId: 'c', sharesFilled: 4 }), 'MM_QUOTE');
+    expect(resting).toMatchObject({ status: 'PARTIALLY_FILLED', filledSize: 4, requestedSize: 10 });
+    expect(resting?.statusHistory.map(s => s.status)).toEqual(['OPEN', 'PARTIALLY_FILLED']);
+  });
+
+  it('accumulates later fills into a volume-weighted price until the order is filled', async () => {
+    await store.track({ ...PARAMS, orderType: 'GTC' }, placed(), 'MM_QUOTE');
+
+    const partial = await store.applyFill('0xorder', { tradeId: 't1', price: 0.5, size: 4, timestamp: 1 });
+    expect(partial).toMatchObject({ status: 'PARTIALLY_FILLED', filledSize: 4 });
+
+    const filled = await store.applyFill('0xorder', { tradeId: 't2', price: 0.45, size: 6, timestamp: 2 });
+    expect(filled).toMatchObject({ status: 'FILLED', filledSize: 10 });
+    expect(filled?.avgFillPrice).toBeCloseTo(0.47, 9);
+    expect(filled?.statusHistory.map(s => s.status)).toEqual(['OPEN', 'PARTIALLY_FILLED', 'FILLED']);
+  });
+
+  it('keeps both of two fills reported at once', async () => {
+    await store.track({ ...PARAMS, orderType: 'GTC' }, placed(), 'MM_QUOTE');
+
+    await Promise.all([
+      store.applyFill('0xorder', { tradeId: 't1', price: 0.5, size: 4, timestamp: 1 }),
+      store.applyFill('0xorder', { tradeId: 't2', price: 0.45, size: 6, timestamp: 2 })
+    ]);
+
+    expect(db.rows[0]).toMatchObject({ status: 'FILLED', filledSize: 10 });
+    expect(db.rows[0].fills.map((f: { tradeId: string }) => f.tradeId)).toEqual(['t1', 't2']);
+    expect(db.rows[0].avgFillPrice).toBeCloseTo(0.47, 9);
+  });
+
+  it('ignores repeated fill reports', async () => {
+    await store.track({ ...PARAMS, orderType: 'GTC' }, placed(), 'MM_QUOTE');
+    await store.applyFill('0xorder', { tradeId: 't1', price: 0.5, size: 4, timestamp: 1 });
+
+    expect(await store.applyFill('0xorder', { tradeId: 't1', price: 0.5, size: 4, timestamp: 1 })).toBeNull();
+    expect(await store.applyFill('0xunknown', { price: 0.5, size: 4, timestamp: 1 })).toBeNull();
+    expect(db.rows[0].filledSize).toBe(4);
+  });
+
+  it('reconciles new fills from the cumulative matched size', async () => {
+    await store.track({ ...PARAMS, orderType: 'GTC' }, placed({ sharesFilled: 4, priceFilled: 0.5 }), 'MM_QUOTE');
+    getOrder.mockResolvedValue(snapshot({ sizeMatched: 10, avgFillPrice: 0.47 }));
+
+    await store.reconcile();
+    await store.reconcile();
+
+    const [order] = await store.getOrders();
+    expect(order).toMatchObject({ status: 'FILLED', filledSize: 10 });
+    expect(order.fills).toHaveLength(2);
+    // 4 @ 0.50 already known, so the other 6 came in at 0.45
+    expect(order.fills[1].price).toBeCloseTo(0.45, 9);
+  });
+
+  it('records cancellations and expiries reported by the exchange', async () => {
+    await store.track({ ...PARAMS, orderType: 'GTC' }, placed({ orderId: 'gtc' }), 'MM_QUOTE');
+    await store.track({ ...PARAMS, orderType: 'GTC' }, placed({ orderId: 'gtd' }), 'MM_QUOTE');
+    await store.track({ ...PARAMS, orderType: 'GTC' }, placed({ orderId: 'part' }), 'MM_QUOTE');
+    getOrder.mockImplementation(async (orderId: string) => ({
+      gtc: snapshot({ orderId, status: 'CANCELLED' }),
+      gtd: snapshot({ orderId, status: 'CANCELLED', expiration: Date.now() - 1000 }),
+      part: snapshot({ orderId, status: 'MATCHED', sizeMatched: 3 })
+    })[orderId]);
+
+    await store.reconcile();
+
+    const statuses = Object.fromEntries((await store.getOrders()).map(o => [o.clobOrderId, [o.status, o.filledSize]]));
+    expect(statuses).toEqual({ gtc: ['CANCELLED', 0], gtd: ['EXPIRED', 0], part: ['CANCELLED', 3] });
+    expect(await store.getOpenOrders()).toEqual([]);
+  });
+
+  it('keeps paper orders apart from live ones', async () => {
+    const adapter = { getOrder, getOpenOrders: async () => [] } as unknown as IExchangeAdapter;
+    const paper = new OrderStoreService({ userId: '0xuser', adapter, logger, paper: true });
+    await store.track(PARAMS, placed({ orderId: 'live', sharesFilled: 10 }), 'COPY');
+    await paper.track(PARAMS, placed({ orderId: 'paper', sharesFilled: 10 }), 'COPY');
+
+    expect((await store.getOrders()).map(o => o.clobOrderId)).toEqual(['live']);
+    expect((await paper.getOrders()).map(o => o.clobOrderId)).toEqual(['paper']);
+    expect(await paper.applyFill('live', { price: 0.5, size: 1, timestamp: 1 })).toBeNull();
+  });
+});
@@ -0,0 +1,290 @@
+import crypto from 'crypto';
+import { IExchangeAdapter, OrderParams, OrderResult, OrderSnapshot } from '../adapters/interfaces.js';
+import { Order, paperScope } from '../database/index.js';
+import { OPEN_ORDER_STATUSES, OrderFill, OrderRecord, OrderSource, OrderStatus } from '../domain/order.types.js';
+import { Logger } from '../utils/logger.util.js';
+
+export type OrderStoreDeps = {
+  userId: string;
+  adapter: IExchangeAdapter;
+  logger: Logger;
+  // Paper sessions keep their orders apart from live ones
+  paper?: boolean;
+  // Fills on resting GTC quotes, including any matched at placement; taker placement fills are returned to the caller instead
+  onFill?: (order: OrderRecord, fill: OrderFill) => Promise<void>;
+};
+
+const FILL_EPSILON = 1e-6;
+const MAX_FILL_ATTEMPTS = 5;
+const DEFAULT_POLL_INTERVAL = 15000;
+
+const toRecord = (doc: any): OrderRecord => ({
+  id: doc._id.toString(),
+  userId: doc.userId,
+  clobOrderId: doc.clobOrderId,
+  marketId: doc.marketId,
+  tokenId: doc.tokenId,
+  outcome: doc.outcome,
+  side: doc.side,
+  source: doc.source,
+  orderType: doc.orderType,
+  requestedPrice: doc.requestedPrice,
+  requestedSize: doc.requestedSize,
+  status: doc.status,
+  statusHistory: doc.statusHistory || [],
+  fills: doc.fills || [],
+  filledSize: doc.filledSize || 0,
+  avgFillPrice: doc.avgFillPrice || 0,
+  txHash: doc.txHash,
+  createdAt: new Date(doc.createdAt).getTime(),
+  updatedAt: new Date(doc.updatedAt).getTime()
+});
+
+/**
+ * Status implied by how much of the order has matched. Taker orders (FOK/FAK) never rest,
+ * so whatever did not match at placement is cancelled.
+ */
+function statusForFill(filled: number, requested: number, resting: boolean): OrderStatus {
+  if (filled + FILL_EPSILON >= requested && requested > 0) return 'FILLED';
+  if (!resting) return 'CANCELLED';
+  return filled > FILL_EPSILON ? 'PARTIALLY_FILLED' : 'OPEN';
+}
+
+/**
+ * Persists every order the bot places together with its status transitions and fills.
+ * Placement results are recorded synchronously; later fills on resting orders come from
+ * reconcile() (polling) or applyFill()/applyStatus() (streamed user-channel events).
+ */
+export class OrderStoreService {
+  private pollTimer?: NodeJS.Timeout;
+  private reconciling = false;
+
+  constructor(private readonly deps: OrderStoreDeps) {}
+
+  /**
+   * Records a placed order. Returns null when the exchange rejected it (nothing was placed).
+   */
+  async track(params: OrderParams, result: OrderResult, source: OrderSource): Promise<OrderRecord | null> {
+    if (!result.success) return null;
+
+    const now = Date.now();
+    const orderType = result.orderType || params.orderType || (params.side === 'SELL' ? 'FAK' : 'FOK');
+    const requestedSize = result.orderedShares ?? params.sizeShares ?? (result.sharesFilled || 0);
+    const filled = result.sharesFilled || 0;
+    const fills: OrderFill[] = filled > FILL_EPSILON ? [{ price: result.priceFilled, size: filled, timestamp: now }] : [];
+
+    const statusHistory = [{ status: 'OPEN' as OrderStatus, at: now }];
+    const resting = orderType === 'GTC';
+    if (filled > FILL_EPSILON && filled + FILL_EPSILON < requestedSize) statusHistory.push({ status: 'PARTIALLY_FILLED', at: now });
+    const status = statusForFill(filled, requestedSize, resting);
+    if (status !== statusHistory[statusHistory.length - 1].status) statusHistory.push({ status, at: now });
+
+    const doc = await Order.create({
+      userId: this.deps.userId,
+      paper: !!this.deps.paper,
+      // Paper/legacy paths may not return an order id; keep the record addressable anyway
+      clobOrderId: result.orderId || `local-${crypto.randomUUID()}`,
+      marketId: params.marketId,
+      tokenId: params.tokenId,
+      outcome: params.outcome,
+      side: params.side,
+      source,
+      orderType,
+      requestedPrice: result.limitPrice ?? params.priceLimit ?? result.priceFilled,
+      requestedSize,
+      status,
+      statusHistory,
+      fills,
+      filledSize: filled,
+      avgFillPrice: filled > FILL_EPSILON ? result.priceFilled : 0,
+      txHash: result.txHash
+    });
+
+    if (resting && OPEN_ORDER_STATUSES.includes(status)) this.ensurePolling();
+    const record = toRecord(doc.toObject());
+    // Quote callers only keep the order id, so a quote that crossed on placement reports its fill here
+    if (resting && fills.length > 0 && this.deps.onFill) await this.deps.onFill(record, fills[0]);
+    return record;
+  }
+
+  /**
+   * Adds a fill reported after placement. Duplicate reports (same tradeId) are ignored. The write
+   * only lands if the order's filled size is still the one the fill was added to; streamed and
+   * polled fills for the same order race, so a miss re-reads the order and tries again.
+   */
+  async applyFill(clobOrderId: string, fill: OrderFill): Promise<OrderRecord | null> {
+    if (fill.size <= FILL_EPSILON) return null;
+
+    for (let attempt = 0; attempt < MAX_FILL_ATTEMPTS; attempt++) {
+      const doc: any = await Order.findOne({ ...this.scope(), clobOrderId }).lean();
+      if (!doc) return null;
+      if (fill.tradeId && (doc.fills || []).some((f: OrderFill) => f.tradeId === fill.tradeId)) return null;
+
+      const prevFilled = doc.filledSize || 0;
+      const filledSize = prevFilled + fill.size;
+      const avgFillPrice = (prevFilled * (doc.avgFillPrice || 0) + fill.size * fill.price) / filledSize;
+      const status = statusForFill(filledSize, doc.requestedSize, true);
+      const now = Date.now();
+
+      const updated: any = await Order.findOneAndUpdate(
+        { _id: doc._id, filledSize: prevFilled },
+        {
+          $push: {
+            fills: fill,
+            ...(status !== doc.status ? { statusHistory: { status, at: now } } : {})
+          },
+          $set: { filledSize, avgFillPrice, status, updatedAt: new Date(now) }
+        },
+        { new: true }
+      ).lean();
+      if (!updated) continue;
+      const record = toRecord(updated);
+
+      this.deps.logger.info(`🧾 [ORDERS] ${record.side} ${fill.size.toFixed(2)} @ ${fill.price.toFixed(3)} filled on ${clobOrderId.slice(0, 10)}... (${status})`);
+      if (this.deps.onFill) await this.deps.onFill(record, fill);
+      return record;
+    }
+
+    this.deps.logger.warn(`[ORDERS] Gave up on a ${fill.size.toFixed(2)} fill for ${clobOrderId.slice(0, 10)}... after ${MAX_FILL_ATTEMPTS} conflicting writes`);
+    return null;
+  }
+
+  /**
+   * Terminal/cancel transitions reported by the exchange. FILLED is derived from fills, not set here.
+   */
+  async applyStatus(clobOrderId: string, status: Exclude<OrderStatus, 'FILLED'>): Promise<void> {
+    const doc: any = await Order.findOne({ ...this.scope(), clobOrderId }).select('status').lean();
+    if (!doc || doc.status === status || !OPEN_ORDER_STATUSES.includes(doc.status)) return;
+    const now = Date.now();
+    await Order.updateOne(
+      { _id: doc._id },
+      { $set: { status, updatedAt: new Date(now) }, $push: { statusHistory: { status, at: now } } }
+    );
+  }
+
+  /**
+   * Applies an exchange view of one order (polled, or built from a user-channel event). Fills
+   * are derived from the cumulative matched size, so repeated reports are harmless.
+   */
+  async sync(snapshot: OrderSnapshot): Promise<void> {
+    const doc = await Order.findOne({ ...this.scope(), clobOrderId: snapshot.orderId, status: { $in: OPEN_ORDER_STATUSES } }).lean();
+    if (doc) await this.applySnapshot(toRecord(doc), snapshot);
+  }
+
+  /**
+   * Polls the exchange for every order still open in the store and applies new fills and cancellations.
+   */
+  async reconcile(): Promise<void> {
+    if (this.reconciling || !this.deps.adapter.getOrder) return;
+    this.reconciling = true;
+    try {
+      const open = await Order.find({ ...this.scope(), status: { $in: OPEN_ORDER_STATUSES } }).lean();
+      for (const doc of open) {
+        if (doc.clobOrderId.startsWith('local-')) continue;
+        const snapshot = await this.deps.adapter.getOrder(doc.clobOrderId);
+        if (snapshot) await this.applySnapshot(toRecord(doc), snapshot);
+      }
+      if (open.length === 0) this.stop();
+    } catch (e: any) {
+      this.deps.logger.warn(`[ORDERS] Reconcile failed: ${e.message}`);
+    } finally {
+      this.reconciling = false;
+    }
+  }
+
+  /**
+   * Open orders for the API: live CLOB orders joined with their stored lifecycle. Orders on
+   * the book that this bot did not place are reported with source EXTERNAL.
+   */
+  async getOpenOrders(): Promise<OrderRecord[]> {
+    const [stored, live] = await Promise.all([
+      Order.find({ ...this.scope(), status: { $in: OPEN_ORDER_STATUSES } }).sort({ createdAt: -1 }).lean(),
+      this.deps.adapter.getOpenOrders().catch(() => [] as any[])
+    ]);
+    const records = stored.map(toRecord);
+    const known = new Set(records.map(r => r.clobOrderId));
+
+    for (const o of live) {
+      if (!o?.id || known.has(o.id)) continue;
+      const createdAt = Number(o.created_at) ? Number(o.created_at) * 1000 : Date.now();
+      const filled = parseFloat(o.size_matched || '0');
+      records.push({
+        id: o.id,
+        userId: this.deps.userId,
+        clobOrderId: o.id,
+        marketId: o.market,
+        tokenId: o.asset_id,
+        outcome: o.outcome,
+        side: String(o.side).toUpperCase() === 'SELL' ? 'SELL' : 'BUY',
+        source: 'EXTERNAL',
+        orderType: o.order_type === 'GTD' ? 'GTC' : (o.order_type || 'GTC'),
+        requestedPrice: parseFloat(o.price || '0'),
+        requestedSize: parseFloat(o.original_size || '0'),
+        status: filled > FILL_EPSILON ? 'PARTIALLY_FILLED' : 'OPEN',
+        statusHistory: [],
+        fills: [],
+        filledSize: filled,
+        avgFillPrice: filled > FILL_EPSILON ? parseFloat(o.price || '0') : 0,
+        createdAt,
+        updatedAt: createdAt
+      });
+    }
+    return records;
+  }
+
+  async getOrders(limit = 100): Promise<OrderRecord[]> {
+    const docs = await Order.find(this.scope()).sort({ createdAt: -1 }).limit(limit).lean();
+    return docs.map(toRecord);
+  }
+
+  /**
+   * Starts polling if any stored order is still open (e.g. quotes left resting before a restart).
+   */
+  async start(): Promise<void> {
+    const open = await Order.countDocuments({ ...this.scope(), status: { $in: OPEN_ORDER_STATUSES } });
+    if (open > 0) this.ensurePolling();
+  }
+
+  stop() {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+
+  private scope() {
+    return { userId: this.deps.userId, paper: paperScope(this.deps.paper) };
+  }
+
+  private ensurePolling() {
+    if (this.pollTimer || !this.deps.adapter.getOrder) return;
+    this.pollTimer = setInterval(() => {
+      this.reconcile().catch(() => { /* logged inside reconcile */ });
+    }, DEFAULT_POLL_INTERVAL);
+  }
+
+  private async applySnapshot(record: OrderRecord, snapshot: OrderSnapshot): Promise<void> {
+    const delta = snapshot.sizeMatched - record.filledSize;
+    if (delta > FILL_EPSILON) {
+      // Back out the new fill's price from the exchange average when it reports one
+      const price = snapshot.avgFillPrice !== undefined
+        ? (snapshot.avgFillPrice * snapshot.sizeMatched - record.avgFillPrice * record.filledSize) / delta
+        : snapshot.price;
+      const seen = new Set(record.fills.map(f => f.tradeId).filter(Boolean));
+      await this.applyFill(record.clobOrderId, {
+        tradeId: (snapshot.tradeIds || []).filter(id => !seen.has(id)).pop(),
+        price,
+        size: delta,
+        timestamp: Date.now()
+      });
+    }
+
+    if (snapshot.status === 'CANCELLED') {
+      const expired = snapshot.expiration !== undefined && snapshot.expiration <= Date.now();
+      await this.applyStatus(record.clobOrderId, expired ? 'EXPIRED' : 'CANCELLED');
+    } else if (snapshot.status === 'MATCHED' && snapshot.sizeMatched + FILL_EPSILON < record.requestedSize) {
+      // Left the book without matching its full size (partially filled, then cancelled)
+      await this.applyStatus(record.clobOrderId, 'CANCELLED');
+    }
+  }
+}
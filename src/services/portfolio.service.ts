@@ -13,23 +13,23 @@ export class PortfolioService {
     this.logger = logger;
   }
 
-  // Start regular portfolio snapshots
+  // Start regular portfolio snapshots (paper sessions are stored apart from live ones)
   startSnapshotService(userId: string, getPortfolioData: () => Promise<{
     totalValue: number;
     cashBalance: number;
     positions: ActivePosition[];
     totalPnL: number;
-  }>) {
+  }>, paper = false) {
     // Stop existing interval if any
     this.stopSnapshotService();
 
     // Create initial snapshot
-    this.createSnapshot(userId, getPortfolioData);
+    this.createSnapshot(userId, getPortfolioData, paper);
 
     // Set up regular snapshots
     this.snapshotInterval = setInterval(async () => {
       try {
-        await this.createSnapshot(userId, getPortfolioData);
+        await this.createSnapshot(userId, getPortfolioData, paper);
         this.logger.info(`[Portfolio] Snapshot created for ${userId}`);
       } catch (error: any) {
         this.logger.error(`[Portfolio] Failed to create snapshot: ${error.message}`);
@@ -56,7 +56,8 @@ export class PortfolioService {
       cashBalance: number;
       positions: ActivePosition[];
       totalPnL: number;
-    }>
+    }>,
+    paper = false
   ): Promise<void> {
     try {
       const portfolioData = await getPortfolioData();
@@ -88,7 +89,8 @@ export class PortfolioService {
         portfolioData.positions.length,
         portfolioData.totalPnL,
         totalPnLPercent,
-        positionsBreakdown
+        positionsBreakdown,
+        paper
       );
 
       this.logger.debug(`[Portfolio] Snapshot created: $${portfolioData.totalValue.toFixed(2)}`);
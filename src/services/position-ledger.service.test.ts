@@ -0,0 +1,97 @@
+import { describe, expect, it, vi } from 'vitest';
+import { PositionLot } from '../domain/trade.types.js';
+import { Logger } from '../utils/logger.util.js';
+import { consumeLots, normalizeCostBasisMethod, PositionLedgerService, summarizeLots } from './position-ledger.service.js';
+
+// The ledger only upserts books; nothing is read back in these tests
+vi.mock('../database/index.js', () => ({
+  PositionLedger: {
+    find: () => ({ lean: async () => [] }),
+    updateOne: vi.fn(async () => ({}))
+  }
+}));
+
+const logger: Logger = { info: () => {}, warn: () => {}, error: () => {}, debug: () => {}, success: () => {} };
+
+const lot = (shares: number, price: number, openedAt = 0): PositionLot => ({ shares, price, openedAt, source: 'COPY' });
+
+describe('consumeLots', () => {
+  const lots = [lot(10, 0.4, 1), lot(10, 0.6, 2)];
+
+  it('empties the oldest lots first under FIFO', () => {
+    const result = consumeLots(lots, 15, 'FIFO');
+    expect(result.shares).toBe(15);
+    expect(result.costUsd).toBeCloseTo(7, 9);
+    expect(result.lots).toEqual([lot(5, 0.6, 2)]);
+  });
+
+  it('reduces every lot pro rata under AVERAGE', () => {
+    const result = consumeLots(lots, 15, 'AVERAGE');
+    expect(result.costUsd).toBeCloseTo(7.5, 9);
+    expect(result.lots.map(l => l.shares)).toEqual([2.5, 2.5]);
+    expect(summarizeLots(result.lots).avgPrice).toBeCloseTo(0.5, 9);
+  });
+
+  it('never takes more than is held', () => {
+    const result = consumeLots(lots, 50, 'FIFO');
+    expect(result.shares).toBe(20);
+    expect(result.lots).toEqual([]);
+  });
+
+  it('leaves the lots untouched for a zero or negative amount', () => {
+    expect(consumeLots(lots, 0, 'FIFO')).toEqual({ lots, shares: 0, costUsd: 0 });
+    expect(consumeLots(lots, -5, 'AVERAGE')).toEqual({ lots, shares: 0, costUsd: 0 });
+  });
+
+  it('does not mutate the lots it is given', () => {
+    consumeLots(lots, 15, 'AVERAGE');
+    expect(lots).toEqual([lot(10, 0.4, 1), lot(10, 0.6, 2)]);
+  });
+});
+
+describe('normalizeCostBasisMethod', () => {
+  it('accepts known methods in any case', () => {
+    expect(normalizeCostBasisMethod('average')).toBe('AVERAGE');
+    expect(normalizeCostBasisMethod('LIFO')).toBeUndefined();
+    expect(normalizeCostBasisMethod(undefined)).toBeUndefined();
+  });
+});
+
+describe('PositionLedgerService.recordRedemption', () => {
+  const ledgerWith = async (...buys: [string, number, number][]) => {
+    const ledger = new PositionLedgerService({ userId: '0xuser', logger });
+    for (const [tokenId, shares, price] of buys) {
+      await ledger.recordBuy({ tokenId, conditionId: 'cond', shares, price, source: 'COPY' });
+    }
+    return ledger;
+  };
+
+  it('pays the winning outcome and closes the losing one at a loss', async () => {
+    const ledger = await ledgerWith(['yes', 10, 0.6], ['no', 10, 0.3]);
+    const [yes, no] = await ledger.recordRedemption('cond', 10, { yes: 1, no: 0 });
+
+    expect(yes).toMatchObject({ tokenId: 'yes', kind: 'REDEEM', shares: 10, proceedsUsd: 10, closed: true });
+    expect(yes.realizedPnl).toBeCloseTo(4, 9);
+    expect(no).toMatchObject({ tokenId: 'no', proceedsUsd: 0, closed: true });
+    expect(no.realizedPnl).toBeCloseTo(-3, 9);
+    expect(ledger.getBooks()).toEqual([]);
+  });
+
+  it('splits proceeds by shares when no resolution prices are given', async () => {
+    const ledger = await ledgerWith(['yes', 30, 0.5], ['no', 10, 0.5]);
+    const [yes, no] = await ledger.recordRedemption('cond', 20);
+    expect(yes.proceedsUsd).toBeCloseTo(15, 9);
+    expect(no.proceedsUsd).toBeCloseTo(5, 9);
+  });
+
+  it('caps proceeds at one dollar a share', async () => {
+    const ledger = await ledgerWith(['yes', 10, 0.5]);
+    const [yes] = await ledger.recordRedemption('cond', 25, { yes: 1 });
+    expect(yes.proceedsUsd).toBe(10);
+  });
+
+  it('ignores conditions the ledger does not hold', async () => {
+    const ledger = await ledgerWith(['yes', 10, 0.5]);
+    expect(await ledger.recordRedemption('other', 10)).toEqual([]);
+  });
+});
@@ -0,0 +1,289 @@
+import { PositionLedger } from '../database/index.js';
+import { CostBasisMethod, LotDisposal, LotDisposalKind, LotSource, PositionBook, PositionLot } from '../domain/trade.types.js';
+import { Logger } from '../utils/logger.util.js';
+
+export type PositionLedgerDeps = {
+  userId: string;
+  paper?: boolean;
+  logger: Logger;
+};
+
+export type LotBuy = {
+  tokenId: string;
+  conditionId: string;
+  outcome?: string;
+  shares: number;
+  price: number;
+  source: LotSource;
+  orderId?: string;
+  at?: number;
+};
+
+// What the chain (or paper account) says we hold, for reconcile()
+export type Holding = {
+  tokenId: string;
+  conditionId: string;
+  outcome?: string;
+  shares: number;
+  avgPrice?: number; // Exchange-reported average entry, used for lots the ledger never saw
+};
+
+type BookState = {
+  tokenId: string;
+  conditionId: string;
+  outcome?: string;
+  lots: PositionLot[];
+  realizedPnl: number;
+  updatedAt: number;
+};
+
+export const DEFAULT_COST_BASIS_METHOD: CostBasisMethod = 'FIFO';
+export const COST_BASIS_METHODS: CostBasisMethod[] = ['FIFO', 'AVERAGE'];
+
+export function normalizeCostBasisMethod(input: any): CostBasisMethod | undefined {
+  const method = typeof input === 'string' ? input.toUpperCase() : undefined;
+  return COST_BASIS_METHODS.find(m => m === method);
+}
+
+const SHARE_EPSILON = 1e-6;
+const DUST_SHARES = 0.01;                  // A remainder below this is closed with the disposal
+const RECONCILE_GRACE = 2 * 60 * 1000;     // The positions API lags our own fills
+
+export function summarizeLots(lots: PositionLot[]): { shares: number; costUsd: number; avgPrice: number } {
+  let shares = 0;
+  let costUsd = 0;
+  for (const lot of lots) {
+    shares += lot.shares;
+    costUsd += lot.shares * lot.price;
+  }
+  return { shares, costUsd, avgPrice: shares > SHARE_EPSILON ? costUsd / shares : 0 };
+}
+
+/**
+ * Takes `shares` out of `lots` (oldest first). FIFO empties whole lots in order; AVERAGE
+ * reduces every lot by the same fraction, so the remaining average cost is unchanged.
+ * Returns the remaining lots and the shares and cost actually consumed.
+ */
+export function consumeLots(lots: PositionLot[], shares: number, method: CostBasisMethod): { lots: PositionLot[]; shares: number; costUsd: number } {
+  const held = summarizeLots(lots);
+  const take = Math.min(Math.max(0, shares), held.shares);
+  if (take <= SHARE_EPSILON) return { lots, shares: 0, costUsd: 0 };
+
+  if (method === 'AVERAGE') {
+    const keep = 1 - take / held.shares;
+    return {
+      lots: lots.map(lot => ({ ...lot, shares: lot.shares * keep })).filter(lot => lot.shares > SHARE_EPSILON),
+      shares: take,
+      costUsd: held.avgPrice * take
+    };
+  }
+
+  const remaining: PositionLot[] = [];
+  let left = take;
+  let costUsd = 0;
+  for (const lot of lots) {
+    const used = Math.min(lot.shares, left);
+    left -= used;
+    costUsd += used * lot.price;
+    if (lot.shares - used > SHARE_EPSILON) remaining.push({ ...lot, shares: lot.shares - used });
+  }
+  return { lots: remaining, shares: take, costUsd };
+}
+
+/**
+ * Lot-based cost basis for every token the bot holds. Each buy fill opens a lot; sells,
+ * redemptions and merges consume lots (FIFO or average cost) and realize PnL against them.
+ * Positions, unrealized PnL and the realized PnL on SELL trades are all derived from here.
+ */
+export class PositionLedgerService {
+  private books: Map<string, BookState> = new Map(); // tokenId -> book
+
+  constructor(private readonly deps: PositionLedgerDeps, private method: CostBasisMethod = DEFAULT_COST_BASIS_METHOD) {}
+
+  async start(): Promise<void> {
+    const docs = await PositionLedger.find({ userId: this.deps.userId, paper: !!this.deps.paper }).lean();
+    this.books = new Map(docs.map(doc => [doc.tokenId, {
+      tokenId: doc.tokenId,
+      conditionId: doc.conditionId,
+      outcome: doc.outcome,
+      lots: (doc.lots || []).map(lot => ({ ...lot })),
+      realizedPnl: doc.realizedPnl || 0,
+      updatedAt: new Date(doc.updatedAt).getTime()
+    }]));
+  }
+
+  getMethod(): CostBasisMethod {
+    return this.method;
+  }
+
+  /**
+   * Applies to disposals from now on; lots already consumed are not re-costed.
+   */
+  setMethod(method: CostBasisMethod) {
+    this.method = method;
+  }
+
+  getBook(tokenId: string): PositionBook | undefined {
+    const book = this.books.get(tokenId);
+    return book ? this.toBook(book) : undefined;
+  }
+
+  getBooks(): PositionBook[] {
+    return Array.from(this.books.values(), book => this.toBook(book)).filter(book => book.shares > SHARE_EPSILON);
+  }
+
+  async recordBuy(buy: LotBuy): Promise<PositionBook> {
+    const book = this.bookFor(buy.tokenId, buy.conditionId, buy.outcome);
+    if (buy.shares > SHARE_EPSILON) {
+      book.lots.push({ shares: buy.shares, price: buy.price, openedAt: buy.at || Date.now(), source: buy.source, orderId: buy.orderId });
+    }
+    await this.save(book);
+    return this.toBook(book);
+  }
+
+  /**
+   * Sells `shares` for `proceedsUsd` in total. Shares beyond what the ledger holds have no
+   * known basis; only the held part (and its share of the proceeds) is realized.
+   */
+  async recordSell(tokenId: string, shares: number, proceedsUsd: number, kind: LotDisposalKind = 'SELL'): Promise<LotDisposal | null> {
+    const book = this.books.get(tokenId);
+    if (!book || shares <= SHARE_EPSILON) return null;
+    const held = summarizeLots(book.lots).shares;
+    const sold = Math.min(shares, held);
+    return this.dispose(book, sold, shares > 0 ? proceedsUsd * (sold / shares) : 0, kind);
+  }
+
+  /**
+   * The condition resolved and was redeemed for `proceedsUsd`. Proceeds go to each outcome
+   * held in proportion to shares x resolution price (`marks`; $1/$0 for a decided market),
+   * capped at $1 a share, and every outcome's lots close.
+   */
+  async recordRedemption(conditionId: string, proceedsUsd: number, marks: Record<string, number> = {}): Promise<LotDisposal[]> {
+    const books = this.booksFor(conditionId);
+    if (books.length === 0) return [];
+
+    const weights = books.map(book => summarizeLots(book.lots).shares * (marks[book.tokenId] ?? 1));
+    const totalWeight = weights.reduce((a, b) => a + b, 0);
+    const disposals: LotDisposal[] = [];
+    for (let i = 0; i < books.length; i++) {
+      const shares = summarizeLots(books[i].lots).shares;
+      const allocated = totalWeight > 0 ? proceedsUsd * (weights[i] / totalWeight) : 0;
+      disposals.push(await this.dispose(books[i], shares, Math.min(allocated, shares), 'REDEEM'));
+    }
+    return disposals;
+  }
+
+  /**
+   * `pairs` complete sets merged back into $1 each. The $1 is split between the legs in
+   * proportion to the cost each leg gives up.
+   */
+  async recordMerge(conditionId: string, pairs: number): Promise<LotDisposal[]> {
+    const books = this.booksFor(conditionId);
+    if (books.length < 2) return [];
+    const merged = Math.min(pairs, ...books.map(book => summarizeLots(book.lots).shares));
+    if (merged <= SHARE_EPSILON) return [];
+
+    const costs = books.map(book => consumeLots(book.lots, merged, this.method).costUsd);
+    const totalCost = costs.reduce((a, b) => a + b, 0);
+    const disposals: LotDisposal[] = [];
+    for (let i = 0; i < books.length; i++) {
+      const share = totalCost > 0 ? costs[i] / totalCost : 1 / books.length;
+      disposals.push(await this.dispose(books[i], merged, merged * share, 'MERGE'));
+    }
+    return disposals;
+  }
+
+  /**
+   * Brings the ledger in line with actual holdings. Extra shares become an IMPORTED lot at the
+   * exchange-reported entry; missing shares close at cost (ADJUST, no PnL). Books touched within
+   * the last couple of minutes are skipped, since the positions feed trails our own fills.
+   */
+  async reconcile(holdings: Holding[], now = Date.now()): Promise<LotDisposal[]> {
+    const disposals: LotDisposal[] = [];
+    const seen = new Set<string>();
+
+    for (const holding of holdings) {
+      seen.add(holding.tokenId);
+      const book = this.books.get(holding.tokenId);
+      if (book && now - book.updatedAt < RECONCILE_GRACE) continue;
+
+      const held = book ? summarizeLots(book.lots).shares : 0;
+      const diff = holding.shares - held;
+      if (diff > DUST_SHARES) {
+        const price = holding.avgPrice && holding.avgPrice > 0 ? holding.avgPrice : (book ? summarizeLots(book.lots).avgPrice : 0);
+        await this.recordBuy({ ...holding, shares: diff, price, source: 'IMPORTED', at: now });
+        this.deps.logger.info(`📒 [LEDGER] Imported ${diff.toFixed(2)} untracked shares of ${holding.tokenId.slice(0, 10)}... @ ${price.toFixed(3)}`);
+      } else if (book && diff < -DUST_SHARES) {
+        disposals.push(await this.adjust(book, -diff));
+      }
+    }
+
+    for (const book of this.books.values()) {
+      if (seen.has(book.tokenId) || now - book.updatedAt < RECONCILE_GRACE) continue;
+      const held = summarizeLots(book.lots).shares;
+      if (held > SHARE_EPSILON) disposals.push(await this.adjust(book, held));
+    }
+    return disposals;
+  }
+
+  private async adjust(book: BookState, shares: number): Promise<LotDisposal> {
+    const { costUsd } = consumeLots(book.lots, shares, this.method);
+    this.deps.logger.warn(`[LEDGER] ${shares.toFixed(2)} shares of ${book.tokenId.slice(0, 10)}... left without a recorded exit; closed at cost`);
+    return this.dispose(book, shares, costUsd, 'ADJUST');
+  }
+
+  private async dispose(book: BookState, shares: number, proceedsUsd: number, kind: LotDisposalKind): Promise<LotDisposal> {
+    let { lots, shares: consumed, costUsd } = consumeLots(book.lots, shares, this.method);
+    // Dust left behind closes with this disposal, so a later buy starts from a clean book
+    const rest = summarizeLots(lots);
+    if (rest.shares > SHARE_EPSILON && rest.shares < DUST_SHARES) {
+      consumed += rest.shares;
+      costUsd += rest.costUsd;
+      lots = [];
+    }
+
+    const realizedPnl = proceedsUsd - costUsd;
+    book.lots = lots;
+    book.realizedPnl += realizedPnl;
+    await this.save(book);
+
+    const remainingShares = summarizeLots(lots).shares;
+    return {
+      tokenId: book.tokenId,
+      kind,
+      shares: consumed,
+      costUsd,
+      proceedsUsd,
+      realizedPnl,
+      remainingShares,
+      closed: remainingShares <= SHARE_EPSILON
+    };
+  }
+
+  private bookFor(tokenId: string, conditionId: string, outcome?: string): BookState {
+    let book = this.books.get(tokenId);
+    if (!book) {
+      book = { tokenId, conditionId, outcome, lots: [], realizedPnl: 0, updatedAt: Date.now() };
+      this.books.set(tokenId, book);
+    }
+    if (!book.outcome && outcome) book.outcome = outcome;
+    return book;
+  }
+
+  private booksFor(conditionId: string): BookState[] {
+    return Array.from(this.books.values()).filter(book => book.conditionId === conditionId && summarizeLots(book.lots).shares > SHARE_EPSILON);
+  }
+
+  private toBook(book: BookState): PositionBook {
+    return { ...book, lots: book.lots.map(lot => ({ ...lot })), ...summarizeLots(book.lots) };
+  }
+
+  private async save(book: BookState): Promise<void> {
+    book.updatedAt = Date.now();
+    await PositionLedger.updateOne(
+      { userId: this.deps.userId, paper: !!this.deps.paper, tokenId: book.tokenId },
+      { $set: { conditionId: book.conditionId, outcome: book.outcome, lots: book.lots, realizedPnl: book.realizedPnl, updatedAt: new Date(book.updatedAt) } },
+      { upsert: true }
+    );
+  }
+}
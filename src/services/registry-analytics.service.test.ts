@@ -0,0 +1,86 @@
+import { describe, expect, it, vi } from 'vitest';
+import { entryBandOf, scoreTrader } from './registry-analytics.service.js';
+
+vi.mock('../database/index.js', () => ({ Registry: {} }));
+
+const DAY = 24 * 60 * 60;
+const T0 = Date.UTC(2025, 0, 1) / 1000;
+
+const trade = (side: 'BUY' | 'SELL', asset: string, size: number, price: number, timestamp: number, conditionId = `cond-${asset}`) => ({
+  side,
+  size,
+  price,
+  timestamp,
+  conditionId,
+  outcome: 'Yes',
+  asset,
+  transactionHash: `0x${asset}${timestamp}`
+});
+
+describe('scoreTrader', () => {
+  it('closes sells against the average cost of what was bought', () => {
+    const scores = scoreTrader([
+      trade('BUY', 'a', 100, 0.4, T0),
+      trade('BUY', 'a', 100, 0.5, T0 + 3600),
+      trade('SELL', 'a', 100, 0.6, T0 + 2 * 3600),
+      // Only the 100 shares left have a known entry
+      trade('SELL', 'a', 150, 0.35, T0 + 3 * 3600)
+    ], []);
+
+    expect(scores).toMatchObject({ realizedPnl: 5, winRate: 50, maxDrawdown: 10, trades: 4, avgEntryPrice: 0.45, entryBand: 'tossup' });
+    expect(scores.roiPct).toBeCloseTo(5 / 90 * 100, 1);
+  });
+
+  it('counts redeemable positions as closes and open ones as unrealized', () => {
+    const scores = scoreTrader(
+      [trade('BUY', 'a', 100, 0.5, T0), trade('BUY', 'b', 100, 0.2, T0)],
+      [
+        { asset: 'a', conditionId: 'cond-a', size: 100, avgPrice: 0.5, curPrice: 1, redeemable: true, endDate: new Date((T0 + 2 * DAY) * 1000).toISOString() },
+        { asset: 'b', conditionId: 'cond-b', size: 100, avgPrice: 0.2, curPrice: 0.3 }
+      ]
+    );
+
+    expect(scores).toMatchObject({ realizedPnl: 50, unrealizedPnl: 10, winRate: 100, avgHoldHours: 48 });
+    expect(scores.roiPct).toBeCloseTo(60 / 70 * 100, 1);
+  });
+
+  it('rates consistency only across three or more active days', () => {
+    const days = (pnls: number[]) => pnls.flatMap((pnl, i) => [
+      trade('BUY', `t${i}`, 100, 0.5, T0 + i * DAY),
+      trade('SELL', `t${i}`, 100, 0.5 + pnl / 100, T0 + i * DAY + 60)
+    ]);
+
+    expect(scoreTrader(days([5, 5]), []).consistency).toBe(0);
+    expect(scoreTrader(days([4, 6, 5]), []).consistency).toBeGreaterThan(5);
+    expect(scoreTrader(days([10, -10, 2]), []).consistency).toBeLessThan(1);
+  });
+
+  it('weights the top category by buy volume', () => {
+    const categories = new Map([['c1', 'Sports'], ['c2', 'Politics']]);
+    const scores = scoreTrader([
+      trade('BUY', 'a', 100, 0.5, T0, 'c1'),
+      trade('BUY', 'b', 300, 0.5, T0, 'c2')
+    ], [], categories);
+
+    expect(scores).toMatchObject({ topCategory: 'Politics', categoryShare: 0.75 });
+  });
+
+  it('marks down copyability for tiny, churned and extreme-priced trades', () => {
+    expect(scoreTrader([trade('BUY', 'a', 100, 0.5, T0)], []).copyability).toBe(100);
+
+    const scores = scoreTrader([
+      trade('BUY', 'a', 100, 0.5, T0),
+      trade('BUY', 'a', 100, 0.5, T0),
+      trade('BUY', 'b', 5, 0.5, T0 + 60),
+      trade('BUY', 'c', 1000, 0.99, T0 + 120)
+    ], []);
+    // A quarter each churned, tiny and extreme: 1 - (0.5 + 0.3 + 0.2) / 4
+    expect(scores.copyability).toBe(75);
+  });
+});
+
+describe('entryBandOf', () => {
+  it('buckets entry prices by odds', () => {
+    expect([0.1, 0.3, 0.5, 0.7, 0.9].map(entryBandOf)).toEqual(['longshot', 'underdog', 'tossup', 'favorite', 'heavy_favorite']);
+  });
+});
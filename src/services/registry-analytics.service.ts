@@ -1,6 +1,8 @@
 
 import axios from 'axios';
 import { Registry } from '../database/index.js';
+import { EntryPriceBand, TraderScores } from '../domain/alpha.types.js';
+import { getGammaClient } from './gamma-client.service.js';
 
 interface PolyTrade {
     side: string;
@@ -13,22 +15,184 @@ interface PolyTrade {
     transactionHash: string;
 }
 
+interface PolyPosition {
+    asset: string;
+    conditionId: string;
+    size: number;
+    avgPrice: number;
+    curPrice: number;
+    redeemable?: boolean;
+    endDate?: string;
+}
+
+export const SCORE_HISTORY_DAYS = 31;
+
+const TRADE_LIMIT = 500;
+const HISTORY_LIMIT = SCORE_HISTORY_DAYS * 24; // Snapshots kept per trader; the registry is rescored hourly
+const CATEGORY_LOOKUPS = 15;     // Markets (by buy volume) looked up on Gamma per trader
+const TINY_TRADE_USD = 5;        // Below this a fill is hard to mirror at the same price
+const CHURN_SECONDS = 1;         // Re-trading the same token faster than this is bot churn
+const EXTREME_PRICE = 0.03;      // Entries within 3c of 0 or 1 leave no edge for a copier
+const DAY = 24 * 60 * 60;
+
+const round = (value: number, digits = 2) => parseFloat(value.toFixed(digits));
+
+export function entryBandOf(price: number): EntryPriceBand {
+    if (price < 0.2) return 'longshot';
+    if (price < 0.4) return 'underdog';
+    if (price < 0.6) return 'tossup';
+    if (price < 0.8) return 'favorite';
+    return 'heavy_favorite';
+}
+
+/**
+ * Scores one trader from their recent trades and current positions. Cost basis is the
+ * average price per token; a sell or a redeemable (resolved) position closes against it.
+ * `categories` maps conditionId -> category for the markets that could be looked up.
+ */
+export function scoreTrader(trades: PolyTrade[], positions: PolyPosition[], categories: Map<string, string> = new Map(), now = Date.now()): TraderScores {
+    const holdings = new Map<string, { shares: number; cost: number; openedAt: number }>();
+    const lastTradeAt = new Map<string, number>();
+    const closes: { t: number; pnl: number }[] = [];
+    const categoryVolume = new Map<string, number>();
+    let holdSeconds = 0;
+    let holdCount = 0;
+    let buyVolume = 0;
+    let buyShares = 0;
+    let tiny = 0;
+    let churn = 0;
+    let extreme = 0;
+
+    const sorted = [...trades].sort((a, b) => a.timestamp - b.timestamp);
+    for (const trade of sorted) {
+        const size = Number(trade.size);
+        const price = Number(trade.price);
+        if (!(size > 0)) continue;
+
+        if (size * price < TINY_TRADE_USD) tiny++;
+        if (price < EXTREME_PRICE || price > 1 - EXTREME_PRICE) extreme++;
+        const previous = lastTradeAt.get(trade.asset);
+        if (previous !== undefined && trade.timestamp - previous < CHURN_SECONDS) churn++;
+        lastTradeAt.set(trade.asset, trade.timestamp);
+
+        const held = holdings.get(trade.asset) || { shares: 0, cost: 0, openedAt: trade.timestamp };
+        if (trade.side === 'BUY') {
+            // Share-weighted open time, so adding to a position shortens its average hold
+            held.openedAt = (held.openedAt * held.shares + trade.timestamp * size) / (held.shares + size);
+            held.shares += size;
+            held.cost += size * price;
+            holdings.set(trade.asset, held);
+
+            buyVolume += size * price;
+            buyShares += size;
+            const category = categories.get(trade.conditionId);
+            if (category) categoryVolume.set(category, (categoryVolume.get(category) || 0) + size * price);
+        } else if (trade.side === 'SELL' && held.shares > 0) {
+            // Only the part of the sell we saw bought has a known entry
+            const sold = Math.min(size, held.shares);
+            const avg = held.cost / held.shares;
+            closes.push({ t: trade.timestamp, pnl: (price - avg) * sold });
+            holdSeconds += trade.timestamp - held.openedAt;
+            holdCount++;
+            held.shares -= sold;
+            held.cost = held.shares * avg;
+            holdings.set(trade.asset, held);
+        }
+    }
+
+    let unrealizedPnl = 0;
+    for (const position of positions) {
+        const size = Number(position.size);
+        const avg = Number(position.avgPrice);
+        const cur = Number(position.curPrice);
+        if (!(size > 0)) continue;
+        if (position.redeemable) {
+            const endedAt = position.endDate ? Date.parse(position.endDate) : NaN;
+            const t = Number.isFinite(endedAt) ? Math.floor(endedAt / 1000) : Math.floor(now / 1000);
+            closes.push({ t, pnl: (cur - avg) * size });
+            const openedAt = holdings.get(position.asset)?.openedAt;
+            if (openedAt !== undefined && t > openedAt) {
+                holdSeconds += t - openedAt;
+                holdCount++;
+            }
+        } else {
+            unrealizedPnl += size * (cur - avg);
+        }
+    }
+
+    closes.sort((a, b) => a.t - b.t);
+    const realizedPnl = closes.reduce((sum, c) => sum + c.pnl, 0);
+    const wins = closes.filter(c => c.pnl > 0).length;
+
+    // Sharpe-like: mean over stdev of realized PnL per active day
+    const daily = new Map<number, number>();
+    for (const close of closes) {
+        const day = Math.floor(close.t / DAY);
+        daily.set(day, (daily.get(day) || 0) + close.pnl);
+    }
+    let consistency = 0;
+    if (daily.size >= 3) {
+        const values = Array.from(daily.values());
+        const mean = values.reduce((a, b) => a + b, 0) / values.length;
+        const stdev = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+        consistency = stdev > 0 ? mean / stdev : 0;
+    }
+
+    let peak = 0;
+    let cumulative = 0;
+    let maxDrawdown = 0;
+    for (const close of closes) {
+        cumulative += close.pnl;
+        peak = Math.max(peak, cumulative);
+        maxDrawdown = Math.max(maxDrawdown, peak - cumulative);
+    }
+
+    let topCategory: string | undefined;
+    let topVolume = 0;
+    for (const [category, volume] of categoryVolume) {
+        if (volume > topVolume) {
+            topCategory = category;
+            topVolume = volume;
+        }
+    }
+
+    const counted = sorted.length || 1;
+    const penalty = 0.5 * (tiny / counted) + 0.3 * (churn / counted) + 0.2 * (extreme / counted);
+    const avgEntryPrice = buyShares > 0 ? buyVolume / buyShares : 0;
+
+    return {
+        realizedPnl: round(realizedPnl),
+        unrealizedPnl: round(unrealizedPnl),
+        roiPct: buyVolume > 0 ? round((realizedPnl + unrealizedPnl) / buyVolume * 100) : 0,
+        winRate: closes.length > 0 ? round(wins / closes.length * 100, 1) : 0,
+        consistency: round(consistency),
+        avgHoldHours: holdCount > 0 ? round(holdSeconds / holdCount / 3600) : 0,
+        topCategory,
+        categoryShare: buyVolume > 0 ? round(topVolume / buyVolume) : 0,
+        avgEntryPrice: round(avgEntryPrice, 3),
+        entryBand: entryBandOf(avgEntryPrice),
+        maxDrawdown: round(maxDrawdown),
+        copyability: Math.round(100 * Math.min(1, Math.max(0, 1 - penalty))),
+        trades: sorted.length
+    };
+}
+
 export class RegistryAnalyticsService {
-    
+
     /**
      * Updates stats for all wallets in the registry.
      * Should be run periodically (e.g., every 10 mins).
      */
     async updateAllRegistryStats() {
         console.log("📊 Starting Registry Analytics Update...");
-        
+
         try {
             const wallets = await Registry.find({});
             for (const wallet of wallets) {
                 // Ensure we access address correctly. The model is typed as IRegistry which extends TraderProfile.
                 await this.analyzeWallet(wallet.address);
                 // Rate limit politeness
-                await new Promise(r => setTimeout(r, 1000)); 
+                await new Promise(r => setTimeout(r, 1000));
             }
             console.log("✅ Registry Analytics Updated.");
         } catch (e) {
@@ -37,32 +201,43 @@ export class RegistryAnalyticsService {
     }
 
     /**
-     * Fetches trades and calculates Win Rate & PnL
+     * Scores a wallet from its trades and positions and appends the result to its score history.
      */
     async analyzeWallet(address: string) {
         try {
-            // 1. Fetch raw trades from Polymarket Data API
-            const url = `https://data-api.polymarket.com/trades?user=${address}&limit=500`;
-            const response = await axios.get<PolyTrade[]>(url);
-            const trades = response.data;
+            // 1. Fetch raw trades and open/resolved positions from Polymarket Data API
+            const [tradesRes, positionsRes] = await Promise.all([
+                axios.get<PolyTrade[]>(`https://data-api.polymarket.com/trades?user=${address}&limit=${TRADE_LIMIT}`),
+                axios.get<PolyPosition[]>(`https://data-api.polymarket.com/positions?user=${address}`).catch(() => ({ data: [] as PolyPosition[] }))
+            ]);
+            const trades = tradesRes.data;
+            const positions = Array.isArray(positionsRes.data) ? positionsRes.data : [];
 
             if (!trades || trades.length === 0) return;
 
             // 2. Calculate Metrics
-            const stats = this.calculateMetrics(trades);
+            const categories = await this.lookupCategories(trades);
+            const scores = scoreTrader(trades, positions, categories);
+            const thirtyDaysAgo = Date.now() / 1000 - (30 * DAY);
+            const count30d = trades.filter(t => t.timestamp > thirtyDaysAgo).length;
+            const at = new Date().toISOString();
 
             // 3. Update DB
             await Registry.updateOne(
                 { address: { $regex: new RegExp(`^${address}$`, "i") } },
-                { 
-                    winRate: stats.winRate,
-                    totalPnl: stats.realizedPnl,
-                    tradesLast30d: stats.count30d,
-                    lastUpdated: new Date()
+                {
+                    $set: {
+                        winRate: scores.winRate,
+                        totalPnl: round(scores.realizedPnl + scores.unrealizedPnl),
+                        tradesLast30d: count30d,
+                        scores,
+                        scoredAt: at
+                    },
+                    $push: { scoreHistory: { $each: [{ at, ...scores }], $slice: -HISTORY_LIMIT } }
                 }
             );
-            
-            console.log(`   Updated ${address.slice(0,6)}: ${stats.winRate}% Win / $${stats.realizedPnl.toFixed(0)} PnL`);
+
+            console.log(`   Updated ${address.slice(0,6)}: ${scores.winRate}% Win / ROI ${scores.roiPct}% / Copyability ${scores.copyability}`);
 
         } catch (e) {
             console.error(`Failed to analyze ${address}:`, e instanceof Error ? e.message : 'Unknown error');
@@ -70,76 +245,28 @@ export class RegistryAnalyticsService {
     }
 
     /**
-     * Logic to determine "Winning" trades.
-     * Approach: 
-     * - We track "Round Trips" (Buy then Sell).
-     * - If Sell Price > Avg Buy Price, it's a Win.
+     * Category of the markets carrying most of the trader's buy volume. Markets Gamma
+     * cannot resolve are left out and simply do not count toward specialization.
      */
-    private calculateMetrics(trades: PolyTrade[]) {
-        let profitableTrades = 0;
-        let closedTrades = 0;
-        let realizedPnl = 0;
-        let count30d = 0;
-
-        const thirtyDaysAgo = Date.now() / 1000 - (30 * 24 * 60 * 60);
-
-        // Map to track Average Entry Price per Market+Outcome
-        // Key: conditionId_outcome
-        const positions = new Map<string, { totalCost: number, totalSize: number }>();
-
-        // Process oldest to newest to build state
-        const sortedTrades = [...trades].sort((a, b) => a.timestamp - b.timestamp);
-
-        for (const trade of sortedTrades) {
-            const key = `${trade.conditionId}_${trade.outcome}`;
-            const size = Number(trade.size);
-            const price = Number(trade.price);
-            const value = size * price; // Note: In Polymarket API, size might be shares. Value is approx.
-
-            if (trade.timestamp > thirtyDaysAgo) count30d++;
-
-            if (trade.side === 'BUY') {
-                const current = positions.get(key) || { totalCost: 0, totalSize: 0 };
-                current.totalCost += value;
-                current.totalSize += size;
-                positions.set(key, current);
-            } 
-            else if (trade.side === 'SELL') {
-                const position = positions.get(key);
-                
-                // Only count as a "Closed Trade" if we knew the entry
-                if (position && position.totalSize > 0) {
-                    const avgEntryPrice = position.totalCost / position.totalSize;
-                    
-                    // Did we sell higher than we bought?
-                    if (price > avgEntryPrice) {
-                        profitableTrades++;
-                        realizedPnl += (price - avgEntryPrice) * size;
-                    } else {
-                        realizedPnl += (price - avgEntryPrice) * size; // Negative PnL
-                    }
-                    
-                    closedTrades++;
-
-                    // Reduce position size
-                    position.totalSize = Math.max(0, position.totalSize - size);
-                    // Adjust cost basis proportionally
-                    position.totalCost = position.totalSize * avgEntryPrice; 
-                    positions.set(key, position);
-                }
-            }
+    private async lookupCategories(trades: PolyTrade[]): Promise<Map<string, string>> {
+        const volume = new Map<string, number>();
+        for (const trade of trades) {
+            if (trade.side !== 'BUY') continue;
+            volume.set(trade.conditionId, (volume.get(trade.conditionId) || 0) + Number(trade.size) * Number(trade.price));
         }
+        const top = Array.from(volume.entries()).sort((a, b) => b[1] - a[1]).slice(0, CATEGORY_LOOKUPS);
 
-        // Win Rate Calculation
-        const winRate = closedTrades > 0 
-            ? parseFloat(((profitableTrades / closedTrades) * 100).toFixed(1)) 
-            : 0;
-
-        return {
-            winRate,
-            realizedPnl: parseFloat(realizedPnl.toFixed(2)),
-            count30d
-        };
+        const categories = new Map<string, string>();
+        for (const [conditionId] of top) {
+            try {
+                const market = await getGammaClient().getMarketByConditionId(conditionId);
+                const category = (typeof market?.category === 'string' && market.category) || market?.events?.[0]?.tags?.[0]?.label;
+                if (category) categories.set(conditionId, category);
+            } catch (e) {
+                // Category is best-effort
+            }
+        }
+        return categories;
     }
 }
 
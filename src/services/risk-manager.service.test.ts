@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ActivePosition, TradeSignal } from '../domain/trade.types.js';
+import { Logger } from '../utils/logger.util.js';
+import { httpGet } from '../utils/http.js';
+import { normalizeRiskLimits, RiskLimits, RiskManagerService, RiskState } from './risk-manager.service.js';
+
+const db = vi.hoisted(() => ({ sells: [] as { pnl: number }[], peak: null as { totalValue: number } | null, peakQuery: undefined as any }));
+
+vi.mock('../utils/http.js', () => ({ httpGet: vi.fn() }));
+vi.mock('../database/index.js', () => ({
+  Trade: { find: () => ({ select: () => ({ lean: async () => db.sells }) }) },
+  paperScope: (paper?: boolean) => (paper ? true : { $ne: true })
+}));
+vi.mock('../database/portfolio.schema.js', () => ({
+  PortfolioSnapshotModel: {
+    findOne: (query: any) => {
+      db.peakQuery = query;
+      return { sort: () => ({ lean: async () => db.peak }) };
+    }
+  }
+}));
+
+const logger: Logger = { info: () => {}, warn: () => {}, error: () => {}, debug: () => {}, success: () => {} };
+
+const T0 = Date.UTC(2025, 0, 1, 12);
+const DAY = 24 * 60 * 60 * 1000;
+
+const position = (marketId: string, tokenId: string, value: number, eventSlug?: string): ActivePosition => ({
+  tradeId: tokenId,
+  marketId,
+  tokenId,
+  outcome: 'YES',
+  entryPrice: 0.5,
+  currentPrice: 0.5,
+  shares: value / 0.5,
+  sizeUsd: value,
+  timestamp: T0,
+  eventSlug
+});
+
+const buy = (marketId: string, tokenId: string): TradeSignal => ({
+  trader: '0xwhale',
+  marketId,
+  tokenId,
+  outcome: 'YES',
+  side: 'BUY',
+  sizeUsd: 10,
+  price: 0.5,
+  timestamp: T0
+});
+
+const riskManager = (limits: RiskLimits, positions: ActivePosition[] = [], state?: RiskState) => {
+  const portfolio = { value: 1000 };
+  const saved: RiskState[] = [];
+  const manager = new RiskManagerService({
+    userId: '0xuser',
+    logger,
+    getPositions: () => positions,
+    getPortfolioValue: () => portfolio.value,
+    onStateChange: async s => { saved.push(s); }
+  }, limits, state);
+  return { manager, portfolio, saved };
+};
+
+describe('normalizeRiskLimits', () => {
+  it('keeps positive numbers only', () => {
+    expect(normalizeRiskLimits({ maxOpenPositions: '3', maxDailyLossUsd: 0, maxDrawdownPct: -5, junk: 1 })).toEqual({ maxOpenPositions: 3 });
+    expect(normalizeRiskLimits({})).toBeUndefined();
+  });
+});
+
+describe('RiskManagerService exposure limits', () => {
+  beforeEach(() => {
+    vi.mocked(httpGet).mockReset();
+  });
+
+  it('caps the number of open positions but still adds to held ones', async () => {
+    const { manager } = riskManager({ maxOpenPositions: 1 }, [position('m1', 't1', 10)]);
+    expect(await manager.checkExposure(buy('m2', 't2'), 10)).toMatch(/^risk_max_open_positions/);
+    expect(await manager.checkExposure(buy('m1', 't1'), 10)).toBeNull();
+  });
+
+  it('checks total and per-market exposure including the new trade', async () => {
+    const { manager } = riskManager({ maxTotalExposureUsd: 100, maxMarketExposureUsd: 50 }, [position('m1', 't1', 45), position('m2', 't2', 45)]);
+    expect(await manager.checkExposure(buy('m3', 't3'), 10)).toBeNull();
+    expect(await manager.checkExposure(buy('m3', 't3'), 11)).toMatch(/^risk_max_total_exposure/);
+    expect(await manager.checkExposure(buy('m1', 't1b'), 6)).toMatch(/^risk_max_market_exposure/);
+  });
+
+  it('groups markets of the same event', async () => {
+    vi.mocked(httpGet).mockResolvedValue([{ conditionId: 'm2', events: [{ slug: 'election' }] }]);
+    const { manager } = riskManager({ maxEventExposureUsd: 50 }, [position('m1', 't1', 45, 'election')]);
+    expect(await manager.checkExposure(buy('m2', 't2'), 10)).toMatch(/^risk_max_event_exposure:election/);
+  });
+
+  it('never blocks sells', async () => {
+    const { manager } = riskManager({ maxOpenPositions: 1, maxTotalExposureUsd: 1 }, [position('m1', 't1', 10)]);
+    expect(await manager.checkExposure({ ...buy('m2', 't2'), side: 'SELL' }, 100)).toBeNull();
+  });
+});
+
+describe('RiskManagerService circuit breaker', () => {
+  beforeEach(() => {
+    db.sells = [];
+    db.peak = null;
+  });
+
+  it('trips on the daily realized loss and resumes the next UTC day', async () => {
+    const { manager, saved } = riskManager({ maxDailyLossUsd: 50 });
+    await manager.initialize(T0);
+
+    await manager.recordRealizedPnl(-30, T0);
+    expect(manager.isPaused(T0)).toBe(false);
+    await manager.recordRealizedPnl(-20, T0);
+
+    expect(manager.isPaused(T0)).toBe(true);
+    expect(manager.getPauseReason()).toMatch(/^daily_loss_limit/);
+    expect(saved[saved.length - 1]).toMatchObject({ pausedAt: T0, resumeAt: Date.UTC(2025, 0, 2) });
+    expect(manager.isPaused(T0 + DAY)).toBe(false);
+  });
+
+  it("counts today's stored losses after a restart", async () => {
+    db.sells = [{ pnl: -40 }, { pnl: -15 }];
+    const { manager } = riskManager({ maxDailyLossUsd: 50 });
+    await manager.initialize(T0);
+    expect(manager.isPaused(T0)).toBe(true);
+  });
+
+  it('trips on drawdown from the stored peak', async () => {
+    db.peak = { totalValue: 1200 };
+    const { manager, portfolio } = riskManager({ maxDrawdownPct: 20 });
+    await manager.initialize(T0);
+    expect(manager.isPaused(T0)).toBe(false);
+
+    portfolio.value = 960;
+    await manager.evaluateBreakers(T0);
+    expect(manager.getPauseReason()).toMatch(/^max_drawdown/);
+  });
+
+  it('reads the peak from snapshots of the same mode', async () => {
+    await riskManager({ maxDrawdownPct: 20 }).manager.initialize(T0);
+    expect(db.peakQuery).toMatchObject({ userId: '0xuser', paper: { $ne: true } });
+
+    const paper = new RiskManagerService({ userId: '0xuser', paper: true, logger, getPositions: () => [], getPortfolioValue: () => 1000 }, { maxDrawdownPct: 20 });
+    await paper.initialize(T0);
+    expect(db.peakQuery).toMatchObject({ userId: '0xuser', paper: true });
+  });
+
+  it('resumes on a manual reset and rebases the peak', async () => {
+    const { manager, portfolio } = riskManager({ maxDrawdownPct: 20 }, [], { pausedReason: 'max_drawdown', resumeAt: T0 + DAY });
+    portfolio.value = 700;
+    await manager.reset(T0);
+
+    await manager.evaluateBreakers(T0);
+    expect(manager.isPaused(T0)).toBe(false);
+    expect(manager.getStatus()).toMatchObject({ paused: false, peakValue: 700, dailyRealizedPnl: 0 });
+  });
+});
@@ -0,0 +1,289 @@
+import { PortfolioSnapshotModel } from '../database/portfolio.schema.js';
+import { Trade, paperScope } from '../database/index.js';
+import { ActivePosition, TradeSignal } from '../domain/trade.types.js';
+import { Logger } from '../utils/logger.util.js';
+import { getGammaClient } from './gamma-client.service.js';
+
+/**
+ * Portfolio-level limits. Anything left undefined (or 0) is not enforced.
+ */
+export type RiskLimits = {
+  maxTotalExposureUsd?: number;
+  maxMarketExposureUsd?: number;
+  maxEventExposureUsd?: number;
+  maxOpenPositions?: number;
+  maxDailyLossUsd?: number;   // Realized loss since 00:00 UTC
+  maxDrawdownPct?: number;    // From the peak PortfolioSnapshot
+};
+
+// Persisted on activeBotConfig so a tripped breaker survives restarts
+export type RiskState = {
+  pausedReason?: string;
+  pausedAt?: number;
+  resumeAt?: number;  // Next UTC midnight at the time of the trip
+  baselineAt?: number; // Last manual reset / auto resume; older losses and peaks are ignored
+};
+
+export type RiskStatus = {
+  limits: RiskLimits;
+  paused: boolean;
+  pausedReason?: string;
+  resumeAt?: number;
+  dailyRealizedPnl: number;
+  peakValue: number;
+  drawdownPct: number;
+  exposureUsd: number;
+  openPositions: number;
+};
+
+export type RiskManagerDeps = {
+  userId: string;
+  paper?: boolean;   // Daily PnL and the peak are read from this session's mode only
+  logger: Logger;
+  getPositions: () => ActivePosition[];
+  getPortfolioValue: () => number;
+  onStateChange?: (state: RiskState) => Promise<void>;
+};
+
+const LIMIT_KEYS: (keyof RiskLimits)[] = [
+  'maxTotalExposureUsd',
+  'maxMarketExposureUsd',
+  'maxEventExposureUsd',
+  'maxOpenPositions',
+  'maxDailyLossUsd',
+  'maxDrawdownPct'
+];
+
+/**
+ * Keeps only positive numeric fields from user input. Returns undefined when nothing is set.
+ */
+export function normalizeRiskLimits(input: any): RiskLimits | undefined {
+  if (!input || typeof input !== 'object') return undefined;
+  const limits: RiskLimits = {};
+  for (const key of LIMIT_KEYS) {
+    const n = Number(input[key]);
+    if (input[key] !== undefined && input[key] !== null && input[key] !== '' && !isNaN(n) && n > 0) limits[key] = n;
+  }
+  return Object.keys(limits).length > 0 ? limits : undefined;
+}
+
+const startOfUtcDay = (ts: number) => {
+  const d = new Date(ts);
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+};
+
+const positionValue = (p: ActivePosition) => p.shares * (p.currentPrice || p.entryPrice || 0);
+
+export class RiskManagerService {
+  private limits: RiskLimits;
+  private state: RiskState;
+  private dailyRealizedPnl = 0;
+  private dailyPnlDay = 0;
+  private peakValue = 0;
+  private eventSlugCache: Map<string, string> = new Map();
+
+  constructor(private deps: RiskManagerDeps, limits?: RiskLimits, state?: RiskState) {
+    this.limits = limits || {};
+    this.state = state || {};
+  }
+
+  updateLimits(limits: RiskLimits) {
+    this.limits = limits;
+  }
+
+  /**
+   * Loads today's realized PnL and the snapshot peak so the breaker is correct after a restart.
+   */
+  async initialize(now: number = Date.now()): Promise<void> {
+    this.maybeAutoResume(now);
+    await this.loadDailyRealizedPnl(now);
+    await this.refreshPeak();
+    await this.evaluateBreakers(now);
+  }
+
+  isPaused(now: number = Date.now()): boolean {
+    this.maybeAutoResume(now);
+    return !!this.state.pausedReason;
+  }
+
+  getPauseReason(): string | undefined {
+    return this.state.pausedReason;
+  }
+
+  /**
+   * Checks whether adding sizeUsd of exposure for this signal breaks an exposure limit.
+   * Returns a skip reason, or null when the trade fits.
+   */
+  async checkExposure(signal: TradeSignal, sizeUsd: number): Promise<string | null> {
+    if (signal.side !== 'BUY') return null;
+    const positions = this.deps.getPositions();
+    const { maxTotalExposureUsd, maxMarketExposureUsd, maxEventExposureUsd, maxOpenPositions } = this.limits;
+
+    if (maxOpenPositions) {
+      const isNew = !positions.some(p => p.tokenId === signal.tokenId);
+      if (isNew && positions.length >= maxOpenPositions) {
+        return `risk_max_open_positions (${positions.length}/${maxOpenPositions})`;
+      }
+    }
+
+    if (maxTotalExposureUsd) {
+      const total = positions.reduce((sum, p) => sum + positionValue(p), 0);
+      if (total + sizeUsd > maxTotalExposureUsd) {
+        return `risk_max_total_exposure ($${total.toFixed(2)} + $${sizeUsd.toFixed(2)} > $${maxTotalExposureUsd})`;
+      }
+    }
+
+    if (maxMarketExposureUsd) {
+      const market = positions
+        .filter(p => p.marketId === signal.marketId)
+        .reduce((sum, p) => sum + positionValue(p), 0);
+      if (market + sizeUsd > maxMarketExposureUsd) {
+        return `risk_max_market_exposure ($${market.toFixed(2)} + $${sizeUsd.toFixed(2)} > $${maxMarketExposureUsd})`;
+      }
+    }
+
+    if (maxEventExposureUsd) {
+      const eventSlug = await this.resolveEventSlug(signal.marketId);
+      if (eventSlug) {
+        const event = positions
+          .filter(p => p.eventSlug === eventSlug || p.marketId === signal.marketId)
+          .reduce((sum, p) => sum + positionValue(p), 0);
+        if (event + sizeUsd > maxEventExposureUsd) {
+          return `risk_max_event_exposure:${eventSlug} ($${event.toFixed(2)} + $${sizeUsd.toFixed(2)} > $${maxEventExposureUsd})`;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Feed every realized PnL (copy sells, manual/rule exits) so the daily loss limit stays current.
+   */
+  async recordRealizedPnl(pnl: number, now: number = Date.now()): Promise<void> {
+    if (!pnl || isNaN(pnl)) return;
+    if (startOfUtcDay(now) !== this.dailyPnlDay) {
+      this.dailyPnlDay = startOfUtcDay(now);
+      this.dailyRealizedPnl = 0;
+    }
+    this.dailyRealizedPnl += pnl;
+    await this.evaluateBreakers(now);
+  }
+
+  /**
+   * Called after each stats sync. Trips the breaker on daily loss or drawdown.
+   */
+  async evaluateBreakers(now: number = Date.now()): Promise<void> {
+    this.maybeAutoResume(now);
+    if (this.state.pausedReason) return;
+
+    const { maxDailyLossUsd, maxDrawdownPct } = this.limits;
+
+    if (maxDailyLossUsd && startOfUtcDay(now) === this.dailyPnlDay && this.dailyRealizedPnl <= -maxDailyLossUsd) {
+      await this.trip(`daily_loss_limit ($${this.dailyRealizedPnl.toFixed(2)} <= -$${maxDailyLossUsd})`, now);
+      return;
+    }
+
+    if (maxDrawdownPct) {
+      const value = this.deps.getPortfolioValue();
+      if (value > this.peakValue) this.peakValue = value;
+      const drawdownPct = this.peakValue > 0 ? ((this.peakValue - value) / this.peakValue) * 100 : 0;
+      if (value > 0 && drawdownPct >= maxDrawdownPct) {
+        await this.trip(`max_drawdown (${drawdownPct.toFixed(1)}% from peak $${this.peakValue.toFixed(2)})`, now);
+      }
+    }
+  }
+
+  /**
+   * Manual reset: resumes copying and starts a fresh loss/drawdown baseline.
+   */
+  async reset(now: number = Date.now()): Promise<void> {
+    this.state = { baselineAt: now };
+    this.dailyPnlDay = startOfUtcDay(now);
+    this.dailyRealizedPnl = 0;
+    this.peakValue = this.deps.getPortfolioValue();
+    this.deps.logger.info('[Risk] Circuit breaker reset manually. Copy trading resumed.');
+    await this.persist();
+  }
+
+  getStatus(): RiskStatus {
+    const positions = this.deps.getPositions();
+    const value = this.deps.getPortfolioValue();
+    return {
+      limits: this.limits,
+      paused: !!this.state.pausedReason,
+      pausedReason: this.state.pausedReason,
+      resumeAt: this.state.resumeAt,
+      dailyRealizedPnl: this.dailyRealizedPnl,
+      peakValue: this.peakValue,
+      drawdownPct: this.peakValue > 0 ? Math.max(0, ((this.peakValue - value) / this.peakValue) * 100) : 0,
+      exposureUsd: positions.reduce((sum, p) => sum + positionValue(p), 0),
+      openPositions: positions.length
+    };
+  }
+
+  private async trip(reason: string, now: number) {
+    this.state = {
+      ...this.state,
+      pausedReason: reason,
+      pausedAt: now,
+      resumeAt: startOfUtcDay(now) + 24 * 60 * 60 * 1000
+    };
+    this.deps.logger.warn(`[Risk] ⛔ Circuit breaker tripped: ${reason}. Copy trading paused until ${new Date(this.state.resumeAt!).toISOString()} or manual reset.`);
+    await this.persist();
+  }
+
+  private maybeAutoResume(now: number) {
+    if (!this.state.pausedReason || !this.state.resumeAt || now < this.state.resumeAt) return;
+    this.deps.logger.info(`[Risk] New UTC day. Circuit breaker (${this.state.pausedReason}) cleared.`);
+    // Rebase the drawdown peak, otherwise the same drawdown would trip again immediately
+    this.state = { baselineAt: now };
+    this.peakValue = this.deps.getPortfolioValue();
+    this.persist().catch(() => {
+      // Persisting is best effort; the in-memory state is authoritative
+    });
+  }
+
+  private async persist() {
+    if (this.deps.onStateChange) await this.deps.onStateChange(this.state);
+  }
+
+  private async loadDailyRealizedPnl(now: number) {
+    const since = Math.max(startOfUtcDay(now), this.state.baselineAt || 0);
+    this.dailyPnlDay = startOfUtcDay(now);
+    try {
+      const sells = await Trade.find({
+        userId: this.deps.userId,
+        paper: paperScope(this.deps.paper),
+        side: 'SELL',
+        timestamp: { $gte: new Date(since) }
+      }).select('pnl').lean();
+      this.dailyRealizedPnl = sells.reduce((sum: number, t: any) => sum + (t.pnl || 0), 0);
+    } catch (e: any) {
+      this.deps.logger.warn(`[Risk] Could not load today's realized PnL: ${e.message}`);
+    }
+  }
+
+  private async refreshPeak() {
+    try {
+      const query: any = { userId: this.deps.userId, paper: paperScope(this.deps.paper) };
+      if (this.state.baselineAt) query.timestamp = { $gte: new Date(this.state.baselineAt) };
+      const peak = await PortfolioSnapshotModel.findOne(query).sort({ totalValue: -1 }).lean();
+      this.peakValue = Math.max(peak?.totalValue || 0, this.deps.getPortfolioValue());
+    } catch (e: any) {
+      this.deps.logger.warn(`[Risk] Could not load portfolio peak: ${e.message}`);
+    }
+  }
+
+  private async resolveEventSlug(marketId: string): Promise<string | undefined> {
+    const cached = this.eventSlugCache.get(marketId);
+    if (cached !== undefined) return cached || undefined;
+    try {
+      const slug = (await getGammaClient().getEventSlug(marketId)) || '';
+      this.eventSlugCache.set(marketId, slug);
+      return slug || undefined;
+    } catch (e) {
+      return undefined;
+    }
+  }
+}
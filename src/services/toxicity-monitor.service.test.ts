@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { BookTop, ToxicityConfig, ToxicityMonitor } from './toxicity-monitor.service.js';
+
+const CONFIG: ToxicityConfig = {
+  enableToxicityGuard: true,
+  flowImbalanceThreshold: 0.6,
+  markoutThresholdCents: 1,
+  toxicityCooldownMinutes: 5
+};
+const T0 = Date.UTC(2025, 0, 1);
+const MINUTE = 60 * 1000;
+
+const buys = (monitor: ToxicityMonitor, direction: 1 | -1, count = 5, now = T0) => {
+  for (let i = 0; i < count; i++) monitor.recordTrade('cond', direction, 'BUY', 10, now);
+};
+
+// Three of our bids filled at 0.50 with the midpoint now at 0.45: a 5 cent adverse markout each
+const adverseFills = (monitor: ToxicityMonitor, now = T0) => {
+  monitor.recordMidpoint('yes', 0.45);
+  for (let i = 0; i < 3; i++) monitor.recordFill({ conditionId: 'cond', tokenId: 'yes', side: 'BUY', price: 0.5, size: 10 }, now);
+};
+
+describe('ToxicityMonitor', () => {
+  it('stays normal on balanced flow', () => {
+    const monitor = new ToxicityMonitor(CONFIG);
+    buys(monitor, 1, 3);
+    for (let i = 0; i < 3; i++) monitor.recordTrade('cond', 1, 'SELL', 10, T0);
+    expect(monitor.evaluate('cond', T0)).toBeNull();
+    expect(monitor.getState('cond', T0)).toMatchObject({ level: 'normal', imbalance: 0, trades: 6 });
+  });
+
+  it('widens on one-sided taker flow, counting NO buys as YES selling', () => {
+    const monitor = new ToxicityMonitor(CONFIG);
+    buys(monitor, -1);
+    const state = monitor.evaluate('cond', T0);
+    expect(state).toMatchObject({ level: 'widen', imbalance: -1 });
+    expect(state?.until).toBe(T0 + 5 * MINUTE);
+  });
+
+  it('widens on one-sided top-of-book flow', () => {
+    const monitor = new ToxicityMonitor(CONFIG);
+    for (let i = 0; i <= 10; i++) {
+      const top: BookTop = { conditionId: 'cond', tokenId: 'yes', direction: 1, bestBid: 0.5, bidSize: 100 + i * 10, bestAsk: 0.52, askSize: 100 };
+      monitor.recordBook(top, T0);
+    }
+    expect(monitor.evaluate('cond', T0)).toMatchObject({ level: 'widen', imbalance: 1 });
+  });
+
+  it('widens on adverse markouts once the horizon has passed', () => {
+    const monitor = new ToxicityMonitor(CONFIG);
+    adverseFills(monitor);
+    expect(monitor.evaluate('cond', T0 + 10 * 1000)).toBeNull();
+    const state = monitor.evaluate('cond', T0 + 31 * 1000);
+    expect(state?.level).toBe('widen');
+    expect(state?.markoutCents).toBeCloseTo(-5, 9);
+    expect(state?.fills).toBe(3);
+  });
+
+  it('pulls when flow and markouts are both toxic', () => {
+    const monitor = new ToxicityMonitor(CONFIG);
+    adverseFills(monitor);
+    buys(monitor, -1, 5, T0 + 31 * 1000);
+    expect(monitor.evaluate('cond', T0 + 31 * 1000)?.level).toBe('pull');
+  });
+
+  it('steps down only after a calm cooldown', () => {
+    const monitor = new ToxicityMonitor(CONFIG);
+    buys(monitor, 1);
+    monitor.evaluate('cond', T0);
+
+    // Still inside the flow window: the trades keep it toxic
+    expect(monitor.getState('cond', T0 + 4 * MINUTE)?.level).toBe('widen');
+    // Flow aged out, but the cooldown restarted when it was re-evaluated above
+    expect(monitor.getState('cond', T0 + 6 * MINUTE)?.level).toBe('widen');
+    const state = monitor.evaluate('cond', T0 + 9 * MINUTE + 1);
+    expect(state).toMatchObject({ level: 'normal', until: undefined });
+  });
+
+  it('holds a manual pull for the cooldown', () => {
+    const monitor = new ToxicityMonitor(CONFIG);
+    monitor.pull('cond', 'flash move', T0);
+    expect(monitor.getState('cond', T0 + MINUTE)).toMatchObject({ level: 'pull', reason: 'flash move' });
+    expect(monitor.getState('cond', T0 + 5 * MINUTE)?.level).toBe('normal');
+  });
+
+  it('reports normal for every market while the guard is off', () => {
+    const monitor = new ToxicityMonitor({ ...CONFIG, enableToxicityGuard: false });
+    buys(monitor, 1);
+    adverseFills(monitor);
+    expect(monitor.getState('cond', T0 + 31 * 1000)?.level).toBe('normal');
+  });
+
+  it('forgets markets it is told to drop', () => {
+    const monitor = new ToxicityMonitor(CONFIG);
+    buys(monitor, 1);
+    monitor.forget('cond');
+    expect(monitor.getState('cond', T0)).toBeUndefined();
+    expect(monitor.getAll(T0)).toEqual([]);
+  });
+});
@@ -0,0 +1,212 @@
+import type { MarketMakingProfile, MarketToxicity, ToxicityLevel } from '../domain/market.types.js';
+
+export type ToxicityConfig = Pick<MarketMakingProfile,
+  'enableToxicityGuard' | 'flowImbalanceThreshold' | 'markoutThresholdCents' | 'toxicityCooldownMinutes'>;
+
+// Top of book for one token; `direction` is +1 for the YES token and -1 for NO, so flow on
+// either token is measured as pressure on the YES price
+export type BookTop = {
+  conditionId: string;
+  tokenId: string;
+  direction: 1 | -1;
+  bestBid: number;
+  bidSize: number;
+  bestAsk: number;
+  askSize: number;
+};
+
+export type QuoteFill = {
+  conditionId: string;
+  tokenId: string;
+  side: 'BUY' | 'SELL';
+  price: number;
+  size: number;
+};
+
+type Signed = { t: number; value: number };
+type PendingMarkout = QuoteFill & { t: number };
+
+type MarketFlow = {
+  trades: Signed[];           // Signed taker volume
+  book: Signed[];             // Order-flow imbalance increments at the top of book
+  markouts: Signed[];         // Per-share markout of our fills, in price
+  pending: PendingMarkout[];
+  state: MarketToxicity;
+};
+
+const FLOW_WINDOW = 5 * 60 * 1000;
+const MARKOUT_WINDOW = 10 * 60 * 1000;
+const MARKOUT_HORIZON = 30 * 1000;   // Midpoint move this long after our fill
+const MIN_TRADES = 5;
+const MIN_BOOK_EVENTS = 10;
+const MIN_FILLS = 3;
+const LEVEL_RANK: Record<ToxicityLevel, number> = { normal: 0, widen: 1, pull: 2 };
+
+const prune = (series: Signed[], now: number, window: number) => {
+  while (series.length > 0 && now - series[0].t > window) series.shift();
+};
+
+/**
+ * Signed sum over absolute sum, in -1..1. Undefined until the series has `min` entries.
+ */
+const imbalanceOf = (series: Signed[], min: number): number | undefined => {
+  if (series.length < min) return undefined;
+  let net = 0;
+  let gross = 0;
+  for (const s of series) {
+    net += s.value;
+    gross += Math.abs(s.value);
+  }
+  return gross > 0 ? net / gross : 0;
+};
+
+/**
+ * Per-market adverse-selection monitor. Two signals, each over a short rolling window:
+ *  - order-flow imbalance: taker volume and top-of-book size changes leaning one way
+ *  - markouts: how far the midpoint moved against our own fills MARKOUT_HORIZON later
+ * One toxic signal widens the market's quotes, both pull them. Escalation is immediate;
+ * a market steps back down only once a full cooldown passes without re-triggering.
+ * No I/O and every method takes `now`, so it can be driven from recorded data.
+ */
+export class ToxicityMonitor {
+  private markets: Map<string, MarketFlow> = new Map();
+  private lastBook: Map<string, BookTop> = new Map();
+  private lastMid: Map<string, number> = new Map();
+
+  constructor(private config: ToxicityConfig) {}
+
+  updateConfig(config: Partial<ToxicityConfig>) {
+    this.config = { ...this.config, ...config };
+  }
+
+  recordTrade(conditionId: string, direction: 1 | -1, side: 'BUY' | 'SELL', size: number, now = Date.now()) {
+    if (!(size > 0)) return;
+    this.flow(conditionId).trades.push({ t: now, value: direction * (side === 'BUY' ? size : -size) });
+  }
+
+  /**
+   * Cont-Kukanov-Stoikov OFI increment from consecutive top-of-book snapshots of one token.
+   */
+  recordBook(top: BookTop, now = Date.now()) {
+    const prev = this.lastBook.get(top.tokenId);
+    this.lastBook.set(top.tokenId, top);
+    if (!prev) return;
+    const bidFlow = (top.bestBid >= prev.bestBid ? top.bidSize : 0) - (top.bestBid <= prev.bestBid ? prev.bidSize : 0);
+    const askFlow = (top.bestAsk <= prev.bestAsk ? top.askSize : 0) - (top.bestAsk >= prev.bestAsk ? prev.askSize : 0);
+    const ofi = bidFlow - askFlow;
+    if (ofi !== 0) this.flow(top.conditionId).book.push({ t: now, value: top.direction * ofi });
+  }
+
+  recordMidpoint(tokenId: string, mid: number) {
+    if (mid > 0) this.lastMid.set(tokenId, mid);
+  }
+
+  recordFill(fill: QuoteFill, now = Date.now()) {
+    if (!(fill.size > 0)) return;
+    this.flow(fill.conditionId).pending.push({ ...fill, t: now });
+  }
+
+  /**
+   * Holds the market at 'pull' for a cooldown regardless of flow (e.g. a flash move).
+   */
+  pull(conditionId: string, reason: string, now = Date.now()): MarketToxicity {
+    const market = this.flow(conditionId);
+    market.state = { ...market.state, level: 'pull', reason, until: now + this.cooldown() };
+    return market.state;
+  }
+
+  /**
+   * Recomputes one market's signals. Returns the state when its level changed, else null.
+   */
+  evaluate(conditionId: string, now = Date.now()): MarketToxicity | null {
+    const market = this.markets.get(conditionId);
+    if (!market) return null;
+    const previous = market.state.level;
+
+    this.resolveMarkouts(market, now);
+    prune(market.trades, now, FLOW_WINDOW);
+    prune(market.book, now, FLOW_WINDOW);
+    prune(market.markouts, now, MARKOUT_WINDOW);
+
+    const flows = [imbalanceOf(market.trades, MIN_TRADES), imbalanceOf(market.book, MIN_BOOK_EVENTS)].filter((v): v is number => v !== undefined);
+    const imbalance = flows.length > 0 ? flows.reduce((a, b) => a + b, 0) / flows.length : 0;
+    const markoutCents = market.markouts.length > 0
+      ? market.markouts.reduce((sum, m) => sum + m.value, 0) / market.markouts.length * 100
+      : 0;
+
+    const flowToxic = flows.length > 0 && Math.abs(imbalance) >= this.config.flowImbalanceThreshold;
+    const markoutToxic = market.markouts.length >= MIN_FILLS && markoutCents <= -this.config.markoutThresholdCents;
+    const level: ToxicityLevel = !this.config.enableToxicityGuard ? 'normal'
+      : flowToxic && markoutToxic ? 'pull'
+      : flowToxic || markoutToxic ? 'widen'
+      : 'normal';
+    const reason = [
+      flowToxic ? `imbalance ${imbalance.toFixed(2)}` : '',
+      markoutToxic ? `markout ${markoutCents.toFixed(2)}¢` : ''
+    ].filter(Boolean).join(', ') || undefined;
+
+    const state = market.state;
+    state.imbalance = imbalance;
+    state.markoutCents = markoutCents;
+    state.trades = market.trades.length;
+    state.fills = market.markouts.length;
+
+    if (!this.config.enableToxicityGuard) {
+      market.state = { ...state, level: 'normal', reason: undefined, until: undefined };
+    } else if (level !== 'normal' && LEVEL_RANK[level] >= LEVEL_RANK[state.level]) {
+      market.state = { ...state, level, reason, until: now + this.cooldown() };
+    } else if (LEVEL_RANK[level] < LEVEL_RANK[state.level] && (state.until === undefined || now >= state.until)) {
+      market.state = { ...state, level, reason, until: level === 'normal' ? undefined : now + this.cooldown() };
+    }
+
+    return market.state.level !== previous ? market.state : null;
+  }
+
+  /**
+   * Current state, stepping down first if a cooldown has run out since the last update.
+   */
+  getState(conditionId: string, now = Date.now()): MarketToxicity | undefined {
+    if (!this.markets.has(conditionId)) return undefined;
+    this.evaluate(conditionId, now);
+    return this.markets.get(conditionId)!.state;
+  }
+
+  getAll(now = Date.now()): MarketToxicity[] {
+    return Array.from(this.markets.keys(), id => this.getState(id, now)!).filter(s => s.level !== 'normal' || s.fills > 0 || s.trades > 0);
+  }
+
+  forget(conditionId: string) {
+    this.markets.delete(conditionId);
+  }
+
+  private cooldown() {
+    return this.config.toxicityCooldownMinutes * 60 * 1000;
+  }
+
+  private resolveMarkouts(market: MarketFlow, now: number) {
+    market.pending = market.pending.filter(fill => {
+      if (now - fill.t < MARKOUT_HORIZON) return true;
+      const mid = this.lastMid.get(fill.tokenId);
+      if (mid === undefined) return now - fill.t < MARKOUT_WINDOW; // No book yet; give up eventually
+      // Positive when the midpoint moved our way after the fill
+      const markout = fill.side === 'BUY' ? mid - fill.price : fill.price - mid;
+      market.markouts.push({ t: fill.t + MARKOUT_HORIZON, value: markout });
+      return false;
+    });
+  }
+
+  private flow(conditionId: string): MarketFlow {
+    let market = this.markets.get(conditionId);
+    if (!market) {
+      market = {
+        trades: [],
+        book: [],
+        markouts: [],
+        pending: [],
+        state: { conditionId, level: 'normal', imbalance: 0, markoutCents: 0, trades: 0, fills: 0 }
+      };
+      this.markets.set(conditionId, market);
+    }
+    return market;
+  }
+}
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { TradeSignal } from '../domain/trade.types.js';
+import { Logger } from '../utils/logger.util.js';
+import { normalizeAggregationConfig, TradeAggregatorDeps, TradeAggregatorService } from './trade-aggregator.service.js';
+
+const logger: Logger = { info: () => {}, warn: () => {}, error: () => {}, debug: () => {}, success: () => {} };
+
+const fill = (price: number, sizeUsd: number, overrides: Partial<TradeSignal> = {}): TradeSignal => ({
+  trader: '0xWhale',
+  marketId: 'cond',
+  tokenId: 'yes',
+  outcome: 'YES',
+  side: 'BUY',
+  sizeUsd,
+  price,
+  timestamp: Date.UTC(2025, 0, 1),
+  ...overrides
+});
+
+const aggregator = (env: TradeAggregatorDeps['env']) => {
+  const flushed: TradeSignal[] = [];
+  const service = new TradeAggregatorService({ env, logger, onFlush: async s => { flushed.push(s); } });
+  return { service, flushed };
+};
+
+describe('TradeAggregatorService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('passes signals straight through when disabled', async () => {
+    const { service, flushed } = aggregator({ aggregationEnabled: false });
+    await service.push(fill(0.5, 10));
+    expect(flushed).toHaveLength(1);
+    expect(service.getPendingCount()).toBe(0);
+  });
+
+  it('merges fills in the window into one volume-weighted signal', async () => {
+    const { service, flushed } = aggregator({ aggregationEnabled: true, aggregationWindowSeconds: 60, aggregationPriceMovePct: 5 });
+    await service.push(fill(0.5, 10));
+    await service.push(fill(0.51, 51, { trader: '0xwhale' }));
+    expect(flushed).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(flushed).toHaveLength(1);
+    expect(flushed[0]).toMatchObject({ sizeUsd: 61, aggregatedFills: 2, timestamp: Date.UTC(2025, 0, 1) });
+    // 20 shares at 0.50 and 100 at 0.51
+    expect(flushed[0].price).toBeCloseTo(61 / 120, 9);
+  });
+
+  it('keeps separate buckets per token and side', async () => {
+    const { service, flushed } = aggregator({ aggregationEnabled: true, aggregationWindowSeconds: 60 });
+    await service.push(fill(0.5, 10));
+    await service.push(fill(0.5, 10, { side: 'SELL' }));
+    await service.push(fill(0.5, 10, { tokenId: 'no' }));
+    expect(service.getPendingCount()).toBe(3);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(flushed.map(s => s.aggregatedFills)).toEqual([1, 1, 1]);
+  });
+
+  it('flushes early when the price runs away from the first fill', async () => {
+    const { service, flushed } = aggregator({ aggregationEnabled: true, aggregationWindowSeconds: 60, aggregationPriceMovePct: 2 });
+    await service.push(fill(0.5, 10));
+    await service.push(fill(0.505, 10));
+    expect(flushed).toHaveLength(0);
+
+    await service.push(fill(0.51, 10));
+    expect(flushed).toHaveLength(1);
+    expect(flushed[0].aggregatedFills).toBe(3);
+    expect(service.getPendingCount()).toBe(0);
+  });
+
+  it('drains an open bucket after aggregation is switched off', async () => {
+    const env = { aggregationEnabled: true, aggregationWindowSeconds: 60 };
+    const { service, flushed } = aggregator(env);
+    await service.push(fill(0.5, 10));
+    env.aggregationEnabled = false;
+    await service.push(fill(0.5, 10));
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(flushed).toHaveLength(1);
+    expect(flushed[0].sizeUsd).toBe(20);
+  });
+
+  it('discards pending buckets on stop', async () => {
+    const { service, flushed } = aggregator({ aggregationEnabled: true, aggregationWindowSeconds: 60 });
+    await service.push(fill(0.5, 10));
+    service.stop();
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(flushed).toHaveLength(0);
+  });
+});
+
+describe('normalizeAggregationConfig', () => {
+  it('keeps a boolean switch and positive numbers', () => {
+    expect(normalizeAggregationConfig({ enabled: true, windowSeconds: '30', priceMovePct: 0 })).toEqual({ enabled: true, windowSeconds: 30 });
+    expect(normalizeAggregationConfig({ enabled: 'yes' })).toBeUndefined();
+  });
+});
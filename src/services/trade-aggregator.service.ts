@@ -0,0 +1,143 @@
+import { TradeSignal } from '../domain/trade.types.js';
+import { Logger } from '../utils/logger.util.js';
+
+export type TradeAggregatorDeps = {
+  // Read live (runtimeEnv is shared by reference) so config updates apply to the next window
+  env: {
+    aggregationEnabled?: boolean;
+    aggregationWindowSeconds?: number;
+    aggregationPriceMovePct?: number;
+  };
+  logger: Logger;
+  onFlush: (signal: TradeSignal) => Promise<void>;
+};
+
+type Bucket = {
+  first: TradeSignal;
+  anchorPrice: number;
+  totalUsd: number;
+  totalShares: number;
+  fills: number;
+  traderShares?: number; // Latest capture; later fills leave the trader holding less
+  timer: NodeJS.Timeout;
+};
+
+// Per-bot settings; unset fields fall back to the TRADE_AGGREGATION_* env vars
+export type AggregationConfig = {
+  enabled?: boolean;
+  windowSeconds?: number;
+  priceMovePct?: number;
+};
+
+const DEFAULT_WINDOW_SECONDS = 300;
+const DEFAULT_PRICE_MOVE_PCT = 2;
+
+export function normalizeAggregationConfig(input: any): AggregationConfig | undefined {
+  if (!input || typeof input !== 'object') return undefined;
+  const config: AggregationConfig = {};
+  if (typeof input.enabled === 'boolean') config.enabled = input.enabled;
+  const windowSeconds = Number(input.windowSeconds);
+  if (input.windowSeconds !== undefined && input.windowSeconds !== '' && windowSeconds > 0) config.windowSeconds = windowSeconds;
+  const priceMovePct = Number(input.priceMovePct);
+  if (input.priceMovePct !== undefined && input.priceMovePct !== '' && priceMovePct > 0) config.priceMovePct = priceMovePct;
+  return Object.keys(config).length > 0 ? config : undefined;
+}
+
+/**
+ * Writes the effective aggregation settings onto a runtime env object.
+ */
+export function applyAggregationConfig(env: TradeAggregatorDeps['env'], config?: AggregationConfig) {
+  env.aggregationEnabled = config?.enabled ?? String(process.env.TRADE_AGGREGATION_ENABLED ?? 'false') === 'true';
+  env.aggregationWindowSeconds = config?.windowSeconds ?? Number(process.env.TRADE_AGGREGATION_WINDOW_SECONDS ?? DEFAULT_WINDOW_SECONDS);
+  env.aggregationPriceMovePct = config?.priceMovePct ?? Number(process.env.TRADE_AGGREGATION_PRICE_MOVE_PCT ?? DEFAULT_PRICE_MOVE_PCT);
+}
+
+/**
+ * Sits between TradeMonitorService and copyTrade. Buffers fills per trader+token+side for
+ * the configured window and emits one volume-weighted signal, so a whale splitting one
+ * decision into dozens of fills is copied once. Flushes early when price runs away.
+ */
+export class TradeAggregatorService {
+  private buckets: Map<string, Bucket> = new Map();
+
+  constructor(private readonly deps: TradeAggregatorDeps) {}
+
+  async push(signal: TradeSignal): Promise<void> {
+    const { env } = this.deps;
+    const key = `${signal.trader.toLowerCase()}:${signal.tokenId}:${signal.side}`;
+    const bucket = this.buckets.get(key);
+
+    if (!env.aggregationEnabled && !bucket) {
+      await this.deps.onFlush({ ...signal, flushedAt: Date.now() });
+      return;
+    }
+
+    const shares = signal.price > 0 ? signal.sizeUsd / signal.price : 0;
+
+    if (!bucket) {
+      const windowMs = Math.max(1, Number(env.aggregationWindowSeconds) || DEFAULT_WINDOW_SECONDS) * 1000;
+      this.buckets.set(key, {
+        first: signal,
+        anchorPrice: signal.price,
+        totalUsd: signal.sizeUsd,
+        totalShares: shares,
+        fills: 1,
+        traderShares: signal.traderShares,
+        timer: setTimeout(() => this.flush(key, 'window'), windowMs)
+      });
+      this.deps.logger.info(`⏳ [AGG] Buffering ${signal.side} ${signal.outcome} from ${signal.trader.slice(0, 6)}... for ${windowMs / 1000}s`);
+      return;
+    }
+
+    bucket.totalUsd += signal.sizeUsd;
+    bucket.totalShares += shares;
+    bucket.fills++;
+    if (signal.traderShares !== undefined) bucket.traderShares = signal.traderShares;
+
+    const threshold = Number(env.aggregationPriceMovePct) || DEFAULT_PRICE_MOVE_PCT;
+    const movePct = bucket.anchorPrice > 0 ? Math.abs(signal.price - bucket.anchorPrice) / bucket.anchorPrice * 100 : 0;
+    if (movePct >= threshold) {
+      await this.flush(key, `price moved ${movePct.toFixed(1)}%`);
+    }
+  }
+
+  /**
+   * Drops pending buckets without executing them (bot stopped).
+   */
+  stop() {
+    for (const bucket of this.buckets.values()) clearTimeout(bucket.timer);
+    if (this.buckets.size > 0) this.deps.logger.info(`[AGG] Discarded ${this.buckets.size} pending aggregated signal(s).`);
+    this.buckets.clear();
+  }
+
+  getPendingCount(): number {
+    return this.buckets.size;
+  }
+
+  private async flush(key: string, reason: string) {
+    const bucket = this.buckets.get(key);
+    if (!bucket) return;
+    this.buckets.delete(key);
+    clearTimeout(bucket.timer);
+
+    const vwap = bucket.totalShares > 0 ? bucket.totalUsd / bucket.totalShares : bucket.first.price;
+    const merged: TradeSignal = {
+      ...bucket.first,
+      sizeUsd: bucket.totalUsd,
+      price: vwap,
+      traderShares: bucket.traderShares,
+      aggregatedFills: bucket.fills,
+      flushedAt: Date.now()
+    };
+
+    if (bucket.fills > 1) {
+      this.deps.logger.info(`🧺 [AGG] Merged ${bucket.fills} fills -> ${merged.side} ${merged.outcome} $${merged.sizeUsd.toFixed(2)} @ ${vwap.toFixed(3)} (${reason})`);
+    }
+
+    try {
+      await this.deps.onFlush(merged);
+    } catch (e: any) {
+      this.deps.logger.error(`Aggregated signal execution failed`, e);
+    }
+  }
+}
@@ -2,11 +2,21 @@
 import type { RuntimeEnv } from '../config/env.js';
 import type { Logger } from '../utils/logger.util.js';
 import type { TradeSignal, ActivePosition } from '../domain/trade.types.js';
-import { computeProportionalSizing } from '../config/copy-strategy.js';
+import type { MarketMakingProfile, MarketToxicity } from '../domain/market.types.js';
+import { computeExitFraction, createSizingStrategy, sizeSellShares, SizingResult } from '../config/copy-strategy.js';
+import { findTarget, marketMatchesCategory } from '../config/copy-targets.js';
+import { DEFAULT_MM_PROFILE } from '../config/market-making.js';
+import { createQuotingModel, MidpointSample, QuoteContext, QuotingModel } from '../config/quoting-model.js';
+import { Registry } from '../database/index.js';
 import { httpGet } from '../utils/http.js';
+import { sameOutcome } from '../utils/outcome.util.js';
 import { TOKENS } from '../config/env.js';
-import { IExchangeAdapter, LiquidityHealth } from '../adapters/interfaces.js';
-import axios from 'axios';
+import { IExchangeAdapter, LiquidityHealth, OrderParams, OrderResult } from '../adapters/interfaces.js';
+import type { OrderRecord, OrderSource } from '../domain/order.types.js';
+import type { OrderStoreService } from './order-store.service.js';
+import type { UserChannelService, UserOrderEvent } from './user-channel-ws.service.js';
+import { maxSpreadPrice, QuoteSide, RestingQuote } from './liquidity-rewards.service.js';
+import { getGammaClient } from './gamma-client.service.js';
 
 // Import from arbitrage scanner
 import type { MarketOpportunity } from './arbitrage-scanner.js';
@@ -16,8 +26,26 @@ export type TradeExecutorDeps = {
   env: RuntimeEnv;
   logger: Logger;
   proxyWallet: string;
+  // Optional override for whale bankroll lookups (offline replays)
+  traderBalanceProvider?: (trader: string) => Promise<number>;
+  // Shares a trader still holds in a token after the fill being copied, for signals that did not capture it (offline replays); null when unknown
+  traderPositionProvider?: (trader: string, conditionId: string, tokenId: string) => Promise<number | null>;
+  traderStatsProvider?: (trader: string) => Promise<TraderSizingStats>;
+  // Portfolio-level limits; returns a skip reason when the sized trade would breach one
+  riskCheck?: (signal: TradeSignal, sizeUsd: number) => Promise<string | null>;
+  // Order lifecycle store; when set, execution results are taken from the recorded fills
+  orderStore?: OrderStoreService;
+  // Recent book midpoints per token (scanner); feeds volatility-aware quoting models
+  getMidpointHistory?: (tokenId: string) => MidpointSample[];
+  // Per-market adverse-selection state (scanner); 'widen' scales the half-spread, 'pull' stops quoting
+  getToxicity?: (conditionId: string) => MarketToxicity | undefined;
 };
 
+export interface TraderSizingStats {
+  winRate?: number;         // Percent, from Registry
+  medianTradeUsd?: number;  // Median of recent trade sizes
+}
+
 interface Position {
   conditionId: string;
   initialValue: number;
@@ -28,27 +56,44 @@ interface Position {
 export interface ExecutionResult {
     status: 'FILLED' | 'FAILED' | 'SKIPPED' | 'ILLIQUID';
     txHash?: string;
+    orderId?: string;       // CLOB order id
     executedAmount: number;
     executedShares: number;
     priceFilled: number;    
     reason?: string;
 }
 
-// New: Market Making specific types
-export interface MarketMakingConfig {
-    quoteSize: number;           // Size per side in USD
-    spreadOffset: number;        // Offset from midpoint (e.g., 0.01 = 1 cent)
-    maxPositionUsd: number;      // Max inventory per token
-    maxOpenOrdersPerToken: number;
-    rebalanceThreshold: number;  // Inventory skew % to trigger rebalance
+export interface ManualExitResult {
+    success: boolean;
+    sharesSold: number;     // 0 when the position was redeemed instead of sold (see redeemedUsd)
+    priceFilled: number;
+    orderId?: string;
+    redeemedUsd?: number;
 }
 
+// Quoting part of the shared market-making profile (User.mmConfig)
+export type MarketMakingConfig = Pick<MarketMakingProfile,
+  | 'quoteSize' | 'spreadOffset' | 'maxPositionUsd' | 'maxOpenOrdersPerToken' | 'rebalanceThreshold'
+  | 'quotingModel' | 'riskAversion' | 'liquidityDensity' | 'maxHorizonHours' | 'toxicSpreadMultiplier'>;
+
+// Resting quote pair for one token; sides also carry price/size for rewards scoring
+type ActiveQuote = {
+    conditionId: string;
+    question?: string;
+    bidOrderId?: string;
+    askOrderId?: string;
+    bid?: QuoteSide;
+    ask?: QuoteSide;
+};
+
 export interface QuoteResult {
     tokenId: string;
     bidOrderId?: string;
     askOrderId?: string;
     bidPrice?: number;
     askPrice?: number;
+    bidSize?: number;
+    askSize?: number;
     status: 'POSTED' | 'PARTIAL' | 'FAILED' | 'SKIPPED';
     reason?: string;
 }
@@ -57,25 +102,43 @@ export class TradeExecutorService {
   private readonly deps: TradeExecutorDeps;
   
   private balanceCache: Map<string, { value: number; timestamp: number }> = new Map();
+  private statsCache: Map<string, { value: TraderSizingStats; timestamp: number }> = new Map();
   private readonly CACHE_TTL = 5 * 60 * 1000; 
   
   private pendingSpend = 0;
 
   // Market Making state
-  private activeQuotes: Map<string, { bidOrderId?: string; askOrderId?: string }> = new Map();
+  private activeQuotes: Map<string, ActiveQuote> = new Map();
   private inventory: Map<string, number> = new Map(); // tokenId -> share balance
+  private userChannel?: UserChannelService; // Keeps activeQuotes/inventory current while connected
 
-  private mmConfig: MarketMakingConfig = {
-      quoteSize: 50,              // $50 per side default
-      spreadOffset: 0.01,         // 1 cent from midpoint
-      maxPositionUsd: 500,        // Max $500 inventory per token
-      maxOpenOrdersPerToken: 2,   // 1 bid + 1 ask
-      rebalanceThreshold: 0.3     // 30% skew triggers rebalance
-  };
+  private mmConfig: MarketMakingConfig = { ...DEFAULT_MM_PROFILE };
+  private quotingModel: QuotingModel = createQuotingModel(this.mmConfig);
 
   constructor(deps: TradeExecutorDeps, mmConfig?: Partial<MarketMakingConfig>) {
     this.deps = deps;
     if (mmConfig) this.mmConfig = { ...this.mmConfig, ...mmConfig };
+    this.quotingModel = createQuotingModel(this.mmConfig);
+  }
+
+  /**
+   * Live profile update; the next quoting cycle uses the new sizes and offsets.
+   */
+  updateMarketMakingConfig(mmConfig: Partial<MarketMakingConfig>) {
+    this.mmConfig = { ...this.mmConfig, ...mmConfig };
+    this.quotingModel = createQuotingModel(this.mmConfig);
+  }
+
+  /**
+   * Follow the authenticated user channel: fills move inventory and finished quotes leave
+   * activeQuotes as they happen, so quoting no longer re-reads positions every cycle.
+   * Fills missed while the socket was down are not replayed, so a reconnect drops the
+   * maintained inventory and the next cycle re-reads it from positions.
+   */
+  public attachUserChannel(channel: UserChannelService) {
+    this.userChannel = channel;
+    channel.on('order', (event: UserOrderEvent) => this.handleUserOrderEvent(event));
+    channel.on('reconnected', () => this.inventory.clear());
   }
 
   /**
@@ -96,7 +159,7 @@ export class TradeExecutorService {
    */
   async executeMarketMakingQuotes(opportunity: MarketOpportunity): Promise<QuoteResult> {
       const { logger, adapter, proxyWallet } = this.deps;
-      const { tokenId, conditionId, midpoint, spread, question, rewardsMaxSpread, rewardsMinSize, skew = 0 } = opportunity;
+      const { tokenId, conditionId, midpoint, spread, question, rewardsMinSize, skew = 0 } = opportunity;
 
       const failResult = (reason: string): QuoteResult => ({
           tokenId,
@@ -105,6 +168,13 @@ export class TradeExecutorService {
       });
 
       try {
+          // 0. Toxic flow on this market: keep our quotes off the book until it cools down
+          const toxicity = this.deps.getToxicity?.(conditionId);
+          if (toxicity?.level === 'pull') {
+              await this.cancelExistingQuotes(tokenId);
+              return { tokenId, status: 'SKIPPED', reason: `toxic_flow: ${toxicity.reason || 'pulled'}` };
+          }
+
           // 1. Check if market is still active
           const market = await this.validateMarketForMM(conditionId);
           if (!market.valid) {
@@ -124,27 +194,14 @@ export class TradeExecutorService {
               return await this.postSingleSideQuote(opportunity, 'SELL', currentInventory);
           }
 
-          // 4. Calculate quote prices with INVENTORY SKEW
-          /**
-           * SKEW LOGIC:
-           * If skew > 0 (heavy YES), we lower BOTH prices.
-           * Lower Bid = Harder to buy more YES.
-           * Lower Ask = Easier to sell current YES shares (cheapest on book).
-           */
-          const skewAdjustment = skew * 0.02; // Max 2 cent aggressive lean
-
-          let bidOffset = this.mmConfig.spreadOffset;
-          let askOffset = this.mmConfig.spreadOffset;
-
-          // If reward-eligible, ensure we're within max_spread
-          if (rewardsMaxSpread && this.mmConfig.spreadOffset > rewardsMaxSpread / 2) {
-              bidOffset = rewardsMaxSpread / 2 - 0.001;
-              askOffset = rewardsMaxSpread / 2 - 0.001;
+          // 4. Price both sides with the profile's quoting model (fixed offset leans on YES/NO skew,
+          //    Avellaneda-Stoikov shifts around a reservation price driven by inventory and volatility)
+          const quote = this.quotingModel.quote(this.buildQuoteContext(opportunity, currentInventory, market.tickSize, skew));
+          const { bidPrice, askPrice } = quote;
+          if (quote.reason !== 'fixed_offset') {
+              logger.debug(`[MM] ${this.quotingModel.type} ${tokenId.slice(0, 8)}... r=${quote.reservationPrice.toFixed(4)} h=${quote.halfSpread.toFixed(4)} (${quote.reason})`);
           }
 
-          const bidPrice = Math.max(0.01, midpoint - bidOffset - skewAdjustment);
-          const askPrice = Math.min(0.99, midpoint + askOffset - skewAdjustment);
-
           // 5. Determine quote sizes
           let bidSize = this.mmConfig.quoteSize / bidPrice;
           let askSize = Math.min(this.mmConfig.quoteSize / askPrice, currentInventory);
@@ -184,6 +241,7 @@ export class TradeExecutorService {
 
               if (bidResult.success) {
                   result.bidOrderId = bidResult.orderId;
+                  result.bidSize = bidSize;
                   this.pendingSpend += bidSize * bidPrice;
               } else {
                   result.status = 'PARTIAL';
@@ -204,6 +262,7 @@ export class TradeExecutorService {
 
               if (askResult.success) {
                   result.askOrderId = askResult.orderId;
+                  result.askSize = askSize;
               } else {
                   if (!result.bidOrderId) result.status = 'FAILED';
                   else result.status = 'PARTIAL';
@@ -211,10 +270,7 @@ export class TradeExecutorService {
           }
 
           // Track active quotes
-          this.activeQuotes.set(tokenId, {
-              bidOrderId: result.bidOrderId,
-              askOrderId: result.askOrderId
-          });
+          this.trackQuote(opportunity, result);
 
           return result;
 
@@ -244,7 +300,7 @@ export class TradeExecutorService {
           const tickSize = parseFloat(params.tickSize) || 0.01;
           const roundedPrice = Math.round(params.price / tickSize) * tickSize;
 
-          const response = await adapter.createOrder({
+          const orderParams: OrderParams = {
               marketId: params.conditionId,
               tokenId: params.tokenId,
               outcome: params.side === 'BUY' ? 'YES' : 'NO', // Outcome used for metadata
@@ -253,7 +309,9 @@ export class TradeExecutorService {
               sizeShares: params.size,
               priceLimit: roundedPrice,
               orderType: 'GTC' // CRITICAL: This flag forces the maker lane in adapter
-          });
+          };
+          const response = await adapter.createOrder(orderParams);
+          await this.recordOrder(orderParams, response, 'MM_QUOTE');
 
           if (response.success) {
               return { success: true, orderId: response.orderId };
@@ -266,6 +324,46 @@ export class TradeExecutorService {
       }
   }
 
+  private buildQuoteContext(opportunity: MarketOpportunity, inventoryShares: number, tickSize: string, skew: number): QuoteContext {
+      const rewardSpread = maxSpreadPrice(opportunity.rewardsMaxSpread);
+      const endDate = opportunity.endDate ? new Date(opportunity.endDate).getTime() : NaN;
+      return {
+          midpoint: opportunity.midpoint,
+          inventoryLots: this.mmConfig.quoteSize > 0 ? (inventoryShares * opportunity.midpoint) / this.mmConfig.quoteSize : 0,
+          skew,
+          midpointHistory: this.deps.getMidpointHistory?.(opportunity.tokenId),
+          endDate: isNaN(endDate) ? undefined : endDate,
+          tickSize: parseFloat(tickSize) || 0.01,
+          maxHalfSpread: rewardSpread ? rewardSpread / 2 : undefined,
+          spreadMultiplier: this.deps.getToxicity?.(opportunity.conditionId)?.level === 'widen' ? this.mmConfig.toxicSpreadMultiplier : 1
+      };
+  }
+
+  /**
+   * Our quotes currently resting on the book (for liquidity rewards scoring).
+   */
+  getActiveQuotes(): RestingQuote[] {
+      return Array.from(this.activeQuotes, ([tokenId, q]) => ({
+          tokenId,
+          conditionId: q.conditionId,
+          question: q.question,
+          bid: q.bidOrderId ? q.bid : undefined,
+          ask: q.askOrderId ? q.ask : undefined
+      }));
+  }
+
+  private trackQuote(opportunity: MarketOpportunity, result: QuoteResult) {
+      if (!result.bidOrderId && !result.askOrderId) return;
+      this.activeQuotes.set(opportunity.tokenId, {
+          conditionId: opportunity.conditionId,
+          question: opportunity.question,
+          bidOrderId: result.bidOrderId,
+          askOrderId: result.askOrderId,
+          bid: result.bidOrderId && result.bidPrice !== undefined ? { price: result.bidPrice, size: result.bidSize || 0 } : undefined,
+          ask: result.askOrderId && result.askPrice !== undefined ? { price: result.askPrice, size: result.askSize || 0 } : undefined
+      });
+  }
+
   /**
    * Cancel existing quotes for a token before placing new ones
    * Per docs: cancelMarketOrders with asset_id
@@ -293,6 +391,24 @@ export class TradeExecutorService {
       }
   }
 
+  /**
+   * Markets (condition ids) with at least one quote resting.
+   */
+  getQuotedMarkets(): Set<string> {
+      return new Set(Array.from(this.activeQuotes.values(), quote => quote.conditionId));
+  }
+
+  /**
+   * Takes every quote on one market off the book (both outcome tokens).
+   */
+  public async cancelMarketQuotes(conditionId: string): Promise<number> {
+      const tokenIds = Array.from(this.activeQuotes)
+          .filter(([, quote]) => quote.conditionId === conditionId)
+          .map(([tokenId]) => tokenId);
+      for (const tokenId of tokenIds) await this.cancelExistingQuotes(tokenId);
+      return tokenIds.length;
+  }
+
   /**
    * Post single-side quote (for inventory management)
    */
@@ -302,17 +418,15 @@ export class TradeExecutorService {
       inventory: number
   ): Promise<QuoteResult> {
       const { logger } = this.deps;
-      const { tokenId, conditionId, midpoint, rewardsMaxSpread, rewardsMinSize } = opportunity;
+      const { tokenId, conditionId, rewardsMinSize } = opportunity;
 
       const market = await this.validateMarketForMM(conditionId);
       if (!market.valid) {
           return { tokenId, status: 'FAILED', reason: market.reason };
       }
 
-      const offset = rewardsMaxSpread ? Math.min(this.mmConfig.spreadOffset, rewardsMaxSpread / 2) : this.mmConfig.spreadOffset;
-      const price = side === 'BUY' 
-          ? Math.max(0.01, midpoint - offset)
-          : Math.min(0.99, midpoint + offset);
+      const quote = this.quotingModel.quote(this.buildQuoteContext(opportunity, inventory, market.tickSize, 0));
+      const price = side === 'BUY' ? quote.bidPrice : quote.askPrice;
       
       const size = side === 'SELL' 
           ? Math.min(this.mmConfig.quoteSize / price, inventory)
@@ -335,12 +449,11 @@ export class TradeExecutorService {
 
       if (result.success) {
           logger.success(`[MM] ${side} posted: ${size.toFixed(2)} @ ${(price * 100).toFixed(1)}¢`);
-          return {
-              tokenId,
-              status: 'POSTED',
-              [side === 'BUY' ? 'bidOrderId' : 'askOrderId']: result.orderId,
-              [side === 'BUY' ? 'bidPrice' : 'askPrice']: price
-          };
+          const quote: QuoteResult = side === 'BUY'
+              ? { tokenId, status: 'POSTED', bidOrderId: result.orderId, bidPrice: price, bidSize: size }
+              : { tokenId, status: 'POSTED', askOrderId: result.orderId, askPrice: price, askSize: size };
+          this.trackQuote(opportunity, quote);
+          return quote;
       }
 
       return { tokenId, status: 'FAILED', reason: result.error };
@@ -379,20 +492,55 @@ export class TradeExecutorService {
   }
 
   /**
-   * Get current token inventory (share balance)
+   * Get current token inventory (share balance). While the user channel is live the balance is
+   * read once from positions and then maintained from fill events.
    */
   private async getTokenInventory(tokenId: string): Promise<number> {
       const { adapter, proxyWallet } = this.deps;
+
+      if (this.userChannel?.isLive() && this.inventory.has(tokenId)) {
+          return this.inventory.get(tokenId)!;
+      }
       
       try {
           const positions = await adapter.getPositions(proxyWallet);
           const position = positions.find(p => p.tokenId === tokenId);
-          return position?.balance || 0;
+          const balance = position?.balance || 0;
+          this.inventory.set(tokenId, balance);
+          return balance;
       } catch {
           return this.inventory.get(tokenId) || 0;
       }
   }
 
+  private handleUserOrderEvent(event: UserOrderEvent) {
+      const { logger } = this.deps;
+
+      if (event.fillSize && this.inventory.has(event.tokenId)) {
+          const delta = event.side === 'BUY' ? event.fillSize : -event.fillSize;
+          this.inventory.set(event.tokenId, Math.max(0, this.inventory.get(event.tokenId)! + delta));
+      }
+      if (event.fillSize && event.side === 'BUY') {
+          this.pendingSpend = Math.max(0, this.pendingSpend - event.fillSize * event.price);
+      }
+
+      const resting = this.activeQuotes.get(event.tokenId);
+      if (event.type === 'partialFill' && resting) {
+          const side = resting.bidOrderId === event.orderId ? resting.bid : resting.askOrderId === event.orderId ? resting.ask : undefined;
+          if (side) side.size = Math.max(0, event.originalSize - event.sizeMatched);
+      }
+
+      if ((event.type === 'filled' || event.type === 'cancelled') && resting) {
+          if (resting.bidOrderId === event.orderId) resting.bidOrderId = undefined;
+          if (resting.askOrderId === event.orderId) resting.askOrderId = undefined;
+          if (!resting.bidOrderId && !resting.askOrderId) this.activeQuotes.delete(event.tokenId);
+      }
+
+      if (event.type === 'partialFill' || event.type === 'filled') {
+          logger.info(`[MM] ${event.side} ${event.fillSize?.toFixed(2)} @ ${(event.price * 100).toFixed(1)}¢ matched on ${event.tokenId.slice(0, 8)}... (${event.type === 'filled' ? 'filled' : 'partial'})`);
+      }
+  }
+
   /**
    * Cancel all market making quotes (kill switch)
    */
@@ -444,12 +592,8 @@ export class TradeExecutorService {
 
         if (!market) {
             try {
-                const gammaUrl = `https://gamma-api.polymarket.com/markets?condition_id=${conditionId}`;
-                const res = await axios.get(gammaUrl);
-                if (res.data && Array.isArray(res.data) && res.data.length > 0) {
-                    market = res.data[0];
-                    source = 'GAMMA';
-                }
+                market = await getGammaClient().getMarketByConditionId(conditionId);
+                if (market) source = 'GAMMA';
             } catch (e) {
                 logger.error(`Gamma fallback failed for ${conditionId}`);
             }
@@ -472,15 +616,22 @@ export class TradeExecutorService {
         let winningOutcome: string | undefined;
         let userWon = false;
 
+        let winningTokenId: string | undefined;
         if (market.tokens && Array.isArray(market.tokens)) {
             const winningToken = market.tokens.find((t: any) => t.winner === true);
-            if (winningToken) winningOutcome = winningToken.outcome;
+            if (winningToken) {
+                winningOutcome = winningToken.outcome;
+                winningTokenId = winningToken.token_id;
+            }
         } else if (market.winning_outcome) {
             winningOutcome = market.winning_outcome;
         }
 
         if (winningOutcome) {
-            userWon = position.outcome.toUpperCase() === winningOutcome.toUpperCase();
+            // Token match is exact on multi-outcome events; labels are the fallback
+            userWon = winningTokenId && position.tokenId
+                ? String(winningTokenId) === String(position.tokenId)
+                : sameOutcome(position.outcome, winningOutcome);
             logger.info(`🏆 Resolution result: Winning=${winningOutcome}, Mine=${position.outcome}, Result=${userWon ? 'WON' : 'LOST'}`);
         }
 
@@ -499,19 +650,33 @@ export class TradeExecutorService {
     }
   }
 
-  async executeManualExit(position: ActivePosition, currentPrice: number): Promise<boolean> {
+  /**
+   * Market-sells the position, or `sharesToSell` of it. Partial sizes go through the same dust
+   * rules as copied sells, so they may grow to the market minimum or to the whole position.
+   */
+  async executeManualExit(position: ActivePosition, currentPrice: number, sharesToSell?: number): Promise<ManualExitResult> {
       const { logger, adapter } = this.deps;
       let remainingShares = position.shares;
+      const failed: ManualExitResult = { success: false, sharesSold: 0, priceFilled: 0 };
       
       try {
-          if (remainingShares < 5) {
-              logger.error(`🚨 Cannot Exit: Your balance (${remainingShares.toFixed(2)}) is below the exchange minimum of 5 shares.`);
-              return false;
+          let minOrderSize = 5;
+          try {
+              const book = await adapter.getOrderBook(position.tokenId);
+              if (book.min_order_size) minOrderSize = Number(book.min_order_size);
+          } catch (e) {}
+
+          const sizing = sizeSellShares(position.shares, sharesToSell ?? position.shares, minOrderSize);
+          if (sizing.targetShares <= 0) {
+              logger.error(`🚨 Cannot Exit: Your balance (${remainingShares.toFixed(2)}) is below the exchange minimum of ${minOrderSize} shares.`);
+              return failed;
           }
+          remainingShares = sizing.targetShares;
+          if (sizing.reason && sharesToSell !== undefined) logger.info(`Exit size adjusted to ${remainingShares.toFixed(2)} shares (${sizing.reason})`);
 
           logger.info(`📉 Executing Market Exit: Offloading ${remainingShares} shares of ${position.tokenId}...`);
           
-          const result = await adapter.createOrder({
+          const orderParams: OrderParams = {
               marketId: position.marketId,
               tokenId: position.tokenId,
               outcome: position.outcome,
@@ -519,18 +684,21 @@ export class TradeExecutorService {
               sizeUsd: 0, 
               sizeShares: remainingShares,
               priceLimit: 0.001 
-          });
+          };
+          const result = await adapter.createOrder(orderParams);
+          const order = await this.recordOrder(orderParams, result, 'MANUAL_EXIT');
           
           if (result.success) {
-              const filled = result.sharesFilled || 0;
-              const diff = position.shares - filled;
+              const filled = order ? order.filledSize : (result.sharesFilled || 0);
+              const priceFilled = order ? order.avgFillPrice : (result.priceFilled || currentPrice);
+              const diff = remainingShares - filled;
               
               if (diff > 0.01) {
-                  logger.warn(`⚠️ Partial Fill: Only liquidated ${filled}/${position.shares} shares.`);
+                  logger.warn(`⚠️ Partial Fill: Only liquidated ${filled}/${remainingShares} shares.`);
               }
               
               logger.success(`Exit summary: Liquidated ${filled.toFixed(2)} shares @ avg best possible price.`);
-              return true;
+              return { success: filled > 0, sharesSold: filled, priceFilled, orderId: order?.clobOrderId ?? result.orderId };
           } else {
               if (result.error?.includes("No orderbook") || result.error?.includes("404")) {
                   logger.info(`Market appears resolved. Checking resolution status...`);
@@ -543,35 +711,35 @@ export class TradeExecutorService {
                           const redeemResult = await adapter.redeemPosition(position.marketId, position.tokenId);
                           if (redeemResult.success) {
                               logger.success(`Redeemed $${redeemResult.amountUsd?.toFixed(2)} USDC`);
-                              return true;
+                              return { success: true, sharesSold: 0, priceFilled: 0, redeemedUsd: redeemResult.amountUsd };
                           } else {
                               logger.error(`Redemption failed: ${redeemResult.error}`);
-                              return false;
+                              return failed;
                           }
                       } else {
                           logger.warn(`Market resolved but you did not win. Winning outcome: ${resolution.winningOutcome || 'Unknown'}`);
-                          return false;
+                          return failed;
                       }
                   } else {
                       logger.warn(`Market status unclear. Attempting redemption as fallback...`);
                       const redeemResult = await adapter.redeemPosition(position.marketId, position.tokenId);
                       if (redeemResult.success) {
                           logger.success(`Redeemed $${redeemResult.amountUsd?.toFixed(2)} USDC`);
-                          return true;
+                          return { success: true, sharesSold: 0, priceFilled: 0, redeemedUsd: redeemResult.amountUsd };
                       } else {
                           logger.error(`Redemption failed: ${redeemResult.error}`);
-                          return false;
+                          return failed;
                       }
                   }
               }
               
               logger.error(`Exit attempt failed: ${result.error || "Unknown Error"}`);
-              return false;
+              return failed;
           }
           
       } catch (e: any) {
           logger.error(`Failed to execute manual exit: ${e.message}`, e as Error);
-          return false;
+          return failed;
       }
   }
 
@@ -586,6 +754,14 @@ export class TradeExecutorService {
         reason
     });
 
+    const target = findTarget(env.targets, signal.trader);
+    if (target?.paused && signal.side === 'BUY') {
+        return failResult("target_paused");
+    }
+    if (target?.allowedSides === 'BUY_ONLY' && signal.side === 'SELL') {
+        return failResult("target_side_not_allowed");
+    }
+
     try {
       try {
         const market = await (adapter as any).getRawClient().getMarket(signal.marketId);
@@ -606,13 +782,25 @@ export class TradeExecutorService {
           logger.warn(`[Market Archived] ${signal.marketId} - Skipping`);
           return failResult("market_archived");
         }
+        // Category filters only gate new exposure; exits always follow the trader
+        if (target && signal.side === 'BUY') {
+          const denied = target.denyCategories?.find(c => marketMatchesCategory(market, c));
+          if (denied) {
+            logger.warn(`[Target Filter] ${signal.trader.slice(0, 6)}... market matches denied category "${denied}" - Skipping`);
+            return failResult(`target_category_denied:${denied}`);
+          }
+          if (target.allowCategories && !target.allowCategories.some(c => marketMatchesCategory(market, c))) {
+            logger.warn(`[Target Filter] ${signal.trader.slice(0, 6)}... market outside allowed categories - Skipping`);
+            return failResult("target_category_not_allowed");
+          }
+        }
       } catch (e: any) {
         if (e.message?.includes("404") || e.message?.includes("No orderbook") || String(e).includes("404")) {
           logger.warn(`[Market Resolved] ${signal.marketId} - Attempting to redeem existing position`);
           
           try {
             const positions = await adapter.getPositions(proxyWallet);
-            const existingPosition = positions.find(p => p.marketId === signal.marketId && p.outcome === signal.outcome);
+            const existingPosition = positions.find(p => p.tokenId === signal.tokenId);
             
             if (existingPosition) {
               logger.info(`[Auto-Redeem] Found position: ${existingPosition.balance} shares of ${signal.outcome}`);
@@ -646,7 +834,7 @@ export class TradeExecutorService {
       if (this.deps.adapter.getLiquidityMetrics) {
           try {
               const metrics = await this.deps.adapter.getLiquidityMetrics(signal.tokenId, signal.side);
-              const minRequired = (this.deps.env as any).minLiquidityFilter || 'LOW';
+              const minRequired = this.deps.env.minLiquidityFilter || 'LOW';
               
               const ranks: Record<string, number> = { 
                   [LiquidityHealth.HIGH]: 3, 
@@ -667,7 +855,7 @@ export class TradeExecutorService {
                   
                   try {
                       const positions = await adapter.getPositions(proxyWallet);
-                      const existingPosition = positions.find(p => p.marketId === signal.marketId && p.outcome === signal.outcome);
+                      const existingPosition = positions.find(p => p.tokenId === signal.tokenId);
                       
                       if (existingPosition) {
                           logger.info(`[Auto-Redeem] Found position: ${existingPosition.balance} shares of ${signal.outcome}`);
@@ -724,22 +912,46 @@ export class TradeExecutorService {
           if (book.min_order_size) minOrderSize = Number(book.min_order_size);
       } catch (e) {}
 
-      const sizing = computeProportionalSizing({
+      const strategy = createSizingStrategy(env.sizingStrategy);
+
+      let yourEquityUsd = usableBalanceForTrade;
+      if (signal.side === 'BUY') {
+          yourEquityUsd += positions.reduce((sum, p) => sum + (p.valueUsd || 0), 0);
+      }
+
+      const traderStats = (strategy.type === 'kelly' || strategy.type === 'conviction')
+          ? await this.getTraderStats(signal.trader)
+          : {};
+
+      // Exits follow the fraction of their position the trader sold, not their USD amount
+      const mirroredExit = signal.side === 'SELL' ? await this.sizeMirroredExit(signal, currentShareBalance, minOrderSize) : null;
+      const sizing = mirroredExit || strategy.compute({
         yourUsdBalance: usableBalanceForTrade,
         yourShareBalance: currentShareBalance,
         traderUsdBalance: traderBalance,
         traderTradeUsd: signal.sizeUsd,
-        multiplier: env.tradeMultiplier,
+        multiplier: target?.multiplier ?? env.tradeMultiplier,
         currentPrice: signal.price,
-        maxTradeAmount: env.maxTradeAmount,
+        maxTradeAmount: target?.maxTradeAmount ?? env.maxTradeAmount,
         minOrderSize: minOrderSize,
-        side: signal.side
+        side: signal.side,
+        yourEquityUsd,
+        traderWinRate: traderStats.winRate,
+        traderMedianTradeUsd: traderStats.medianTradeUsd
       });
 
       if (sizing.targetShares <= 0) {
           return failResult(sizing.reason || "skipped_by_sizing_engine");
       }
 
+      if (signal.side === 'BUY' && this.deps.riskCheck) {
+          const riskReason = await this.deps.riskCheck(signal, sizing.targetUsdSize);
+          if (riskReason) {
+              logger.warn(`[Risk Limit] ${riskReason} -> SKIPPING`);
+              return failResult(riskReason);
+          }
+      }
+
       if (signal.side === 'BUY' && usableBalanceForTrade < sizing.targetUsdSize) {
           const chainBalance = await adapter.fetchBalance(proxyWallet);
           return failResult(
@@ -758,7 +970,7 @@ export class TradeExecutorService {
           priceLimit = Math.max(0.001, signal.price * 0.90);
       }
 
-      logger.info(`[Sizing] Whale: $${traderBalance.toFixed(0)} | Signal: $${signal.sizeUsd.toFixed(0)} (${signal.side}) | Target: $${sizing.targetUsdSize.toFixed(2)} (${sizing.targetShares} shares) | Reason: ${sizing.reason}`);
+      logger.info(`[Sizing:${strategy.type}] Whale: $${traderBalance.toFixed(0)} | Signal: $${signal.sizeUsd.toFixed(0)} (${signal.side}) | Target: $${sizing.targetUsdSize.toFixed(2)} (${sizing.targetShares} shares) | Reason: ${sizing.reason}`);
 
       // FIX: Access safeManager from adapter via any-casting to bypass IExchangeAdapter interface restrictions and access internal Safe implementation details
       const anyAdapter = adapter as any;
@@ -777,7 +989,7 @@ export class TradeExecutorService {
           }
       }
 
-      const result = await adapter.createOrder({
+      const orderParams: OrderParams = {
         marketId: signal.marketId,
         tokenId: signal.tokenId,
         outcome: signal.outcome,
@@ -785,7 +997,9 @@ export class TradeExecutorService {
         sizeUsd: sizing.targetUsdSize,
         sizeShares: signal.side === 'SELL' ? sizing.targetShares : undefined,
         priceLimit: priceLimit
-      });
+      };
+      const result = await adapter.createOrder(orderParams);
+      const order = await this.recordOrder(orderParams, result, 'COPY');
 
       if (!result.success) {
           return {
@@ -798,13 +1012,18 @@ export class TradeExecutorService {
       }
 
       if (signal.side === 'BUY') this.pendingSpend += sizing.targetUsdSize;
+
+      // Positions are built from what actually matched, not from what was requested
+      const executedShares = order ? order.filledSize : result.sharesFilled;
+      const priceFilled = order ? order.avgFillPrice : result.priceFilled;
       
       return {
           status: 'FILLED',
-          txHash: result.orderId || result.txHash,
-          executedAmount: result.sharesFilled * result.priceFilled,
-          executedShares: result.sharesFilled,
-          priceFilled: result.priceFilled,
+          txHash: result.txHash,
+          orderId: order?.clobOrderId ?? result.orderId,
+          executedAmount: executedShares * priceFilled,
+          executedShares,
+          priceFilled,
           reason: sizing.reason
       };
 
@@ -821,7 +1040,84 @@ export class TradeExecutorService {
     }
   }
 
+  /**
+   * Store failures never fail the trade itself; the caller falls back to the raw adapter result.
+   */
+  private async recordOrder(params: OrderParams, result: OrderResult, source: OrderSource): Promise<OrderRecord | null> {
+    if (!this.deps.orderStore) return null;
+    try {
+      return await this.deps.orderStore.track(params, result, source);
+    } catch (e: any) {
+      this.deps.logger.warn(`[ORDERS] Failed to record ${source} order: ${e.message}`);
+      return null;
+    }
+  }
+
+  private async getTraderStats(trader: string): Promise<TraderSizingStats> {
+    if (this.deps.traderStatsProvider) {
+        return this.deps.traderStatsProvider(trader);
+    }
+
+    const cached = this.statsCache.get(trader);
+    if (cached && (Date.now() - cached.timestamp < this.CACHE_TTL)) {
+        return cached.value;
+    }
+
+    const stats: TraderSizingStats = {};
+    try {
+        const profile = await Registry.findOne({ address: { $regex: new RegExp(`^${trader}$`, 'i') } }).lean();
+        if (profile && profile.winRate > 0) stats.winRate = profile.winRate;
+    } catch (e) { /* unlisted trader: no win rate */ }
+
+    try {
+        const activity = await httpGet<any[]>(
+            `https://data-api.polymarket.com/activity?user=${trader}&limit=100`,
+        );
+        const sizes = (activity || [])
+            .filter(a => a.type === 'TRADE')
+            .map(a => Number(a.usdcSize) || (Number(a.size) * Number(a.price)) || 0)
+            .filter(v => v > 0)
+            .sort((a, b) => a - b);
+        if (sizes.length > 0) {
+            const mid = Math.floor(sizes.length / 2);
+            stats.medianTradeUsd = sizes.length % 2 ? sizes[mid] : (sizes[mid - 1] + sizes[mid]) / 2;
+        }
+    } catch (e) { /* no history: conviction falls back to base size */ }
+
+    this.statsCache.set(trader, { value: stats, timestamp: Date.now() });
+    return stats;
+  }
+
+  /**
+   * Sizes a copied SELL as the same fraction of our shares that the trader sold of theirs.
+   * The trader's remaining position is the one captured when the fill was detected; reading it
+   * now would count sells made during aggregation and AI review. Returns null when it is
+   * unknown (USD sizing applies instead).
+   */
+  private async sizeMirroredExit(signal: TradeSignal, heldShares: number, minOrderSize: number): Promise<SizingResult | null> {
+    if (!(signal.price > 0)) return null;
+    const remaining = signal.traderShares ?? (this.deps.traderPositionProvider
+      ? await this.deps.traderPositionProvider(signal.trader, signal.marketId, signal.tokenId)
+      : null);
+    if (remaining === null) return null;
+
+    const fraction = computeExitFraction(signal.sizeUsd / signal.price, remaining);
+    const target = fraction >= 1 ? heldShares : Math.floor(heldShares * fraction * 100) / 100;
+    const sell = sizeSellShares(heldShares, target, minOrderSize);
+    const reason = `mirror_exit_${(fraction * 100).toFixed(1)}pct${sell.reason ? `:${sell.reason}` : ''}`;
+    return {
+      targetUsdSize: Math.round(sell.targetShares * signal.price * 100) / 100,
+      targetShares: sell.targetShares,
+      ratio: fraction,
+      reason: sell.targetShares > 0 ? reason : sell.reason
+    };
+  }
+
   private async getTraderBalance(trader: string): Promise<number> {
+    if (this.deps.traderBalanceProvider) {
+        return this.deps.traderBalanceProvider(trader);
+    }
+
     const cached = this.balanceCache.get(trader);
     if (cached && (Date.now() - cached.timestamp < this.CACHE_TTL)) {
         return cached.value;
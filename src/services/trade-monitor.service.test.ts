@@ -0,0 +1,78 @@
+import axios from 'axios';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { IExchangeAdapter } from '../adapters/interfaces.js';
+import type { RuntimeEnv } from '../config/env.js';
+import type { TradeSignal } from '../domain/trade.types.js';
+import { Logger } from '../utils/logger.util.js';
+import { TradeMonitorService } from './trade-monitor.service.js';
+
+vi.mock('axios', () => ({ default: { get: vi.fn() } }));
+
+const logger: Logger = { info: () => {}, warn: () => {}, error: () => {}, debug: () => {}, success: () => {} };
+
+const TRADER = '0xwhale';
+
+const activity = (hash: string, side: 'BUY' | 'SELL', size: number, secondsAgo: number, asset = 'yes') => ({
+  id: hash,
+  type: 'TRADE',
+  timestamp: Math.floor(Date.now() / 1000) - secondsAgo,
+  conditionId: 'cond',
+  asset,
+  side,
+  size,
+  price: 0.5,
+  usdcSize: size * 0.5,
+  outcomeIndex: 0,
+  outcome: 'Yes',
+  transactionHash: hash
+});
+
+const respond = (activities: object[], positions: object[]) => async (url: string) => ({
+  data: url.includes('/activity') ? activities : positions
+});
+
+const detect = async (get: (url: string) => Promise<{ data: object[] }>) => {
+  vi.mocked(axios.get).mockImplementation(get);
+  const signals: TradeSignal[] = [];
+  const monitor = new TradeMonitorService({
+    adapter: {} as IExchangeAdapter,
+    env: {} as RuntimeEnv,
+    logger,
+    userAddresses: [TRADER],
+    onDetectedTrade: async s => { signals.push(s); }
+  });
+  await monitor.start();
+  monitor.stop();
+  return signals;
+};
+
+describe('TradeMonitorService trader holdings', () => {
+  beforeEach(() => {
+    vi.mocked(axios.get).mockReset();
+  });
+
+  it('walks later fills back to what the trader held after each sell', async () => {
+    const signals = await detect(respond(
+      [activity('0x3', 'SELL', 30, 10), activity('0x2', 'BUY', 10, 20), activity('0x1', 'SELL', 20, 30)],
+      [{ asset: 'yes', size: 60 }]
+    ));
+
+    expect(signals.map(s => [s.side, s.traderShares])).toEqual([['SELL', 80], ['BUY', undefined], ['SELL', 60]]);
+    expect(vi.mocked(axios.get).mock.calls.filter(([url]) => String(url).includes('/positions'))).toHaveLength(1);
+  });
+
+  it('treats a token missing from the positions as sold out', async () => {
+    const signals = await detect(respond([activity('0x1', 'SELL', 20, 10, 'no')], [{ asset: 'yes', size: 60 }]));
+    expect(signals[0].traderShares).toBe(0);
+  });
+
+  it('leaves holdings unknown when the lookup fails', async () => {
+    const signals = await detect(async (url: string) => {
+      if (url.includes('/positions')) throw new Error('timeout');
+      return { data: [activity('0x1', 'SELL', 20, 10)] };
+    });
+
+    expect(signals).toHaveLength(1);
+    expect(signals[0].traderShares).toBeUndefined();
+  });
+});
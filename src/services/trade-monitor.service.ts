@@ -3,6 +3,8 @@ import { RuntimeEnv } from '../config/env.js';
 import { Logger } from '../utils/logger.util.js';
 import { TradeSignal } from '../domain/trade.types.js';
 import { IExchangeAdapter } from '../adapters/interfaces.js';
+import { TargetWalletConfig, TargetWalletInput, normalizeTargets } from '../config/copy-targets.js';
+import { resolveOutcomeLabel } from '../utils/outcome.util.js';
 import axios from 'axios';
 
 export type TradeMonitorDeps = {
@@ -10,6 +12,7 @@ export type TradeMonitorDeps = {
   env: RuntimeEnv;
   logger: Logger;
   userAddresses: string[];
+  targets?: TargetWalletConfig[];
   onDetectedTrade: (signal: TradeSignal) => Promise<void>;
 };
 
@@ -24,9 +27,20 @@ interface PolyActivity {
     price: number;
     usdcSize: number;
     outcomeIndex: number;
+    outcome?: string; // Label, e.g. "Yes" or a candidate name on multi-outcome events
     transactionHash: string;
 }
 
+interface PolyPosition {
+    asset: string;
+    size: number;
+}
+
+// Older fills are dropped rather than copied late
+const MAX_SIGNAL_AGE_MS = 5 * 60 * 1000;
+
+const activityTime = (activity: PolyActivity) => (activity.timestamp > 10000000000 ? activity.timestamp : activity.timestamp * 1000);
+
 const HTTP_HEADERS = {
     'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
     'Accept': 'application/json'
@@ -42,13 +56,16 @@ export class TradeMonitorService {
 
   constructor(deps: TradeMonitorDeps) {
     this.deps = deps;
-    this.updateTargets(deps.userAddresses);
+    this.updateTargets(deps.targets?.length ? deps.targets : deps.userAddresses);
   }
 
-  updateTargets(newTargets: string[]) {
-      this.deps.userAddresses = newTargets;
-      this.targetWallets = new Set(newTargets.map(t => t.toLowerCase()));
-      this.deps.logger.info(`🎯 Monitor target list updated to ${this.targetWallets.size} wallets.`);
+  updateTargets(newTargets: TargetWalletInput[]) {
+      const targets = normalizeTargets(newTargets);
+      this.deps.userAddresses = targets.map(t => t.address);
+      // Paused wallets are still polled: their sells close positions copied before the pause
+      this.targetWallets = new Set(targets.map(t => t.address));
+      const paused = targets.filter(t => t.paused).length;
+      this.deps.logger.info(`🎯 Monitor target list updated to ${this.targetWallets.size} wallets${paused > 0 ? ` (${paused} paused)` : ''}.`);
   }
 
   async start(startCursor?: number): Promise<void> {
@@ -99,30 +116,31 @@ export class TradeMonitorService {
 
           trades.sort((a, b) => a.timestamp - b.timestamp);
 
+          const sharesAfter = await this.traderSharesAfterSells(user, trades);
           for (const trade of trades) {
-              await this.processTrade(user, trade);
+              await this.processTrade(user, trade, sharesAfter.get(trade));
           }
       } catch (e) {
           // Silent fail
       }
   }
 
-  private async processTrade(user: string, activity: PolyActivity) {
+  private async processTrade(user: string, activity: PolyActivity, traderShares?: number) {
       const txHash = activity.transactionHash;
       
       if (this.processedHashes.has(txHash)) return;
       
       const now = Date.now();
-      const tradeTime = activity.timestamp > 10000000000 ? activity.timestamp : activity.timestamp * 1000;
+      const tradeTime = activityTime(activity);
       
-      if (now - tradeTime > 5 * 60 * 1000) {
+      if (now - tradeTime > MAX_SIGNAL_AGE_MS) {
           this.processedHashes.set(txHash, now);
           return;
       }
 
       this.processedHashes.set(txHash, now);
 
-      const outcomeLabel = activity.outcomeIndex === 0 ? "YES" : "NO";
+      const outcomeLabel = resolveOutcomeLabel(activity.outcome, activity.outcomeIndex);
       
       const side = activity.side.toUpperCase() as 'BUY' | 'SELL';
       
@@ -134,11 +152,14 @@ export class TradeMonitorService {
           trader: user,
           marketId: activity.conditionId,
           tokenId: activity.asset,
-          outcome: outcomeLabel as 'YES' | 'NO',
+          outcome: outcomeLabel,
+          outcomeIndex: activity.outcomeIndex,
           side: side,
           sizeUsd: sizeUsd,
           price: activity.price,
-          timestamp: tradeTime
+          timestamp: tradeTime,
+          detectedAt: now,
+          traderShares
       };
 
       this.deps.onDetectedTrade(signal).catch(err => {
@@ -146,6 +167,53 @@ export class TradeMonitorService {
       });
   }
 
+  /**
+   * What the trader held right after each new sell in the batch. Exits are mirrored as a fraction
+   * of the position, so it is read now, before aggregation and AI gating delay the copy. Positions
+   * are fetched once per token and reflect every fill in the batch, so later fills are walked back
+   * newest first to get the holding after each sell.
+   */
+  private async traderSharesAfterSells(user: string, trades: PolyActivity[]): Promise<Map<PolyActivity, number | undefined>> {
+      const now = Date.now();
+      const sells = trades.filter(t =>
+          t.side.toUpperCase() === 'SELL' && !this.processedHashes.has(t.transactionHash) && now - activityTime(t) <= MAX_SIGNAL_AGE_MS
+      );
+
+      const held = new Map<string, number | undefined>();
+      for (const sell of sells) {
+          if (!held.has(sell.asset)) held.set(sell.asset, await this.fetchTraderShares(user, sell.conditionId, sell.asset));
+      }
+
+      const sharesAfter = new Map<PolyActivity, number | undefined>();
+      for (const trade of [...trades].reverse()) {
+          if (!held.has(trade.asset)) continue;
+          const shares = held.get(trade.asset);
+          if (sells.includes(trade)) sharesAfter.set(trade, shares);
+          if (shares === undefined) continue;
+          const size = Number(trade.size) || 0;
+          held.set(trade.asset, Math.max(0, trade.side.toUpperCase() === 'SELL' ? shares + size : shares - size));
+      }
+      return sharesAfter;
+  }
+
+  /**
+   * Shares the trader holds in the token now. The data API omits closed
+   * positions, so a missing entry means they sold out; undefined when the lookup fails.
+   */
+  private async fetchTraderShares(user: string, conditionId: string, tokenId: string): Promise<number | undefined> {
+      try {
+          const res = await axios.get<PolyPosition[]>(`https://data-api.polymarket.com/positions?user=${user}&market=${conditionId}`, {
+              timeout: 3000,
+              headers: HTTP_HEADERS
+          });
+          if (!Array.isArray(res.data)) return undefined;
+          const position = res.data.find(p => p.asset === tokenId);
+          return position ? Number(position.size) || 0 : 0;
+      } catch (e) {
+          return undefined;
+      }
+  }
+
   private pruneCache() {
       const now = Date.now();
       const TTL = 10 * 60 * 1000; 
@@ -0,0 +1,107 @@
+import EventEmitter from 'events';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Logger } from '../utils/logger.util.js';
+import { UserChannelService, UserOrderEvent } from './user-channel-ws.service.js';
+
+const sockets = vi.hoisted(() => [] as any[]);
+
+vi.mock('ws', async () => {
+  const { default: Emitter } = await import('events');
+  class FakeSocket extends Emitter {
+    readyState = 1;
+    send = vi.fn();
+    terminate = vi.fn();
+    constructor(public url: string) {
+      super();
+      sockets.push(this);
+    }
+  }
+  return { default: FakeSocket };
+});
+
+const logger: Logger = { info: () => {}, warn: () => {}, error: () => {}, debug: () => {}, success: () => {} };
+
+const orderMessage = (type: string, sizeMatched: number, extra: Record<string, any> = {}) => ({
+  event_type: 'order',
+  type,
+  id: '0xorder',
+  market: 'cond',
+  asset_id: 'yes',
+  outcome: 'Yes',
+  side: 'buy',
+  price: '0.5',
+  original_size: '10',
+  size_matched: String(sizeMatched),
+  timestamp: '1735689600',
+  ...extra
+});
+
+describe('UserChannelService', () => {
+  let channel: UserChannelService;
+  let events: UserOrderEvent[];
+
+  const receive = (payload: any) => sockets[sockets.length - 1].emit('message', Buffer.from(JSON.stringify(payload)));
+
+  beforeEach(() => {
+    sockets.length = 0;
+    events = [];
+    channel = new UserChannelService({ key: 'key', secret: 'secret', passphrase: 'pass' }, logger);
+    channel.on('order', (event: UserOrderEvent) => events.push(event));
+    channel.start();
+    sockets[0].emit('open');
+  });
+
+  afterEach(() => {
+    channel.stop();
+  });
+
+  it('subscribes with the API credentials once open', () => {
+    expect(channel.isLive()).toBe(true);
+    expect(JSON.parse(sockets[0].send.mock.calls[0][0])).toMatchObject({ type: 'user', auth: { apiKey: 'key', passphrase: 'pass' } });
+  });
+
+  it('derives each fill from the cumulative matched size', () => {
+    receive(orderMessage('PLACEMENT', 0));
+    receive(orderMessage('UPDATE', 4, { associate_trades: ['t1'] }));
+    receive(orderMessage('UPDATE', 4, { associate_trades: ['t1'] }));
+    receive(orderMessage('UPDATE', 10, { associate_trades: ['t1', 't2'] }));
+
+    expect(events.map(e => [e.type, e.fillSize, e.tradeId])).toEqual([
+      ['placed', undefined, undefined],
+      ['partialFill', 4, 't1'],
+      ['filled', 6, 't2']
+    ]);
+    expect(events[2]).toMatchObject({ side: 'BUY', sizeMatched: 10, originalSize: 10, timestamp: 1735689600000 });
+  });
+
+  it('reports cancellations and emits each type under its own name', () => {
+    const cancelled = vi.fn();
+    channel.on('cancelled', cancelled);
+    receive([orderMessage('UPDATE', 3), orderMessage('CANCELLATION', 3)]);
+
+    expect(events.map(e => e.type)).toEqual(['partialFill', 'cancelled']);
+    expect(cancelled).toHaveBeenCalledOnce();
+  });
+
+  it('ignores trade messages and keepalives', () => {
+    receive({ event_type: 'trade', id: 't1', size: '5' });
+    sockets[0].emit('message', Buffer.from('PONG'));
+    expect(events).toEqual([]);
+  });
+
+  it('signals a reconnect so derived state is re-read', async () => {
+    vi.useFakeTimers();
+    try {
+      const reconnected = vi.fn();
+      channel.on('reconnected', reconnected);
+      sockets[0].emit('close', 1006);
+      expect(channel.isLive()).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(60_000);
+      sockets[1].emit('open');
+      expect(reconnected).toHaveBeenCalledOnce();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,214 @@
+import EventEmitter from 'events';
+import WebSocket from 'ws';
+import type RawData from 'ws';
+import { WS_URLS } from '../config/env.js';
+import { L2ApiCredentials } from '../domain/wallet.types.js';
+import { Logger } from '../utils/logger.util.js';
+import { reconnectDelay } from '../utils/backoff.util.js';
+
+export type UserOrderEventType = 'placed' | 'partialFill' | 'filled' | 'cancelled';
+
+export type UserOrderEvent = {
+  type: UserOrderEventType;
+  orderId: string;
+  marketId: string;
+  tokenId: string;
+  outcome?: string;
+  side: 'BUY' | 'SELL';
+  price: number;
+  originalSize: number;
+  sizeMatched: number;  // Cumulative
+  fillSize?: number;    // Newly matched shares (partialFill / filled)
+  tradeId?: string;     // Most recent associated trade
+  timestamp: number;
+};
+
+const FILL_EPSILON = 1e-6;
+
+/**
+ * Authenticated CLOB user channel. Turns the exchange's order messages (PLACEMENT / UPDATE /
+ * CANCELLATION) into typed events. Fill sizes are derived from the cumulative size_matched
+ * per order, so a repeated or late UPDATE never double counts.
+ *
+ * Emits 'order' for every event, and the event type ('placed', 'partialFill', 'filled',
+ * 'cancelled') as its own event name. 'reconnected' follows every reconnect: fills that
+ * happened while the socket was down are never replayed, so derived state must be re-read.
+ */
+export class UserChannelService extends EventEmitter {
+  private ws?: WebSocket;
+  private isRunning = false;
+  private isConnected = false;
+  private hasConnected = false;
+  private pingInterval?: NodeJS.Timeout;
+  private reconnectAttempts = 0;
+  private reconnectTimeout?: NodeJS.Timeout;
+  private readonly maxReconnectAttempts = 10;
+  private readonly maxReconnectDelay = 30000;
+  private matched: Map<string, number> = new Map(); // orderId -> last seen size_matched
+
+  constructor(private credentials: L2ApiCredentials, private logger: Logger) {
+    super();
+  }
+
+  start() {
+    if (this.isRunning) return;
+    this.isRunning = true;
+    this.connect();
+  }
+
+  /**
+   * True while the socket is open; callers fall back to polling otherwise.
+   */
+  isLive(): boolean {
+    return this.isConnected;
+  }
+
+  stop() {
+    this.isRunning = false;
+    this.isConnected = false;
+    this.hasConnected = false;
+    this.stopPing();
+
+    if (this.ws) {
+      const wsAny = this.ws as any;
+      wsAny.removeAllListeners();
+      if (this.ws.readyState === 1) wsAny.terminate();
+      this.ws = undefined;
+    }
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = undefined;
+    }
+    this.matched.clear();
+  }
+
+  private connect() {
+    if (!this.isRunning) return;
+
+    this.ws = new WebSocket(`${WS_URLS.CLOB}/ws/user`);
+    const wsAny = this.ws as any;
+
+    wsAny.on('open', () => {
+      this.isConnected = true;
+      this.reconnectAttempts = 0;
+      this.ws!.send(JSON.stringify({
+        type: 'user',
+        auth: {
+          apiKey: this.credentials.key,
+          secret: this.credentials.secret,
+          passphrase: this.credentials.passphrase
+        },
+        markets: [] // All markets for this API key
+      }));
+      this.logger.success('✅ User channel connected');
+      this.startPing();
+      if (this.hasConnected) this.emit('reconnected');
+      this.hasConnected = true;
+    });
+
+    wsAny.on('message', (data: RawData) => {
+      try {
+        const msg = data.toString();
+        if (msg === 'PONG') return;
+
+        const parsed = JSON.parse(msg);
+        if (Array.isArray(parsed)) {
+          parsed.forEach(m => this.processMessage(m));
+        } else {
+          this.processMessage(parsed);
+        }
+      } catch (error) {
+        // Non-JSON keepalives
+      }
+    });
+
+    wsAny.on('close', (code: number) => {
+      this.isConnected = false;
+      this.logger.warn(`📡 User channel closed: ${code}`);
+      this.stopPing();
+      if (this.isRunning) this.handleReconnect();
+    });
+
+    wsAny.on('error', (error: Error) => {
+      this.logger.error(`❌ User channel error: ${error.message}`);
+    });
+  }
+
+  private processMessage(msg: any) {
+    // Trade messages repeat what the order UPDATEs already carry; order messages are authoritative here
+    if (msg?.event_type !== 'order' || !msg.id) return;
+
+    const orderId = String(msg.id);
+    const originalSize = parseFloat(msg.original_size || '0');
+    const sizeMatched = parseFloat(msg.size_matched || '0');
+    const previous = this.matched.get(orderId) || 0;
+    const fillSize = sizeMatched - previous;
+    const kind = String(msg.type || '').toUpperCase();
+
+    let type: UserOrderEventType;
+    if (kind === 'CANCELLATION') {
+      type = 'cancelled';
+    } else if (fillSize > FILL_EPSILON) {
+      type = sizeMatched + FILL_EPSILON >= originalSize ? 'filled' : 'partialFill';
+    } else if (kind === 'PLACEMENT') {
+      type = 'placed';
+    } else {
+      return; // UPDATE with nothing new matched
+    }
+
+    if (type === 'cancelled' || type === 'filled') {
+      this.matched.delete(orderId);
+    } else {
+      this.matched.set(orderId, sizeMatched);
+    }
+
+    const trades: string[] = msg.associate_trades || [];
+    const event: UserOrderEvent = {
+      type,
+      orderId,
+      marketId: msg.market,
+      tokenId: msg.asset_id,
+      outcome: msg.outcome,
+      side: String(msg.side).toUpperCase() === 'SELL' ? 'SELL' : 'BUY',
+      price: parseFloat(msg.price || '0'),
+      originalSize,
+      sizeMatched,
+      fillSize: fillSize > FILL_EPSILON ? fillSize : undefined,
+      tradeId: trades.length ? trades[trades.length - 1] : undefined,
+      timestamp: Number(msg.timestamp) ? Number(msg.timestamp) * (Number(msg.timestamp) > 1e11 ? 1 : 1000) : Date.now()
+    };
+
+    this.emit('order', event);
+    this.emit(type, event);
+  }
+
+  private startPing() {
+    this.pingInterval = setInterval(() => {
+      if (this.ws?.readyState === 1) {
+        this.ws.send('PING');
+      }
+    }, 10000);
+  }
+
+  private stopPing() {
+    if (this.pingInterval) {
+      clearInterval(this.pingInterval);
+      this.pingInterval = undefined;
+    }
+  }
+
+  private handleReconnect() {
+    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+      this.logger.error('User channel: max reconnection attempts reached (falling back to order polling)');
+      return;
+    }
+
+    this.reconnectAttempts++;
+    const delay = reconnectDelay(this.reconnectAttempts, this.maxReconnectDelay);
+    this.logger.info(`User channel reconnecting in ${delay}ms (${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
+
+    this.reconnectTimeout = setTimeout(() => {
+      if (this.isRunning) this.connect();
+    }, delay);
+  }
+}
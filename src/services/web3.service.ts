@@ -186,6 +186,18 @@ export class Web3Service {
       }
   }
 
+  /**
+   * Personal-sign a plain text message with the connected wallet (server-side auth challenges)
+   */
+  async signMessage(message: string): Promise<string> {
+      if (!this.signer) await this.connect();
+      try {
+          return await this.signer.signMessage(message);
+      } catch (e: any) {
+          throw this.parseError(e);
+      }
+  }
+
   // Legacy wrapper for backward compatibility (defaults to Native USDC)
   async deposit(toAddress: string, amount: string): Promise<string> {
       return this.depositErc20(toAddress, amount, USDC_POLYGON);
@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Logger } from '../utils/logger.util.js';
+import { normalizeWithdrawalLimits, WithdrawalPolicyError, WithdrawalPolicyService } from './withdrawal-policy.service.js';
+
+// Just enough of the User and Withdrawal models for the policy's queries
+const db = vi.hoisted(() => {
+  const state = { policy: {} as any, withdrawals: [] as any[] };
+  const setPath = (path: string, value: any) => {
+    const key = path.replace('withdrawalPolicy.', '');
+    if (value === undefined) delete state.policy[key];
+    else state.policy[key] = value;
+  };
+  const query = (rows: () => any) => ({ select: () => ({ lean: async () => rows() }) });
+  return {
+    state,
+    User: {
+      findOne: () => query(() => ({ withdrawalPolicy: state.policy })),
+      updateOne: async (_filter: any, update: any) => {
+        for (const [path, value] of Object.entries(update.$set || {})) setPath(path, value);
+        for (const path of Object.keys(update.$unset || {})) setPath(path, undefined);
+        for (const [path, value] of Object.entries(update.$push || {})) setPath(path, [...(state.policy.allowlist || []), value]);
+      }
+    },
+    Withdrawal: {
+      create: async (doc: any) => {
+        const row = { ...doc, _id: state.withdrawals.length + 1, createdAt: new Date() };
+        state.withdrawals.push(row);
+        return row;
+      },
+      updateOne: async (filter: any, update: any) => {
+        Object.assign(state.withdrawals.find(w => w._id === Number(filter._id)), update);
+      },
+      find: (filter: any) => query(() => state.withdrawals.filter(w =>
+        w.userId === filter.userId &&
+        w.tokenType === filter.tokenType &&
+        w.status !== filter.status.$ne &&
+        w.createdAt >= filter.createdAt.$gte &&
+        (!filter._id || w._id <= filter._id.$lte)
+      ))
+    }
+  };
+});
+
+vi.mock('../database/index.js', () => ({ User: db.User, Withdrawal: db.Withdrawal }));
+
+const logger: Logger = { info: () => {}, warn: () => {}, error: () => {}, debug: () => {}, success: () => {} };
+
+const OWNER = '0x00000000000000000000000000000000000000aa';
+const FRIEND = '0x00000000000000000000000000000000000000bb';
+const T0 = Date.UTC(2025, 0, 1);
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('WithdrawalPolicyService', () => {
+  let policy: WithdrawalPolicyService;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(T0);
+    db.state.policy = {};
+    db.state.withdrawals = [];
+    policy = new WithdrawalPolicyService(logger);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('always allows the owner and holds new destinations for the cooling period', async () => {
+    await policy.assertDestinationAllowed(OWNER, OWNER.replace(/aa$/, 'AA'));
+    await expect(policy.assertDestinationAllowed(OWNER, FRIEND)).rejects.toThrow('not on your withdrawal allowlist');
+
+    await policy.addDestination(OWNER, FRIEND, 'cold wallet');
+    await expect(policy.assertDestinationAllowed(OWNER, FRIEND)).rejects.toThrow('cooling period');
+
+    vi.setSystemTime(T0 + DAY);
+    await policy.assertDestinationAllowed(OWNER, FRIEND);
+  });
+
+  it('rejects invalid and duplicate destinations', async () => {
+    await expect(policy.addDestination(OWNER, '0x1234')).rejects.toMatchObject({ status: 400 });
+    await expect(policy.addDestination(OWNER, OWNER)).rejects.toMatchObject({ status: 400 });
+    await policy.addDestination(OWNER, FRIEND);
+    await expect(policy.addDestination(OWNER, FRIEND.replace(/bb$/, 'BB'))).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('tightens limits at once and stages loosening for the cooling period', async () => {
+    await policy.setLimits(OWNER, { dailyUsdc: 500 });
+    expect((await policy.getPolicy(OWNER)).limits).toEqual({ dailyUsdc: 500 });
+
+    await policy.setLimits(OWNER, { dailyUsdc: 100 });
+    expect((await policy.getPolicy(OWNER)).limits).toEqual({ dailyUsdc: 100 });
+
+    const raised = await policy.setLimits(OWNER, { dailyUsdc: 1000 });
+    expect(raised.limits).toEqual({ dailyUsdc: 100 });
+    expect(raised.pendingLimits).toEqual({ dailyUsdc: 1000, activeAt: T0 + DAY });
+
+    const removed = await policy.setLimits(OWNER, {});
+    expect(removed.limits).toEqual({ dailyUsdc: 100 });
+
+    vi.setSystemTime(T0 + DAY);
+    expect((await policy.getPolicy(OWNER)).limits).toEqual({});
+  });
+
+  it('enforces the daily limit over a rolling 24h window', async () => {
+    await policy.setLimits(OWNER, { dailyUsdc: 100 });
+    const id = await policy.reserve(OWNER, { tokenType: 'USDC', amount: 80, toAddress: OWNER, source: 'SAFE' });
+    await policy.reserve(OWNER, { tokenType: 'POL', amount: 50, toAddress: OWNER, source: 'EOA' });
+
+    await policy.reserve(OWNER, { tokenType: 'USDC', amount: 20, toAddress: OWNER, source: 'SAFE' });
+    await expect(policy.reserve(OWNER, { tokenType: 'USDC', amount: 1, toAddress: OWNER, source: 'SAFE' })).rejects.toMatchObject({ status: 429 });
+    expect(db.state.withdrawals[3].status).toBe('FAILED');
+
+    await policy.markFailed(id, 'reverted');
+    await policy.reserve(OWNER, { tokenType: 'USDC', amount: 80, toAddress: OWNER, source: 'SAFE' });
+
+    expect(await policy.getPolicy(OWNER)).toMatchObject({ ownerAddress: OWNER, usedToday: { usdc: 100, pol: 50 } });
+  });
+
+  it('lets only one of two concurrent withdrawals through the limit', async () => {
+    await policy.setLimits(OWNER, { dailyUsdc: 100 });
+    const results = await Promise.allSettled([
+      policy.reserve(OWNER, { tokenType: 'USDC', amount: 60, toAddress: OWNER, source: 'SAFE' }),
+      policy.reserve(OWNER, { tokenType: 'USDC', amount: 60, toAddress: OWNER, source: 'SAFE' })
+    ]);
+
+    expect(results.map(r => r.status)).toEqual(['fulfilled', 'rejected']);
+    expect((await policy.getPolicy(OWNER)).usedToday.usdc).toBe(60);
+  });
+
+  it('forgets withdrawals older than a day', async () => {
+    await policy.setLimits(OWNER, { dailyUsdc: 100 });
+    await policy.reserve(OWNER, { tokenType: 'USDC', amount: 100, toAddress: OWNER, source: 'SAFE' });
+    await expect(policy.reserve(OWNER, { tokenType: 'USDC', amount: 1, toAddress: OWNER, source: 'SAFE' })).rejects.toBeInstanceOf(WithdrawalPolicyError);
+
+    vi.setSystemTime(T0 + DAY + 1);
+    await policy.reserve(OWNER, { tokenType: 'USDC', amount: 1, toAddress: OWNER, source: 'SAFE' });
+  });
+});
+
+describe('normalizeWithdrawalLimits', () => {
+  it('drops blank and non-positive limits', () => {
+    expect(normalizeWithdrawalLimits({ dailyUsdc: '250', dailyPol: '' })).toEqual({ dailyUsdc: 250 });
+    expect(normalizeWithdrawalLimits({ dailyUsdc: 0, dailyPol: null })).toEqual({});
+  });
+});
@@ -0,0 +1,212 @@
+import { ethers, JsonRpcProvider } from 'ethers';
+import { User, Withdrawal } from '../database/index.js';
+import {
+  WithdrawalAllowlistEntry,
+  WithdrawalLimits,
+  WithdrawalPolicy,
+  WithdrawalRecord,
+  WithdrawalToken
+} from '../domain/wallet.types.js';
+import { Logger } from '../utils/logger.util.js';
+
+export class WithdrawalPolicyError extends Error {
+  constructor(message: string, public status = 403) {
+    super(message);
+    this.name = 'WithdrawalPolicyError';
+  }
+}
+
+export type WithdrawalPolicyView = WithdrawalPolicy & {
+  ownerAddress: string;         // Always an allowed destination
+  usedToday: { usdc: number; pol: number }; // Rolling 24h
+};
+
+const COOLING_PERIOD = 24 * 60 * 60 * 1000;
+const LIMIT_WINDOW = 24 * 60 * 60 * 1000;
+const CONFIRMATION_TIMEOUT = 5 * 60 * 1000;
+
+const limitKey = (token: WithdrawalToken): keyof WithdrawalLimits => token === 'POL' ? 'dailyPol' : 'dailyUsdc';
+
+export const normalizeWithdrawalToken = (tokenType?: string): WithdrawalToken => tokenType === 'POL' ? 'POL' : 'USDC';
+
+/**
+ * Keeps only positive numeric limits. A null/'' field means "remove this limit".
+ */
+export function normalizeWithdrawalLimits(input: any): WithdrawalLimits {
+  const limits: WithdrawalLimits = {};
+  for (const key of ['dailyUsdc', 'dailyPol'] as (keyof WithdrawalLimits)[]) {
+    const n = Number(input?.[key]);
+    if (input?.[key] !== undefined && input?.[key] !== null && input?.[key] !== '' && !isNaN(n) && n > 0) limits[key] = n;
+  }
+  return limits;
+}
+
+const toRecord = (doc: any): WithdrawalRecord => ({
+  id: doc._id.toString(),
+  userId: doc.userId,
+  tokenType: doc.tokenType,
+  amount: doc.amount,
+  toAddress: doc.toAddress,
+  source: doc.source,
+  status: doc.status,
+  txHash: doc.txHash,
+  error: doc.error,
+  createdAt: new Date(doc.createdAt).toISOString(),
+  updatedAt: doc.updatedAt ? new Date(doc.updatedAt).toISOString() : undefined
+});
+
+/**
+ * Destination allowlist, daily caps and the persisted Withdrawal ledger.
+ * Loosening changes (new destination, higher limit) only take effect after a 24h cooling
+ * period so a hijacked session cannot drain the vault immediately; tightening is instant.
+ */
+export class WithdrawalPolicyService {
+  constructor(private logger: Logger, private provider?: JsonRpcProvider) {}
+
+  async getPolicy(userId: string): Promise<WithdrawalPolicyView> {
+    const policy = await this.loadPolicy(userId);
+    const [usdc, pol] = await Promise.all([this.usedInWindow(userId, 'USDC'), this.usedInWindow(userId, 'POL')]);
+    return { ...policy, ownerAddress: userId, usedToday: { usdc, pol } };
+  }
+
+  async addDestination(userId: string, address: string, label?: string): Promise<WithdrawalAllowlistEntry> {
+    if (!ethers.isAddress(address)) throw new WithdrawalPolicyError('Invalid destination address', 400);
+    const normalized = address.toLowerCase();
+    if (normalized === userId) throw new WithdrawalPolicyError('Your main wallet is always allowed', 400);
+
+    const policy = await this.loadPolicy(userId);
+    if (policy.allowlist.some(e => e.address === normalized)) throw new WithdrawalPolicyError('Address already on the allowlist', 409);
+
+    const now = Date.now();
+    const entry: WithdrawalAllowlistEntry = { address: normalized, label: label?.slice(0, 64), addedAt: now, activeAt: now + COOLING_PERIOD };
+    await User.updateOne({ address: userId }, { $push: { 'withdrawalPolicy.allowlist': entry } });
+    this.logger.info(`[Withdrawals] ${userId} added destination ${normalized} (active ${new Date(entry.activeAt).toISOString()})`);
+    return entry;
+  }
+
+  async removeDestination(userId: string, address: string): Promise<void> {
+    await User.updateOne({ address: userId }, { $pull: { 'withdrawalPolicy.allowlist': { address: String(address).toLowerCase() } } });
+    this.logger.info(`[Withdrawals] ${userId} removed destination ${address}`);
+  }
+
+  /**
+   * Lower (or equal) limits apply now. Raising or removing a limit is staged for the cooling period.
+   */
+  async setLimits(userId: string, requested: WithdrawalLimits): Promise<WithdrawalPolicy> {
+    const policy = await this.loadPolicy(userId);
+    const current = policy.limits;
+    const loosens = (['dailyUsdc', 'dailyPol'] as (keyof WithdrawalLimits)[]).some(key =>
+      current[key] !== undefined && (requested[key] === undefined || requested[key]! > current[key]!)
+    );
+
+    const update = loosens
+      ? { $set: { 'withdrawalPolicy.pendingLimits': { ...requested, activeAt: Date.now() + COOLING_PERIOD } } }
+      : { $set: { 'withdrawalPolicy.limits': requested }, $unset: { 'withdrawalPolicy.pendingLimits': 1 } };
+    await User.updateOne({ address: userId }, update);
+    if (loosens) this.logger.info(`[Withdrawals] ${userId} staged higher withdrawal limits (24h cooling period)`);
+    return this.loadPolicy(userId);
+  }
+
+  /**
+   * Records the withdrawal as PENDING and returns its id. Throws WithdrawalPolicyError if the
+   * destination is not (yet) allowed or the amount exceeds the rolling 24h limit for this token.
+   * The record is inserted before the window is summed, so concurrent requests see each other:
+   * only withdrawals created up to this one count, and one that lands over the limit is FAILED.
+   */
+  async reserve(userId: string, data: { tokenType: WithdrawalToken; amount: number; toAddress: string; source: 'SAFE' | 'EOA' }): Promise<string> {
+    const policy = await this.loadPolicy(userId);
+    this.assertAllowed(policy, userId, data.toAddress);
+
+    const doc = await Withdrawal.create({ userId, ...data, toAddress: data.toAddress.toLowerCase(), status: 'PENDING' });
+    const id = doc._id.toString();
+    const limit = policy.limits[limitKey(data.tokenType)];
+    if (limit !== undefined) {
+      const used = await this.usedInWindow(userId, data.tokenType, doc._id);
+      if (used > limit + 1e-9) {
+        const before = used - data.amount;
+        const message = `Daily ${data.tokenType} limit reached: ${before.toFixed(2)} of ${limit} used in the last 24h`;
+        await this.markFailed(id, message);
+        throw new WithdrawalPolicyError(message, 429);
+      }
+    }
+    return id;
+  }
+
+  /**
+   * Destination check only; also guards auto-cashout targets, which move funds without a withdraw call.
+   */
+  async assertDestinationAllowed(userId: string, toAddress: string): Promise<void> {
+    this.assertAllowed(await this.loadPolicy(userId), userId, toAddress);
+  }
+
+  async markSent(id: string, txHash: string): Promise<void> {
+    await Withdrawal.updateOne({ _id: id }, { status: 'SENT', txHash, updatedAt: new Date() });
+    this.trackConfirmation(id, txHash).catch(e => this.logger.warn(`[Withdrawals] Confirmation tracking failed for ${txHash}: ${e.message}`));
+  }
+
+  async markFailed(id: string, error: string): Promise<void> {
+    await Withdrawal.updateOne({ _id: id }, { status: 'FAILED', error, updatedAt: new Date() });
+  }
+
+  async getHistory(userId: string, limit = 50): Promise<WithdrawalRecord[]> {
+    const docs = await Withdrawal.find({ userId }).sort({ createdAt: -1 }).limit(limit).lean();
+    return docs.map(toRecord);
+  }
+
+  private async trackConfirmation(id: string, txHash: string) {
+    if (!this.provider || !/^0x[0-9a-fA-F]{64}$/.test(txHash)) return;
+    const receipt = await this.provider.waitForTransaction(txHash, 1, CONFIRMATION_TIMEOUT);
+    if (!receipt) return; // Still SENT; the vault tab shows it as unconfirmed
+    if (receipt.status === 1) {
+      await Withdrawal.updateOne({ _id: id }, { status: 'CONFIRMED', updatedAt: new Date() });
+    } else {
+      await this.markFailed(id, 'Transaction reverted');
+    }
+  }
+
+  private assertAllowed(policy: WithdrawalPolicy, userId: string, toAddress: string) {
+    const destination = toAddress.toLowerCase();
+    if (destination === userId) return;
+    const entry = policy.allowlist.find(e => e.address === destination);
+    if (!entry) throw new WithdrawalPolicyError('Destination is not on your withdrawal allowlist');
+    if (entry.activeAt > Date.now()) {
+      throw new WithdrawalPolicyError(`Destination is in its cooling period until ${new Date(entry.activeAt).toISOString()}`);
+    }
+  }
+
+  /**
+   * Sum of non-failed withdrawals in the window; with `upTo`, only those created up to that record.
+   */
+  private async usedInWindow(userId: string, tokenType: WithdrawalToken, upTo?: unknown): Promise<number> {
+    const rows = await Withdrawal.find({
+      userId,
+      tokenType,
+      status: { $ne: 'FAILED' },
+      createdAt: { $gte: new Date(Date.now() - LIMIT_WINDOW) },
+      ...(upTo ? { _id: { $lte: upTo } } : {})
+    }).select('amount').lean();
+    return rows.reduce((sum, r) => sum + (r.amount || 0), 0);
+  }
+
+  /**
+   * Reads the policy, promoting staged limits whose cooling period has elapsed.
+   */
+  private async loadPolicy(userId: string): Promise<WithdrawalPolicy> {
+    const user = await User.findOne({ address: userId }).select('withdrawalPolicy').lean();
+    const stored: any = user?.withdrawalPolicy || {};
+    const policy: WithdrawalPolicy = {
+      allowlist: stored.allowlist || [],
+      limits: normalizeWithdrawalLimits(stored.limits),
+      pendingLimits: stored.pendingLimits?.activeAt ? stored.pendingLimits : undefined
+    };
+
+    if (policy.pendingLimits && policy.pendingLimits.activeAt <= Date.now()) {
+      const { activeAt, ...limits } = policy.pendingLimits;
+      policy.limits = normalizeWithdrawalLimits(limits);
+      policy.pendingLimits = undefined;
+      await User.updateOne({ address: userId }, { $set: { 'withdrawalPolicy.limits': policy.limits }, $unset: { 'withdrawalPolicy.pendingLimits': 1 } });
+      this.logger.info(`[Withdrawals] Staged limits for ${userId} are now active (${new Date(activeAt).toISOString()})`);
+    }
+    return policy;
+  }
+}
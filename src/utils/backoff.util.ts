@@ -0,0 +1,6 @@
+/**
+ * Exponential reconnect delay shared by the CLOB sockets: 2s, 4s, 8s ... capped at maxDelay.
+ */
+export function reconnectDelay(attempt: number, maxDelay = 30000): number {
+  return Math.min(1000 * Math.pow(2, attempt), maxDelay);
+}
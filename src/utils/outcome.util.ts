@@ -0,0 +1,18 @@
+/**
+ * Outcome label for a data-api activity row. Binary markets report "Yes"/"No", multi-outcome
+ * and neg-risk events report the candidate/bucket name. Older rows without a label fall back
+ * to the binary index mapping.
+ */
+export function resolveOutcomeLabel(outcome: string | undefined, outcomeIndex: number | undefined): string {
+  const label = typeof outcome === 'string' ? outcome.trim() : '';
+  if (label) return label;
+  return outcomeIndex === 0 ? 'YES' : 'NO';
+}
+
+/**
+ * Case-insensitive label comparison ("Yes" from Gamma vs "YES" from older records).
+ */
+export function sameOutcome(a: string | undefined, b: string | undefined): boolean {
+  if (!a || !b) return false;
+  return a.trim().toUpperCase() === b.trim().toUpperCase();
+}
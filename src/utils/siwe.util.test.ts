@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { actionResource, buildSiweMessage, parseSiweMessage, SiweFields } from './siwe.util.js';
+
+const FIELDS: SiweFields = {
+  domain: 'app.example.com',
+  address: '0x52908400098527886E0F7030069857D2E4169EE7',
+  statement: 'Sign in to Bet Mirror',
+  uri: 'https://app.example.com',
+  version: '1',
+  chainId: 137,
+  nonce: 'a1b2c3d4e5',
+  issuedAt: '2025-01-01T00:00:00.000Z'
+};
+
+describe('SIWE messages', () => {
+  it('parses what it builds', () => {
+    const full: SiweFields = {
+      ...FIELDS,
+      expirationTime: '2025-01-01T00:10:00.000Z',
+      requestId: 'req-1',
+      resources: ['urn:betmirror:withdraw:0x01', 'https://app.example.com/terms']
+    };
+    expect(parseSiweMessage(buildSiweMessage(full))).toEqual(full);
+  });
+
+  it('checksums the address when building', () => {
+    const message = buildSiweMessage({ ...FIELDS, address: FIELDS.address.toLowerCase() });
+    expect(message.split('\n')[1]).toBe(FIELDS.address);
+  });
+
+  it('treats the statement and optional fields as absent when left out', () => {
+    const parsed = parseSiweMessage(buildSiweMessage({ ...FIELDS, statement: undefined }));
+    expect(parsed.statement).toBeUndefined();
+    expect(parsed.expirationTime).toBeUndefined();
+    expect(parsed.resources).toBeUndefined();
+    expect(parsed.nonce).toBe(FIELDS.nonce);
+  });
+
+  it('rejects malformed messages', () => {
+    const lines = buildSiweMessage(FIELDS).split('\n');
+    const withLine = (index: number, line: string) => lines.map((l, i) => (i === index ? line : l)).join('\n');
+
+    expect(() => parseSiweMessage(withLine(0, 'Sign in please'))).toThrow('header');
+    expect(() => parseSiweMessage(withLine(1, '0x1234'))).toThrow('address');
+    expect(() => parseSiweMessage(lines.map(l => (l.startsWith('Version: ') ? 'Version: 2' : l)).join('\n'))).toThrow('fields');
+    expect(() => parseSiweMessage(lines.filter(l => !l.startsWith('Nonce: ')).join('\n'))).toThrow('fields');
+  });
+});
+
+describe('actionResource', () => {
+  it('ignores key order and undefined values', () => {
+    expect(actionResource('withdraw', { amount: 5, to: '0xabc' })).toBe(actionResource('withdraw', { to: '0xabc', amount: 5, memo: undefined }));
+  });
+
+  it('binds the action and every payload value', () => {
+    const resource = actionResource('withdraw', { amount: 5, to: '0xabc' });
+    expect(resource).toMatch(/^urn:betmirror:withdraw:0x[0-9a-f]{64}$/);
+    expect(actionResource('withdraw', { amount: 6, to: '0xabc' })).not.toBe(resource);
+    expect(actionResource('withdraw', { amount: 5, to: '0xabc', nested: { a: [1, 2] } })).not.toBe(resource);
+  });
+});
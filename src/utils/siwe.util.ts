@@ -0,0 +1,101 @@
+import { getAddress, id } from 'ethers';
+
+/**
+ * Minimal EIP-4361 (Sign-In with Ethereum) message builder/parser.
+ * Shared by the dashboard (to build) and the server (to verify), so no Node-only imports here.
+ */
+export interface SiweFields {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: '1';
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+export function buildSiweMessage(fields: SiweFields): string {
+  const lines = [
+    `${fields.domain} wants you to sign in with your Ethereum account:`,
+    getAddress(fields.address),
+    ''
+  ];
+  if (fields.statement) lines.push(fields.statement, '');
+  lines.push(
+    `URI: ${fields.uri}`,
+    `Version: ${fields.version}`,
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`
+  );
+  if (fields.expirationTime) lines.push(`Expiration Time: ${fields.expirationTime}`);
+  if (fields.requestId) lines.push(`Request ID: ${fields.requestId}`);
+  if (fields.resources && fields.resources.length > 0) {
+    lines.push('Resources:', ...fields.resources.map(r => `- ${r}`));
+  }
+  return lines.join('\n');
+}
+
+export function parseSiweMessage(message: string): SiweFields {
+  const lines = message.split('\n');
+  const header = lines[0]?.match(/^(.+) wants you to sign in with your Ethereum account:$/);
+  if (!header) throw new Error('Malformed SIWE message: header');
+  const address = lines[1]?.trim();
+  if (!address || !/^0x[a-fA-F0-9]{40}$/.test(address)) throw new Error('Malformed SIWE message: address');
+
+  const field = (name: string): string | undefined => {
+    const line = lines.find(l => l.startsWith(`${name}: `));
+    return line ? line.slice(name.length + 2) : undefined;
+  };
+
+  // Statement is the optional single line between the blank line after the address and "URI:"
+  const uriIndex = lines.findIndex(l => l.startsWith('URI: '));
+  const statement = uriIndex > 3 ? lines[3] : undefined;
+
+  const resourcesIndex = lines.indexOf('Resources:');
+  const resources = resourcesIndex >= 0
+    ? lines.slice(resourcesIndex + 1).filter(l => l.startsWith('- ')).map(l => l.slice(2))
+    : undefined;
+
+  const uri = field('URI');
+  const version = field('Version');
+  const chainId = Number(field('Chain ID'));
+  const nonce = field('Nonce');
+  const issuedAt = field('Issued At');
+  if (!uri || version !== '1' || !chainId || !nonce || !issuedAt) throw new Error('Malformed SIWE message: fields');
+
+  return {
+    domain: header[1],
+    address,
+    statement,
+    uri,
+    version: '1',
+    chainId,
+    nonce,
+    issuedAt,
+    expirationTime: field('Expiration Time'),
+    requestId: field('Request ID'),
+    resources
+  };
+}
+
+const stableStringify = (value: any): string => {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value ?? null);
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  return `{${Object.keys(value)
+    .filter(k => value[k] !== undefined)
+    .sort()
+    .map(k => `${JSON.stringify(k)}:${stableStringify(value[k])}`)
+    .join(',')}}`;
+};
+
+/**
+ * Resource URI that binds a per-request signature to one action and its exact payload.
+ */
+export function actionResource(action: string, payload: Record<string, any>): string {
+  return `urn:betmirror:${action}:${id(stableStringify(payload))}`;
+}
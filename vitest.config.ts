@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// Kept apart from vite.config.ts so the dashboard's browser plugins stay out of unit tests
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node'
+  }
+});